@@ -18,6 +18,7 @@ export interface CaClient {
   pan?: string;
   address?: string;
   state_code?: string;
+  /** The year the client's books are open for, e.g. "2025-26"; moved on by the year-end rollover. */
   financial_year?: string;
   phones?: Array<{ number: string; label: string; branch_id?: string }>;
   created_at: string;
@@ -31,9 +32,37 @@ export interface CaBranch {
   address?: string;
   state_code?: string;
   phone_numbers: string[];
+  /** Tally cost centre the branch's vouchers are allocated to on export. */
+  tally_cost_centre?: string;
+  /** Tally godown stock items on the branch's vouchers are booked in. */
+  tally_godown?: string;
   created_at: string;
 }
 
+export type BranchInput = Pick<CaBranch, 'name' | 'address' | 'state_code' | 'tally_cost_centre' | 'tally_godown'>;
+
+/**
+ * A filed period for one client. Invoices booked in it are read-only and
+ * can't be approved or exported again until it is unlocked.
+ */
+export interface PeriodLock {
+  id: string;
+  client_id: string;
+  period_type: 'month' | 'quarter';
+  /** "2025-04" for a month; "2025-Q1" for the first quarter of FY 2025–26. */
+  period: string;
+  start_date: string;
+  end_date: string;
+  /** What was filed, e.g. "GSTR-1 filed". */
+  note?: string;
+  locked_at: string;
+  locked_by?: string;
+  /** Set once lifted; the record stays as the audit trail. */
+  unlocked_at?: string;
+  unlocked_by?: string;
+  unlock_reason?: string;
+}
+
 export interface AdditionalCharges {
   service_charge: number;
   service_charge_rate: number;
@@ -60,6 +89,11 @@ export interface CaInvoice {
   supply_type: string;
   reverse_charge: boolean;
   voucher_type: string;
+  /** Credit/debit notes only: whether the note adjusts a sale or a purchase. */
+  note_side?: 'sales' | 'purchase';
+  /** Credit/debit notes only: the bill being adjusted. */
+  original_invoice?: OriginalInvoiceRef;
+  note_reason?: string;
   seller_name: string;
   seller_gstin?: string;
   seller_state_code?: string;
@@ -72,20 +106,111 @@ export interface CaInvoice {
   additional_charges?: AdditionalCharges;
   discount?: InvoiceDiscount;
   totals: InvoiceTotals;
-  status: 'pending_user_confirmation' | 'pending_review' | 'approved' | 'rejected' | 'exported';
+  /** TDS deducted from (purchases) or TCS collected on (sales) this invoice; null once reviewed as not applicable. */
+  withholding?: InvoiceWithholding | null;
+  /** "YYYY-MM" the invoice is booked in — its own month unless it arrived after that month was locked. */
+  booking_period?: string;
+  /** The locked period a late invoice belongs to by date; it is booked in `booking_period` instead. */
+  routed_from?: Pick<PeriodLock, 'period_type' | 'period'>;
+  /** Present while the invoice's booking period is locked. */
+  period_lock?: Pick<PeriodLock, 'id' | 'period_type' | 'period' | 'note'>;
+  /** Set once the e-invoice QR on the document has been read. */
+  einvoice?: EinvoiceDetails;
+  status: 'pending_user_confirmation' | 'pending_review' | 'awaiting_client_reply' | 'approved' | 'rejected' | 'exported';
   client_id?: string;
   client_name?: string;
+  /** Vendor master entry the seller was matched to, by GSTIN or alias. */
+  vendor_id?: string;
+  /** Branch of the sender's phone when the invoice arrived; kept if the phone later moves. */
+  branch_id?: string;
+  branch_name?: string;
   sender_phone: string;
   confidence_score: number;
+  /**
+   * Per-field extraction confidence and source location, keyed by field path:
+   * `invoice_number`, `seller_gstin`, `line_items.0.hsn_sac_code`, `totals.round_off`.
+   */
+  field_confidence?: Record<string, FieldEvidence>;
   extraction_notes?: string;
+  rejection?: InvoiceRejection;
+  /** Clarification threads raised on this invoice, open or closed. */
+  query_count?: number;
   media_file_ids?: string[];
   wa_message_id?: string;
   wa_confirmed?: boolean;
   wa_confirmed_at?: string;
+  /** Set when an auto-approval rule approved the invoice on arrival. */
+  auto_approval?: AutoApprovalRef;
+  /** Latest approval-workflow stage signed off; absent until the first sign-off. */
+  approval_stage?: ApprovalStage;
+  /** Oldest first. A save that changes the invoice's data clears them, so what was signed is what gets exported. */
+  signoffs?: StageSignoff[];
   created_at: string;
   updated_at: string;
 }
 
+/** Region of a source page, as fractions (0–1) of the page width and height. */
+export interface FieldBox {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FieldEvidence {
+  confidence: number;
+  box?: FieldBox;
+}
+
+export interface InvoiceRejection {
+  reason_code: string;
+  reason_label: string;
+  note?: string;
+  rejected_by?: string;
+  rejected_at: string;
+  /** Set once the templated WhatsApp reply has gone out to the sender. */
+  notified_at?: string;
+}
+
+export interface OriginalInvoiceRef {
+  /** Set when the original is an invoice we hold. */
+  invoice_id?: string;
+  invoice_number: string;
+  invoice_date: string;
+}
+
+export interface EinvoiceDetails {
+  irn: string;
+  /** "YYYY-MM-DD HH:mm:ss", as signed by the IRP. */
+  irn_date?: string;
+  /** Printed on the invoice next to the QR; not part of the signed payload. */
+  ack_no?: string;
+  ack_date?: string;
+  /** The raw signed JWT from the QR. */
+  signed_qr: string;
+  /** Checked server-side against the IRP's public key; absent until checked. */
+  signature_valid?: boolean;
+  verified_at?: string;
+}
+
+export type WithholdingKind = 'tds' | 'tcs';
+
+/** Derived from the 4th character of the party's PAN. */
+export type DeducteeType = 'individual' | 'huf' | 'company' | 'firm' | 'other';
+
+export interface InvoiceWithholding {
+  kind: WithholdingKind;
+  /** Income-tax Act section, e.g. "194C", "194J(b)", "206C(1)". */
+  section: string;
+  deductee_type?: DeducteeType;
+  /** Percent. */
+  rate: number;
+  /** Amount the rate applies to — taxable value excluding GST for TDS. */
+  base_amount: number;
+  amount: number;
+}
+
 export interface InvoiceLineItem {
   description: string;
   hsn_sac_code: string;
@@ -99,6 +224,10 @@ export interface InvoiceLineItem {
   igst_amount: number;
   cess_amount: number;
   total_amount: number;
+  /** Expense or purchase ledger the line posts to; absent → the rate-slab ledger. */
+  ledger?: string;
+  /** The classification rule that set `ledger`; absent when it was picked by hand. */
+  ledger_rule?: LedgerRuleRef;
 }
 
 export interface InvoiceTotals {
@@ -110,6 +239,11 @@ export interface InvoiceTotals {
   round_off: number;
   grand_total: number;
   amount_in_words?: string;
+  /**
+   * How these amounts move the books: -1 on credit notes (they reverse the
+   * original's value and GST), +1 otherwise. Amounts themselves stay positive.
+   */
+  direction?: 1 | -1;
 }
 
 export interface UnknownSender {
@@ -147,20 +281,32 @@ export interface ClientBreakdownRow {
   invoice_date_max: string | null;
 }
 
+export interface GstSummary {
+  cgst_total: number;
+  sgst_total: number;
+  igst_total: number;
+  total_gst: number;
+}
+
 export interface DashboardOverview {
   kpis: {
     total_invoices: number;
     pending_review: number;
     total_amount: number;
     active_clients: number;
+    /** Invoices with a clarification question out to the client. */
+    open_queries?: number;
+    /** Of those, how many the client has already replied to. */
+    answered_queries?: number;
+    /** Pending invoices by the stage they wait at; present while the approval workflow is on. */
+    pending_by_stage?: Partial<Record<ApprovalStage, number>>;
   };
   status_breakdown: Array<{ status: string; count: number; label: string }>;
   invoice_trend: Array<{ date: string; count: number }>;
-  gst_summary: {
-    cgst_total: number;
-    sgst_total: number;
-    igst_total: number;
-    total_gst: number;
+  /** Invoices only; notes are reported separately so the net can be shown. */
+  gst_summary: GstSummary & {
+    credit_notes?: GstSummary & { count: number };
+    debit_notes?: GstSummary & { count: number };
   };
   action_items: Array<{
     type: string;
@@ -168,6 +314,8 @@ export interface DashboardOverview {
     label: string;
     severity: 'error' | 'warning' | 'info';
     tab: string;
+    /** Extra navigation detail for the target tab, e.g. { view: 'duplicates' }. */
+    params?: Record<string, unknown>;
   }>;
   recent_invoices: Array<{
     id: string;
@@ -182,32 +330,48 @@ export interface DashboardOverview {
     queue_stats: Record<string, number>;
     blocked_phones_count: number;
     last_message_at: string | null;
+    /** Unprocessed dead-letter items (failed media extractions etc.). */
+    dlq_count?: number;
   };
   client_breakdown: ClientBreakdownRow[];
   approval_rate: number | null;
 }
 
+export interface DlqRetryAttempt {
+  at: string;
+  actor?: string;
+  outcome: 'queued' | 'failed' | 'succeeded';
+  error?: string;
+}
+
 export interface DlqItem {
   id: string;
   operation: string;
   error: string;
   sender_phone: string;
+  sender_name?: string;
+  client_id?: string;
+  client_name?: string;
   wa_message_id: string;
   media_id: string;
   status: 'unprocessed' | 'pending_reprocess' | 'dismissed';
   retry_count: number;
+  retry_history?: DlqRetryAttempt[];
   created_at: string;
+  updated_at?: string;
 }
 
 // ─── Dashboard ─────────────────────────────────────────────────────
 
-async function getDashboardStats(): Promise<DashboardStats> {
-  const resp = await apiClient.get('/api/dashboard/stats');
+/** `financial_year` ("2025-26") scopes counts and totals to that year; omitted, all years. */
+async function getDashboardStats(params?: { financial_year?: string }): Promise<DashboardStats> {
+  const resp = await apiClient.get('/api/dashboard/stats', { params });
   return resp.data?.data || resp.data;
 }
 
-async function getDashboardOverview(): Promise<DashboardOverview> {
-  const resp = await apiClient.get('/api/dashboard/overview');
+/** For a past `financial_year` the trend covers its last 30 days rather than today's. */
+async function getDashboardOverview(params?: { financial_year?: string }): Promise<DashboardOverview> {
+  const resp = await apiClient.get('/api/dashboard/overview', { params });
   return resp.data?.data || resp.data;
 }
 
@@ -260,12 +424,337 @@ async function listBranches(clientId: string): Promise<CaBranch[]> {
 
 async function createBranch(
   clientId: string,
-  data: { name: string; address?: string; state_code?: string }
+  data: Partial<BranchInput> & { name: string }
 ): Promise<CaBranch> {
   const resp = await apiClient.post(`/api/clients/${clientId}/branches`, data);
   return resp.data?.data || resp.data;
 }
 
+async function updateBranch(clientId: string, branchId: string, data: Partial<BranchInput>): Promise<CaBranch> {
+  const resp = await apiClient.put(`/api/clients/${clientId}/branches/${branchId}`, data);
+  return resp.data?.data || resp.data;
+}
+
+/** Its phones stay with the client without a branch; its invoices lose their branch tag. */
+async function deleteBranch(clientId: string, branchId: string): Promise<void> {
+  await apiClient.delete(`/api/clients/${clientId}/branches/${branchId}`);
+}
+
+/** Move a branch's phones and invoices into another branch of the same client, then delete it. */
+async function mergeBranch(
+  clientId: string,
+  branchId: string,
+  intoBranchId: string
+): Promise<{ phones_moved: number; invoices_moved: number }> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/branches/${branchId}/merge`, {
+    into_branch_id: intoBranchId,
+  });
+  return resp.data?.data || resp.data;
+}
+
+/** One client in a bulk import: a new client, or the changes to an existing one. */
+export interface ClientImportEntry {
+  /** Existing client to update; a new client is created when omitted. */
+  client_id?: string;
+  name: string;
+  gstin?: string;
+  pan?: string;
+  address?: string;
+  state_code?: string;
+  financial_year?: string;
+  /** Branches to create. */
+  branches: Array<{ name: string; address?: string; state_code?: string }>;
+  /** Phones to add; `branch` names one of `branches` or a branch the client already has. */
+  phones: Array<{ phone_number: string; label?: string; branch?: string }>;
+}
+
+export interface ClientImportResult {
+  created: number;
+  updated: number;
+  phones_added: number;
+  branches_created: number;
+  /** Entries that failed, by position in the request; the rest are applied. */
+  errors: Array<{ index: number; name: string; message: string }>;
+}
+
+async function importClients(clients: ClientImportEntry[]): Promise<ClientImportResult> {
+  const resp = await apiClient.post('/api/clients/import', { clients });
+  return resp.data?.data || resp.data;
+}
+
+// ─── Vendors ───────────────────────────────────────────────────────
+
+/**
+ * How a vendor's bills are treated for GST by default:
+ *   regular        — registered, ITC claimed through the tax ledgers
+ *   composition    — composition dealer, charges no GST and gives no ITC
+ *   unregistered   — no GSTIN
+ *   reverse_charge — the client pays the GST (RCM), so bills default to reverse charge
+ */
+export type VendorGstTreatment = 'regular' | 'composition' | 'unregistered' | 'reverse_charge';
+
+/**
+ * A supplier in one client's books. Registered vendors are keyed by GSTIN;
+ * `name` is the canonical name used as the party ledger in Tally, and any
+ * seller name matching an alias is normalized to it when an invoice is
+ * extracted.
+ */
+export interface CaVendor {
+  id: string;
+  client_id: string;
+  gstin?: string;
+  name: string;
+  aliases: string[];
+  /** Tally ledger purchases from this vendor post to, instead of the rate-slab ledger. */
+  purchase_ledger?: string;
+  gst_treatment?: VendorGstTreatment;
+  invoice_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type VendorInput = Pick<CaVendor, 'name' | 'gstin' | 'aliases' | 'purchase_ledger' | 'gst_treatment'>;
+
+async function listVendors(clientId: string, params?: { search?: string }): Promise<CaVendor[]> {
+  const resp = await apiClient.get(`/api/clients/${clientId}/vendors`, { params });
+  return resp.data?.data || [];
+}
+
+async function createVendor(clientId: string, data: VendorInput): Promise<CaVendor> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/vendors`, data);
+  return resp.data?.data || resp.data;
+}
+
+/** Renaming also renames the seller on the vendor's invoices that haven't been exported. */
+async function updateVendor(clientId: string, vendorId: string, data: Partial<VendorInput>): Promise<CaVendor> {
+  const resp = await apiClient.put(`/api/clients/${clientId}/vendors/${vendorId}`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function deleteVendor(clientId: string, vendorId: string): Promise<void> {
+  await apiClient.delete(`/api/clients/${clientId}/vendors/${vendorId}`);
+}
+
+/**
+ * Fold vendors into `intoVendorId`: their names and aliases become its aliases
+ * and their invoices are relinked to it, then they are deleted.
+ */
+async function mergeVendors(
+  clientId: string,
+  intoVendorId: string,
+  vendorIds: string[]
+): Promise<{ invoices_relinked: number }> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/vendors/${intoVendorId}/merge`, {
+    vendor_ids: vendorIds,
+  });
+  return resp.data?.data || resp.data;
+}
+
+// ─── Ledger Rules ──────────────────────────────────────────────────
+
+/**
+ * What a classification rule looks at on a purchase line:
+ *   vendor     — the invoice's vendor master entry (`value` is the vendor id)
+ *   hsn_prefix — leading digits of the HSN/SAC code, e.g. "9967" for transport
+ *   keyword    — a word or phrase in the line description, case-insensitive
+ */
+export type LedgerRuleMatch = 'vendor' | 'hsn_prefix' | 'keyword';
+
+/**
+ * Sends matching purchase lines of one client to an expense or purchase
+ * ledger. Rules run on extraction, highest priority first; `learned` rules
+ * come from reviewers changing a line's ledger and start below manual ones.
+ */
+export interface LedgerRule {
+  id: string;
+  client_id: string;
+  match: LedgerRuleMatch;
+  value: string;
+  /** Vendor rules only. */
+  vendor_name?: string;
+  ledger: string;
+  priority: number;
+  source: 'manual' | 'learned';
+  enabled: boolean;
+  /** Lines the rule has classified. */
+  hit_count?: number;
+  /** Reviewer corrections that taught or confirmed a learned rule. */
+  learned_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LedgerRuleRef = Pick<LedgerRule, 'id' | 'match' | 'value' | 'source'> & { vendor_name?: string };
+
+export type LedgerRuleInput = Pick<LedgerRule, 'match' | 'value' | 'ledger' | 'priority' | 'enabled'>;
+
+/** A reviewer's ledger change on one line, with the rule proposed from it. */
+export interface LedgerCorrection {
+  invoice_id: string;
+  line_index: number;
+  match: LedgerRuleMatch;
+  value: string;
+  ledger: string;
+}
+
+async function listLedgerRules(clientId: string): Promise<LedgerRule[]> {
+  const resp = await apiClient.get(`/api/clients/${clientId}/ledger-rules`);
+  return resp.data?.data || [];
+}
+
+async function createLedgerRule(clientId: string, data: LedgerRuleInput): Promise<LedgerRule> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/ledger-rules`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function updateLedgerRule(clientId: string, ruleId: string, data: Partial<LedgerRuleInput>): Promise<LedgerRule> {
+  const resp = await apiClient.put(`/api/clients/${clientId}/ledger-rules/${ruleId}`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function deleteLedgerRule(clientId: string, ruleId: string): Promise<void> {
+  await apiClient.delete(`/api/clients/${clientId}/ledger-rules/${ruleId}`);
+}
+
+/**
+ * Record reviewer corrections. A correction matching an existing learned rule
+ * confirms it; one that contradicts it repoints the rule to the new ledger.
+ * Returns the rules created or changed.
+ */
+async function learnLedgerRules(clientId: string, corrections: LedgerCorrection[]): Promise<LedgerRule[]> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/ledger-rules/learn`, { corrections });
+  return resp.data?.data || [];
+}
+
+// ─── Auto-Approval Rules ───────────────────────────────────────────
+
+/**
+ * What an invoice must satisfy for a rule to approve it. Unset conditions
+ * are not checked; every set one must hold.
+ */
+export interface AutoApprovalConditions {
+  /** Seller GSTINs the rule trusts; empty or unset means any seller. */
+  vendor_gstins?: string[];
+  /** 0–1, compared with `confidence_score`. */
+  min_confidence?: number;
+  min_grand_total?: number;
+  max_grand_total?: number;
+  require_wa_confirmed?: boolean;
+  /** No GSTIN, HSN or total-mismatch outliers on the invoice. */
+  require_no_outliers?: boolean;
+}
+
+/**
+ * Approves a client's incoming invoices without review. Rules are evaluated
+ * server-side when an invoice arrives (and again when it is confirmed on
+ * WhatsApp), highest priority first; the first match approves. Invoices in a
+ * locked period, probable duplicates and notes are never auto-approved.
+ */
+export interface AutoApprovalRule {
+  id: string;
+  client_id: string;
+  name: string;
+  conditions: AutoApprovalConditions;
+  priority: number;
+  enabled: boolean;
+  /** Invoices the rule has approved. */
+  approved_count?: number;
+  last_approved_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AutoApprovalRuleInput = Pick<AutoApprovalRule, 'name' | 'conditions' | 'priority' | 'enabled'>;
+
+export interface AutoApprovalRef {
+  rule_id: string;
+  rule_name: string;
+  approved_at: string;
+}
+
+/** What one rule would have done to a client's past invoices. */
+export interface AutoApprovalSimulationRow {
+  /** Absent for the unsaved draft rule. */
+  rule_id?: string;
+  rule_name: string;
+  /** Past invoices the rule's conditions hold for. */
+  matched: number;
+  /** Of those, the ones it would have approved — earlier rules take the rest. */
+  would_approve: number;
+  /** Of those, invoices a reviewer rejected or edited before approving. */
+  rejected: number;
+  edited: number;
+  would_approve_total: number;
+  /** A few of the rejected or edited invoices, to check the rule against. */
+  sample_invoice_ids: string[];
+}
+
+export interface AutoApprovalSimulation {
+  date_from: string;
+  date_to: string;
+  /** Invoices in range, whatever their status. */
+  invoice_count: number;
+  rows: AutoApprovalSimulationRow[];
+}
+
+async function listAutoApprovalRules(clientId: string): Promise<AutoApprovalRule[]> {
+  const resp = await apiClient.get(`/api/clients/${clientId}/auto-approval-rules`);
+  return resp.data?.data || [];
+}
+
+async function createAutoApprovalRule(clientId: string, data: AutoApprovalRuleInput): Promise<AutoApprovalRule> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/auto-approval-rules`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function updateAutoApprovalRule(
+  clientId: string,
+  ruleId: string,
+  data: Partial<AutoApprovalRuleInput>
+): Promise<AutoApprovalRule> {
+  const resp = await apiClient.put(`/api/clients/${clientId}/auto-approval-rules/${ruleId}`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function deleteAutoApprovalRule(clientId: string, ruleId: string): Promise<void> {
+  await apiClient.delete(`/api/clients/${clientId}/auto-approval-rules/${ruleId}`);
+}
+
+/**
+ * Replay the client's saved rules, plus an optional unsaved `draft`, over
+ * invoices received in the date range as if they had just arrived. Nothing
+ * is changed. The draft takes its place among the saved rules by priority;
+ * when it is an edit, `draft_replaces` names the saved rule it stands in for.
+ */
+async function simulateAutoApprovalRules(
+  clientId: string,
+  params: { date_from?: string; date_to?: string; draft?: AutoApprovalRuleInput; draft_replaces?: string }
+): Promise<AutoApprovalSimulation> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/auto-approval-rules/simulate`, params);
+  return resp.data?.data || resp.data;
+}
+
+// ─── Period Locks ──────────────────────────────────────────────────
+
+/** Active and lifted locks, newest first. */
+async function listPeriodLocks(clientId: string): Promise<PeriodLock[]> {
+  const resp = await apiClient.get(`/api/clients/${clientId}/period-locks`);
+  return resp.data?.data || [];
+}
+
+async function lockPeriod(
+  clientId: string,
+  data: { period_type: PeriodLock['period_type']; period: string; note?: string }
+): Promise<PeriodLock> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/period-locks`, data);
+  return resp.data?.data || resp.data;
+}
+
+async function unlockPeriod(clientId: string, lockId: string, reason: string): Promise<PeriodLock> {
+  const resp = await apiClient.post(`/api/clients/${clientId}/period-locks/${lockId}/unlock`, { reason });
+  return resp.data?.data || resp.data;
+}
+
 // ─── Unknown Senders ───────────────────────────────────────────────
 
 async function listUnknownSenders(status: string = 'pending'): Promise<UnknownSender[]> {
@@ -284,15 +773,63 @@ async function ignoreUnknownSender(senderId: string): Promise<void> {
   await apiClient.post(`/api/unknown-senders/${senderId}/ignore`);
 }
 
+/**
+ * Why a client was suggested for an unknown sender:
+ *   buyer_gstin  — invoices from this phone are billed to the client's GSTIN
+ *   buyer_pan    — billed to another GSTIN under the client's PAN (a new state registration)
+ *   name         — sender name resembles the client or branch name
+ *   phone_prefix — the number shares its leading digits with one of the client's phones
+ */
+export type SenderMatchReason = 'buyer_gstin' | 'buyer_pan' | 'name' | 'phone_prefix';
+
+export interface SenderSuggestion {
+  client_id: string;
+  client_name: string;
+  branch_id?: string;
+  branch_name?: string;
+  /** 0–1, highest first. */
+  score: number;
+  reasons: Array<{ reason: SenderMatchReason; detail: string }>;
+}
+
+/** Buyer details most often extracted from the sender's invoices, for prefilling a new client. */
+export interface SenderBuyerDetails {
+  name: string;
+  gstin?: string;
+  state_code?: string;
+  address?: string;
+  invoice_count: number;
+}
+
+export interface SenderSuggestions {
+  suggestions: SenderSuggestion[];
+  buyer?: SenderBuyerDetails;
+}
+
+async function getSenderSuggestions(senderId: string): Promise<SenderSuggestions> {
+  const resp = await apiClient.get(`/api/unknown-senders/${senderId}/suggestions`);
+  const data = resp.data?.data || resp.data;
+  return { suggestions: data?.suggestions || [], buyer: data?.buyer || undefined };
+}
+
 // ─── Invoices ──────────────────────────────────────────────────────
 
 async function listInvoices(
   params?: {
     client_id?: string;
+    branch_id?: string;
     status?: string;
     date_from?: string;
     date_to?: string;
+    /** "2025-26": invoices dated (or, with `by_booking_period`, booked) in that year, plus undated ones. */
+    financial_year?: string;
     search?: string;
+    /** Only invoices routed to a later period because theirs was locked. */
+    late_only?: boolean;
+    /** Match `date_from`/`date_to` against the booking period, as exports do, instead of the invoice date. */
+    by_booking_period?: boolean;
+    /** Only invoices whose next stage to sign off is this one. */
+    pending_stage?: ApprovalStage;
     limit?: number;
     offset?: number;
     sort_by?: string;
@@ -312,23 +849,259 @@ async function updateInvoice(invoiceId: string, data: Partial<CaInvoice>): Promi
   await apiClient.put(`/api/invoices/${invoiceId}`, data);
 }
 
-async function approveInvoice(invoiceId: string): Promise<void> {
-  await apiClient.post(`/api/invoices/${invoiceId}/approve`);
+/**
+ * Sign off the invoice's next approval stage as the signed-in staff member;
+ * with the workflow off, or at its final stage, the invoice becomes
+ * `approved`. Pass the `stage` being signed so that a stage someone else
+ * signed in the meantime is refused rather than skipped past. The backend
+ * refuses a stage the caller's role may not sign.
+ */
+async function approveInvoice(invoiceId: string, stage?: ApprovalStage): Promise<void> {
+  await apiClient.post(`/api/invoices/${invoiceId}/approve`, stage ? { stage } : undefined);
 }
 
-async function rejectInvoice(invoiceId: string): Promise<void> {
-  await apiClient.post(`/api/invoices/${invoiceId}/reject`);
+export interface RejectInvoicePayload {
+  reason_code: string;
+  note?: string;
+  /** Reply to the sender on WhatsApp; the backend also logs it in their conversation. */
+  notify_sender: boolean;
+  /** Message template with {invoice_number}-style placeholders, filled per invoice by the backend. */
+  message_template?: string;
 }
 
-async function bulkApproveInvoices(invoiceIds: string[]): Promise<{ modified_count: number }> {
+async function rejectInvoice(invoiceId: string, payload?: RejectInvoicePayload): Promise<void> {
+  await apiClient.post(`/api/invoices/${invoiceId}/reject`, payload);
+}
+
+/**
+ * Sign off each invoice's next stage, as `approveInvoice` does. Invoices whose
+ * next stage the caller's role may not sign are left as they are and counted
+ * in `skipped_count`.
+ */
+async function bulkApproveInvoices(invoiceIds: string[]): Promise<{ modified_count: number; skipped_count?: number }> {
   const resp = await apiClient.post('/api/invoices/bulk-approve', invoiceIds);
   return resp.data;
 }
 
+async function bulkRejectInvoices(
+  invoiceIds: string[],
+  payload: RejectInvoicePayload,
+): Promise<{ modified_count: number; notified_count: number }> {
+  const resp = await apiClient.post('/api/invoices/bulk-reject', { invoice_ids: invoiceIds, ...payload });
+  return resp.data?.data || resp.data;
+}
+
+// ─── Approval Workflow ─────────────────────────────────────────────
+
+/** Maker-checker sign-off stages, in order. `approved` is always the last. */
+export type ApprovalStage = 'prepared' | 'reviewed' | 'approved';
+
+export type StaffRole = 'article' | 'accountant' | 'manager' | 'partner';
+
+export interface ApprovalStageConfig {
+  stage: ApprovalStage;
+  /** A disabled stage is skipped; `approved` cannot be disabled. */
+  enabled: boolean;
+  /** Roles allowed to sign the stage off. */
+  roles: StaffRole[];
+}
+
+/**
+ * The firm's sign-off workflow. Turned off, approval is the single step it
+ * always was and anyone may approve.
+ */
+export interface ApprovalWorkflow {
+  enabled: boolean;
+  stages: ApprovalStageConfig[];
+  /** One person may not sign two stages of the same invoice. */
+  require_distinct_signers: boolean;
+  updated_by?: string;
+  updated_at?: string;
+}
+
+export type ApprovalWorkflowInput = Pick<ApprovalWorkflow, 'enabled' | 'stages' | 'require_distinct_signers'>;
+
+export interface StageSignoff {
+  stage: ApprovalStage;
+  by: string;
+  role: StaffRole;
+  at: string;
+}
+
+/** The signed-in staff member, as the backend knows them. */
+export interface StaffMember {
+  email: string;
+  name?: string;
+  role: StaffRole;
+}
+
+/** `me` is null when the signed-in account has no staff role. */
+async function getApprovalWorkflow(): Promise<{ workflow: ApprovalWorkflow; me: StaffMember | null }> {
+  const resp = await apiClient.get('/api/settings/approval-workflow');
+  return resp.data?.data || resp.data;
+}
+
+/**
+ * Changing stages doesn't touch existing sign-offs: an invoice whose last
+ * signed stage was removed waits at the next one still enabled.
+ */
+async function saveApprovalWorkflow(workflow: ApprovalWorkflowInput): Promise<ApprovalWorkflow> {
+  const resp = await apiClient.put('/api/settings/approval-workflow', workflow);
+  return resp.data?.data || resp.data;
+}
+
+// ─── Client Queries ────────────────────────────────────────────────
+
+export interface InvoiceQueryMessage {
+  id: string;
+  direction: 'outgoing' | 'incoming';
+  text: string;
+  at: string;
+  author?: string;
+  wa_message_id?: string;
+  media_url?: string;
+}
+
+export interface InvoiceQuery {
+  id: string;
+  invoice_id: string;
+  question: string;
+  status: 'open' | 'answered' | 'closed';
+  asked_by?: string;
+  asked_at: string;
+  closed_at?: string;
+  messages: InvoiceQueryMessage[];
+}
+
+async function listInvoiceQueries(invoiceId: string): Promise<InvoiceQuery[]> {
+  const resp = await apiClient.get(`/api/invoices/${invoiceId}/queries`);
+  return resp.data?.data || [];
+}
+
+/** Sends the question on WhatsApp and moves the invoice to `awaiting_client_reply`. */
+async function askClient(invoiceId: string, question: string): Promise<InvoiceQuery> {
+  const resp = await apiClient.post(`/api/invoices/${invoiceId}/queries`, { question });
+  return resp.data?.data || resp.data;
+}
+
+async function sendQueryMessage(invoiceId: string, queryId: string, text: string): Promise<InvoiceQueryMessage> {
+  const resp = await apiClient.post(`/api/invoices/${invoiceId}/queries/${queryId}/messages`, { text });
+  return resp.data?.data || resp.data;
+}
+
+/** Closes the thread; the invoice goes back to `pending_review` once no query is open. */
+async function closeInvoiceQuery(invoiceId: string, queryId: string): Promise<void> {
+  await apiClient.post(`/api/invoices/${invoiceId}/queries/${queryId}/close`);
+}
+
+// ─── Rejection Reasons ─────────────────────────────────────────────
+
+export interface RejectionReason {
+  code: string;
+  label: string;
+  /** WhatsApp reply sent to the sender. */
+  message: string;
+}
+
+export interface RejectionReportRow {
+  client_id: string;
+  client_name: string;
+  total: number;
+  by_reason: Record<string, number>;
+}
+
+async function getRejectionReasons(): Promise<RejectionReason[]> {
+  const resp = await apiClient.get('/api/settings/rejection-reasons');
+  return resp.data?.data || [];
+}
+
+async function saveRejectionReasons(reasons: RejectionReason[]): Promise<void> {
+  await apiClient.put('/api/settings/rejection-reasons', { reasons });
+}
+
+async function getRejectionReport(params?: {
+  client_id?: string;
+  date_from?: string;
+  date_to?: string;
+}): Promise<RejectionReportRow[]> {
+  const resp = await apiClient.get('/api/reports/rejections', { params });
+  return resp.data?.data || [];
+}
+
+// ─── TDS / TCS Report ─────────────────────────────────────────────
+
+export interface WithholdingReportRow {
+  client_id: string;
+  client_name: string;
+  kind: WithholdingKind;
+  section: string;
+  /** Financial-year quarter of the invoice date: Q1 = Apr–Jun … Q4 = Jan–Mar. */
+  quarter: 'Q1' | 'Q2' | 'Q3' | 'Q4';
+  invoice_count: number;
+  base_amount: number;
+  amount: number;
+}
+
+async function getWithholdingReport(params?: {
+  client_id?: string;
+  date_from?: string;
+  date_to?: string;
+}): Promise<WithholdingReportRow[]> {
+  const resp = await apiClient.get('/api/reports/withholding', { params });
+  return resp.data?.data || [];
+}
+
+// ─── Invoice History ───────────────────────────────────────────────
+
+export type InvoiceEventType =
+  | 'extracted'
+  | 'edited'
+  | 'signed_off'
+  | 'approved'
+  | 'auto_approved'
+  | 'rejected'
+  | 'wa_confirmed'
+  | 'client_queried'
+  | 'client_replied'
+  | 'exported'
+  | 'export_rolled_back'
+  | 'restored';
+
+/** One entry in an invoice's audit trail, with the full invoice data as it stood after the event. */
+export interface InvoiceVersion {
+  version: number;
+  event: InvoiceEventType;
+  /** Staff email, client phone for WhatsApp confirmations, or "system". */
+  actor?: string;
+  at: string;
+  note?: string;
+  snapshot: Partial<CaInvoice>;
+}
+
+/** Oldest first — version 1 is the data as originally extracted from what the client sent. */
+async function getInvoiceHistory(invoiceId: string): Promise<InvoiceVersion[]> {
+  const resp = await apiClient.get(`/api/invoices/${invoiceId}/history`);
+  return resp.data?.data || [];
+}
+
+/** Bring an earlier version's data back as the current invoice; recorded as a new `restored` version. */
+async function restoreInvoiceVersion(invoiceId: string, version: number): Promise<CaInvoice> {
+  const resp = await apiClient.post(`/api/invoices/${invoiceId}/history/${version}/restore`);
+  return resp.data?.data || resp.data;
+}
+
 // ─── Tally Settings ────────────────────────────────────────────────
 
 export interface TallyConfig {
   company_name?: string;
+  /** GST rates with ledger rows, e.g. ["0", "3", "5", "18"]. Absent → 0/5/12/18/28. */
+  rate_slabs?: string[];
+  /** Cess rates with their own ledgers; other cess posts to output_cess / input_cess. */
+  cess_slabs?: string[];
+  output_cess?: string; input_cess?: string;
+  /** The company's own voucher type names, when renamed in Tally (e.g. "Sales Return"). */
+  voucher_type_sales?: string; voucher_type_purchase?: string;
+  voucher_type_credit_note?: string; voucher_type_debit_note?: string;
   local_sale_0?: string; local_sale_5?: string; local_sale_12?: string; local_sale_18?: string; local_sale_28?: string;
   interstate_sale_0?: string; interstate_sale_5?: string; interstate_sale_12?: string; interstate_sale_18?: string; interstate_sale_28?: string;
   output_cgst_0?: string; output_sgst_0?: string; output_igst_0?: string;
@@ -341,6 +1114,11 @@ export interface TallyConfig {
   input_cgst_6?: string; input_sgst_6?: string; input_igst_12?: string;
   input_cgst_9?: string; input_sgst_9?: string; input_igst_18?: string;
   input_cgst_14?: string; input_sgst_14?: string; input_igst_28?: string;
+  /**
+   * Ledgers for added slabs follow the same naming, e.g. local_sale_3, output_cgst_1.5, input_cess_12.
+   * TDS/TCS payable ledgers are per section: tds_194c, tds_194jb, tcs_206c1 (see withholdingLedgerKey).
+   */
+  [ledgerKey: string]: string | string[] | undefined;
 }
 
 async function getTallyConfig(): Promise<TallyConfig> {
@@ -357,6 +1135,66 @@ async function getTallyConfigSuggestions(): Promise<TallyConfig> {
   return resp.data?.data || {};
 }
 
+/**
+ * A client's own Tally company, ledger mapping and export template.
+ * Clients without a profile export with the global TallyConfig.
+ */
+export interface TallyProfile {
+  client_id: string;
+  config: TallyConfig;
+  template_file_name?: string;
+  template_uploaded_at?: string;
+  updated_at?: string;
+}
+
+async function listTallyProfiles(): Promise<TallyProfile[]> {
+  const resp = await apiClient.get('/api/settings/tally/profiles');
+  return resp.data?.data || [];
+}
+
+/** Null when the client has no profile of its own. */
+async function getTallyProfile(clientId: string): Promise<TallyProfile | null> {
+  const resp = await apiClient.get(`/api/settings/tally/profiles/${clientId}`);
+  return resp.data?.data ?? null;
+}
+
+async function saveTallyProfile(clientId: string, config: TallyConfig): Promise<void> {
+  await apiClient.put(`/api/settings/tally/profiles/${clientId}`, config);
+}
+
+/** Remove a client's profile so it falls back to the global default. */
+async function deleteTallyProfile(clientId: string): Promise<void> {
+  await apiClient.delete(`/api/settings/tally/profiles/${clientId}`);
+}
+
+/** Copy mapping and template from another client's profile, or from the global default when `fromClientId` is null. */
+async function copyTallyProfile(fromClientId: string | null, toClientId: string): Promise<TallyProfile> {
+  const resp = await apiClient.post(`/api/settings/tally/profiles/${toClientId}/copy`, {
+    from_client_id: fromClientId,
+  });
+  return resp.data?.data || resp.data;
+}
+
+/** Mapping an export for this client will use — its own profile, else the global default. */
+async function resolveTallyConfig(
+  clientId?: string,
+): Promise<{ config: TallyConfig; profile: TallyProfile | null }> {
+  const profile = clientId ? await getTallyProfile(clientId) : null;
+  if (profile) return { config: profile.config, profile };
+  return { config: await getTallyConfig(), profile: null };
+}
+
+/** Store a Tally XML export as the voucher template, for one client or globally. */
+async function uploadTallyTemplate(file: File, clientId?: string): Promise<{ success: boolean }> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const url = clientId ? `/api/settings/tally/profiles/${clientId}/template` : '/api/settings/tally/template';
+  const resp = await apiClient.post(url, formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return resp.data;
+}
+
 // ─── Export ────────────────────────────────────────────────────────
 
 export interface OutlierInvoiceItem {
@@ -368,6 +1206,7 @@ export interface OutlierInvoiceItem {
   taxable: number;
   grand_total: number;
   gst_total: number;
+  detail?: string;
 }
 
 export interface OutlierCompanyGroup {
@@ -386,6 +1225,8 @@ export interface TallyPreviewResult {
 async function previewTallyExport(params: {
   invoice_ids?: string[];
   client_id?: string;
+  branch_id?: string;
+  financial_year?: string;
   date_from?: string;
   date_to?: string;
   status?: string;
@@ -395,29 +1236,121 @@ async function previewTallyExport(params: {
   return resp.data;
 }
 
+/**
+ * Dates select by booking period, so late entries go out with the period they
+ * were routed to. Invoices in locked periods are never exported; `locked_count`
+ * says how many matched but were left out. Vouchers of invoices tagged with a
+ * branch carry its cost centre allocation and godown. Purchases from a vendor
+ * in the master use its canonical name as the party ledger; each line posts
+ * to its own `ledger` if classified, else the vendor's purchase ledger, else
+ * the rate-slab ledger. With the approval workflow on, invoices that haven't
+ * been signed off at its final stage are refused whatever `status` asks for;
+ * `unapproved_count` says how many matched.
+ */
 async function exportTally(params: {
   invoice_ids?: string[];
   client_id?: string;
+  branch_id?: string;
+  financial_year?: string;
   date_from?: string;
   date_to?: string;
   status?: string;
   tally_company?: string;
   acknowledged_invoice_ids?: string[];
-}): Promise<{ success?: boolean; xml: string; invoice_count: number; message?: string }> {
+}): Promise<{
+  success?: boolean;
+  xml: string;
+  invoice_count: number;
+  message?: string;
+  batch_id?: string;
+  locked_count?: number;
+  unapproved_count?: number;
+}> {
   const resp = await apiClient.post('/api/export/tally', params);
   return resp.data;
 }
 
+/**
+ * Marks the exported invoices `exported`, as the Tally export does. With the
+ * approval workflow on, invoices that haven't been signed off at its final
+ * stage are refused whatever `status` asks for; `unapproved_count` says how
+ * many matched.
+ */
 async function exportCsv(params: {
   invoice_ids?: string[];
   client_id?: string;
+  branch_id?: string;
+  financial_year?: string;
   date_from?: string;
   date_to?: string;
-}): Promise<{ csv: string; invoice_count: number }> {
+  status?: string;
+}): Promise<{
+  csv: string;
+  invoice_count: number;
+  batch_id?: string;
+  message?: string;
+  unapproved_count?: number;
+}> {
   const resp = await apiClient.post('/api/export/csv', params);
   return resp.data;
 }
 
+// ─── Export History ────────────────────────────────────────────────
+
+/** Snapshot of an invoice as it was when the batch was generated. */
+export interface ExportBatchInvoice {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  seller_name: string;
+  taxable_amount: number;
+  gst_total: number;
+  grand_total: number;
+}
+
+export interface ExportBatch {
+  id: string;
+  format: 'tally' | 'csv';
+  created_at: string;
+  created_by?: string;
+  filters: {
+    client_id?: string;
+    client_name?: string;
+    branch_id?: string;
+    branch_name?: string;
+    financial_year?: string;
+    date_from?: string;
+    date_to?: string;
+    status?: string;
+    tally_company?: string;
+  };
+  file_name: string;
+  invoice_count: number;
+  totals: { taxable_amount: number; gst_total: number; grand_total: number };
+  invoices: ExportBatchInvoice[];
+  rolled_back_at?: string;
+  rolled_back_by?: string;
+}
+
+async function listExportBatches(
+  params?: { client_id?: string; limit?: number; offset?: number }
+): Promise<{ data: ExportBatch[]; total: number }> {
+  const resp = await apiClient.get('/api/exports', { params });
+  return resp.data;
+}
+
+/** The XML/CSV exactly as generated for the batch. */
+async function getExportBatchFile(batchId: string): Promise<{ content: string; file_name: string }> {
+  const resp = await apiClient.get(`/api/exports/${batchId}/file`);
+  return resp.data?.data || resp.data;
+}
+
+/** Undo an export: the batch's invoices go back to `approved` so they can be corrected and re-exported. */
+async function rollbackExportBatch(batchId: string): Promise<{ reverted_count: number }> {
+  const resp = await apiClient.post(`/api/exports/${batchId}/rollback`);
+  return resp.data?.data || resp.data;
+}
+
 // ─── Invoice Media ────────────────────────────────────────────────
 
 function getInvoiceMediaUrl(invoiceId: string, page: number = 0): string {
@@ -429,6 +1362,20 @@ async function getInvoiceMediaCount(invoiceId: string): Promise<number> {
   return resp.data?.data?.page_count || 0;
 }
 
+async function getInvoiceMediaBlob(invoiceId: string, page: number = 0): Promise<Blob> {
+  const resp = await apiClient.get(getInvoiceMediaUrl(invoiceId, page), { responseType: 'blob' });
+  return resp.data;
+}
+
+/** Store the QR read from the document; the server verifies the signature and records the IRN. */
+async function saveEinvoiceQr(
+  invoiceId: string,
+  data: { signed_qr: string; ack_no?: string; ack_date?: string },
+): Promise<EinvoiceDetails> {
+  const resp = await apiClient.post(`/api/invoices/${invoiceId}/einvoice`, data);
+  return resp.data?.data || resp.data;
+}
+
 // ─── Dead Letter Queue ────────────────────────────────────────────
 
 async function listDlqItems(status: string = 'unprocessed'): Promise<DlqItem[]> {
@@ -444,6 +1391,203 @@ async function dismissDlqItem(itemId: string): Promise<void> {
   await apiClient.post(`/api/dlq/${itemId}/dismiss`);
 }
 
+async function bulkReprocessDlqItems(itemIds: string[]): Promise<{ modified_count: number }> {
+  const resp = await apiClient.post('/api/dlq/bulk-reprocess', { item_ids: itemIds });
+  return resp.data?.data || resp.data;
+}
+
+async function bulkDismissDlqItems(itemIds: string[]): Promise<{ modified_count: number }> {
+  const resp = await apiClient.post('/api/dlq/bulk-dismiss', { item_ids: itemIds });
+  return resp.data?.data || resp.data;
+}
+
+// ─── GSTR-2B Reconciliation ───────────────────────────────────────
+
+export type Gstr2bMatchStatus = 'matched' | 'amount_mismatch' | 'missing_in_books' | 'missing_in_2b';
+
+/** One supplier document as reported in the client's GSTR-2B. */
+export interface Gstr2bDocument {
+  supplier_gstin: string;
+  supplier_name?: string;
+  invoice_number: string;
+  invoice_date: string;
+  invoice_value: number;
+  taxable_amount: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+export interface Gstr2bFieldDifference {
+  field: string;
+  portal: string | number | null;
+  books: string | number | null;
+}
+
+export interface Gstr2bMatchRow {
+  status: Gstr2bMatchStatus;
+  portal?: Gstr2bDocument;
+  invoice_id?: string;
+  invoice?: {
+    invoice_number: string;
+    invoice_date: string;
+    seller_name: string;
+    seller_gstin?: string;
+    taxable_amount: number;
+    gst_total: number;
+    grand_total: number;
+    status: CaInvoice['status'];
+  };
+  differences?: Gstr2bFieldDifference[];
+}
+
+export interface Gstr2bReconciliationResult {
+  client_id: string;
+  period: string; // YYYY-MM
+  file_name?: string;
+  uploaded_at: string;
+  summary: Record<Gstr2bMatchStatus, number> & {
+    portal_itc: number;
+    books_itc: number;
+  };
+  rows: Gstr2bMatchRow[];
+}
+
+async function reconcileGstr2b(
+  clientId: string,
+  period: string,
+  file: File,
+): Promise<Gstr2bReconciliationResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('client_id', clientId);
+  formData.append('period', period);
+  const resp = await apiClient.post('/api/reconciliation/gstr2b', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return resp.data?.data || resp.data;
+}
+
+/** Latest reconciliation for a client/period, re-matched against current books. Null if 2B was never uploaded. */
+async function getGstr2bReconciliation(
+  clientId: string,
+  period: string,
+): Promise<Gstr2bReconciliationResult | null> {
+  const resp = await apiClient.get('/api/reconciliation/gstr2b', { params: { client_id: clientId, period } });
+  return resp.data?.data ?? null;
+}
+
+// ─── Duplicates ───────────────────────────────────────────────────
+
+/**
+ * same_invoice_number — same seller GSTIN + invoice number within a financial year.
+ * similar_amount_date — same seller, near-identical grand total and invoice date.
+ */
+export type DuplicateReason = 'same_invoice_number' | 'similar_amount_date';
+
+export interface DuplicateGroup {
+  id: string;
+  reason: DuplicateReason;
+  financial_year?: string;
+  seller_name: string;
+  seller_gstin?: string;
+  /** Oldest submission first. */
+  invoices: CaInvoice[];
+}
+
+/** Unresolved probable-duplicate groups; rejected invoices are excluded server-side. */
+async function listDuplicateGroups(params?: { client_id?: string; financial_year?: string }): Promise<DuplicateGroup[]> {
+  const resp = await apiClient.get('/api/invoices/duplicates', { params });
+  return resp.data?.data || [];
+}
+
+/**
+ * Keep one invoice of the group and reject the others listed — exported and
+ * period-locked copies are left out by the caller and stay as they are.
+ */
+async function resolveDuplicateGroup(
+  groupId: string,
+  keepInvoiceId: string,
+  rejectInvoiceIds: string[],
+): Promise<{ rejected_count: number }> {
+  const resp = await apiClient.post(`/api/invoices/duplicates/${groupId}/resolve`, {
+    keep_invoice_id: keepInvoiceId,
+    reject_invoice_ids: rejectInvoiceIds,
+  });
+  return resp.data?.data || resp.data;
+}
+
+/** Mark a group as not duplicates so it stops being flagged. */
+async function dismissDuplicateGroup(groupId: string): Promise<void> {
+  await apiClient.post(`/api/invoices/duplicates/${groupId}/dismiss`);
+}
+
+// ─── Year-end Rollover ─────────────────────────────────────────────
+
+/**
+ * Why an invoice is still open at year end: not yet reviewed, waiting on the
+ * client, approved but never exported, or an unresolved probable duplicate.
+ */
+export type FyPendingReason =
+  | 'pending_review'
+  | 'pending_user_confirmation'
+  | 'awaiting_client_reply'
+  | 'approved_not_exported'
+  | 'probable_duplicate';
+
+export interface FyPendingItem {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  seller_name: string;
+  grand_total: number;
+  client_id?: string;
+  client_name?: string;
+  reason: FyPendingReason;
+}
+
+export interface FyRolloverPreview {
+  financial_year: string;
+  next_financial_year: string;
+  /** Clients whose books are open for `financial_year` (or have no year set) and would move on. */
+  clients: Array<{ client_id: string; client_name: string; financial_year?: string; pending_count: number }>;
+  pending: FyPendingItem[];
+}
+
+/**
+ * A completed rollover. Its pending items were archived out of the working
+ * queues — they stay searchable and can still be reviewed from the invoice list.
+ */
+export interface FyRollover {
+  id: string;
+  financial_year: string;
+  next_financial_year: string;
+  clients_rolled: number;
+  pending: FyPendingItem[];
+  rolled_at: string;
+  rolled_by?: string;
+}
+
+async function getFyRolloverPreview(financialYear: string): Promise<FyRolloverPreview> {
+  const resp = await apiClient.get(`/api/financial-years/${financialYear}/rollover`);
+  return resp.data?.data || resp.data;
+}
+
+/** Archive the year's pending items and move the listed clients (all eligible ones if omitted) to the next year. */
+async function rolloverFinancialYear(
+  financialYear: string,
+  params?: { client_ids?: string[] },
+): Promise<FyRollover> {
+  const resp = await apiClient.post(`/api/financial-years/${financialYear}/rollover`, params || {});
+  return resp.data?.data || resp.data;
+}
+
+async function listFyRollovers(): Promise<FyRollover[]> {
+  const resp = await apiClient.get('/api/financial-years/rollovers');
+  return resp.data?.data || [];
+}
+
 // ─── Service Object ────────────────────────────────────────────────
 
 export const caInvoiceService = {
@@ -452,6 +1596,13 @@ export const caInvoiceService = {
   getTallyConfig,
   saveTallyConfig,
   getTallyConfigSuggestions,
+  listTallyProfiles,
+  getTallyProfile,
+  saveTallyProfile,
+  deleteTallyProfile,
+  copyTallyProfile,
+  resolveTallyConfig,
+  uploadTallyTemplate,
   listClients,
   getClient,
   createClient,
@@ -461,21 +1612,72 @@ export const caInvoiceService = {
   removePhoneFromClient,
   listBranches,
   createBranch,
+  updateBranch,
+  deleteBranch,
+  mergeBranch,
+  importClients,
+  listVendors,
+  createVendor,
+  updateVendor,
+  deleteVendor,
+  mergeVendors,
+  listLedgerRules,
+  createLedgerRule,
+  updateLedgerRule,
+  deleteLedgerRule,
+  learnLedgerRules,
+  listAutoApprovalRules,
+  createAutoApprovalRule,
+  updateAutoApprovalRule,
+  deleteAutoApprovalRule,
+  simulateAutoApprovalRules,
+  listPeriodLocks,
+  lockPeriod,
+  unlockPeriod,
   listUnknownSenders,
   assignUnknownSender,
   ignoreUnknownSender,
+  getSenderSuggestions,
   listInvoices,
   getInvoice,
   updateInvoice,
   approveInvoice,
+  getApprovalWorkflow,
+  saveApprovalWorkflow,
   rejectInvoice,
   bulkApproveInvoices,
+  bulkRejectInvoices,
+  listInvoiceQueries,
+  askClient,
+  sendQueryMessage,
+  closeInvoiceQuery,
+  getRejectionReasons,
+  saveRejectionReasons,
+  getRejectionReport,
+  getWithholdingReport,
+  getInvoiceHistory,
+  restoreInvoiceVersion,
   getInvoiceMediaUrl,
   getInvoiceMediaCount,
+  getInvoiceMediaBlob,
+  saveEinvoiceQr,
   previewTallyExport,
   exportTally,
   exportCsv,
+  listExportBatches,
+  getExportBatchFile,
+  rollbackExportBatch,
   listDlqItems,
   reprocessDlqItem,
   dismissDlqItem,
+  bulkReprocessDlqItems,
+  bulkDismissDlqItems,
+  reconcileGstr2b,
+  getGstr2bReconciliation,
+  listDuplicateGroups,
+  resolveDuplicateGroup,
+  dismissDuplicateGroup,
+  getFyRolloverPreview,
+  rolloverFinancialYear,
+  listFyRollovers,
 };
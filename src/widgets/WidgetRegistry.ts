@@ -24,11 +24,18 @@ const WIDGET_REGISTRY: Record<string, WidgetLoader> = {
   // ─── CA Invoice Agent ─────────────────────────────────────────
   ca_dashboard_overview: () => import('./agent-specific/ca-invoices/DashboardOverview'),
   ca_invoice_table: () => import('./agent-specific/ca-invoices/InvoiceTable'),
+  ca_gstr2b_reconciliation: () => import('./agent-specific/ca-invoices/Gstr2bReconciliation'),
   ca_client_management: () => import('./agent-specific/ca-invoices/ClientManagement'),
   ca_export_panel: () => import('./agent-specific/ca-invoices/ExportPanel'),
   ca_tally_settings: () => import('./agent-specific/ca-invoices/TallySettings'),
   ca_whatsapp_status: () => import('./agent-specific/ca-invoices/WhatsAppStatus'),
   ca_whatsapp_chat: () => import('./agent-specific/ca-invoices/WhatsAppChat'),
+  ca_dlq_panel: () => import('./agent-specific/ca-invoices/DlqPanel'),
+  ca_rejection_settings: () => import('./agent-specific/ca-invoices/RejectionSettings'),
+  ca_ledger_rules: () => import('./agent-specific/ca-invoices/LedgerRules'),
+  ca_auto_approval_rules: () => import('./agent-specific/ca-invoices/AutoApprovalRules'),
+  ca_approval_workflow: () => import('./agent-specific/ca-invoices/ApprovalWorkflowSettings'),
+  ca_withholding_report: () => import('./agent-specific/ca-invoices/WithholdingReport'),
 
   // ─── Instagram DM Agent ───────────────────────────────────────
   instagram_conversations: () => import('./agent-specific/instagram/ConversationsPanel'),
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChevronRight, Save, ShieldCheck } from 'lucide-react';
+import {
+  caInvoiceService,
+  type ApprovalStage,
+  type ApprovalStageConfig,
+  type ApprovalWorkflowInput,
+  type StaffMember,
+  type StaffRole,
+} from '@/services/caInvoiceService';
+import { ROLE_LABELS, STAGE_LABELS, STAGE_ORDER, invalidateApprovalWorkflow } from './approvalWorkflow';
+
+const STAGE_HINTS: Record<ApprovalStage, string> = {
+  prepared: 'Maker checks the extracted data against the bill',
+  reviewed: 'Checker goes over the prepared entry',
+  approved: 'Final sign-off — only now can it be exported to Tally',
+};
+
+const DEFAULT_WORKFLOW: ApprovalWorkflowInput = {
+  enabled: false,
+  stages: [
+    { stage: 'prepared', enabled: true, roles: ['article', 'accountant'] },
+    { stage: 'reviewed', enabled: true, roles: ['accountant', 'manager'] },
+    { stage: 'approved', enabled: true, roles: ['partner'] },
+  ],
+  require_distinct_signers: true,
+};
+
+/** Every stage, in order — the saved workflow may predate a stage. */
+function withAllStages(stages: ApprovalStageConfig[]): ApprovalStageConfig[] {
+  return STAGE_ORDER.map((stage) =>
+    stages.find((s) => s.stage === stage) || DEFAULT_WORKFLOW.stages.find((s) => s.stage === stage)!
+  );
+}
+
+/**
+ * Firm-wide maker-checker settings: which sign-off stages an invoice passes
+ * before it can go to Tally, and which staff roles may sign each.
+ */
+export default function ApprovalWorkflowSettings({ config: _config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const [workflow, setWorkflow] = useState<ApprovalWorkflowInput>(DEFAULT_WORKFLOW);
+  const [me, setMe] = useState<StaffMember | null>(null);
+  const [updatedBy, setUpdatedBy] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    caInvoiceService.getApprovalWorkflow()
+      .then(({ workflow: w, me: m }) => {
+        setWorkflow({ enabled: w.enabled, stages: withAllStages(w.stages), require_distinct_signers: w.require_distinct_signers });
+        setUpdatedBy(w.updated_by);
+        setMe(m);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (patch: Partial<ApprovalWorkflowInput>) => {
+    setWorkflow((prev) => ({ ...prev, ...patch }));
+    setDirty(true);
+  };
+
+  const updateStage = (stage: ApprovalStage, patch: Partial<ApprovalStageConfig>) => {
+    update({ stages: workflow.stages.map((s) => (s.stage === stage ? { ...s, ...patch } : s)) });
+  };
+
+  const toggleRole = (stage: ApprovalStageConfig, role: StaffRole) => {
+    const roles = stage.roles.includes(role) ? stage.roles.filter((r) => r !== role) : [...stage.roles, role];
+    updateStage(stage.stage, { roles });
+  };
+
+  const activeStages = workflow.stages.filter((s) => s.enabled || s.stage === 'approved');
+  // A stage no role may sign would leave invoices stuck at it
+  const unsignable = workflow.enabled && activeStages.some((s) => s.roles.length === 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await caInvoiceService.saveApprovalWorkflow(workflow);
+      setUpdatedBy(saved.updated_by);
+      setDirty(false);
+      invalidateApprovalWorkflow();
+      toast({ title: 'Approval workflow saved' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border bg-white p-5 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-700 flex items-center gap-1.5">
+            <ShieldCheck className="h-4 w-4 text-neutral-400" /> Approval workflow
+          </h3>
+          <p className="text-xs text-neutral-500 mt-0.5">
+            Require invoices to be signed off in stages by different people before they can be exported to Tally.
+          </p>
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={saving || !dirty || unsignable} className="gap-1.5 shrink-0">
+          <Save className="h-3.5 w-3.5" /> {saving ? 'Saving…' : 'Save'}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)}
+        </div>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={workflow.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="rounded border-neutral-300"
+            />
+            Sign off in stages
+            {!workflow.enabled && <span className="text-xs text-neutral-400">— off: anyone approves in one step</span>}
+          </label>
+
+          <div className={`space-y-2 ${workflow.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+            {workflow.stages.map((stage) => {
+              const active = stage.enabled || stage.stage === 'approved';
+              return (
+                <div key={stage.stage} className={`rounded-lg border p-3 ${active ? '' : 'bg-neutral-50'}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={active}
+                        disabled={stage.stage === 'approved'}
+                        onChange={(e) => updateStage(stage.stage, { enabled: e.target.checked })}
+                        className="rounded border-neutral-300"
+                      />
+                      <span className={`text-sm font-medium ${active ? 'text-neutral-800' : 'text-neutral-400'}`}>
+                        {STAGE_LABELS[stage.stage]}
+                      </span>
+                      <span className="text-xs text-neutral-400">{STAGE_HINTS[stage.stage]}</span>
+                    </label>
+                  </div>
+                  {active && (
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2 pl-6">
+                      <span className="text-[11px] text-neutral-500 mr-1">Signed by</span>
+                      {(Object.keys(ROLE_LABELS) as StaffRole[]).map((role) => (
+                        <button
+                          key={role}
+                          onClick={() => toggleRole(stage, role)}
+                          className={`px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                            stage.roles.includes(role)
+                              ? 'bg-neutral-900 text-white'
+                              : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+                          }`}
+                        >
+                          {ROLE_LABELS[role]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex items-center gap-1 text-xs text-neutral-500 pt-1">
+              {activeStages.map((s, i) => (
+                <span key={s.stage} className="flex items-center gap-1">
+                  {i > 0 && <ChevronRight className="h-3 w-3 text-neutral-300" />}
+                  {STAGE_LABELS[s.stage]}
+                </span>
+              ))}
+              <ChevronRight className="h-3 w-3 text-neutral-300" />
+              Tally
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={workflow.require_distinct_signers}
+                onChange={(e) => update({ require_distinct_signers: e.target.checked })}
+                className="rounded border-neutral-300"
+              />
+              A different person signs each stage
+            </label>
+
+            {unsignable && (
+              <p className="text-xs text-amber-700">Pick at least one role for every stage — otherwise invoices stop there.</p>
+            )}
+          </div>
+
+          <p className="text-[11px] text-neutral-400 border-t pt-3">
+            {me ? `Signed in as ${me.name || me.email} · ${ROLE_LABELS[me.role]}` : 'Your account has no staff role, so it can’t sign off stages'}
+            {updatedBy && ` · last changed by ${updatedBy}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,514 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, FlaskConical, Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import {
+  caInvoiceService,
+  type AutoApprovalConditions,
+  type AutoApprovalRule,
+  type AutoApprovalRuleInput,
+  type AutoApprovalSimulation,
+  type CaClient,
+  type CaVendor,
+} from '@/services/caInvoiceService';
+import { formatCurrency } from './InvoiceDetailDialog';
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d]$/;
+
+const DEFAULT_INPUT: AutoApprovalRuleInput = {
+  name: '',
+  conditions: { min_confidence: 0.9, require_wa_confirmed: true, require_no_outliers: true },
+  priority: 10,
+  enabled: true,
+};
+
+/** Short, human phrases for a rule's conditions, in the order they are checked. */
+function describeConditions(c: AutoApprovalConditions, vendors: CaVendor[]): string[] {
+  const parts: string[] = [];
+  if (c.vendor_gstins?.length) {
+    const names = c.vendor_gstins.map((g) => vendors.find((v) => v.gstin === g)?.name || g);
+    parts.push(names.length <= 2 ? `from ${names.join(' or ')}` : `from ${names.length} trusted vendors`);
+  }
+  if (c.min_confidence != null) parts.push(`confidence ≥ ${Math.round(c.min_confidence * 100)}%`);
+  if (c.min_grand_total != null && c.max_grand_total != null) {
+    parts.push(`${formatCurrency(c.min_grand_total)}–${formatCurrency(c.max_grand_total)}`);
+  } else if (c.max_grand_total != null) {
+    parts.push(`up to ${formatCurrency(c.max_grand_total)}`);
+  } else if (c.min_grand_total != null) {
+    parts.push(`${formatCurrency(c.min_grand_total)} or more`);
+  }
+  if (c.require_wa_confirmed) parts.push('confirmed on WhatsApp');
+  if (c.require_no_outliers) parts.push('no outliers');
+  return parts;
+}
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+function parseAmount(s: string): number | undefined {
+  const n = parseFloat(s.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/* ─── Simulation ───────────────────────────────────── */
+
+function SimulationResult({ result, draftName }: { result: AutoApprovalSimulation; draftName?: string }) {
+  const approved = result.rows.reduce((sum, r) => sum + r.would_approve, 0);
+  return (
+    <div className="rounded-lg border bg-white overflow-hidden">
+      <div className="px-3 py-2 border-b bg-neutral-50/70 text-xs text-neutral-600">
+        {result.date_from} to {result.date_to}: {approved} of {result.invoice_count} invoices would have been approved without review
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="pl-3 text-xs">Rule</TableHead>
+            <TableHead className="text-right text-xs">Match</TableHead>
+            <TableHead className="text-right text-xs">Approves</TableHead>
+            <TableHead className="text-right text-xs">Amount</TableHead>
+            <TableHead className="pr-3 text-xs">Reviewer disagreed</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.rows.map((row) => {
+            const disagreed = row.rejected + row.edited;
+            return (
+              <TableRow key={row.rule_id || 'draft'} className={!row.rule_id ? 'bg-violet-50/40' : ''}>
+                <TableCell className="pl-3 text-sm">
+                  {row.rule_name || draftName || 'Untitled rule'}
+                  {!row.rule_id && <span className="ml-1.5 text-[10px] font-medium text-violet-700">DRAFT</span>}
+                </TableCell>
+                <TableCell className="text-right text-sm text-neutral-500">{row.matched}</TableCell>
+                <TableCell className="text-right text-sm font-medium">{row.would_approve}</TableCell>
+                <TableCell className="text-right font-mono text-xs">{formatCurrency(row.would_approve_total)}</TableCell>
+                <TableCell className="pr-3 text-xs">
+                  {disagreed === 0 ? (
+                    <span className="text-neutral-400">—</span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-amber-700">
+                      <AlertTriangle className="h-3 w-3" />
+                      {row.rejected > 0 && `${row.rejected} rejected`}
+                      {row.rejected > 0 && row.edited > 0 && ', '}
+                      {row.edited > 0 && `${row.edited} edited`}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function SimulationPanel({
+  clientId,
+  draft,
+  replaces,
+}: {
+  clientId: string;
+  draft?: AutoApprovalRuleInput;
+  replaces?: string;
+}) {
+  const { toast } = useToast();
+  const [dateFrom, setDateFrom] = useState(() => isoDate(new Date(Date.now() - 90 * 86400000)));
+  const [dateTo, setDateTo] = useState(() => isoDate(new Date()));
+  const [result, setResult] = useState<AutoApprovalSimulation | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // A stale result would describe rules that no longer exist
+  useEffect(() => setResult(null), [clientId, draft]);
+
+  const run = async () => {
+    setRunning(true);
+    try {
+      setResult(await caInvoiceService.simulateAutoApprovalRules(clientId, {
+        date_from: dateFrom,
+        date_to: dateTo,
+        draft,
+        draft_replaces: draft ? replaces : undefined,
+      }));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <FlaskConical className="h-3.5 w-3.5 text-neutral-400" />
+        <span className="text-neutral-600">Replay invoices received</span>
+        <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="h-8 w-[140px] text-xs" />
+        <span className="text-neutral-400">to</span>
+        <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="h-8 w-[140px] text-xs" />
+        <Button size="sm" variant="outline" className="h-8 text-xs" onClick={run} disabled={running || !dateFrom || !dateTo}>
+          {running ? 'Simulating…' : draft ? 'Simulate with draft' : 'Simulate'}
+        </Button>
+      </div>
+      {result && <SimulationResult result={result} draftName={draft?.name} />}
+    </div>
+  );
+}
+
+/* ─── Rule Form ────────────────────────────────────── */
+
+function RuleForm({
+  clientId,
+  rule,
+  vendors,
+  onCancel,
+  onSaved,
+}: {
+  clientId: string;
+  rule?: AutoApprovalRule;
+  vendors: CaVendor[];
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const initial = rule || DEFAULT_INPUT;
+  const [name, setName] = useState(initial.name);
+  const [gstins, setGstins] = useState((initial.conditions.vendor_gstins || []).join('\n'));
+  const [confidence, setConfidence] = useState(
+    initial.conditions.min_confidence != null ? String(Math.round(initial.conditions.min_confidence * 100)) : ''
+  );
+  const [minTotal, setMinTotal] = useState(initial.conditions.min_grand_total?.toString() || '');
+  const [maxTotal, setMaxTotal] = useState(initial.conditions.max_grand_total?.toString() || '');
+  const [waConfirmed, setWaConfirmed] = useState(!!initial.conditions.require_wa_confirmed);
+  const [noOutliers, setNoOutliers] = useState(!!initial.conditions.require_no_outliers);
+  const [priority, setPriority] = useState(initial.priority);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<AutoApprovalRuleInput | undefined>();
+
+  const gstinList = [...new Set(gstins.split(/[\s,]+/).map((g) => g.trim().toUpperCase()).filter(Boolean))];
+  const badGstins = gstinList.filter((g) => !GSTIN_PATTERN.test(g));
+  const trustable = vendors.filter((v) => v.gstin && !gstinList.includes(v.gstin));
+  const min = parseAmount(minTotal);
+  const max = parseAmount(maxTotal);
+  const pct = parseFloat(confidence);
+
+  const conditions: AutoApprovalConditions = {
+    vendor_gstins: gstinList.length ? gstinList : undefined,
+    min_confidence: Number.isFinite(pct) ? Math.min(Math.max(pct, 0), 100) / 100 : undefined,
+    min_grand_total: min,
+    max_grand_total: max,
+    require_wa_confirmed: waConfirmed || undefined,
+    require_no_outliers: noOutliers || undefined,
+  };
+  const input: AutoApprovalRuleInput = { name: name.trim(), conditions, priority, enabled: rule?.enabled ?? true };
+  // A rule with nothing to check would approve everything the client sends
+  const unconditional = describeConditions(conditions, vendors).length === 0;
+  const invalid = !input.name || badGstins.length > 0 || unconditional || (min != null && max != null && min > max);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (rule) {
+        await caInvoiceService.updateAutoApprovalRule(clientId, rule.id, input);
+        toast({ title: 'Rule updated' });
+      } else {
+        await caInvoiceService.createAutoApprovalRule(clientId, input);
+        toast({ title: 'Rule added', description: 'New invoices matching it will be approved on arrival' });
+      }
+      onSaved();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-neutral-50/80 p-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_80px] gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">Rule name</Label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Regular suppliers under ₹50,000" className="mt-1 h-8 text-sm" />
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Priority</Label>
+          <Input type="number" value={priority} onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)} className="mt-1 h-8 text-sm" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">Min. confidence (%)</Label>
+          <Input type="number" min={0} max={100} value={confidence} onChange={(e) => setConfidence(e.target.value)} placeholder="Any" className="mt-1 h-8 text-sm" />
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Grand total from (₹)</Label>
+          <Input value={minTotal} onChange={(e) => setMinTotal(e.target.value)} inputMode="decimal" placeholder="Any" className="mt-1 h-8 text-sm" />
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Grand total up to (₹)</Label>
+          <Input value={maxTotal} onChange={(e) => setMaxTotal(e.target.value)} inputMode="decimal" placeholder="Any" className="mt-1 h-8 text-sm" />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs text-neutral-500">Trusted seller GSTINs — one per line; leave empty for any seller</Label>
+          {trustable.length > 0 && (
+            <Select value="" onValueChange={(g) => setGstins((prev) => (prev.trim() ? `${prev.trim()}\n${g}` : g))}>
+              <SelectTrigger className="h-7 w-[200px] text-xs"><span className="text-neutral-500">Add from vendor master…</span></SelectTrigger>
+              <SelectContent>
+                {trustable.map((v) => <SelectItem key={v.id} value={v.gstin!}>{v.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <Textarea
+          value={gstins}
+          onChange={(e) => setGstins(e.target.value)}
+          className="mt-1 min-h-[56px] font-mono text-xs"
+        />
+        {badGstins.length > 0 && (
+          <p className="text-[11px] text-red-600 mt-0.5">Not a valid GSTIN: {badGstins.join(', ')}</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-5 text-sm text-neutral-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={waConfirmed} onChange={(e) => setWaConfirmed(e.target.checked)} className="rounded border-neutral-300" />
+          Client confirmed on WhatsApp
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={noOutliers} onChange={(e) => setNoOutliers(e.target.checked)} className="rounded border-neutral-300" />
+          No outliers flagged
+        </label>
+      </div>
+
+      {unconditional && (
+        <p className="text-[11px] text-amber-700">Set at least one condition — an empty rule would approve every invoice.</p>
+      )}
+
+      <div className="border-t pt-3 space-y-3">
+        <SimulationPanel clientId={clientId} draft={draft} replaces={rule?.id} />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setDraft(input)} disabled={invalid}>
+            Use as draft
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onCancel} disabled={saving}>Cancel</Button>
+          <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saving || invalid}>
+            {saving ? 'Saving…' : rule ? 'Save rule' : 'Add rule'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Auto-Approval Rules ──────────────────────────── */
+
+/**
+ * Per-client rules that approve incoming invoices without review. Each rule
+ * is a set of conditions that must all hold; the simulation replays past
+ * invoices to show what a rule would have approved — and how many of those a
+ * reviewer had rejected or corrected — before it is switched on.
+ */
+export default function AutoApprovalRules({ config: _config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const [clients, setClients] = useState<CaClient[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [vendors, setVendors] = useState<CaVendor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<AutoApprovalRule | 'new' | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    caInvoiceService.listClients({ limit: 200 }).then((resp) => {
+      const list = resp.data || [];
+      setClients(list);
+      if (list.length > 0) setClientId((prev) => prev || list[0].id);
+    }).catch(() => {});
+  }, []);
+
+  const fetchRules = useCallback(async () => {
+    if (!clientId) return;
+    setLoading(true);
+    try {
+      const [r, v] = await Promise.all([
+        caInvoiceService.listAutoApprovalRules(clientId),
+        caInvoiceService.listVendors(clientId).catch(() => []),
+      ]);
+      setRules(r);
+      setVendors(v);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, toast]);
+
+  useEffect(() => {
+    setEditing(null);
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleToggle = async (rule: AutoApprovalRule, enabled: boolean) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+    try {
+      await caInvoiceService.updateAutoApprovalRule(clientId, rule.id, { enabled });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      fetchRules();
+    }
+  };
+
+  const handleDelete = async (rule: AutoApprovalRule) => {
+    try {
+      await caInvoiceService.deleteAutoApprovalRule(clientId, rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setConfirmDeleteId(null);
+    }
+  };
+
+  const sorted = [...rules].sort((a, b) => b.priority - a.priority);
+  const clientName = clients.find((c) => c.id === clientId)?.name;
+  const closeForm = () => setEditing(null);
+  const savedForm = () => { setEditing(null); fetchRules(); };
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="flex items-end justify-between gap-4 px-5 pt-5 pb-4 border-b flex-wrap">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-700 flex items-center gap-1.5">
+            <Zap className="h-4 w-4 text-neutral-400" /> Auto-approval rules
+          </h3>
+          <p className="text-xs text-neutral-500 mt-0.5">
+            Approve invoices on arrival when every condition of a rule holds. The first matching rule, by priority, approves.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={clientId} onValueChange={setClientId}>
+            <SelectTrigger className="h-9 w-[220px] text-sm">
+              <span className={clientName ? 'truncate' : 'text-neutral-400'}>{clientName || 'Choose a client…'}</span>
+            </SelectTrigger>
+            <SelectContent>
+              {clients.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {clientId && !editing && (
+            <Button size="sm" onClick={() => setEditing('new')} className="gap-1 text-xs">
+              <Plus className="h-3 w-3" /> Add rule
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing === 'new' && (
+        <div className="px-5 pt-4">
+          <RuleForm clientId={clientId} vendors={vendors} onCancel={closeForm} onSaved={savedForm} />
+        </div>
+      )}
+
+      {!clientId ? (
+        <p className="text-sm text-neutral-400 text-center py-10">Add a client to set up auto-approval</p>
+      ) : loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(2)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)}
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-10">
+          No rules for {clientName} — every invoice waits for review
+        </p>
+      ) : (
+        <>
+          <div className="divide-y">
+            {sorted.map((rule) =>
+              editing !== 'new' && editing?.id === rule.id ? (
+                <div key={rule.id} className="px-5 py-4">
+                  <RuleForm clientId={clientId} rule={rule} vendors={vendors} onCancel={closeForm} onSaved={savedForm} />
+                </div>
+              ) : (
+                <div key={rule.id} className={`flex items-start gap-3 px-5 py-3 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => handleToggle(rule, e.target.checked)}
+                    className="mt-1 rounded border-neutral-300"
+                    aria-label="Rule enabled"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-neutral-800 truncate">{rule.name}</span>
+                      <span className="text-[11px] text-neutral-400">priority {rule.priority}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {describeConditions(rule.conditions, vendors).map((part) => (
+                        <span key={part} className="px-1.5 py-0.5 rounded bg-neutral-100 text-[11px] text-neutral-600">{part}</span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-neutral-500 whitespace-nowrap">
+                    <p className="font-medium text-neutral-700">{rule.approved_count ?? 0} approved</p>
+                    {rule.last_approved_at && (
+                      <p className="text-[11px] text-neutral-400">last {new Date(rule.last_approved_at).toLocaleDateString('en-IN')}</p>
+                    )}
+                  </div>
+                  {confirmDeleteId === rule.id ? (
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="ghost" className="h-7 text-xs text-red-600 hover:bg-red-50" onClick={() => handleDelete(rule)}>
+                        Delete
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setConfirmDeleteId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-0.5">
+                      <button
+                        onClick={() => setEditing(rule)}
+                        className="p-1 text-neutral-400 hover:text-neutral-700 transition-colors"
+                        aria-label="Edit rule"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(rule.id)}
+                        className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                        aria-label="Delete rule"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+          {!editing && (
+            <div className="px-5 py-3 border-t bg-neutral-50/50">
+              <SimulationPanel clientId={clientId} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
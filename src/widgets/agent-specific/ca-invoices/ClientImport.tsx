@@ -0,0 +1,382 @@
+import React, { useState, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { AlertTriangle, CheckCircle2, Download, Upload } from 'lucide-react';
+import { caInvoiceService, type CaBranch, type ClientImportResult } from '@/services/caInvoiceService';
+import {
+  IMPORT_FIELDS,
+  TEMPLATE_CSV,
+  clientsFromSheet,
+  clientsFromTally,
+  guessMapping,
+  matchExisting,
+  planImport,
+  toImportEntry,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportClient,
+  type ImportPlanItem,
+} from './clientImport';
+import { readSpreadsheet } from './spreadsheet';
+import { decodeTallyBuffer, isClientLedgerGroup, parseTallyParties } from './tallyXml';
+import { downloadFile } from './download';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+const ACTION_STYLES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-emerald-100 text-emerald-700' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: 'No change', className: 'bg-neutral-100 text-neutral-500' },
+  invalid: { label: 'Error', className: 'bg-red-100 text-red-700' },
+};
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(IMPORT_FIELDS.map((f) => [f.key, f.label]));
+
+/* ─── Plan Row ─────────────────────────────────────── */
+
+function PlanRow({ item, included, onToggle }: { item: ImportPlanItem; included: boolean; onToggle: () => void }) {
+  const { client } = item;
+  const style = ACTION_STYLES[item.action];
+  const selectable = item.action === 'create' || item.action === 'update';
+
+  return (
+    <div className={`px-3 py-2 text-xs ${selectable && !included ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={selectable && included}
+          disabled={!selectable}
+          onChange={onToggle}
+          className="rounded border-neutral-300"
+        />
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${style.className}`}>{style.label}</span>
+        <span className="font-medium text-neutral-900 truncate">{client.name || '—'}</span>
+        {client.gstin && <span className="font-mono text-neutral-500">{client.gstin}</span>}
+        {item.existing && item.existing.name !== client.name && (
+          <span className="text-neutral-400 truncate">→ {item.existing.name}</span>
+        )}
+        <span className="ml-auto text-neutral-400 shrink-0">{client.sources.length > 1 ? `${client.sources.length} rows` : client.sources[0]}</span>
+      </div>
+      <div className="pl-6 mt-1 space-y-0.5">
+        {item.action === 'create' && (
+          <p className="text-neutral-500">
+            {[client.pan && `PAN ${client.pan}`, client.state_code && `state ${client.state_code}`, client.address]
+              .filter(Boolean).join(' · ') || 'Name only'}
+          </p>
+        )}
+        {item.changes.map((c) => (
+          <p key={c.field} className="text-neutral-600">
+            {FIELD_LABELS[c.field] || c.field}: {c.from ? <span className="line-through text-neutral-400">{c.from}</span> : <span className="text-neutral-400">empty</span>} → {c.to}
+          </p>
+        ))}
+        {item.new_phones.length > 0 && (
+          <p className="text-neutral-600">
+            + phone{item.new_phones.length !== 1 ? 's' : ''} {item.new_phones.map((p) => `${p.number}${p.branch ? ` (${p.branch})` : ''}`).join(', ')}
+          </p>
+        )}
+        {item.new_branches.length > 0 && (
+          <p className="text-neutral-600">+ branch{item.new_branches.length !== 1 ? 'es' : ''} {item.new_branches.map((b) => b.name).join(', ')}</p>
+        )}
+        {item.phone_conflicts.map((p) => (
+          <p key={p.number} className="text-amber-700">{p.number} already belongs to {p.client_name} — not moved</p>
+        ))}
+        {client.errors.map((e, i) => <p key={`e${i}`} className="text-red-600">{e}</p>)}
+        {client.warnings.map((w, i) => <p key={`w${i}`} className="text-amber-700">{w}</p>)}
+      </div>
+    </div>
+  );
+}
+
+/* ─── Client Import ────────────────────────────────── */
+
+/**
+ * Bulk client import from CSV / Excel or a Tally masters export. Spreadsheet
+ * columns are mapped to client fields first; either way the user reviews a
+ * dry run against existing clients before anything is written.
+ */
+export default function ClientImport({
+  open,
+  onOpenChange,
+  onImported,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('upload');
+  const [dragOver, setDragOver] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [sourceNote, setSourceNote] = useState('');
+  const [plan, setPlan] = useState<ImportPlanItem[]>([]);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [result, setResult] = useState<ClientImportResult | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setRows([]);
+    setMapping([]);
+    setSourceNote('');
+    setPlan([]);
+    setIncluded(new Set());
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  /** Dry run: match against existing clients and their branches. */
+  const buildPlan = async (clients: ImportClient[]) => {
+    const existing = (await caInvoiceService.listClients({ limit: 1000 })).data || [];
+    const needBranches = new Set(
+      clients.filter((c) => c.branches.length).map((c) => matchExisting(c, existing)?.id).filter((id): id is string => !!id),
+    );
+    const branchLists = await Promise.all(
+      [...needBranches].map(async (id) => [id, await caInvoiceService.listBranches(id).catch(() => [])] as [string, CaBranch[]]),
+    );
+    const next = planImport(clients, existing, new Map(branchLists));
+    setPlan(next);
+    setIncluded(new Set(next.flatMap((item, i) => (item.action === 'create' || item.action === 'update' ? [i] : []))));
+    setStep('review');
+  };
+
+  const processFile = async (file: File) => {
+    const name = file.name.toLowerCase();
+    setBusy(true);
+    try {
+      if (name.endsWith('.xml')) {
+        const parties = parseTallyParties(decodeTallyBuffer(await file.arrayBuffer()));
+        // Client ledgers are usually under Sundry Debtors; fall back to any party with a GSTIN
+        let picked = parties.filter((p) => p.source === 'company' || isClientLedgerGroup(p.parent));
+        if (picked.length === 0) picked = parties.filter((p) => p.gstin);
+        if (picked.length === 0) {
+          toast({ title: 'No clients found', description: 'Export companies or Sundry Debtors ledgers from Tally as XML masters.', variant: 'destructive' });
+          return;
+        }
+        setFileName(file.name);
+        setSourceNote(parties.length > picked.length ? `${parties.length - picked.length} other ledgers in the file were skipped` : '');
+        await buildPlan(clientsFromTally(picked));
+        return;
+      }
+      const sheet = await readSpreadsheet(file);
+      if (sheet.length < 2) {
+        toast({ title: 'Nothing to import', description: 'The file needs a header row and at least one client.', variant: 'destructive' });
+        return;
+      }
+      setFileName(file.name);
+      setRows(sheet);
+      setMapping(guessMapping(sheet[0]));
+      setStep('map');
+    } catch (err: any) {
+      toast({ title: 'Could not read file', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) processFile(file);
+  };
+
+  const handleMapped = async () => {
+    setBusy(true);
+    try {
+      await buildPlan(clientsFromSheet(rows, mapping));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    const items = plan.filter((_, i) => included.has(i));
+    setBusy(true);
+    try {
+      const res = await caInvoiceService.importClients(items.map(toImportEntry));
+      setResult(res);
+      setStep('done');
+      toast({ title: `${res.created} clients created, ${res.updated} updated` });
+      onImported();
+    } catch (err: any) {
+      toast({ title: 'Import failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setColumn = (index: number, field: string) => {
+    setMapping((prev) => prev.map((f, i) => {
+      if (i === index) return field === 'ignore' ? '' : (field as ColumnMapping[number]);
+      // A field feeds from one column — moving it clears the old one
+      return f === field ? '' : f;
+    }));
+  };
+
+  const toggle = (i: number) => setIncluded((prev) => {
+    const next = new Set(prev);
+    if (next.has(i)) next.delete(i);
+    else next.add(i);
+    return next;
+  });
+
+  const counts = plan.reduce<Record<ImportAction, number>>(
+    (acc, item) => ({ ...acc, [item.action]: acc[item.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, invalid: 0 },
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import clients{fileName && <span className="font-normal text-neutral-500"> · {fileName}</span>}</DialogTitle>
+        </DialogHeader>
+
+        {/* Step 1 — upload */}
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <div
+              onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+              onDragLeave={() => setDragOver(false)}
+              onDrop={handleDrop}
+              onClick={() => !busy && fileInputRef.current?.click()}
+              className={`cursor-pointer rounded-lg border-2 border-dashed px-6 py-10 flex flex-col items-center gap-2 text-center transition-colors ${
+                dragOver ? 'border-indigo-400 bg-indigo-50' : 'border-neutral-300 bg-neutral-50 hover:border-neutral-400 hover:bg-neutral-100'
+              }`}
+            >
+              <Upload className="h-6 w-6 text-neutral-400" />
+              <p className="text-sm font-medium text-neutral-700">{busy ? 'Reading…' : 'Drop a CSV, Excel (.xlsx) or Tally masters XML file'}</p>
+              <p className="text-xs text-neutral-500">One row per client, or one per phone / branch — rows with the same GSTIN are merged</p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.xlsx,.xml"
+                className="hidden"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) processFile(f); e.target.value = ''; }}
+              />
+            </div>
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-indigo-600 hover:underline"
+              onClick={() => downloadFile(TEMPLATE_CSV, 'client-import-template.csv', 'text/csv')}
+            >
+              <Download className="h-3 w-3" /> Download a CSV template
+            </button>
+          </div>
+        )}
+
+        {/* Step 2 — map columns */}
+        {step === 'map' && (
+          <div className="space-y-2">
+            <p className="text-xs text-neutral-500">{rows.length - 1} rows. Match each column to a client field.</p>
+            <div className="rounded-lg border divide-y">
+              {rows[0].map((header, i) => (
+                <div key={i} className="flex items-center gap-3 px-3 py-2">
+                  <div className="w-44 min-w-0">
+                    <p className="text-sm font-medium text-neutral-800 truncate">{header || `Column ${i + 1}`}</p>
+                    <p className="text-[11px] text-neutral-400 truncate">
+                      {rows.slice(1, 4).map((r) => r[i]).filter(Boolean).join(' · ') || 'empty'}
+                    </p>
+                  </div>
+                  <Select value={mapping[i] || 'ignore'} onValueChange={(v) => setColumn(i, v)}>
+                    <SelectTrigger className="h-8 w-52 text-sm">
+                      <span className={mapping[i] ? '' : 'text-neutral-400'}>{mapping[i] ? FIELD_LABELS[mapping[i]] : 'Ignore'}</span>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ignore">Ignore</SelectItem>
+                      {IMPORT_FIELDS.map((f) => <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {!mapping.includes('name') && <p className="text-xs text-red-600">Map a column to Client name to continue.</p>}
+          </div>
+        )}
+
+        {/* Step 3 — dry run */}
+        {step === 'review' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-1.5 text-xs">
+              {(Object.keys(ACTION_STYLES) as ImportAction[]).filter((a) => counts[a] > 0).map((a) => (
+                <span key={a} className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[a].className}`}>
+                  {counts[a]} {ACTION_STYLES[a].label.toLowerCase()}
+                </span>
+              ))}
+              {sourceNote && <span className="text-neutral-400 self-center">{sourceNote}</span>}
+            </div>
+            <p className="text-xs text-neutral-500">Nothing has been saved yet. Existing details are only overwritten where shown.</p>
+            <div className="rounded-lg border divide-y max-h-[50vh] overflow-y-auto">
+              {plan.map((item, i) => <PlanRow key={i} item={item} included={included.has(i)} onToggle={() => toggle(i)} />)}
+            </div>
+          </div>
+        )}
+
+        {/* Step 4 — result */}
+        {step === 'done' && result && (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-start gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3">
+              <CheckCircle2 className="h-4 w-4 text-emerald-600 mt-0.5 shrink-0" />
+              <p className="text-emerald-900">
+                {result.created} created · {result.updated} updated · {result.phones_added} phones · {result.branches_created} branches
+              </p>
+            </div>
+            {result.errors.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 space-y-1">
+                <p className="flex items-center gap-1.5 font-medium text-red-800">
+                  <AlertTriangle className="h-4 w-4" /> {result.errors.length} not imported
+                </p>
+                {result.errors.map((e) => (
+                  <p key={e.index} className="text-xs text-red-700">{e.name}: {e.message}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              {step !== 'upload' && <Button variant="outline" onClick={reset} disabled={busy}>Start over</Button>}
+              {step === 'map' && (
+                <Button onClick={handleMapped} disabled={busy || !mapping.includes('name')}>
+                  {busy ? 'Checking…' : 'Preview import'}
+                </Button>
+              )}
+              {step === 'review' && (
+                <Button onClick={handleCommit} disabled={busy || included.size === 0}>
+                  {busy ? 'Importing…' : `Import ${included.size} client${included.size !== 1 ? 's' : ''}`}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
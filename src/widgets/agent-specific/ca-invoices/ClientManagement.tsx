@@ -29,36 +29,72 @@ import {
 } from '@/components/ui/select';
 import {
   AlertTriangle,
+  Archive,
   ArrowLeft,
   Building2,
+  Check,
   ChevronDown,
   ChevronRight,
   FileText,
   MapPin,
+  Merge,
   Pencil,
   Phone,
   Plus,
   Search,
+  Sparkles,
   Trash2,
+  Upload,
+  UserPlus,
   Users,
+  Warehouse,
   X,
 } from 'lucide-react';
 import {
   caInvoiceService,
   type CaClient,
   type CaBranch,
+  type BranchInput,
   type CaInvoice,
   type UnknownSender,
+  type SenderBuyerDetails,
+  type SenderMatchReason,
+  type SenderSuggestion,
+  type SenderSuggestions,
 } from '@/services/caInvoiceService';
+import { validateGstin } from './gstin';
+import PeriodLocks from './PeriodLocks';
+import VendorMaster from './VendorMaster';
+import YearEndRollover from './YearEndRollover';
+import ClientImport from './ClientImport';
+import FinancialYearSelect from './FinancialYearSelect';
+import { navigateTab, takeNavigationIntent } from './navigation';
+import { currentFy, fyFilter, fyLabel, recentFys, useFinancialYear } from './financialYear';
 
 /* ─── Helpers ──────────────────────────────────────── */
 
 const formatCurrency = (n: number) =>
   new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(n);
 
+/** GSTIN must be blank or fully valid before a client can be saved. */
+function isGstinAcceptable(gstin: string): boolean {
+  return !gstin || validateGstin(gstin).valid;
+}
+
+function ClientGstinHint({ gstin, pan }: { gstin: string; pan: string }) {
+  if (!gstin) return null;
+  const check = validateGstin(gstin);
+  if (!check.valid) return <p className="text-[11px] text-red-600 mt-1">{check.error}</p>;
+  if (pan && pan !== check.pan) {
+    return <p className="text-[11px] text-amber-700 mt-1">PAN in GSTIN is {check.pan}, not {pan}</p>;
+  }
+  return <p className="text-[11px] text-emerald-700 mt-1">{check.stateName} ({check.stateCode})</p>;
+}
+
 /* ─── Client Stats (inline mini-cards) ─────────────── */
 
 function ClientStats({ clientId }: { clientId: string }) {
+  const [fy] = useFinancialYear();
   const [stats, setStats] = useState<{ invoiceCount: number; pendingCount: number; totalAmount: number; lastDate: string | null }>({
     invoiceCount: 0, pendingCount: 0, totalAmount: 0, lastDate: null,
   });
@@ -68,12 +104,13 @@ function ClientStats({ clientId }: { clientId: string }) {
     let cancelled = false;
     (async () => {
       try {
+        const range = fyFilter(fy);
         const [all, pending] = await Promise.all([
-          caInvoiceService.listInvoices({ client_id: clientId, limit: 1 }),
-          caInvoiceService.listInvoices({ client_id: clientId, status: 'pending_review', limit: 1 }),
+          caInvoiceService.listInvoices({ client_id: clientId, ...range, limit: 1 }),
+          caInvoiceService.listInvoices({ client_id: clientId, ...range, status: 'pending_review', limit: 1 }),
         ]);
         // Fetch first page for amount calc
-        const invoices = await caInvoiceService.listInvoices({ client_id: clientId, limit: 100 });
+        const invoices = await caInvoiceService.listInvoices({ client_id: clientId, ...range, limit: 100 });
         if (cancelled) return;
         const totalAmt = (invoices.data || []).reduce((s, inv) => s + (inv.totals?.grand_total || 0), 0);
         const lastInv = (invoices.data || [])[0];
@@ -90,7 +127,7 @@ function ClientStats({ clientId }: { clientId: string }) {
       }
     })();
     return () => { cancelled = true; };
-  }, [clientId]);
+  }, [clientId, fy]);
 
   if (loading) return <div className="grid grid-cols-2 gap-3"><Skeleton className="h-16" /><Skeleton className="h-16" /><Skeleton className="h-16" /><Skeleton className="h-16" /></div>;
 
@@ -117,14 +154,26 @@ function ClientStats({ clientId }: { clientId: string }) {
 
 function BranchCard({
   branch,
+  others,
   onAddPhone,
   onRemovePhone,
+  onEdit,
+  onMerge,
+  onDelete,
 }: {
   branch: CaBranch;
+  /** The client's other branches, as merge targets. */
+  others: CaBranch[];
   onAddPhone: (branchId: string) => void;
   onRemovePhone: (branchId: string, phone: string) => void;
+  onEdit: (branch: CaBranch) => void;
+  onMerge: (branch: CaBranch, intoBranchId: string) => void;
+  onDelete: (branch: CaBranch) => void;
 }) {
   const [expanded, setExpanded] = useState(false);
+  const [mergeInto, setMergeInto] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const mergeTarget = others.find((b) => b.id === mergeInto);
 
   return (
     <div className="border border-neutral-200 rounded-lg">
@@ -140,6 +189,11 @@ function BranchCard({
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {branch.tally_cost_centre && (
+            <span className="hidden sm:inline text-[11px] text-violet-700 bg-violet-50 rounded px-1.5 py-0.5 truncate max-w-[120px]">
+              {branch.tally_cost_centre}
+            </span>
+          )}
           <Badge variant="outline" className="text-xs">{branch.phone_numbers?.length || 0} phones</Badge>
           {expanded ? <ChevronDown className="h-4 w-4 text-neutral-400" /> : <ChevronRight className="h-4 w-4 text-neutral-400" />}
         </div>
@@ -152,6 +206,15 @@ function BranchCard({
                 <MapPin className="h-3 w-3" /> State Code: {branch.state_code}
               </p>
             )}
+            {(branch.tally_cost_centre || branch.tally_godown) && (
+              <p className="text-xs text-neutral-500 flex items-center gap-1.5">
+                <Warehouse className="h-3 w-3" />
+                Tally: {[
+                  branch.tally_cost_centre && `cost centre ${branch.tally_cost_centre}`,
+                  branch.tally_godown && `godown ${branch.tally_godown}`,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
             {(branch.phone_numbers || []).length > 0 ? (
               <div className="space-y-1">
                 {branch.phone_numbers.map((phone) => (
@@ -172,14 +235,75 @@ function BranchCard({
             ) : (
               <p className="text-xs text-neutral-400 italic">No phone numbers mapped</p>
             )}
-            <Button
-              size="sm"
-              variant="ghost"
-              className="text-xs gap-1 mt-1"
-              onClick={() => onAddPhone(branch.id)}
-            >
-              <Plus className="h-3 w-3" /> Add Phone
-            </Button>
+            <div className="flex items-center gap-1 mt-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs gap-1"
+                onClick={() => onAddPhone(branch.id)}
+              >
+                <Plus className="h-3 w-3" /> Add Phone
+              </Button>
+              <Button size="sm" variant="ghost" className="text-xs gap-1" onClick={() => onEdit(branch)}>
+                <Pencil className="h-3 w-3" /> Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs gap-1"
+                onClick={() => navigateTab('invoices', { clientId: branch.client_id, branchId: branch.id })}
+              >
+                <FileText className="h-3 w-3" /> Invoices
+              </Button>
+              {others.length > 0 && (
+                <Button size="sm" variant="ghost" className="text-xs gap-1" onClick={() => { setMergeInto(mergeInto === null ? '' : null); setConfirmDelete(false); }}>
+                  <Merge className="h-3 w-3" /> Merge
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-xs gap-1 text-red-600 hover:text-red-700 ml-auto"
+                onClick={() => { setConfirmDelete(!confirmDelete); setMergeInto(null); }}
+              >
+                <Trash2 className="h-3 w-3" /> Delete
+              </Button>
+            </div>
+            {mergeInto !== null && (
+              <div className="rounded-md bg-neutral-50 px-2.5 py-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-neutral-600 shrink-0">Merge into</span>
+                  <Select value={mergeInto} onValueChange={setMergeInto}>
+                    <SelectTrigger className="h-8 text-xs bg-white">
+                      <span className={mergeTarget ? '' : 'text-neutral-400'}>{mergeTarget?.name || 'Choose a branch…'}</span>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {others.map((b) => <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {mergeTarget && (
+                  <div className="flex items-center gap-2">
+                    <p className="text-[11px] text-neutral-500">
+                      Phones and invoices move to {mergeTarget.name}, then {branch.name} is deleted.
+                    </p>
+                    <Button size="sm" className="h-7 text-xs shrink-0 ml-auto" onClick={() => onMerge(branch, mergeTarget.id)}>
+                      Merge
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+            {confirmDelete && (
+              <div className="flex items-center gap-2 rounded-md bg-red-50 px-2.5 py-2">
+                <p className="text-[11px] text-red-700">
+                  Its phones stay with the client without a branch, and its invoices lose the branch tag.
+                </p>
+                <Button size="sm" variant="destructive" className="h-7 text-xs shrink-0 ml-auto" onClick={() => onDelete(branch)}>
+                  Delete branch
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -263,13 +387,18 @@ function ClientDetail({
   const [editPan, setEditPan] = useState(client.pan || '');
   const [editAddress, setEditAddress] = useState(client.address || '');
   const [editStateCode, setEditStateCode] = useState(client.state_code || '');
+  const [editFy, setEditFy] = useState(client.financial_year || '');
+  const [fy] = useFinancialYear();
 
   // Dialogs
   const [showAddBranch, setShowAddBranch] = useState(false);
+  const [editingBranch, setEditingBranch] = useState<CaBranch | null>(null);
   const [showAddPhone, setShowAddPhone] = useState<string | null>(null);
   const [branchName, setBranchName] = useState('');
   const [branchAddress, setBranchAddress] = useState('');
   const [branchStateCode, setBranchStateCode] = useState('');
+  const [branchCostCentre, setBranchCostCentre] = useState('');
+  const [branchGodown, setBranchGodown] = useState('');
   const [phoneInput, setPhoneInput] = useState('');
 
   const fetchBranches = useCallback(async () => {
@@ -288,6 +417,16 @@ function ClientDetail({
     fetchBranches();
   }, [fetchBranches]);
 
+  const handleEditGstin = (value: string) => {
+    const gstin = value.toUpperCase();
+    setEditGstin(gstin);
+    const check = validateGstin(gstin);
+    if (check.valid) {
+      setEditStateCode(check.stateCode!);
+      if (!editPan) setEditPan(check.pan!);
+    }
+  };
+
   const handleSaveInfo = async () => {
     try {
       await caInvoiceService.updateClient(client.id, {
@@ -296,6 +435,7 @@ function ClientDetail({
         pan: editPan || undefined,
         address: editAddress || undefined,
         state_code: editStateCode || undefined,
+        financial_year: editFy || undefined,
       });
       toast({ title: 'Client updated' });
       setEditing(false);
@@ -305,20 +445,62 @@ function ClientDetail({
     }
   };
 
-  const handleCreateBranch = async () => {
+  const openBranchForm = (branch: CaBranch | null) => {
+    setEditingBranch(branch);
+    setBranchName(branch?.name || '');
+    setBranchAddress(branch?.address || '');
+    setBranchStateCode(branch?.state_code || '');
+    setBranchCostCentre(branch?.tally_cost_centre || '');
+    setBranchGodown(branch?.tally_godown || '');
+    setShowAddBranch(true);
+  };
+
+  const handleSaveBranch = async () => {
     if (!branchName) return;
+    const data: BranchInput = {
+      name: branchName.trim(),
+      address: branchAddress || undefined,
+      state_code: branchStateCode || undefined,
+      tally_cost_centre: branchCostCentre.trim() || undefined,
+      tally_godown: branchGodown.trim() || undefined,
+    };
     try {
-      await caInvoiceService.createBranch(client.id, {
-        name: branchName,
-        address: branchAddress || undefined,
-        state_code: branchStateCode || undefined,
-      });
-      toast({ title: 'Branch created' });
+      if (editingBranch) {
+        await caInvoiceService.updateBranch(client.id, editingBranch.id, data);
+        toast({ title: 'Branch updated' });
+      } else {
+        await caInvoiceService.createBranch(client.id, data);
+        toast({ title: 'Branch created' });
+      }
       setShowAddBranch(false);
-      setBranchName('');
-      setBranchAddress('');
-      setBranchStateCode('');
+      setEditingBranch(null);
+      fetchBranches();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleMergeBranch = async (branch: CaBranch, intoBranchId: string) => {
+    try {
+      const res = await caInvoiceService.mergeBranch(client.id, branch.id, intoBranchId);
+      const into = branches.find((b) => b.id === intoBranchId);
+      toast({
+        title: `${branch.name} merged into ${into?.name || 'branch'}`,
+        description: `${res.phones_moved} phone${res.phones_moved !== 1 ? 's' : ''} and ${res.invoices_moved} invoice${res.invoices_moved !== 1 ? 's' : ''} moved`,
+      });
+      fetchBranches();
+      onRefresh();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteBranch = async (branch: CaBranch) => {
+    try {
+      await caInvoiceService.deleteBranch(client.id, branch.id);
+      toast({ title: 'Branch deleted' });
       fetchBranches();
+      onRefresh();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
     }
@@ -388,7 +570,8 @@ function ClientDetail({
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <Label className="text-xs">GSTIN</Label>
-                <Input value={editGstin} onChange={(e) => setEditGstin(e.target.value.toUpperCase())} maxLength={15} className="mt-1 font-mono text-xs" />
+                <Input value={editGstin} onChange={(e) => handleEditGstin(e.target.value)} maxLength={15} className="mt-1 font-mono text-xs" />
+                <ClientGstinHint gstin={editGstin} pan={editPan} />
               </div>
               <div>
                 <Label className="text-xs">PAN</Label>
@@ -399,12 +582,23 @@ function ClientDetail({
               <Label className="text-xs">Address</Label>
               <Input value={editAddress} onChange={(e) => setEditAddress(e.target.value)} className="mt-1" />
             </div>
-            <div>
-              <Label className="text-xs">State Code</Label>
-              <Input value={editStateCode} onChange={(e) => setEditStateCode(e.target.value)} maxLength={2} className="mt-1 w-20" />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">State Code</Label>
+                <Input value={editStateCode} onChange={(e) => setEditStateCode(e.target.value)} maxLength={2} className="mt-1 w-20" />
+              </div>
+              <div>
+                <Label className="text-xs">Books open for</Label>
+                <Select value={editFy} onValueChange={setEditFy}>
+                  <SelectTrigger className="mt-1 h-9 text-sm"><span>{editFy ? fyLabel(editFy) : 'Not set'}</span></SelectTrigger>
+                  <SelectContent>
+                    {recentFys(4).map((y) => <SelectItem key={y} value={y}>{fyLabel(y)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <div className="flex gap-2 pt-2">
-              <Button size="sm" onClick={handleSaveInfo}>Save</Button>
+              <Button size="sm" onClick={handleSaveInfo} disabled={!editName || !isGstinAcceptable(editGstin)}>Save</Button>
               <Button size="sm" variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
             </div>
         </div>
@@ -428,12 +622,21 @@ function ClientDetail({
               <p className="text-neutral-900">{client.state_code}</p>
             </div>
           )}
+          {client.financial_year && (
+            <div>
+              <p className="text-xs text-neutral-500">Books open for</p>
+              <p className={client.financial_year < currentFy() ? 'text-amber-700' : 'text-neutral-900'}>
+                {fyLabel(client.financial_year)}
+                {client.financial_year < currentFy() && <span className="text-xs"> · awaiting year-end rollover</span>}
+              </p>
+            </div>
+          )}
         </div>
       )}
 
       {/* Stats */}
       <div>
-        <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-3">Statistics</p>
+        <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-3">Statistics · {fyLabel(fy)}</p>
         <ClientStats clientId={client.id} />
       </div>
 
@@ -441,7 +644,7 @@ function ClientDetail({
       <div>
         <div className="flex items-center justify-between mb-3">
           <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider">Branches</p>
-          <Button size="sm" variant="outline" onClick={() => setShowAddBranch(true)} className="gap-1 text-xs">
+          <Button size="sm" variant="outline" onClick={() => openBranchForm(null)} className="gap-1 text-xs">
             <Plus className="h-3 w-3" /> Add Branch
           </Button>
         </div>
@@ -453,8 +656,12 @@ function ClientDetail({
               <BranchCard
                 key={branch.id}
                 branch={branch}
+                others={branches.filter((b) => b.id !== branch.id)}
                 onAddPhone={setShowAddPhone}
                 onRemovePhone={handleRemovePhone}
+                onEdit={openBranchForm}
+                onMerge={handleMergeBranch}
+                onDelete={handleDeleteBranch}
               />
             ))}
           </div>
@@ -485,17 +692,23 @@ function ClientDetail({
         )}
       </div>
 
+      {/* Filed periods */}
+      <PeriodLocks clientId={client.id} />
+
+      {/* Suppliers */}
+      <VendorMaster clientId={client.id} />
+
       {/* Recent Invoices */}
       <div>
         <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-3">Recent Invoices</p>
         <RecentInvoices clientId={client.id} />
       </div>
 
-      {/* Add Branch Dialog */}
+      {/* Add / Edit Branch Dialog */}
       <Dialog open={showAddBranch} onOpenChange={setShowAddBranch}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Add Branch</DialogTitle>
+            <DialogTitle>{editingBranch ? `Edit ${editingBranch.name}` : 'Add Branch'}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
             <div>
@@ -510,10 +723,23 @@ function ClientDetail({
               <Label>State Code</Label>
               <Input value={branchStateCode} onChange={(e) => setBranchStateCode(e.target.value)} maxLength={2} className="w-20" />
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Tally cost centre</Label>
+                <Input value={branchCostCentre} onChange={(e) => setBranchCostCentre(e.target.value)} placeholder="Pune Branch" />
+              </div>
+              <div>
+                <Label>Tally godown</Label>
+                <Input value={branchGodown} onChange={(e) => setBranchGodown(e.target.value)} placeholder="Main Location" />
+              </div>
+            </div>
+            <p className="text-xs text-neutral-500 -mt-2">
+              Exported vouchers for this branch's invoices are allocated to these. Names must match the client's Tally company exactly.
+            </p>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowAddBranch(false)}>Cancel</Button>
-            <Button onClick={handleCreateBranch} disabled={!branchName}>Create</Button>
+            <Button onClick={handleSaveBranch} disabled={!branchName}>{editingBranch ? 'Save' : 'Create'}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -538,6 +764,39 @@ function ClientDetail({
   );
 }
 
+/* ─── Sender Suggestions ───────────────────────────── */
+
+const MATCH_REASON_LABELS: Record<SenderMatchReason, string> = {
+  buyer_gstin: 'Billed to their GSTIN',
+  buyer_pan: 'Billed under their PAN',
+  name: 'Similar name',
+  phone_prefix: 'Similar number',
+};
+
+function confidenceLabel(score: number): { label: string; className: string } {
+  if (score >= 0.8) return { label: 'Strong match', className: 'bg-emerald-100 text-emerald-700' };
+  if (score >= 0.5) return { label: 'Likely', className: 'bg-blue-100 text-blue-700' };
+  return { label: 'Possible', className: 'bg-neutral-100 text-neutral-600' };
+}
+
+function SuggestionSummary({ suggestion }: { suggestion: SenderSuggestion }) {
+  const confidence = confidenceLabel(suggestion.score);
+  return (
+    <div className="flex items-center gap-1.5 min-w-0 flex-wrap">
+      <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold shrink-0 ${confidence.className}`}>{confidence.label}</span>
+      <span className="text-xs font-medium text-neutral-800 truncate">
+        {suggestion.client_name}
+        {suggestion.branch_name && <span className="font-normal text-neutral-500"> · {suggestion.branch_name}</span>}
+      </span>
+      {suggestion.reasons.map((r) => (
+        <span key={r.reason} title={r.detail} className="px-1.5 py-0.5 rounded bg-neutral-100 text-[10px] text-neutral-600 shrink-0">
+          {MATCH_REASON_LABELS[r.reason] || r.reason}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 /* ─── Client Card (left panel) ─────────────────────── */
 
 function ClientCard({
@@ -580,6 +839,14 @@ function ClientCard({
             <MapPin className="h-3 w-3" /> {client.state_code}
           </span>
         )}
+        {client.financial_year && (
+          <span
+            className={`text-[10px] ${client.financial_year < currentFy() ? 'text-amber-600 font-medium' : 'text-neutral-500'}`}
+            title={client.financial_year < currentFy() ? 'Not yet rolled over to the current year' : undefined}
+          >
+            {fyLabel(client.financial_year)}
+          </span>
+        )}
       </div>
     </button>
   );
@@ -596,6 +863,11 @@ export default function ClientManagement({ config }: { config: Record<string, un
   const [selectedClient, setSelectedClient] = useState<CaClient | null>(null);
   const [showCreate, setShowCreate] = useState(false);
   const [showAssign, setShowAssign] = useState<UnknownSender | null>(null);
+  const [showRollover, setShowRollover] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [senderSuggestions, setSenderSuggestions] = useState<Record<string, SenderSuggestions>>({});
+  // Set while the create form is prefilled from an unknown sender's invoices
+  const [createForSender, setCreateForSender] = useState<UnknownSender | null>(null);
 
   // Create form
   const [formName, setFormName] = useState('');
@@ -629,6 +901,26 @@ export default function ClientManagement({ config }: { config: Record<string, un
     fetchData();
   }, [fetchData]);
 
+  // Deep link from an invoice ("unlock in client settings")
+  useEffect(() => {
+    const intent = takeNavigationIntent('clients');
+    if (typeof intent?.clientId === 'string') {
+      caInvoiceService.getClient(intent.clientId).then(setSelectedClient).catch(() => {});
+    }
+  }, []);
+
+  // Rank likely clients for each unknown sender
+  useEffect(() => {
+    if (unknownSenders.length === 0) return;
+    let cancelled = false;
+    Promise.all(
+      unknownSenders.map(async (s) => [s.id, await caInvoiceService.getSenderSuggestions(s.id).catch(() => ({ suggestions: [] }))] as const),
+    ).then((entries) => {
+      if (!cancelled) setSenderSuggestions(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [unknownSenders]);
+
   // Load branches when assigning to a specific client
   useEffect(() => {
     if (!assignClientId) {
@@ -638,6 +930,16 @@ export default function ClientManagement({ config }: { config: Record<string, un
     caInvoiceService.listBranches(assignClientId).then(setAssignBranches).catch(() => {});
   }, [assignClientId]);
 
+  const handleFormGstin = (value: string) => {
+    const gstin = value.toUpperCase();
+    setFormGstin(gstin);
+    const check = validateGstin(gstin);
+    if (check.valid) {
+      setFormStateCode(check.stateCode!);
+      if (!formPan) setFormPan(check.pan!);
+    }
+  };
+
   const handleCreateClient = async () => {
     try {
       const newClient = await caInvoiceService.createClient({
@@ -646,8 +948,14 @@ export default function ClientManagement({ config }: { config: Record<string, un
         pan: formPan || undefined,
         address: formAddress || undefined,
         state_code: formStateCode || undefined,
+        financial_year: currentFy(),
       });
-      toast({ title: 'Client created' });
+      if (createForSender && newClient?.id) {
+        await caInvoiceService.assignUnknownSender(createForSender.id, { client_id: newClient.id });
+        toast({ title: 'Client created', description: `${createForSender.phone_number} assigned to ${newClient.name}` });
+      } else {
+        toast({ title: 'Client created' });
+      }
       setShowCreate(false);
       resetForm();
       fetchData();
@@ -667,15 +975,51 @@ export default function ClientManagement({ config }: { config: Record<string, un
         branch_id: assignBranchId || undefined,
       });
       toast({ title: `Phone ${showAssign.phone_number} assigned` });
-      setShowAssign(null);
-      setAssignClientId('');
-      setAssignBranchId('');
+      closeAssign();
       fetchData();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
     }
   };
 
+  const handleAcceptSuggestion = async (sender: UnknownSender, suggestion: SenderSuggestion) => {
+    try {
+      await caInvoiceService.assignUnknownSender(sender.id, {
+        client_id: suggestion.client_id,
+        branch_id: suggestion.branch_id,
+      });
+      toast({ title: `Phone ${sender.phone_number} assigned to ${suggestion.client_name}` });
+      if (showAssign?.id === sender.id) closeAssign();
+      fetchData();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const openCreateFromSender = (sender: UnknownSender, buyer: SenderBuyerDetails) => {
+    resetForm();
+    setFormName(buyer.name);
+    setFormAddress(buyer.address || '');
+    setFormStateCode(buyer.state_code || '');
+    if (buyer.gstin) {
+      const check = validateGstin(buyer.gstin);
+      setFormGstin(buyer.gstin);
+      if (check.valid) {
+        setFormStateCode(check.stateCode!);
+        setFormPan(check.pan!);
+      }
+    }
+    setCreateForSender(sender);
+    closeAssign();
+    setShowCreate(true);
+  };
+
+  const closeAssign = () => {
+    setShowAssign(null);
+    setAssignClientId('');
+    setAssignBranchId('');
+  };
+
   const handleIgnoreSender = async (sender: UnknownSender) => {
     try {
       await caInvoiceService.ignoreUnknownSender(sender.id);
@@ -700,8 +1044,11 @@ export default function ClientManagement({ config }: { config: Record<string, un
   const resetForm = () => {
     setFormName(''); setFormGstin(''); setFormPan('');
     setFormAddress(''); setFormStateCode('');
+    setCreateForSender(null);
   };
 
+  const assignSuggestions = showAssign ? senderSuggestions[showAssign.id] : undefined;
+
   return (
     <div className="space-y-4">
       {/* Unknown Senders Banner */}
@@ -716,27 +1063,60 @@ export default function ClientManagement({ config }: { config: Record<string, un
             <p className="text-xs text-amber-700 ml-1">Phones sending invoices not yet mapped to a client</p>
           </div>
           <div className="p-3 space-y-2">
-            {unknownSenders.map((sender) => (
-              <div key={sender.id} className="flex items-center justify-between bg-white rounded-lg px-3 py-2.5 border border-amber-100">
-                <div className="flex items-center gap-3 min-w-0">
-                  <Phone className="h-4 w-4 text-amber-500 shrink-0" />
-                  <div className="min-w-0">
-                    <p className="text-sm font-mono font-medium text-neutral-900">{sender.phone_number}</p>
-                    <p className="text-xs text-neutral-500">
-                      {sender.sender_name || 'Unknown'} &middot; {sender.message_count} messages &middot; Last: {new Date(sender.last_message_at).toLocaleDateString()}
-                    </p>
+            {unknownSenders.map((sender) => {
+              const { suggestions = [], buyer } = senderSuggestions[sender.id] || {};
+              const top = suggestions[0];
+              return (
+                <div key={sender.id} className="bg-white rounded-lg px-3 py-2.5 border border-amber-100">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Phone className="h-4 w-4 text-amber-500 shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-mono font-medium text-neutral-900">{sender.phone_number}</p>
+                        <p className="text-xs text-neutral-500">
+                          {sender.sender_name || 'Unknown'} &middot; {sender.message_count} messages &middot; Last: {new Date(sender.last_message_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-1.5 shrink-0">
+                      <Button size="sm" variant="outline" className="text-xs border-amber-300 hover:bg-amber-50" onClick={() => setShowAssign(sender)}>
+                        Assign
+                      </Button>
+                      <Button size="sm" variant="ghost" className="text-xs text-neutral-500" onClick={() => handleIgnoreSender(sender)}>
+                        Ignore
+                      </Button>
+                    </div>
                   </div>
+                  {top ? (
+                    <div className="flex items-center gap-2 mt-2 pl-7">
+                      <Sparkles className="h-3.5 w-3.5 text-violet-500 shrink-0" />
+                      <SuggestionSummary suggestion={top} />
+                      <div className="ml-auto flex items-center gap-1.5 shrink-0">
+                        {suggestions.length > 1 && (
+                          <button type="button" className="text-[11px] text-neutral-500 hover:underline" onClick={() => setShowAssign(sender)}>
+                            +{suggestions.length - 1} more
+                          </button>
+                        )}
+                        <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs text-emerald-700 hover:bg-emerald-50" onClick={() => handleAcceptSuggestion(sender, top)}>
+                          <Check className="h-3 w-3" /> Accept
+                        </Button>
+                      </div>
+                    </div>
+                  ) : buyer ? (
+                    <div className="flex items-center gap-2 mt-2 pl-7 text-xs text-neutral-600">
+                      <UserPlus className="h-3.5 w-3.5 text-neutral-400 shrink-0" />
+                      <span className="truncate">
+                        No match — invoices are billed to <span className="font-medium text-neutral-800">{buyer.name}</span>
+                        {buyer.gstin && <span className="font-mono text-neutral-500"> {buyer.gstin}</span>}
+                      </span>
+                      <Button size="sm" variant="ghost" className="ml-auto h-7 text-xs shrink-0" onClick={() => openCreateFromSender(sender, buyer)}>
+                        Create client
+                      </Button>
+                    </div>
+                  ) : null}
                 </div>
-                <div className="flex gap-1.5 shrink-0">
-                  <Button size="sm" variant="outline" className="text-xs border-amber-300 hover:bg-amber-50" onClick={() => setShowAssign(sender)}>
-                    Assign
-                  </Button>
-                  <Button size="sm" variant="ghost" className="text-xs text-neutral-500" onClick={() => handleIgnoreSender(sender)}>
-                    Ignore
-                  </Button>
-                </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
@@ -757,9 +1137,33 @@ export default function ClientManagement({ config }: { config: Record<string, un
                   <span className="text-sm font-semibold text-neutral-900">Clients</span>
                   <Badge variant="outline" className="text-xs">{clients.length}</Badge>
                 </div>
-                <Button size="sm" onClick={() => setShowCreate(true)} className="gap-1 text-xs">
-                  <Plus className="h-3 w-3" /> Add
-                </Button>
+                <div className="flex items-center gap-1.5">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowRollover(true)}
+                    className="gap-1 text-xs text-neutral-500"
+                    title="Close a financial year and move clients to the next"
+                  >
+                    <Archive className="h-3 w-3" /> Year end
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowImport(true)}
+                    className="gap-1 text-xs text-neutral-500"
+                    title="Import clients from a spreadsheet or Tally"
+                  >
+                    <Upload className="h-3 w-3" /> Import
+                  </Button>
+                  <Button size="sm" onClick={() => setShowCreate(true)} className="gap-1 text-xs">
+                    <Plus className="h-3 w-3" /> Add
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between mt-3 text-xs text-neutral-500">
+                <span>Figures for</span>
+                <FinancialYearSelect className="h-8 w-[120px]" />
               </div>
               <div className="relative mt-3">
                 <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-neutral-400" />
@@ -822,13 +1226,30 @@ export default function ClientManagement({ config }: { config: Record<string, un
         </div>
       </div>
 
+      <YearEndRollover
+        open={showRollover}
+        onOpenChange={setShowRollover}
+        onRolled={() => {
+          fetchData();
+          // The open panel holds a copy of the client from before the rollover
+          if (selectedClient) caInvoiceService.getClient(selectedClient.id).then(setSelectedClient).catch(() => {});
+        }}
+      />
+
+      <ClientImport open={showImport} onOpenChange={setShowImport} onImported={fetchData} />
+
       {/* Create Client Dialog */}
-      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+      <Dialog open={showCreate} onOpenChange={(v) => { setShowCreate(v); if (!v) resetForm(); }}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Add Client</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {createForSender && (
+              <p className="text-xs text-neutral-600 bg-violet-50 rounded-md px-3 py-2">
+                Prefilled from invoices sent by {createForSender.phone_number}. The number is assigned to the new client once it's created.
+              </p>
+            )}
             <div>
               <Label>Client / Company Name *</Label>
               <Input value={formName} onChange={(e) => setFormName(e.target.value)} placeholder="ABC Enterprises" />
@@ -836,7 +1257,8 @@ export default function ClientManagement({ config }: { config: Record<string, un
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label>GSTIN</Label>
-                <Input value={formGstin} onChange={(e) => setFormGstin(e.target.value.toUpperCase())} placeholder="27ABCDE1234F1Z5" maxLength={15} />
+                <Input value={formGstin} onChange={(e) => handleFormGstin(e.target.value)} placeholder="27ABCDE1234F1Z5" maxLength={15} />
+                <ClientGstinHint gstin={formGstin} pan={formPan} />
               </div>
               <div>
                 <Label>PAN</Label>
@@ -854,18 +1276,33 @@ export default function ClientManagement({ config }: { config: Record<string, un
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setShowCreate(false); resetForm(); }}>Cancel</Button>
-            <Button onClick={handleCreateClient} disabled={!formName}>Create</Button>
+            <Button onClick={handleCreateClient} disabled={!formName || !isGstinAcceptable(formGstin)}>Create</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
       {/* Assign Sender Dialog (with branch selection) */}
-      <Dialog open={!!showAssign} onOpenChange={() => setShowAssign(null)}>
+      <Dialog open={!!showAssign} onOpenChange={closeAssign}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Assign {showAssign?.phone_number} to Client</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {showAssign && assignSuggestions && assignSuggestions.suggestions.length > 0 && (
+              <div>
+                <Label>Suggested</Label>
+                <div className="mt-1.5 rounded-lg border divide-y">
+                  {assignSuggestions.suggestions.map((s) => (
+                    <div key={`${s.client_id}|${s.branch_id || ''}`} className="flex items-center gap-2 px-3 py-2">
+                      <SuggestionSummary suggestion={s} />
+                      <Button size="sm" variant="ghost" className="ml-auto h-7 gap-1 text-xs shrink-0" onClick={() => handleAcceptSuggestion(showAssign, s)}>
+                        <Check className="h-3 w-3" /> Accept
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
               <Label>Select Client</Label>
               <Select value={assignClientId} onValueChange={(v) => { setAssignClientId(v); setAssignBranchId(''); }}>
@@ -897,7 +1334,16 @@ export default function ClientManagement({ config }: { config: Record<string, un
             )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowAssign(null)}>Cancel</Button>
+            {showAssign && assignSuggestions?.buyer && (
+              <Button
+                variant="ghost"
+                className="gap-1.5 sm:mr-auto"
+                onClick={() => openCreateFromSender(showAssign, assignSuggestions.buyer!)}
+              >
+                <UserPlus className="h-3.5 w-3.5" /> New client from invoices
+              </Button>
+            )}
+            <Button variant="outline" onClick={closeAssign}>Cancel</Button>
             <Button onClick={handleAssignSender} disabled={!assignClientId}>Assign</Button>
           </DialogFooter>
         </DialogContent>
@@ -1,8 +1,9 @@
 /**
  * CA Dashboard Overview Widget
  *
- * KPIs, action items, invoice trend, status donut,
- * per-client activity table, recent invoices, system health.
+ * KPIs, action items, approval pipeline, invoice trend, status donut, GST
+ * summary net of credit/debit notes, per-client activity table, recent
+ * invoices, system health.
  */
 
 import React, { useEffect, useState, useCallback } from 'react';
@@ -14,13 +15,23 @@ import {
   FileText, AlertCircle, Users, Wifi, WifiOff,
   ChevronRight, Clock, CheckCircle2, TrendingUp,
 } from 'lucide-react';
-import { caInvoiceService, type DashboardOverview, type ClientBreakdownRow } from '@/services/caInvoiceService';
+import {
+  caInvoiceService,
+  type DashboardOverview,
+  type ClientBreakdownRow,
+  type GstSummary,
+} from '@/services/caInvoiceService';
+import { navigateTab, useWidgetTab } from './navigation';
+import FinancialYearSelect from './FinancialYearSelect';
+import { currentFy, fyBounds, fyLabel, useFinancialYear } from './financialYear';
+import { STAGE_ORDER, STAGE_QUEUES } from './approvalWorkflow';
 
 // ─── Colours ───────────────────────────────────────────────────────
 
 const STATUS_COLORS: Record<string, string> = {
   pending_review: '#f59e0b',
   pending_user_confirmation: '#6366f1',
+  awaiting_client_reply: '#f97316',
   approved: '#10b981',
   rejected: '#ef4444',
   exported: '#6b7280',
@@ -29,6 +40,7 @@ const STATUS_COLORS: Record<string, string> = {
 const STATUS_BADGE: Record<string, string> = {
   pending_review: 'bg-amber-100 text-amber-700',
   pending_user_confirmation: 'bg-indigo-100 text-indigo-700',
+  awaiting_client_reply: 'bg-orange-100 text-orange-700',
   approved: 'bg-emerald-100 text-emerald-700',
   rejected: 'bg-red-100 text-red-700',
   exported: 'bg-neutral-100 text-neutral-600',
@@ -92,11 +104,12 @@ function shortDate(iso: string | null): string {
   catch { return iso; }
 }
 
-function fillTrend(raw: Array<{ date: string; count: number }>): Array<{ date: string; count: number; label: string }> {
+/** 30 days ending at `end` — today, or the last day of a past financial year. */
+function fillTrend(raw: Array<{ date: string; count: number }>, end?: string): Array<{ date: string; count: number; label: string }> {
   const map = new Map(raw.map((r) => [r.date, r.count]));
   const result: Array<{ date: string; count: number; label: string }> = [];
   for (let i = 29; i >= 0; i--) {
-    const d = new Date();
+    const d = end ? new Date(`${end}T12:00:00`) : new Date();
     d.setDate(d.getDate() - i);
     const key = d.toISOString().split('T')[0];
     result.push({ date: key, count: map.get(key) ?? 0, label: d.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' }) });
@@ -127,6 +140,69 @@ function KpiCard({
   );
 }
 
+const fmtInr = (n: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(n);
+
+const GST_HEADS: Array<{ key: keyof GstSummary; label: string }> = [
+  { key: 'cgst_total', label: 'CGST' },
+  { key: 'sgst_total', label: 'SGST' },
+  { key: 'igst_total', label: 'IGST' },
+  { key: 'total_gst', label: 'Total' },
+];
+
+// Invoices, less credit notes, plus debit notes — per tax head
+function GstSummaryCard({ summary }: { summary: DashboardOverview['gst_summary'] }) {
+  const cn = summary.credit_notes;
+  const dn = summary.debit_notes;
+  const net = (key: keyof GstSummary) => summary[key] - (cn?.[key] ?? 0) + (dn?.[key] ?? 0);
+  const rows: Array<{ label: string; sign: string; values: GstSummary; count?: number }> = [
+    { label: 'Invoices', sign: '', values: summary },
+    ...(cn ? [{ label: 'Less: credit notes', sign: '−', values: cn, count: cn.count }] : []),
+    ...(dn ? [{ label: 'Add: debit notes', sign: '+', values: dn, count: dn.count }] : []),
+  ];
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="px-5 pt-5 pb-3">
+        <SectionTitle>GST Summary</SectionTitle>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-xs text-neutral-500 bg-neutral-50">
+              <th className="px-5 py-2 text-left font-medium" />
+              {GST_HEADS.map((h) => (
+                <th key={h.key} className="px-4 py-2 text-right font-medium">{h.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label} className="border-b text-neutral-600">
+                <td className="px-5 py-2.5">
+                  {row.label}
+                  {row.count !== undefined && <span className="text-xs text-neutral-400"> ({row.count})</span>}
+                </td>
+                {GST_HEADS.map((h) => (
+                  <td key={h.key} className="px-4 py-2.5 text-right font-mono text-xs">
+                    {row.values[h.key] ? `${row.sign}${fmtInr(row.values[h.key])}` : '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="font-semibold text-neutral-900">
+              <td className="px-5 py-2.5">Net GST</td>
+              {GST_HEADS.map((h) => (
+                <td key={h.key} className="px-4 py-2.5 text-right font-mono text-xs">{fmtInr(net(h.key))}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 function SectionTitle({ children }: { children: React.ReactNode }) {
   return <h3 className="text-sm font-semibold text-neutral-700 mb-3">{children}</h3>;
 }
@@ -147,24 +223,56 @@ function ClientStatusBar({ row }: { row: ClientBreakdownRow }) {
   );
 }
 
+// Pending invoices by the sign-off stage they wait at, in workflow order
+function ApprovalPipeline({ byStage }: { byStage: NonNullable<DashboardOverview['kpis']['pending_by_stage']> }) {
+  const stages = STAGE_ORDER.filter((s) => byStage[s] != null);
+  return (
+    <div className="rounded-xl border bg-white p-4">
+      <SectionTitle>Approval Pipeline</SectionTitle>
+      <div className="flex items-stretch gap-2">
+        {stages.map((stage, i) => (
+          <React.Fragment key={stage}>
+            {i > 0 && <ChevronRight className="h-4 w-4 self-center text-neutral-300 shrink-0" />}
+            <button
+              onClick={() => navigateTab('invoices', { status: 'pending_review', stage })}
+              className="flex-1 rounded-lg bg-neutral-50 px-3 py-2 text-left hover:bg-neutral-100 transition-colors"
+            >
+              <div className="text-xl font-bold text-neutral-900">{(byStage[stage] ?? 0).toLocaleString('en-IN')}</div>
+              <div className="text-xs text-neutral-500">{STAGE_QUEUES[stage]}</div>
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Main Component ────────────────────────────────────────────────
 
 export default function DashboardOverview({ config }: { config: Record<string, unknown> }) {
   const [data, setData] = useState<DashboardOverview | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fy] = useFinancialYear();
+  // Not every agent's layout has a dead-letter queue tab
+  const dlqTab = useWidgetTab('ca_dlq_panel');
+  const [duplicateCount, setDuplicateCount] = useState(0);
 
   const load = useCallback(async () => {
     try {
-      const overview = await caInvoiceService.getDashboardOverview();
+      const [overview, duplicateGroups] = await Promise.all([
+        caInvoiceService.getDashboardOverview({ financial_year: fy }),
+        caInvoiceService.listDuplicateGroups({ financial_year: fy }).catch(() => []),
+      ]);
       setData(overview);
+      setDuplicateCount(duplicateGroups.length);
       setError(null);
     } catch (e: any) {
       setError(e?.message || 'Failed to load overview');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [fy]);
 
   useEffect(() => {
     load();
@@ -172,10 +280,6 @@ export default function DashboardOverview({ config }: { config: Record<string, u
     return () => clearInterval(timer);
   }, [load]);
 
-  function navigateTab(tabId: string, extra?: Record<string, unknown>) {
-    window.dispatchEvent(new CustomEvent('dashboard:navigate-tab', { detail: { tabId, ...extra } }));
-  }
-
   if (loading) {
     return <div className="flex items-center justify-center py-24 text-neutral-400 text-sm">Loading overview…</div>;
   }
@@ -184,8 +288,60 @@ export default function DashboardOverview({ config }: { config: Record<string, u
     return <div className="flex items-center justify-center py-24 text-red-500 text-sm">{error || 'No data'}</div>;
   }
 
-  const { kpis, status_breakdown, invoice_trend, action_items, recent_invoices, system_health, client_breakdown = [], approval_rate } = data;
-  const trendData = fillTrend(invoice_trend);
+  const {
+    kpis, status_breakdown, invoice_trend, recent_invoices, system_health, gst_summary,
+    client_breakdown = [], approval_rate,
+  } = data;
+  const dlqCount = system_health.dlq_count ?? 0;
+  const openQueries = kpis.open_queries ?? 0;
+  const answeredQueries = kpis.answered_queries ?? 0;
+
+  // Older backends don't emit these action items — derive them from the counts
+  const derivedItems: DashboardOverview['action_items'] = [];
+  if (answeredQueries > 0) {
+    derivedItems.push({
+      type: 'open_queries',
+      count: openQueries,
+      label: `${answeredQueries} client${answeredQueries !== 1 ? 's have' : ' has'} replied to your questions — ${openQueries} quer${openQueries !== 1 ? 'ies' : 'y'} open`,
+      severity: 'warning',
+      tab: 'invoices',
+      params: { status: 'awaiting_client_reply' },
+    });
+  } else if (openQueries > 0) {
+    derivedItems.push({
+      type: 'open_queries',
+      count: openQueries,
+      label: `${openQueries} invoice${openQueries !== 1 ? 's' : ''} awaiting a client reply`,
+      severity: 'info',
+      tab: 'invoices',
+      params: { status: 'awaiting_client_reply' },
+    });
+  }
+  if (duplicateCount > 0) {
+    derivedItems.push({
+      type: 'duplicates',
+      count: duplicateCount,
+      label: `${duplicateCount} probable duplicate group${duplicateCount !== 1 ? 's' : ''} — review before exporting, or ITC is counted twice`,
+      severity: 'warning',
+      tab: 'invoices',
+      params: { view: 'duplicates' },
+    });
+  }
+  if (dlqCount > 0 && dlqTab) {
+    derivedItems.push({
+      type: 'dlq',
+      count: dlqCount,
+      label: `${dlqCount} WhatsApp message${dlqCount !== 1 ? 's' : ''} failed processing — reprocess or dismiss`,
+      severity: 'error',
+      tab: dlqTab,
+    });
+  }
+  const action_items = [
+    // The backend names the tab it expects; point DLQ items at wherever the layout has it
+    ...data.action_items.flatMap((a) => (a.type !== 'dlq' ? [a] : dlqTab ? [{ ...a, tab: dlqTab }] : [])),
+    ...derivedItems.filter((d) => !data.action_items.some((a) => a.type === d.type)),
+  ];
+  const trendData = fillTrend(invoice_trend, fy === currentFy() ? undefined : fyBounds(fy).end);
   const hasInvoices = kpis.total_invoices > 0;
   const donutTotal = status_breakdown.reduce((s, r) => s + r.count, 0);
 
@@ -196,13 +352,23 @@ export default function DashboardOverview({ config }: { config: Record<string, u
   return (
     <div className="space-y-6">
 
+      {/* ── Financial year ─────────────────────────────────────── */}
+      <div className="flex items-center justify-end gap-2 -mb-2">
+        {fy !== currentFy() && (
+          <span className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded-full">
+            Showing {fyLabel(fy)}, not the current year
+          </span>
+        )}
+        <FinancialYearSelect />
+      </div>
+
       {/* ── Action Items ───────────────────────────────────────── */}
       {action_items.length > 0 && (
         <div className="space-y-2">
           {action_items.map((item) => (
             <button
               key={item.type}
-              onClick={() => navigateTab(item.tab)}
+              onClick={() => navigateTab(item.tab, item.params)}
               className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border-l-4 text-left transition-opacity hover:opacity-80 ${SEVERITY_STYLES[item.severity]}`}
             >
               <div className="flex items-center gap-2">
@@ -246,6 +412,11 @@ export default function DashboardOverview({ config }: { config: Record<string, u
         />
       </div>
 
+      {/* ── Approval pipeline ───────────────────────────────────── */}
+      {kpis.pending_by_stage && Object.keys(kpis.pending_by_stage).length > 1 && (
+        <ApprovalPipeline byStage={kpis.pending_by_stage} />
+      )}
+
       {/* ── Status breakdown + Invoice Trend ──────────────────── */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 
@@ -294,7 +465,7 @@ export default function DashboardOverview({ config }: { config: Record<string, u
             {hasInvoices && (
               <span className="text-xs text-neutral-400 flex items-center gap-1">
                 <TrendingUp className="h-3 w-3" />
-                {invoice_trend.reduce((s, r) => s + r.count, 0)} this month
+                {invoice_trend.reduce((s, r) => s + r.count, 0)} {fy === currentFy() ? 'this month' : `in the last 30 days of ${fyLabel(fy)}`}
               </span>
             )}
           </div>
@@ -319,6 +490,9 @@ export default function DashboardOverview({ config }: { config: Record<string, u
         </div>
       </div>
 
+      {/* ── GST Summary ─────────────────────────────────────────── */}
+      {hasInvoices && gst_summary && <GstSummaryCard summary={gst_summary} />}
+
       {/* ── Client Activity Table ───────────────────────────────── */}
       {client_breakdown.length > 0 && (
         <div className="rounded-xl border bg-white overflow-hidden">
@@ -472,6 +646,17 @@ export default function DashboardOverview({ config }: { config: Record<string, u
               <span>{system_health.blocked_phones_count} phone{system_health.blocked_phones_count !== 1 ? 's' : ''} blocked</span>
             </div>
           )}
+          {dlqCount > 0 && (dlqTab ? (
+            <button onClick={() => navigateTab(dlqTab)} className="flex items-center gap-1.5 hover:text-neutral-800">
+              <span className="w-2 h-2 rounded-full bg-red-500" />
+              <span className="underline underline-offset-2">{dlqCount} failed in dead-letter queue</span>
+            </button>
+          ) : (
+            <div className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full bg-red-500" />
+              <span>{dlqCount} failed in dead-letter queue</span>
+            </div>
+          ))}
           {Object.keys(system_health.queue_stats).length > 0 && (
             <div className="flex items-center gap-1.5">
               <span className="w-2 h-2 rounded-full bg-indigo-400" />
@@ -0,0 +1,439 @@
+/**
+ * Dead-letter queue — WhatsApp messages whose processing failed.
+ *
+ * Items are grouped by operation and error signature so one root cause
+ * (an expired media URL, a model timeout) can be retried or cleared at once.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertOctagon,
+  ChevronDown,
+  MessageCircle,
+  RefreshCw,
+  RotateCcw,
+  Search,
+  XCircle,
+} from 'lucide-react';
+import {
+  caInvoiceService,
+  type DlqItem,
+  type DlqRetryAttempt,
+} from '@/services/caInvoiceService';
+import { navigateTab, useWidgetTab } from './navigation';
+
+const STATUS_CHIPS: Array<{ value: DlqItem['status']; label: string }> = [
+  { value: 'unprocessed', label: 'Failed' },
+  { value: 'pending_reprocess', label: 'Reprocessing' },
+  { value: 'dismissed', label: 'Dismissed' },
+];
+
+const ATTEMPT_COLORS: Record<DlqRetryAttempt['outcome'], string> = {
+  queued: 'bg-blue-50 text-blue-700',
+  failed: 'bg-red-50 text-red-700',
+  succeeded: 'bg-emerald-50 text-emerald-700',
+};
+
+const operationLabel = (op: string) => op.replace(/_/g, ' ');
+
+/**
+ * Error text with the per-item noise (ids, numbers, quoted values, URLs)
+ * stripped, so the same failure on different messages groups together.
+ */
+function errorSignature(error: string): string {
+  return (error || 'Unknown error')
+    .replace(/https?:\/\/\S+/g, '<url>')
+    .replace(/(['"`]).*?\1/g, '<value>')
+    .replace(/\b[0-9a-f]{8,}\b/gi, '<id>')
+    .replace(/\d+(\.\d+)?/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 160);
+}
+
+interface DlqGroup {
+  key: string;
+  operation: string;
+  signature: string;
+  items: DlqItem[];
+  latest: string;
+}
+
+function groupItems(items: DlqItem[]): DlqGroup[] {
+  const groups = new Map<string, DlqGroup>();
+  for (const item of items) {
+    const signature = errorSignature(item.error);
+    const key = `${item.operation}::${signature}`;
+    const group = groups.get(key) || { key, operation: item.operation, signature, items: [], latest: item.created_at };
+    group.items.push(item);
+    if (item.created_at > group.latest) group.latest = item.created_at;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.items.length - a.items.length || b.latest.localeCompare(a.latest));
+}
+
+/* ─── Retry History ────────────────────────────────── */
+
+function RetryHistory({ item }: { item: DlqItem }) {
+  const attempts = item.retry_history || [];
+  if (attempts.length === 0) {
+    return <p className="text-xs text-neutral-400 px-3 py-2">No retries yet</p>;
+  }
+  return (
+    <ol className="px-3 py-2 space-y-1.5">
+      {[...attempts].reverse().map((a, i) => (
+        <li key={i} className="flex items-start gap-2 text-xs">
+          <span className={`px-1.5 py-0.5 rounded font-medium shrink-0 ${ATTEMPT_COLORS[a.outcome]}`}>{a.outcome}</span>
+          <span className="text-neutral-500 shrink-0">
+            {new Date(a.at).toLocaleString('en-IN')}
+            {a.actor && <> · {a.actor}</>}
+          </span>
+          {a.error && <span className="text-red-600 break-all">{a.error}</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/* ─── Main DLQ Panel ───────────────────────────────── */
+
+export default function DlqPanel({ config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  // Not every agent's layout has a chat tab
+  const chatTab = useWidgetTab('ca_whatsapp_chat');
+
+  const [items, setItems] = useState<DlqItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<DlqItem['status']>('unprocessed');
+  const [operation, setOperation] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      setItems(await caInvoiceService.listDlqItems(status));
+      setSelected(new Set());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const operations = React.useMemo(() => [...new Set(items.map((i) => i.operation))].sort(), [items]);
+  const clients = React.useMemo(() => {
+    const map = new Map<string, string>();
+    for (const i of items) if (i.client_id) map.set(i.client_id, i.client_name || i.client_id);
+    return [...map.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [items]);
+
+  const filtered = React.useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return items.filter((i) =>
+      (!operation || i.operation === operation)
+      && (!clientId || i.client_id === clientId)
+      && (!q || [i.error, i.sender_phone, i.sender_name, i.client_name].some((v) => v?.toLowerCase().includes(q)))
+    );
+  }, [items, operation, clientId, search]);
+
+  const groups = React.useMemo(() => groupItems(filtered), [filtered]);
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  const toggleGroupSelection = (group: DlqGroup) => {
+    const allSelected = group.items.every((i) => selected.has(i.id));
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const i of group.items) {
+        if (allSelected) next.delete(i.id);
+        else next.add(i.id);
+      }
+      return next;
+    });
+  };
+
+  const runBulk = async (action: 'reprocess' | 'dismiss', ids: string[]) => {
+    if (ids.length === 0) return;
+    setBusy(true);
+    try {
+      const result = action === 'reprocess'
+        ? await caInvoiceService.bulkReprocessDlqItems(ids)
+        : await caInvoiceService.bulkDismissDlqItems(ids);
+      const n = result?.modified_count ?? ids.length;
+      toast({ title: `${n} item${n !== 1 ? 's' : ''} ${action === 'reprocess' ? 'queued for reprocessing' : 'dismissed'}` });
+      fetchItems();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runSingle = async (action: 'reprocess' | 'dismiss', item: DlqItem) => {
+    setBusy(true);
+    try {
+      if (action === 'reprocess') await caInvoiceService.reprocessDlqItem(item.id);
+      else await caInvoiceService.dismissDlqItem(item.id);
+      toast({ title: action === 'reprocess' ? 'Queued for reprocessing' : 'Dismissed' });
+      fetchItems();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canAct = status !== 'dismissed';
+  const hasFilters = !!(operation || clientId || search);
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      {/* Toolbar */}
+      <div className="px-5 pt-5 pb-4 border-b space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-neutral-700 flex items-center gap-2">
+            <AlertOctagon className="h-4 w-4 text-red-500" />
+            Failed WhatsApp processing
+          </h3>
+          <Button size="sm" variant="ghost" onClick={fetchItems} disabled={loading} className="h-8 gap-1.5 text-xs">
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="relative flex-1 min-w-[180px] max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-neutral-400" />
+            <Input
+              placeholder="Search error, sender, client…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 h-9"
+            />
+          </div>
+          {operations.length > 1 && (
+            <Select value={operation || 'all'} onValueChange={(v) => setOperation(v === 'all' ? '' : v)}>
+              <SelectTrigger className="h-9 w-[180px] text-sm capitalize">
+                {operation ? operationLabel(operation) : 'All operations'}
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All operations</SelectItem>
+                {operations.map((op) => (
+                  <SelectItem key={op} value={op}>{operationLabel(op)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {clients.length > 0 && (
+            <Select value={clientId || 'all'} onValueChange={(v) => setClientId(v === 'all' ? '' : v)}>
+              <SelectTrigger className="h-9 w-[180px] text-sm">
+                {clientId ? clients.find(([id]) => id === clientId)?.[1] : 'All clients'}
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All clients</SelectItem>
+                {clients.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {hasFilters && (
+            <button
+              onClick={() => { setOperation(''); setClientId(''); setSearch(''); }}
+              className="text-xs text-neutral-400 hover:text-neutral-700 transition-colors underline shrink-0"
+            >
+              Clear filters
+            </button>
+          )}
+          {canAct && filtered.length > 0 && (
+            <div className="flex items-center gap-2 ml-auto">
+              {selected.size > 0 && <span className="text-xs text-neutral-500">{selected.size} selected</span>}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy}
+                onClick={() => runBulk('dismiss', selected.size > 0 ? [...selected] : filtered.map((i) => i.id))}
+                className="h-8 gap-1.5"
+              >
+                <XCircle className="h-3.5 w-3.5" />
+                Dismiss {selected.size > 0 ? 'selected' : `all ${filtered.length}`}
+              </Button>
+              {status === 'unprocessed' && (
+                <Button
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => runBulk('reprocess', selected.size > 0 ? [...selected] : filtered.map((i) => i.id))}
+                  className="h-8 gap-1.5"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Reprocess {selected.size > 0 ? 'selected' : `all ${filtered.length}`}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {STATUS_CHIPS.map((chip) => (
+            <button
+              key={chip.value}
+              onClick={() => setStatus(chip.value)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                status === chip.value
+                  ? 'bg-neutral-900 text-white'
+                  : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+              }`}
+            >
+              {chip.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Groups */}
+      {loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}
+        </div>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-12">
+          {hasFilters ? 'No items match the filters' : status === 'unprocessed' ? 'No failed messages — everything was processed' : 'Nothing here'}
+        </p>
+      ) : (
+        <div className="divide-y">
+          {groups.map((group) => {
+            const isOpen = expandedGroups.has(group.key);
+            const groupSelected = group.items.every((i) => selected.has(i.id));
+            const ids = group.items.map((i) => i.id);
+            return (
+              <div key={group.key}>
+                {/* Group header */}
+                <div className="flex items-center gap-3 px-5 py-3 hover:bg-neutral-50/60">
+                  {canAct && (
+                    <input
+                      type="checkbox"
+                      className="rounded border-neutral-300 accent-neutral-900"
+                      checked={groupSelected}
+                      onChange={() => toggleGroupSelection(group)}
+                    />
+                  )}
+                  <button
+                    onClick={() => setExpandedGroups((prev) => toggle(prev, group.key))}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                  >
+                    <ChevronDown className={`h-4 w-4 text-neutral-400 shrink-0 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+                    <Badge variant="outline" className="text-xs capitalize shrink-0">{operationLabel(group.operation)}</Badge>
+                    <span className="text-sm text-neutral-800 font-mono truncate" title={group.items[0].error}>
+                      {group.signature}
+                    </span>
+                  </button>
+                  <span className="text-xs text-neutral-500 shrink-0">
+                    {group.items.length} item{group.items.length !== 1 ? 's' : ''} · latest {new Date(group.latest).toLocaleDateString('en-IN')}
+                  </span>
+                  {canAct && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      {status === 'unprocessed' && (
+                        <Button size="sm" variant="ghost" disabled={busy} onClick={() => runBulk('reprocess', ids)} className="h-7 text-xs gap-1">
+                          <RotateCcw className="h-3 w-3" /> Reprocess
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" disabled={busy} onClick={() => runBulk('dismiss', ids)} className="h-7 text-xs gap-1 text-neutral-500">
+                        <XCircle className="h-3 w-3" /> Dismiss
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Items */}
+                {isOpen && (
+                  <div className="bg-neutral-50/50 border-t divide-y">
+                    {group.items.map((item) => (
+                      <div key={item.id} className="pl-12 pr-5">
+                        <div className="flex items-center gap-3 py-2.5 text-sm">
+                          {canAct && (
+                            <input
+                              type="checkbox"
+                              className="rounded border-neutral-300 accent-neutral-900"
+                              checked={selected.has(item.id)}
+                              onChange={() => setSelected((prev) => toggle(prev, item.id))}
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="text-neutral-800">
+                              {item.sender_name || item.sender_phone}
+                              {item.sender_name && <span className="ml-1.5 font-mono text-xs text-neutral-400">{item.sender_phone}</span>}
+                              {item.client_name && <span className="ml-2 text-xs text-neutral-500">· {item.client_name}</span>}
+                            </p>
+                            <p className="text-xs text-red-600 truncate" title={item.error}>{item.error}</p>
+                          </div>
+                          <span className="text-xs text-neutral-400 shrink-0">{new Date(item.created_at).toLocaleString('en-IN')}</span>
+                          <button
+                            onClick={() => setHistoryFor(historyFor === item.id ? null : item.id)}
+                            className={`text-xs shrink-0 underline-offset-2 hover:underline ${item.retry_count > 0 ? 'text-amber-700' : 'text-neutral-400'}`}
+                          >
+                            {item.retry_count} retr{item.retry_count === 1 ? 'y' : 'ies'}
+                          </button>
+                          {chatTab && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 text-xs gap-1 shrink-0"
+                              onClick={() => navigateTab(chatTab, { phone: item.sender_phone, waMessageId: item.wa_message_id })}
+                              title="Open the original message in chat"
+                            >
+                              <MessageCircle className="h-3 w-3" /> Chat
+                            </Button>
+                          )}
+                          {canAct && (
+                            <>
+                              {status === 'unprocessed' && (
+                                <Button size="sm" variant="ghost" disabled={busy} onClick={() => runSingle('reprocess', item)} className="h-7 px-2" title="Reprocess">
+                                  <RotateCcw className="h-3 w-3" />
+                                </Button>
+                              )}
+                              <Button size="sm" variant="ghost" disabled={busy} onClick={() => runSingle('dismiss', item)} className="h-7 px-2 text-neutral-500" title="Dismiss">
+                                <XCircle className="h-3 w-3" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                        {historyFor === item.id && (
+                          <div className="mb-2.5 rounded-lg border bg-white">
+                            <RetryHistory item={item} />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { CheckCircle, Copy } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type DuplicateGroup,
+  type DuplicateReason,
+} from '@/services/caInvoiceService';
+import { InvoiceMediaPreview, STATUS_COLORS, formatCurrency } from './InvoiceDetailDialog';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  same_invoice_number: 'Same seller GSTIN and invoice number',
+  similar_amount_date: 'Same seller, near-identical amount and date',
+};
+
+/** Invoices already in Tally or in a filed period can't be rejected. */
+const untouchable = (inv: CaInvoice) => inv.status === 'exported' || !!inv.period_lock;
+
+const gstTotal = (inv: CaInvoice) =>
+  (inv.totals?.cgst_total || 0) + (inv.totals?.sgst_total || 0) + (inv.totals?.igst_total || 0);
+
+const COMPARE_FIELDS: Array<{ label: string; value: (inv: CaInvoice) => string }> = [
+  { label: 'Invoice #', value: (inv) => inv.invoice_number || '—' },
+  { label: 'Invoice date', value: (inv) => inv.invoice_date || '—' },
+  { label: 'Seller GSTIN', value: (inv) => inv.seller_gstin || '—' },
+  { label: 'Client', value: (inv) => inv.client_name || '—' },
+  { label: 'Sent from', value: (inv) => inv.sender_phone || '—' },
+  { label: 'Taxable', value: (inv) => formatCurrency(inv.totals?.taxable_amount || 0) },
+  { label: 'GST', value: (inv) => formatCurrency(gstTotal(inv)) },
+  { label: 'Grand total', value: (inv) => formatCurrency(inv.totals?.grand_total || 0) },
+  { label: 'Line items', value: (inv) => String(inv.line_items?.length || 0) },
+  { label: 'Received', value: (inv) => new Date(inv.created_at).toLocaleString('en-IN') },
+];
+
+function ConfirmKeepText({ toReject, skipped }: { toReject: CaInvoice[]; skipped: number }) {
+  return (
+    <p className="text-xs text-neutral-600">
+      {toReject.length > 0
+        ? `Reject ${toReject.length} other${toReject.length !== 1 ? 's' : ''}?`
+        : 'Nothing else will be rejected.'}
+      {skipped > 0 && (skipped === 1
+        ? ' 1 exported or period-locked copy stays as it is — reverse it in Tally if needed.'
+        : ` ${skipped} exported or period-locked copies stay as they are — reverse them in Tally if needed.`)}
+    </p>
+  );
+}
+
+/* ─── Duplicate Compare Dialog ─────────────────────── */
+
+export default function DuplicateCompareDialog({
+  group,
+  onClose,
+  onResolved,
+}: {
+  group: DuplicateGroup;
+  onClose: () => void;
+  onResolved: () => void;
+}) {
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [confirmKeepId, setConfirmKeepId] = useState<string | null>(null);
+  const [first] = group.invoices;
+
+  /** What keeping `keep` does to the rest of the group. */
+  const rejectPlan = (keep: CaInvoice) => {
+    const others = group.invoices.filter((i) => i.id !== keep.id && i.status !== 'rejected');
+    const toReject = others.filter((i) => !untouchable(i));
+    return { toReject, skipped: others.length - toReject.length };
+  };
+
+  const handleKeep = async (keep: CaInvoice) => {
+    setBusy(true);
+    try {
+      const { toReject, skipped } = rejectPlan(keep);
+      const result = await caInvoiceService.resolveDuplicateGroup(group.id, keep.id, toReject.map((i) => i.id));
+      toast({
+        title: `Kept ${keep.invoice_number || 'invoice'}`,
+        description: `${result.rejected_count} duplicate${result.rejected_count !== 1 ? 's' : ''} rejected`
+          + (skipped > 0 ? ` · ${skipped} exported or locked left as is` : ''),
+      });
+      setConfirmKeepId(null);
+      onResolved();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    setBusy(true);
+    try {
+      await caInvoiceService.dismissDuplicateGroup(group.id);
+      toast({ title: 'Marked as not duplicates' });
+      onResolved();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <DialogContent className="max-w-7xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Copy className="h-4 w-4 text-amber-600" />
+          Probable duplicates — {group.seller_name}
+        </DialogTitle>
+        <p className="text-sm text-neutral-500">
+          {DUPLICATE_REASON_LABELS[group.reason]}
+          {group.financial_year && <> · FY {group.financial_year}</>}
+          {' · '}Keep one and the others are rejected, so ITC isn't counted twice. Exported and period-locked copies are never rejected.
+        </p>
+      </DialogHeader>
+
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-4 min-w-[640px]"
+          style={{ gridTemplateColumns: `repeat(${group.invoices.length}, minmax(300px, 1fr))` }}
+        >
+          {group.invoices.map((inv, idx) => (
+            <div key={inv.id} className="rounded-xl border bg-white p-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-neutral-900">
+                  {idx === 0 ? 'First received' : `Copy ${idx}`}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[inv.status] || ''}`}>
+                  {inv.status.replace(/_/g, ' ')}
+                </span>
+              </div>
+
+              <div className="h-[360px]">
+                <InvoiceMediaPreview invoiceId={inv.id} />
+              </div>
+
+              <dl className="text-xs divide-y">
+                {COMPARE_FIELDS.map((f) => {
+                  const value = f.value(inv);
+                  const differs = idx > 0 && value !== f.value(first);
+                  return (
+                    <div key={f.label} className={`flex justify-between gap-3 py-1.5 ${differs ? 'bg-amber-50 -mx-2 px-2' : ''}`}>
+                      <dt className="text-neutral-500">{f.label}</dt>
+                      <dd className={`text-right font-medium ${differs ? 'text-amber-800' : 'text-neutral-800'}`}>{value}</dd>
+                    </div>
+                  );
+                })}
+              </dl>
+
+              {inv.status === 'exported' && (
+                <Badge className="bg-blue-50 text-blue-700 text-xs w-fit">Already in Tally</Badge>
+              )}
+              {inv.period_lock && (
+                <Badge className="bg-neutral-100 text-neutral-700 text-xs w-fit">Period locked</Badge>
+              )}
+
+              {confirmKeepId === inv.id ? (
+                <div className="mt-auto space-y-2">
+                  <ConfirmKeepText {...rejectPlan(inv)} />
+                  <div className="flex gap-2">
+                    <Button size="sm" disabled={busy} onClick={() => handleKeep(inv)} className="flex-1 gap-1.5">
+                      <CheckCircle className="h-3.5 w-3.5" />
+                      Confirm
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={() => setConfirmKeepId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant={idx === 0 ? 'default' : 'outline'}
+                  disabled={busy}
+                  onClick={() => setConfirmKeepId(inv.id)}
+                  className="mt-auto gap-1.5"
+                >
+                  <CheckCircle className="h-3.5 w-3.5" />
+                  Keep this, reject others
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" disabled={busy} onClick={handleDismiss}>
+          Not duplicates
+        </Button>
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
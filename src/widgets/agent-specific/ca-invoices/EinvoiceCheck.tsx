@@ -0,0 +1,230 @@
+import { useState, useEffect, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle, QrCode, ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type EinvoiceDetails,
+} from '@/services/caInvoiceService';
+import {
+  compareEinvoice,
+  parseSignedQr,
+  qrDecodingSupported,
+  scanInvoiceQr,
+  type EinvoiceField,
+  type EinvoiceQrPayload,
+} from './einvoice';
+
+/* ─── E-invoice QR Check ───────────────────────────── */
+
+/**
+ * Reads the signed e-invoice QR off the document (once — the result is stored
+ * on the invoice) and lists where the extracted fields disagree with it.
+ * When the QR can't be read here, its signed text can be pasted instead.
+ * `current` is the editor's live state, so applying a QR value clears its row.
+ */
+export default function EinvoiceCheck({
+  invoice,
+  current,
+  editable,
+  onApply,
+}: {
+  invoice: Pick<CaInvoice, 'id' | 'einvoice' | 'media_file_ids'>;
+  current: Parameters<typeof compareEinvoice>[1];
+  editable: boolean;
+  onApply: (field: EinvoiceField, value: string) => void;
+}) {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<EinvoiceDetails | undefined>(invoice.einvoice);
+  const [scanning, setScanning] = useState(false);
+  const [scanned, setScanned] = useState(false);
+  const [ackNo, setAckNo] = useState(invoice.einvoice?.ack_no || '');
+  const [savingAck, setSavingAck] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [savingPasted, setSavingPasted] = useState(false);
+
+  const hasMedia = (invoice.media_file_ids?.length ?? 0) > 0;
+  // A scan can outlive the invoice it started on when the review queue moves on
+  const currentId = useRef(invoice.id);
+
+  const scan = async () => {
+    const invoiceId = invoice.id;
+    setScanning(true);
+    try {
+      const pageCount = await caInvoiceService.getInvoiceMediaCount(invoiceId);
+      const found = await scanInvoiceQr(invoiceId, pageCount);
+      if (found) {
+        const saved = await caInvoiceService.saveEinvoiceQr(invoiceId, { signed_qr: found.signed_qr });
+        if (currentId.current === invoiceId) setDetails(saved);
+      }
+    } catch (err: any) {
+      toast({ title: 'Could not read e-invoice QR', description: err.message, variant: 'destructive' });
+    } finally {
+      if (currentId.current === invoiceId) {
+        setScanning(false);
+        setScanned(true);
+      }
+    }
+  };
+
+  useEffect(() => {
+    currentId.current = invoice.id;
+    setScanning(false);
+    setDetails(invoice.einvoice);
+    setAckNo(invoice.einvoice?.ack_no || '');
+    setPasted('');
+    setScanned(false);
+    if (!invoice.einvoice && hasMedia && qrDecodingSupported()) scan();
+  }, [invoice.id]);
+
+  const handleSaveAck = async () => {
+    if (!details) return;
+    setSavingAck(true);
+    try {
+      setDetails(await caInvoiceService.saveEinvoiceQr(invoice.id, { signed_qr: details.signed_qr, ack_no: ackNo.trim() }));
+      toast({ title: 'Ack number saved' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSavingAck(false);
+    }
+  };
+
+  const handleSavePasted = async () => {
+    const invoiceId = invoice.id;
+    setSavingPasted(true);
+    try {
+      const saved = await caInvoiceService.saveEinvoiceQr(invoiceId, { signed_qr: pasted.trim() });
+      if (currentId.current === invoiceId) {
+        setDetails(saved);
+        setPasted('');
+      }
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSavingPasted(false);
+    }
+  };
+
+  if (scanning) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-gray-400">
+        <QrCode className="h-3.5 w-3.5 animate-pulse" /> Looking for an e-invoice QR…
+      </p>
+    );
+  }
+
+  const payload: EinvoiceQrPayload | null = details ? parseSignedQr(details.signed_qr) : null;
+
+  if (!details || !payload) {
+    const decodable = qrDecodingSupported();
+    // Nothing to scan, or the first scan hasn't finished
+    if (!hasMedia || (decodable && !scanned)) return null;
+    const pastedInvalid = pasted.trim() !== '' && !parseSignedQr(pasted);
+    return (
+      <div className="space-y-1.5">
+        <p className="flex items-center gap-1.5 text-xs text-gray-400">
+          <QrCode className="h-3.5 w-3.5" />
+          {decodable ? (
+            <>
+              No e-invoice QR found on the document.
+              <button type="button" className="text-blue-600 hover:underline" onClick={scan}>Scan again</button>
+            </>
+          ) : (
+            'QR decoding is not supported in this browser.'
+          )}
+        </p>
+        <div className="flex items-center gap-1.5">
+          <Input
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste the signed QR text from a scanner app"
+            className="h-7 text-xs font-mono"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={!pasted.trim() || pastedInvalid || savingPasted}
+            onClick={handleSavePasted}
+          >
+            {savingPasted ? 'Saving…' : 'Save'}
+          </Button>
+        </div>
+        {pastedInvalid && <p className="text-xs text-red-600">That isn't a signed e-invoice QR.</p>}
+      </div>
+    );
+  }
+
+  const mismatches = compareEinvoice(payload, current);
+  const signatureBad = details.signature_valid === false;
+  const tone = signatureBad || mismatches.length > 0
+    ? 'bg-red-50 border-red-200'
+    : 'bg-emerald-50 border-emerald-200';
+
+  return (
+    <div className={`rounded-lg border px-4 py-3 space-y-2 text-sm ${tone}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2 min-w-0">
+          {signatureBad ? (
+            <ShieldAlert className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+          ) : (
+            <ShieldCheck className={`h-4 w-4 mt-0.5 shrink-0 ${mismatches.length ? 'text-red-600' : 'text-emerald-600'}`} />
+          )}
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900">
+              {signatureBad
+                ? 'E-invoice QR signature did not verify'
+                : mismatches.length
+                  ? `E-invoice QR disagrees on ${mismatches.length} field${mismatches.length !== 1 ? 's' : ''}`
+                  : 'Matches the signed e-invoice QR'}
+            </p>
+            <p className="text-xs text-gray-500 font-mono truncate" title={payload.Irn}>IRN {payload.Irn}</p>
+            <p className="text-xs text-gray-500">
+              Registered {payload.IrnDt}
+              {details.signature_valid === undefined && ' · signature not yet checked'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1.5 shrink-0">
+          <Input
+            value={ackNo}
+            onChange={(e) => setAckNo(e.target.value)}
+            placeholder="Ack No."
+            className="h-7 w-36 text-xs font-mono bg-white"
+          />
+          {ackNo.trim() !== (details.ack_no || '') && (
+            <Button size="sm" variant="outline" className="h-7 text-xs" disabled={savingAck} onClick={handleSaveAck}>
+              Save
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {mismatches.length > 0 && (
+        <ul className="space-y-1">
+          {mismatches.map((m) => {
+            // Totals are extracted-only, and a plain "INV" fits both sales and purchase
+            const applicable = editable && m.field !== 'grand_total' && !(m.field === 'voucher_type' && payload.DocTyp === 'INV');
+            return (
+              <li key={m.field} className="flex items-center gap-2 text-xs">
+                <AlertTriangle className="h-3 w-3 text-red-500 shrink-0" />
+                <span className="text-gray-600 w-28 shrink-0">{m.label}</span>
+                <span className="font-mono text-gray-500 line-through truncate">{m.invoice_value}</span>
+                <span className="text-gray-400">→</span>
+                <span className="font-mono text-gray-900 truncate">{m.qr_value}</span>
+                {applicable && (
+                  <button type="button" className="ml-auto text-blue-600 hover:underline shrink-0" onClick={() => onApply(m.field, m.qr_value)}>
+                    Use QR value
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download, GitCompare, History, Undo2 } from 'lucide-react';
+import {
+  caInvoiceService,
+  type ExportBatch,
+  type ExportBatchInvoice,
+} from '@/services/caInvoiceService';
+import { downloadFile, downloadTallyXml } from './download';
+
+const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(n);
+
+function describeFilters(f: ExportBatch['filters']): string {
+  const parts = [
+    f.client_name || (f.client_id ? 'One client' : 'All clients'),
+    f.branch_name || (f.branch_id ? 'One branch' : ''),
+    f.financial_year && !(f.date_from && f.date_to) ? `FY ${f.financial_year}` : '',
+    f.date_from || f.date_to ? `${f.date_from || '…'} → ${f.date_to || '…'}` : '',
+    f.status ? f.status.replace(/_/g, ' ') : '',
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+/* ─── Export Diff ──────────────────────────────────── */
+
+interface BatchDiff {
+  added: ExportBatchInvoice[];
+  removed: ExportBatchInvoice[];
+  changed: Array<{ before: ExportBatchInvoice; after: ExportBatchInvoice }>;
+}
+
+function diffBatches(older: ExportBatch, newer: ExportBatch): BatchDiff {
+  const before = new Map(older.invoices.map((i) => [i.id, i]));
+  const after = new Map(newer.invoices.map((i) => [i.id, i]));
+  return {
+    added: newer.invoices.filter((i) => !before.has(i.id)),
+    removed: older.invoices.filter((i) => !after.has(i.id)),
+    changed: newer.invoices
+      .filter((i) => {
+        const prev = before.get(i.id);
+        return prev && (prev.grand_total !== i.grand_total || prev.gst_total !== i.gst_total || prev.invoice_number !== i.invoice_number);
+      })
+      .map((i) => ({ before: before.get(i.id)!, after: i })),
+  };
+}
+
+function ExportDiffDialog({ batches, onClose }: { batches: [ExportBatch, ExportBatch]; onClose: () => void }) {
+  const [older, newer] = [...batches].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const diff = diffBatches(older, newer);
+  const delta = newer.totals.grand_total - older.totals.grand_total;
+  const empty = diff.added.length + diff.removed.length + diff.changed.length === 0;
+
+  const section = (title: string, tone: string, rows: ReactNode) => (
+    <div>
+      <p className={`text-xs font-semibold uppercase tracking-wide mb-1.5 ${tone}`}>{title}</p>
+      <div className="rounded-lg border divide-y text-sm">{rows}</div>
+    </div>
+  );
+
+  const row = (inv: ExportBatchInvoice, right: ReactNode) => (
+    <div key={inv.id} className="flex items-center justify-between gap-3 px-3 py-2">
+      <span className="truncate">
+        <span className="font-medium text-neutral-800">{inv.invoice_number || '—'}</span>
+        <span className="text-neutral-400"> · {inv.seller_name} · {inv.invoice_date}</span>
+      </span>
+      <span className="font-mono text-xs shrink-0">{right}</span>
+    </div>
+  );
+
+  return (
+    <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Compare exports</DialogTitle>
+        <p className="text-sm text-neutral-500">
+          {new Date(older.created_at).toLocaleString('en-IN')} ({older.invoice_count}) →{' '}
+          {new Date(newer.created_at).toLocaleString('en-IN')} ({newer.invoice_count})
+          {' · '}
+          <span className={delta === 0 ? '' : delta > 0 ? 'text-emerald-700' : 'text-red-600'}>
+            {delta >= 0 ? '+' : ''}{formatCurrency(delta)}
+          </span>
+        </p>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        {empty && <p className="text-sm text-neutral-500 py-6 text-center">Both exports contain the same invoices with the same amounts.</p>}
+        {diff.added.length > 0 && section(
+          `Only in newer (${diff.added.length})`,
+          'text-emerald-700',
+          diff.added.map((i) => row(i, formatCurrency(i.grand_total))),
+        )}
+        {diff.removed.length > 0 && section(
+          `Only in older (${diff.removed.length})`,
+          'text-red-600',
+          diff.removed.map((i) => row(i, formatCurrency(i.grand_total))),
+        )}
+        {diff.changed.length > 0 && section(
+          `Changed amounts (${diff.changed.length})`,
+          'text-amber-700',
+          diff.changed.map(({ before, after }) => row(
+            after,
+            <>
+              <span className="line-through text-neutral-400">{formatCurrency(before.grand_total)}</span>{' '}
+              {formatCurrency(after.grand_total)}
+            </>,
+          )),
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Close</Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+/* ─── Export History ───────────────────────────────── */
+
+export default function ExportHistory({ refreshKey, clientId }: { refreshKey: number; clientId?: string }) {
+  const { toast } = useToast();
+  const [batches, setBatches] = useState<ExportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[ExportBatch, ExportBatch] | null>(null);
+  const [confirmRollbackId, setConfirmRollbackId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const resp = await caInvoiceService.listExportBatches({ client_id: clientId, limit: 50 });
+      setBatches(resp.data || []);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, toast]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  const toggleSelect = (id: string) => {
+    setSelected((prev) => {
+      if (prev.includes(id)) return prev.filter((x) => x !== id);
+      return [...prev, id].slice(-2);   // compare is pairwise — keep the last two picked
+    });
+  };
+
+  const handleDownload = async (batch: ExportBatch) => {
+    setBusyId(batch.id);
+    try {
+      const file = await caInvoiceService.getExportBatchFile(batch.id);
+      if (batch.format === 'tally') downloadTallyXml(file.content, file.file_name);
+      else downloadFile(file.content, file.file_name, 'text/csv');
+    } catch (err: any) {
+      toast({ title: 'Download failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRollback = async (batch: ExportBatch) => {
+    setConfirmRollbackId(null);
+    setBusyId(batch.id);
+    try {
+      const result = await caInvoiceService.rollbackExportBatch(batch.id);
+      toast({
+        title: 'Export rolled back',
+        description: `${result.reverted_count} invoice${result.reverted_count !== 1 ? 's' : ''} moved back to approved. Delete the vouchers from Tally before re-importing.`,
+      });
+      fetchBatches();
+    } catch (err: any) {
+      toast({ title: 'Rollback failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const selectedBatches = batches.filter((b) => selected.includes(b.id));
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-neutral-500" />
+          <h3 className="text-sm font-semibold text-neutral-700">Export History</h3>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={selectedBatches.length !== 2}
+          onClick={() => setComparing([selectedBatches[0], selectedBatches[1]])}
+          className="gap-1.5 text-xs"
+        >
+          <GitCompare className="h-3.5 w-3.5" />
+          Compare{selectedBatches.length > 0 ? ` (${selectedBatches.length}/2)` : ''}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+        </div>
+      ) : batches.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-10">No exports yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-neutral-50/70">
+                <TableHead className="w-10 pl-5" />
+                <TableHead className="font-medium text-neutral-600">When</TableHead>
+                <TableHead className="font-medium text-neutral-600">Format</TableHead>
+                <TableHead className="font-medium text-neutral-600">Filters</TableHead>
+                <TableHead className="font-medium text-neutral-600">By</TableHead>
+                <TableHead className="text-right font-medium text-neutral-600">Invoices</TableHead>
+                <TableHead className="text-right font-medium text-neutral-600">GST</TableHead>
+                <TableHead className="text-right font-medium text-neutral-600">Total</TableHead>
+                <TableHead className="font-medium text-neutral-600">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((b) => (
+                <TableRow key={b.id} className={b.rolled_back_at ? 'opacity-60' : ''}>
+                  <TableCell className="pl-5">
+                    <input
+                      type="checkbox"
+                      className="rounded border-neutral-300 accent-neutral-900"
+                      checked={selected.includes(b.id)}
+                      onChange={() => toggleSelect(b.id)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-700 whitespace-nowrap">
+                    {new Date(b.created_at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">{b.format === 'tally' ? 'Tally XML' : 'CSV'}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-neutral-500 max-w-[220px] truncate" title={describeFilters(b.filters)}>
+                    {describeFilters(b.filters)}
+                  </TableCell>
+                  <TableCell className="text-xs text-neutral-500">{b.created_by || '—'}</TableCell>
+                  <TableCell className="text-right text-sm">{b.invoice_count}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">{formatCurrency(b.totals.gst_total)}</TableCell>
+                  <TableCell className="text-right font-mono text-sm font-medium">{formatCurrency(b.totals.grand_total)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 text-xs gap-1"
+                        disabled={busyId === b.id}
+                        onClick={() => handleDownload(b)}
+                      >
+                        <Download className="h-3 w-3" /> Download
+                      </Button>
+                      {b.rolled_back_at ? (
+                        <span className="text-[11px] text-neutral-400 whitespace-nowrap" title={b.rolled_back_by ? `by ${b.rolled_back_by}` : undefined}>
+                          Rolled back {new Date(b.rolled_back_at).toLocaleDateString('en-IN')}
+                        </span>
+                      ) : confirmRollbackId === b.id ? (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 text-xs text-red-600 hover:bg-red-50"
+                            onClick={() => handleRollback(b)}
+                          >
+                            Confirm undo
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setConfirmRollbackId(null)}>
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 text-xs gap-1 text-neutral-600"
+                          disabled={busyId === b.id}
+                          onClick={() => setConfirmRollbackId(b.id)}
+                        >
+                          <Undo2 className="h-3 w-3" /> Undo
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!comparing} onOpenChange={() => setComparing(null)}>
+        {comparing && <ExportDiffDialog batches={comparing} onClose={() => setComparing(null)} />}
+      </Dialog>
+    </div>
+  );
+}
@@ -13,50 +13,140 @@ import {
 import { Download, FileCode2, FileSpreadsheet, Settings2 } from 'lucide-react';
 import {
   caInvoiceService,
+  type CaBranch,
   type CaClient,
+  type CaInvoice,
+  type TallyConfig,
   type TallyPreviewResult,
 } from '@/services/caInvoiceService';
 import OutlierReviewModal from './OutlierReviewModal';
+import { checkInvoiceGstin } from './gstin';
+import { checkInvoiceHsn } from './hsnMaster';
+import { checkInvoiceLedgers } from './tallyLedgers';
+import { checkInvoiceNote } from './vouchers';
+import { checkInvoiceWithholding } from './withholding';
+import { checkInvoiceEinvoice } from './einvoice';
+import FinancialYearSelect from './FinancialYearSelect';
+import { checkInvoiceFinancialYear, fyBounds, fyFilter, useFinancialYear } from './financialYear';
+import { DUPLICATE_REASON_LABELS } from './DuplicateCompareDialog';
+import { navigateTab } from './navigation';
+import { downloadFile, downloadTallyXml } from './download';
+import ExportHistory from './ExportHistory';
+import { STAGE_LABELS, activeStages, invalidateApprovalWorkflow, useApprovalWorkflow } from './approvalWorkflow';
 
-function downloadFile(content: string, filename: string, mimeType: string) {
-  const blob = new Blob([content], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+const PAGE_SIZE = 500;
+
+type ExportFilters = {
+  client_id?: string;
+  branch_id?: string;
+  financial_year?: string;
+  date_from?: string;
+  date_to?: string;
+  status?: string;
+};
+
+/** Every invoice matching the filters, a page at a time. */
+async function listAllInvoices(filters: ExportFilters): Promise<CaInvoice[]> {
+  const all: CaInvoice[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    // Exports select by booking period, so the checks must too
+    const resp = await caInvoiceService.listInvoices({ ...filters, by_booking_period: true, limit: PAGE_SIZE, offset });
+    const page = resp.data || [];
+    all.push(...page);
+    if (page.length < PAGE_SIZE || all.length >= resp.total) return all;
+  }
 }
 
 /**
- * Tally Prime requires UTF-16 LE encoding (with BOM) for XML import.
- * This encodes the XML string as UTF-16 LE bytes before downloading.
+ * Fold client-side GSTIN, HSN and ledger-mapping checks, plus probable
+ * duplicates, into the server's outlier preview, so invoices with a bad GSTIN,
+ * a supply type that contradicts the state codes, a GST rate that doesn't fit
+ * the HSN, a rate or cess with no Tally ledger mapped, or a second copy of an
+ * already-counted bill are held back for review before they reach Tally.
+ *
+ * Only invoices the export would include are checked: not rejected, not in a
+ * locked period and, when given, in one of `exportableStatuses`. Counts come
+ * from the de-duplicated set of flagged invoices.
  */
-function downloadTallyXml(content: string, filename: string) {
-  // Replace UTF-8 declaration with UTF-16 declaration
-  const xmlContent = content.replace(
-    /^<\?xml[^?]*\?>/,
-    '<?xml version="1.0" encoding="UTF-16"?>'
+async function withDataOutliers(
+  preview: TallyPreviewResult,
+  filters: ExportFilters,
+  acknowledgedIds: string[] = [],
+  exportableStatuses?: CaInvoice['status'][],
+): Promise<TallyPreviewResult> {
+  const [invoices, duplicateGroups] = await Promise.all([
+    listAllInvoices(filters),
+    caInvoiceService.listDuplicateGroups({
+      client_id: filters.client_id,
+      financial_year: filters.financial_year,
+    }).catch(() => []),
+  ]);
+  // Every copy after the first received is flagged — exporting it would double-count ITC.
+  const duplicateOf = new Map<string, string>();
+  for (const g of duplicateGroups) {
+    const [original, ...copies] = g.invoices;
+    for (const copy of copies) {
+      duplicateOf.set(copy.id, `Probable duplicate of ${original.invoice_number || 'an earlier invoice'} — ${DUPLICATE_REASON_LABELS[g.reason]}`);
+    }
+  }
+  const serverFlagged = new Set(preview.companies.flatMap((g) => g.invoices.map((i) => i.invoice_id)));
+  const skip = new Set([...acknowledgedIds, ...serverFlagged]);
+  // Each client may have its own Tally profile — resolve once per client
+  const configs = new Map<string, Promise<TallyConfig | null>>();
+  const configFor = (clientId?: string) => {
+    const key = clientId || '';
+    if (!configs.has(key)) {
+      configs.set(key, caInvoiceService.resolveTallyConfig(clientId).then((r) => r.config).catch(() => null));
+    }
+    return configs.get(key)!;
+  };
+  const groups = new Map(preview.companies.map((g) => [g.company, { ...g, invoices: [...g.invoices] }]));
+  // Locked periods are already filed — the export leaves them out rather than holding them for review
+  const inScope = invoices.filter((inv) =>
+    inv.status !== 'rejected'
+    && !inv.period_lock
+    && (!exportableStatuses || exportableStatuses.includes(inv.status))
   );
-  // Encode as UTF-16 LE with BOM
-  const bom = '\uFEFF';
-  const full = bom + xmlContent;
-  const buffer = new ArrayBuffer(full.length * 2);
-  const view = new DataView(buffer);
-  for (let i = 0; i < full.length; i++) {
-    view.setUint16(i * 2, full.charCodeAt(i), true); // little-endian
+  const flagged = new Set(serverFlagged);
+
+  for (const inv of inScope) {
+    if (skip.has(inv.id)) continue;
+    const issues: Array<{ code: string; message: string }> = [
+      ...checkInvoiceGstin(inv),
+      ...checkInvoiceHsn(inv),
+      ...checkInvoiceNote(inv),
+      ...checkInvoiceEinvoice(inv),
+      ...checkInvoiceFinancialYear(inv),
+    ];
+    const cfg = await configFor(inv.client_id);
+    if (cfg) issues.push(...checkInvoiceLedgers(inv, cfg), ...checkInvoiceWithholding(inv, cfg));
+    const duplicate = duplicateOf.get(inv.id);
+    if (duplicate) issues.unshift({ code: 'probable_duplicate', message: duplicate });
+    if (issues.length === 0) continue;
+    const company = inv.seller_name || 'Unknown seller';
+    if (!groups.has(company)) groups.set(company, { company, invoices: [], insight: '' });
+    const t = inv.totals;
+    groups.get(company)!.invoices.push({
+      invoice_id: inv.id,
+      invoice_number: inv.invoice_number,
+      invoice_date: inv.invoice_date,
+      gap: 0,
+      issue_type: issues[0].code,
+      taxable: t?.taxable_amount || 0,
+      grand_total: t?.grand_total || 0,
+      gst_total: (t?.cgst_total || 0) + (t?.sgst_total || 0) + (t?.igst_total || 0),
+      detail: issues.map((i) => i.message).join(' · '),
+    });
+    flagged.add(inv.id);
   }
-  const blob = new Blob([buffer], { type: 'application/xml' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+
+  if (flagged.size === serverFlagged.size) return preview;
+  return {
+    has_outliers: true,
+    companies: [...groups.values()],
+    clean_count: inScope.filter((inv) => !flagged.has(inv.id)).length,
+    outlier_count: flagged.size,
+  };
 }
 
 export default function ExportPanel({ config }: { config: Record<string, unknown> }) {
@@ -65,10 +155,20 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
   const [exporting, setExporting] = useState(false);
 
   const [clientId, setClientId] = useState('');
+  const [branchId, setBranchId] = useState('');
+  const [branches, setBranches] = useState<CaBranch[]>([]);
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
+  const [fy] = useFinancialYear();
+  // Exports never span financial years — the dates narrow within the selected one
+  const range = fyFilter(fy, dateFrom, dateTo);
   const [status, setStatus] = useState('');
+  const { workflow, error: workflowError } = useApprovalWorkflow();
+  // Maker-checker: nothing short of final approval goes to Tally
+  const approvalRequired = !!workflow?.enabled;
   const [tallyCompany, setTallyCompany] = useState('');
+  const [hasClientProfile, setHasClientProfile] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
 
   // Outlier review state
   const [outlierResult, setOutlierResult] = useState<TallyPreviewResult | null>(null);
@@ -78,19 +178,46 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
     caInvoiceService.listClients({ limit: 200 }).then((resp) => {
       setClients(resp.data || []);
     });
-    // Pre-populate company name from saved Tally config
-    caInvoiceService.getTallyConfig().then((cfg) => {
-      if (cfg.company_name) setTallyCompany(cfg.company_name);
-    }).catch(() => {});
   }, []);
 
+  // Pre-populate company name from the selected client's Tally profile, else the global config
+  useEffect(() => {
+    let cancelled = false;
+    caInvoiceService.resolveTallyConfig(clientId || undefined).then(({ config: cfg, profile }) => {
+      if (cancelled) return;
+      setTallyCompany(cfg.company_name || '');
+      setHasClientProfile(!!profile);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [clientId]);
+
+  useEffect(() => {
+    setBranchId('');
+    if (!clientId) {
+      setBranches([]);
+      return;
+    }
+    caInvoiceService.listBranches(clientId).then(setBranches).catch(() => setBranches([]));
+  }, [clientId]);
+
+  useEffect(() => {
+    setDateFrom('');
+    setDateTo('');
+  }, [fy]);
+
+  useEffect(() => {
+    if (approvalRequired) setStatus((s) => (s === 'approved' || s === 'exported' ? s : ''));
+  }, [approvalRequired]);
+
+  const branch = branches.find((b) => b.id === branchId);
+
   const _doExport = async (acknowledgedIds?: string[]) => {
     setExporting(true);
     try {
       const result = await caInvoiceService.exportTally({
         client_id: clientId || undefined,
-        date_from: dateFrom || undefined,
-        date_to: dateTo || undefined,
+        branch_id: branchId || undefined,
+        ...range,
         status: status || undefined,
         tally_company: tallyCompany || undefined,
         acknowledged_invoice_ids: acknowledgedIds,
@@ -100,7 +227,14 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
         return;
       }
       downloadTallyXml(result.xml, `tally-export-${Date.now()}.xml`);
-      toast({ title: `Exported ${result.invoice_count} invoices to Tally XML` });
+      toast({
+        title: `Exported ${result.invoice_count} invoices to Tally XML`,
+        description: [
+          result.locked_count && `${result.locked_count} invoice${result.locked_count !== 1 ? 's' : ''} in locked periods left out`,
+          result.unapproved_count && `${result.unapproved_count} not yet approved left out`,
+        ].filter(Boolean).join(' · ') || undefined,
+      });
+      setHistoryKey((k) => k + 1);
     } catch (err: any) {
       toast({ title: 'Export failed', description: err.message, variant: 'destructive' });
     } finally {
@@ -108,15 +242,25 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
     }
   };
 
+  const exportFilters = (): ExportFilters => ({
+    client_id: clientId || undefined,
+    branch_id: branchId || undefined,
+    ...range,
+    status: status || undefined,
+  });
+  // The export refuses anything short of final approval while the workflow is on
+  const exportableStatuses: CaInvoice['status'][] | undefined = approvalRequired ? ['approved', 'exported'] : undefined;
+
   const handleTallyExport = async () => {
     setExporting(true);
     try {
-      const preview = await caInvoiceService.previewTallyExport({
-        client_id: clientId || undefined,
-        date_from: dateFrom || undefined,
-        date_to: dateTo || undefined,
-        status: status || undefined,
-      });
+      const filters = exportFilters();
+      const preview = await withDataOutliers(
+        await caInvoiceService.previewTallyExport(filters),
+        filters,
+        [],
+        exportableStatuses,
+      );
 
       if (preview.has_outliers) {
         setOutlierResult(preview);
@@ -135,22 +279,20 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
   const handleFixInvoice = (invoiceId: string) => {
     setShowOutlierModal(false);
     // Navigate to invoices tab with the invoice focused
-    window.dispatchEvent(
-      new CustomEvent('dashboard:navigate-tab', { detail: { tabId: 'invoices', focusInvoiceId: invoiceId } })
-    );
+    navigateTab('invoices', { focusInvoiceId: invoiceId });
   };
 
   const handleReviewAgain = async (acknowledgedIds: string[]) => {
     setShowOutlierModal(false);
     setExporting(true);
     try {
-      const preview = await caInvoiceService.previewTallyExport({
-        client_id: clientId || undefined,
-        date_from: dateFrom || undefined,
-        date_to: dateTo || undefined,
-        status: status || undefined,
-        acknowledged_invoice_ids: acknowledgedIds,
-      });
+      const filters = exportFilters();
+      const preview = await withDataOutliers(
+        await caInvoiceService.previewTallyExport({ ...filters, acknowledged_invoice_ids: acknowledgedIds }),
+        filters,
+        acknowledgedIds,
+        exportableStatuses,
+      );
       if (preview.has_outliers) {
         setOutlierResult(preview);
         setShowOutlierModal(true);
@@ -173,13 +315,24 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
   const handleCsvExport = async () => {
     setExporting(true);
     try {
-      const result = await caInvoiceService.exportCsv({
-        client_id: clientId || undefined,
-        date_from: dateFrom || undefined,
-        date_to: dateTo || undefined,
-      });
+      // Same scope as the Tally export, so CSV is no way round the sign-off
+      const result = await caInvoiceService.exportCsv(exportFilters());
+      if (result.invoice_count === 0) {
+        toast({
+          title: 'No invoices to export',
+          description: result.message || (result.unapproved_count
+            ? `${result.unapproved_count} matching invoice${result.unapproved_count !== 1 ? 's' : ''} not yet approved`
+            : 'No invoices matched the selected filters.'),
+          variant: 'destructive',
+        });
+        return;
+      }
       downloadFile(result.csv, `invoices-export-${Date.now()}.csv`, 'text/csv');
-      toast({ title: `Exported ${result.invoice_count} invoices to CSV` });
+      toast({
+        title: `Exported ${result.invoice_count} invoices to CSV`,
+        description: result.unapproved_count ? `${result.unapproved_count} not yet approved left out` : undefined,
+      });
+      setHistoryKey((k) => k + 1);
     } catch (err: any) {
       toast({ title: 'Export failed', description: err.message, variant: 'destructive' });
     } finally {
@@ -200,7 +353,10 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
     <div className="space-y-5">
       {/* Filters */}
       <div className="rounded-xl border bg-white p-5">
-        <h3 className="text-sm font-semibold text-neutral-700 mb-4">Export Filters</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-neutral-700">Export Filters</h3>
+          <FinancialYearSelect />
+        </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <div>
             <Label className="text-xs text-neutral-500">Client</Label>
@@ -216,13 +372,29 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
               </SelectContent>
             </Select>
           </div>
+          {branches.length > 0 && (
+            <div>
+              <Label className="text-xs text-neutral-500">Branch</Label>
+              <Select value={branchId || 'all'} onValueChange={(v) => setBranchId(v === 'all' ? '' : v)}>
+                <SelectTrigger className="mt-1">
+                  <span className="truncate">{branch?.name || 'All branches'}</span>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All branches</SelectItem>
+                  {branches.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div>
             <Label className="text-xs text-neutral-500">From Date</Label>
-            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="mt-1" />
+            <Input type="date" value={dateFrom} min={fyBounds(fy).start} max={fyBounds(fy).end} onChange={(e) => setDateFrom(e.target.value)} className="mt-1" />
           </div>
           <div>
             <Label className="text-xs text-neutral-500">To Date</Label>
-            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="mt-1" />
+            <Input type="date" value={dateTo} min={fyBounds(fy).start} max={fyBounds(fy).end} onChange={(e) => setDateTo(e.target.value)} className="mt-1" />
           </div>
           <div>
             <Label className="text-xs text-neutral-500">Status</Label>
@@ -231,13 +403,24 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="any">All statuses</SelectItem>
+                <SelectItem value="any">{approvalRequired ? 'Approved or exported' : 'All statuses'}</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="pending_review">Pending Review</SelectItem>
+                {!approvalRequired && <SelectItem value="pending_review">Pending Review</SelectItem>}
                 <SelectItem value="exported">Already Exported</SelectItem>
-                <SelectItem value="pending_user_confirmation">Pending Confirmation</SelectItem>
+                {!approvalRequired && <SelectItem value="pending_user_confirmation">Pending Confirmation</SelectItem>}
               </SelectContent>
             </Select>
+            {approvalRequired && (
+              <p className="text-[11px] text-neutral-400 mt-1">
+                Tally only gets invoices signed off through {activeStages(workflow).map((s) => STAGE_LABELS[s]).join(' → ')}
+              </p>
+            )}
+            {workflowError && (
+              <p className="text-[11px] text-red-600 mt-1">
+                Couldn't load the approval workflow, so it's unknown which invoices may be exported.{' '}
+                <button type="button" className="underline" onClick={invalidateApprovalWorkflow}>Retry</button>
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -263,21 +446,36 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
               placeholder="My Company"
               className="mt-1"
             />
+            {clientId && (
+              <p className={`text-xs mt-1 ${hasClientProfile ? 'text-emerald-700' : 'text-neutral-400'}`}>
+                {hasClientProfile
+                  ? `Using ${clients.find((c) => c.id === clientId)?.name || 'client'}'s Tally profile`
+                  : 'No profile for this client — using the default mapping'}
+              </p>
+            )}
+            {branch && (
+              <p className="text-xs mt-1 text-neutral-500">
+                {branch.tally_cost_centre || branch.tally_godown
+                  ? `${branch.name}: ${[
+                    branch.tally_cost_centre && `cost centre ${branch.tally_cost_centre}`,
+                    branch.tally_godown && `godown ${branch.tally_godown}`,
+                  ].filter(Boolean).join(', ')}`
+                  : `${branch.name} has no cost centre set — vouchers won't be allocated`}
+              </p>
+            )}
           </div>
           <p className="text-xs text-neutral-400 mb-2">
             Import via <span className="font-medium text-neutral-600">Gateway of Tally → Import Data</span>
           </p>
           <button
             type="button"
-            onClick={() => {
-              window.dispatchEvent(new CustomEvent('dashboard:navigate-tab', { detail: { tabId: 'settings' } }));
-            }}
+            onClick={() => navigateTab('settings', clientId ? { clientId } : undefined)}
             className="flex items-center gap-1 text-xs text-blue-500 hover:text-blue-700 mb-3"
           >
             <Settings2 className="h-3 w-3" />
             Configure ledger mappings
           </button>
-          <Button onClick={handleTallyExport} disabled={exporting} className="w-full gap-2">
+          <Button onClick={handleTallyExport} disabled={exporting || !!workflowError} className="w-full gap-2">
             <Download className="h-4 w-4" />
             {exporting ? 'Exporting…' : 'Export Tally XML'}
           </Button>
@@ -296,13 +494,16 @@ export default function ExportPanel({ config }: { config: Record<string, unknown
           </div>
           <p className="text-xs text-neutral-400 mb-4">
             All invoice fields including line items, GST breakdown, and client details exported as flat CSV rows.
+            {approvalRequired && ' Only finally approved invoices are included.'}
           </p>
-          <Button variant="outline" onClick={handleCsvExport} disabled={exporting} className="w-full gap-2">
+          <Button variant="outline" onClick={handleCsvExport} disabled={exporting || !!workflowError} className="w-full gap-2">
             <Download className="h-4 w-4" />
             {exporting ? 'Exporting…' : 'Export CSV'}
           </Button>
         </div>
       </div>
+
+      <ExportHistory refreshKey={historyKey} clientId={clientId || undefined} />
     </div>
     </>
   );
@@ -0,0 +1,32 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { CalendarRange } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fyLabel, recentFys, useFinancialYear } from './financialYear';
+
+/* ─── Financial Year Select ────────────────────────── */
+
+/** Picks the dashboard-wide financial year; every widget showing one stays in step. */
+export default function FinancialYearSelect({ className }: { className?: string }) {
+  const [fy, setFy] = useFinancialYear();
+  const options = recentFys(5);
+  if (!options.includes(fy)) options.push(fy);
+
+  return (
+    <Select value={fy} onValueChange={setFy}>
+      <SelectTrigger className={cn('h-9 w-[130px] text-sm', className)}>
+        <span className="flex items-center gap-1.5">
+          <CalendarRange className="h-3.5 w-3.5 text-neutral-400" />
+          {fyLabel(fy)}
+        </span>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((y) => <SelectItem key={y} value={y}>{fyLabel(y)}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,365 @@
+/**
+ * GSTR-2B Reconciliation Widget
+ *
+ * Upload a client's GSTR-2B (JSON from the GST portal, or the Excel download)
+ * for a return period and match it against the invoices in our books by
+ * seller GSTIN, invoice number, date and tax totals. Results are bucketed
+ * into matched / amount mismatch / missing in books / missing in 2B, and
+ * any booked invoice can be opened in the detail dialog to fix extraction.
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Dialog } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FileSearch, RefreshCw, Upload, ArrowRight } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaClient,
+  type CaInvoice,
+  type Gstr2bMatchRow,
+  type Gstr2bMatchStatus,
+  type Gstr2bReconciliationResult,
+  type RejectInvoicePayload,
+} from '@/services/caInvoiceService';
+import InvoiceDetailDialog, { formatCurrency } from './InvoiceDetailDialog';
+
+const BUCKETS: Array<{ status: Gstr2bMatchStatus; label: string; hint: string; accent: string }> = [
+  { status: 'matched', label: 'Matched', hint: 'Same GSTIN, number, date and tax', accent: 'border-l-emerald-500 bg-emerald-50' },
+  { status: 'amount_mismatch', label: 'Amount Mismatch', hint: 'Found in both, totals differ', accent: 'border-l-amber-500 bg-amber-50' },
+  { status: 'missing_in_books', label: 'Missing in Books', hint: 'In 2B, not received from client', accent: 'border-l-red-500 bg-red-50' },
+  { status: 'missing_in_2b', label: 'Missing in 2B', hint: 'Booked, supplier has not filed', accent: 'border-l-indigo-500 bg-indigo-50' },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  invoice_number: 'Invoice #',
+  invoice_date: 'Date',
+  invoice_value: 'Invoice value',
+  taxable_amount: 'Taxable',
+  igst: 'IGST',
+  cgst: 'CGST',
+  sgst: 'SGST',
+  cess: 'Cess',
+};
+
+/** Default to the previous calendar month — 2B for a month is generated on the 14th of the next. */
+function defaultPeriod(): string {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function portalTax(row: Gstr2bMatchRow): number | null {
+  if (!row.portal) return null;
+  return row.portal.igst + row.portal.cgst + row.portal.sgst + row.portal.cess;
+}
+
+function formatDiffValue(v: string | number | null): string {
+  if (v === null || v === undefined || v === '') return '—';
+  return typeof v === 'number' ? formatCurrency(v) : v;
+}
+
+export default function Gstr2bReconciliation({ config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [clients, setClients] = useState<CaClient[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [period, setPeriod] = useState(defaultPeriod);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<Gstr2bReconciliationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [bucket, setBucket] = useState<Gstr2bMatchStatus>('amount_mismatch');
+  const [detailInvoice, setDetailInvoice] = useState<CaInvoice | null>(null);
+
+  useEffect(() => {
+    caInvoiceService.listClients({ limit: 200 }).then((resp) => {
+      setClients(resp.data || []);
+    }).catch(() => {});
+  }, []);
+
+  const loadResult = useCallback(async () => {
+    if (!clientId || !period) {
+      setResult(null);
+      return;
+    }
+    setLoading(true);
+    try {
+      setResult(await caInvoiceService.getGstr2bReconciliation(clientId, period));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, period, toast]);
+
+  useEffect(() => {
+    loadResult();
+  }, [loadResult]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) {
+      if (!/\.(json|xlsx|xls)$/i.test(f.name)) {
+        toast({ title: 'Wrong file type', description: 'Upload the GSTR-2B JSON or Excel file downloaded from the GST portal.', variant: 'destructive' });
+      } else {
+        setFile(f);
+      }
+    }
+    e.target.value = '';
+  };
+
+  const handleReconcile = async () => {
+    if (!clientId || !period || !file) return;
+    setUploading(true);
+    try {
+      const res = await caInvoiceService.reconcileGstr2b(clientId, period, file);
+      setResult(res);
+      setFile(null);
+      const firstOpen = BUCKETS.find((b) => b.status !== 'matched' && (res.summary[b.status] || 0) > 0);
+      setBucket(firstOpen?.status || 'matched');
+      toast({ title: 'GSTR-2B reconciled', description: `${res.rows.length} documents compared for ${period}.` });
+    } catch (err: any) {
+      toast({ title: 'Reconciliation failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openInvoice = async (invoiceId: string) => {
+    try {
+      setDetailInvoice(await caInvoiceService.getInvoice(invoiceId));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleReject = async (invoiceId: string, payload: RejectInvoicePayload): Promise<boolean> => {
+    try {
+      await caInvoiceService.rejectInvoice(invoiceId, payload);
+      toast({ title: 'Invoice rejected' });
+      loadResult();
+      return true;
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const rows = (result?.rows || []).filter((r) => r.status === bucket);
+  const itcGap = result ? result.summary.portal_itc - result.summary.books_itc : 0;
+
+  return (
+    <div className="space-y-5">
+      {/* Period + upload */}
+      <div className="rounded-xl border bg-white p-5">
+        <h3 className="text-sm font-semibold text-neutral-700 mb-4">GSTR-2B Reconciliation</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label className="text-xs text-neutral-500">Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder="Choose a client..." />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-neutral-500">Return Period</Label>
+            <Input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <Label className="text-xs text-neutral-500">GSTR-2B File</Label>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="mt-1 w-full h-10 flex items-center gap-2 px-3 rounded-md border border-dashed border-neutral-300 text-sm text-neutral-500 hover:border-neutral-400 hover:bg-neutral-50 transition-colors"
+            >
+              <Upload className="h-4 w-4 shrink-0" />
+              <span className="truncate">{file ? file.name : 'JSON or Excel…'}</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.xlsx,.xls"
+              className="sr-only"
+              onChange={handleFileChange}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleReconcile} disabled={!clientId || !file || uploading} className="flex-1 gap-2">
+              <FileSearch className="h-4 w-4" />
+              {uploading ? 'Matching…' : 'Reconcile'}
+            </Button>
+            {result && (
+              <Button variant="outline" onClick={loadResult} disabled={loading} title="Re-match against current books">
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            )}
+          </div>
+        </div>
+        {result && (
+          <p className="text-xs text-neutral-400 mt-3">
+            Using {result.file_name || 'GSTR-2B'} uploaded {new Date(result.uploaded_at).toLocaleString('en-IN')}
+          </p>
+        )}
+      </div>
+
+      {loading && !result && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-20" />)}
+        </div>
+      )}
+
+      {!loading && !result && clientId && (
+        <div className="rounded-xl border border-dashed bg-white py-12 text-center">
+          <FileSearch className="h-8 w-8 text-neutral-300 mx-auto mb-2" />
+          <p className="text-sm text-neutral-500">No GSTR-2B uploaded for this period yet</p>
+          <p className="text-xs text-neutral-400 mt-1">Download it from the GST portal (Returns → GSTR-2B) and upload above</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          {/* Buckets */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {BUCKETS.map((b) => (
+              <button
+                key={b.status}
+                onClick={() => setBucket(b.status)}
+                className={`rounded-xl border-l-4 px-4 py-3 text-left transition-shadow ${b.accent} ${
+                  bucket === b.status ? 'ring-2 ring-neutral-900/70' : 'hover:opacity-80'
+                }`}
+              >
+                <div className="text-2xl font-bold text-neutral-900">{result.summary[b.status] || 0}</div>
+                <div className="text-sm font-medium text-neutral-800">{b.label}</div>
+                <div className="text-xs text-neutral-500 mt-0.5">{b.hint}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="rounded-xl border bg-white px-5 py-3 flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-neutral-500">
+            <span>ITC as per 2B: <span className="font-mono text-neutral-800">{formatCurrency(result.summary.portal_itc)}</span></span>
+            <span>ITC as per books: <span className="font-mono text-neutral-800">{formatCurrency(result.summary.books_itc)}</span></span>
+            <span>
+              Difference:{' '}
+              <span className={`font-mono font-semibold ${Math.abs(itcGap) < 1 ? 'text-emerald-600' : 'text-red-600'}`}>
+                {formatCurrency(itcGap)}
+              </span>
+            </span>
+          </div>
+
+          {/* Rows */}
+          <div className="rounded-xl border bg-white overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-neutral-50/70">
+                    <TableHead className="pl-5 font-medium text-neutral-600">Supplier</TableHead>
+                    <TableHead className="font-medium text-neutral-600">Invoice #</TableHead>
+                    <TableHead className="font-medium text-neutral-600">Date</TableHead>
+                    <TableHead className="text-right font-medium text-neutral-600">Tax (2B)</TableHead>
+                    <TableHead className="text-right font-medium text-neutral-600">Tax (Books)</TableHead>
+                    <TableHead className="font-medium text-neutral-600">Differences</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, i) => {
+                    const pTax = portalTax(row);
+                    return (
+                      <TableRow key={`${row.invoice_id || row.portal?.invoice_number}-${i}`} className="hover:bg-neutral-50/60 transition-colors">
+                        <TableCell className="pl-5">
+                          <p className="text-sm text-neutral-800 max-w-[200px] truncate">
+                            {row.portal?.supplier_name || row.invoice?.seller_name || '—'}
+                          </p>
+                          <p className="text-[11px] font-mono text-neutral-400">
+                            {row.portal?.supplier_gstin || row.invoice?.seller_gstin || 'No GSTIN'}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm">{row.portal?.invoice_number || row.invoice?.invoice_number || '—'}</TableCell>
+                        <TableCell className="text-sm text-neutral-600">{row.portal?.invoice_date || row.invoice?.invoice_date || '—'}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{pTax !== null ? formatCurrency(pTax) : '—'}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">
+                          {row.invoice ? formatCurrency(row.invoice.gst_total) : '—'}
+                        </TableCell>
+                        <TableCell className="text-xs text-neutral-600">
+                          {(row.differences || []).length > 0 ? (
+                            <div className="space-y-0.5">
+                              {row.differences!.map((d) => (
+                                <p key={d.field}>
+                                  <span className="text-neutral-400">{FIELD_LABELS[d.field] || d.field}:</span>{' '}
+                                  {formatDiffValue(d.portal)} <span className="text-neutral-400">vs</span> {formatDiffValue(d.books)}
+                                </p>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-neutral-300">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="pr-5">
+                          {row.invoice_id && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-xs h-7 gap-1"
+                              onClick={() => openInvoice(row.invoice_id!)}
+                            >
+                              Open <ArrowRight className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-12 text-sm text-neutral-400">
+                        Nothing in this bucket
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <Dialog open={!!detailInvoice} onOpenChange={() => setDetailInvoice(null)}>
+        {detailInvoice && (
+          <InvoiceDetailDialog
+            invoice={detailInvoice}
+            allInvoices={[detailInvoice]}
+            onClose={() => setDetailInvoice(null)}
+            onReject={handleReject}
+            onSaved={loadResult}
+          />
+        )}
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,1707 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, CalendarClock, Plus, Trash2, Save, CheckCircle, ChevronLeft, ChevronRight, History, Keyboard, Lock, MessageCircle, Store, Image as ImageIcon } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type CaVendor,
+  type FieldEvidence,
+  type InvoiceLineItem,
+  type LedgerRule,
+  type RejectInvoicePayload,
+} from '@/services/caInvoiceService';
+import { apiClient } from '@/lib/apiClient';
+import { validateGstin, supplyTypeConflict } from './gstin';
+import InvoiceHistory from './InvoiceHistory';
+import RejectionForm from './RejectionForm';
+import InvoiceQueries, { AskClientForm } from './InvoiceQueries';
+import NoteDetails, { type NoteFields } from './NoteDetails';
+import { isNote, voucherSide, totalsDirection } from './vouchers';
+import WithholdingDetails from './WithholdingDetails';
+import EinvoiceCheck from './EinvoiceCheck';
+import type { EinvoiceField } from './einvoice';
+import { lockedInvoiceMessage, periodLabel } from './periodLocks';
+import { navigateTab } from './navigation';
+import { suggestWithholding, withholdingKind } from './withholding';
+import { HSN_MASTER, findHsn, ratesOn, suggestedRate, checkLineItemHsn } from './hsnMaster';
+import { GST_TREATMENT_LABELS, findVendor, withAlias } from './vendors';
+import { describeRule, ledgerCorrections, reclassifyLine } from './ledgerRules';
+import { STAGE_ACTIONS, STAGE_LABELS, activeStages, nextStage, signOffBlock, useApprovalWorkflow } from './approvalWorkflow';
+
+export const STATUS_COLORS: Record<string, string> = {
+  pending_user_confirmation: 'bg-purple-100 text-purple-800',
+  awaiting_client_reply: 'bg-orange-100 text-orange-800',
+  pending_review: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  exported: 'bg-blue-100 text-blue-800',
+};
+
+const VOUCHER_TYPES = ['Sales', 'Purchase', 'Credit Note', 'Debit Note', 'Receipt', 'Payment', 'Journal'];
+const SUPPLY_TYPES = ['Intra-State', 'Inter-State'];
+
+/**
+ * Review shortcuts. All use Alt so they keep working while a field has focus;
+ * matched on `event.code` because Alt+letter types a symbol on macOS.
+ */
+const JUMP_FIELDS: Record<string, string> = {
+  Digit1: 'invoice_number',
+  Digit2: 'invoice_date',
+  Digit3: 'seller_name',
+  Digit4: 'seller_gstin',
+  Digit5: 'buyer_gstin',
+  Digit6: 'line_items.0.description',
+};
+
+const SHORTCUT_HINTS: Array<[string, string]> = [
+  ['Alt+A', 'approve'],
+  ['Alt+R', 'reject'],
+  ['Alt+J / Alt+K', 'next / previous'],
+  ['Alt+1…6', 'jump to field'],
+  ['Alt+L', 'add line'],
+];
+
+/** Statuses that count as a review decision; anything else leaves the invoice in the queue. */
+const DECISIONS: CaInvoice['status'][] = ['approved', 'rejected', 'awaiting_client_reply'];
+const isDecided = (s?: CaInvoice['status']) => !!s && DECISIONS.includes(s);
+
+/* ─── Helpers ──────────────────────────────────────── */
+
+export const formatCurrency = (n: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(n);
+
+const CONFIDENT = 0.9;
+const LOW_CONFIDENCE = 0.7;
+
+function confidenceBadge(score: number) {
+  const pct = Math.round(score * 100);
+  if (score >= CONFIDENT) return <Badge className="bg-green-100 text-green-800 text-xs">{pct}% confidence</Badge>;
+  if (score >= LOW_CONFIDENCE) return <Badge className="bg-amber-100 text-amber-800 text-xs">{pct}% confidence</Badge>;
+  return <Badge className="bg-red-100 text-red-800 text-xs">{pct}% confidence</Badge>;
+}
+
+/** Input tint for a field the model was unsure about; confident fields stay plain. */
+function confidenceInputClass(ev?: FieldEvidence) {
+  if (!ev || ev.confidence >= CONFIDENT) return '';
+  return ev.confidence >= LOW_CONFIDENCE ? 'bg-amber-50 border-amber-300' : 'bg-red-50 border-red-300';
+}
+
+function confidenceBoxClass(confidence: number) {
+  if (confidence >= CONFIDENT) return 'border-green-500/40';
+  return confidence >= LOW_CONFIDENCE ? 'border-amber-500 bg-amber-300/15' : 'border-red-500 bg-red-400/15';
+}
+
+function noteFields(inv: CaInvoice): NoteFields {
+  return {
+    side: voucherSide({ voucher_type: inv.voucher_type || 'Purchase', note_side: inv.note_side }),
+    original: {
+      invoice_id: inv.original_invoice?.invoice_id,
+      invoice_number: inv.original_invoice?.invoice_number || '',
+      invoice_date: inv.original_invoice?.invoice_date || '',
+    },
+    reason: inv.note_reason || '',
+  };
+}
+
+function emptyLineItem(): InvoiceLineItem {
+  return {
+    description: '',
+    hsn_sac_code: '',
+    quantity: 1,
+    unit: 'NOS',
+    rate: 0,
+    taxable_amount: 0,
+    gst_rate: 18,
+    cgst_amount: 0,
+    sgst_amount: 0,
+    igst_amount: 0,
+    cess_amount: 0,
+    total_amount: 0,
+  };
+}
+
+/** Recalculate a line item — only called when user explicitly edits a field. */
+function recalcLineItem(item: InvoiceLineItem, isInterState: boolean): InvoiceLineItem {
+  const taxable = item.quantity * item.rate;
+  const gstAmount = taxable * (item.gst_rate / 100);
+  return {
+    ...item,
+    taxable_amount: taxable,
+    cgst_amount: isInterState ? 0 : gstAmount / 2,
+    sgst_amount: isInterState ? 0 : gstAmount / 2,
+    igst_amount: isInterState ? gstAmount : 0,
+    total_amount: taxable + gstAmount + item.cess_amount,
+  };
+}
+
+/** Inline validity hint shown under a party's GSTIN / state code. */
+function GstinHint({ gstin, stateCode }: { gstin: string; stateCode: string }) {
+  if (!gstin) return null;
+  const check = validateGstin(gstin);
+  if (!check.valid) {
+    return <p className="text-[11px] text-red-600 flex items-center gap-1"><AlertTriangle className="h-3 w-3 shrink-0" />{check.error}</p>;
+  }
+  if (stateCode && stateCode !== check.stateCode) {
+    return (
+      <p className="text-[11px] text-amber-700 flex items-center gap-1">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        State code {stateCode} does not match GSTIN ({check.stateCode} · {check.stateName})
+      </p>
+    );
+  }
+  return <p className="text-[11px] text-emerald-700">Valid GSTIN · {check.stateName} · PAN {check.pan}</p>;
+}
+
+/* ─── Invoice Media Preview ────────────────────────── */
+
+/**
+ * AuthImage — fetches images via apiClient (includes auth headers + correct SaaS baseURL).
+ * Raw <img src="/api/..."> fails in SaaS mode (502) and without auth (401).
+ */
+function AuthImage({ src, alt, className }: { src: string; alt: string; className?: string }) {
+  const [blobUrl, setBlobUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!src) return;
+    let cancelled = false;
+    apiClient
+      .get(src, { responseType: 'blob' })
+      .then((resp) => {
+        if (!cancelled) setBlobUrl(URL.createObjectURL(resp.data));
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [src]);
+
+  useEffect(() => {
+    return () => { if (blobUrl) URL.revokeObjectURL(blobUrl); };
+  }, [blobUrl]);
+
+  if (failed) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2 py-12">
+        <ImageIcon className="h-10 w-10" />
+        <p className="text-sm">Failed to load preview</p>
+      </div>
+    );
+  }
+
+  if (!blobUrl) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return <img src={blobUrl} alt={alt} className={className} loading="lazy" />;
+}
+
+export function InvoiceMediaPreview({
+  invoiceId,
+  fields,
+  activeField,
+}: {
+  invoiceId: string;
+  /** Extraction evidence to outline on the page; `activeField` is drawn emphasised. */
+  fields?: Record<string, FieldEvidence>;
+  activeField?: string | null;
+}) {
+  const [pageCount, setPageCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [showBoxes, setShowBoxes] = useState(true);
+
+  // Follow the field being edited onto its page
+  const activeBox = activeField ? fields?.[activeField]?.box : undefined;
+  useEffect(() => {
+    if (activeBox && activeBox.page < pageCount) setCurrentPage(activeBox.page);
+  }, [activeBox, pageCount]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    caInvoiceService.getInvoiceMediaCount(invoiceId).then((count) => {
+      if (!cancelled) {
+        setPageCount(count);
+        setLoading(false);
+      }
+    }).catch(() => {
+      if (!cancelled) {
+        setPageCount(0);
+        setLoading(false);
+        setError(true);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [invoiceId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full bg-gray-50 rounded-lg">
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (error || pageCount === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full bg-gray-50 rounded-lg text-gray-400 gap-2 py-12">
+        <ImageIcon className="h-10 w-10" />
+        <p className="text-sm">No document preview available</p>
+      </div>
+    );
+  }
+
+  const mediaUrl = caInvoiceService.getInvoiceMediaUrl(invoiceId, currentPage);
+  const pageBoxes = Object.entries(fields || {}).filter(([, ev]) => ev.box?.page === currentPage);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center min-h-[400px]">
+        {/* Shrink-wrapped so box percentages line up with the rendered image */}
+        <div className="relative inline-block">
+          <AuthImage
+            src={mediaUrl}
+            alt={`Invoice page ${currentPage + 1}`}
+            className="block max-w-full max-h-[70vh] object-contain"
+          />
+          {pageBoxes.map(([key, ev]) => {
+            const box = ev.box!;
+            const isActive = key === activeField;
+            if (!showBoxes && !isActive) return null;
+            return (
+              <div
+                key={key}
+                title={`${key.replace(/_/g, ' ')} · ${Math.round(ev.confidence * 100)}%`}
+                className={`absolute pointer-events-none rounded-sm border ${
+                  isActive ? 'border-2 border-blue-600 bg-blue-400/20 ring-2 ring-blue-300' : confidenceBoxClass(ev.confidence)
+                }`}
+                style={{
+                  left: `${box.x * 100}%`,
+                  top: `${box.y * 100}%`,
+                  width: `${box.width * 100}%`,
+                  height: `${box.height * 100}%`,
+                }}
+              />
+            );
+          })}
+        </div>
+      </div>
+      {fields && Object.keys(fields).length > 0 && (
+        <label className="flex items-center gap-1.5 mt-2 text-xs text-gray-500">
+          <input
+            type="checkbox"
+            className="rounded border-gray-300"
+            checked={showBoxes}
+            onChange={(e) => setShowBoxes(e.target.checked)}
+          />
+          Outline extracted fields
+          <span className="ml-2 inline-block h-2.5 w-2.5 rounded-sm border border-red-500 bg-red-400/15" /> low
+          <span className="inline-block h-2.5 w-2.5 rounded-sm border border-amber-500 bg-amber-300/15" /> check
+        </label>
+      )}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={currentPage === 0}
+            onClick={() => setCurrentPage((p) => p - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-500">
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setCurrentPage((p) => p + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ─── Editable Invoice Detail Dialog ───────────────── */
+
+export default function InvoiceDetailDialog({
+  invoice: initialInvoice,
+  allInvoices,
+  onClose,
+  onReject,
+  onSaved,
+  queue,
+}: {
+  invoice: CaInvoice;
+  allInvoices: CaInvoice[];
+  onClose: () => void;
+  /** Resolves false when the rejection failed; the form stays open with what was typed. */
+  onReject: (id: string, payload: RejectInvoicePayload) => Promise<boolean>;
+  /** Called after any save, approval or restore, so the parent can refetch. */
+  onSaved: () => void;
+  /** Review mode: walk this list instead of the message siblings, advancing after each decision. */
+  queue?: CaInvoice[];
+}) {
+  const { toast } = useToast();
+  const reviewMode = !!queue;
+
+  // Find sibling invoices from the same message (share wa_message_id or media_file_ids)
+  const siblings = React.useMemo(() => {
+    if (queue) return queue;
+    if (!initialInvoice) return [initialInvoice];
+    const waId = initialInvoice.wa_message_id;
+    const mediaIds = initialInvoice.media_file_ids || [];
+    if (waId) {
+      const group = allInvoices.filter((inv) => inv.wa_message_id === waId);
+      if (group.length > 1) return group;
+    }
+    if (mediaIds.length > 0) {
+      const mediaKey = JSON.stringify([...mediaIds].sort());
+      const group = allInvoices.filter(
+        (inv) => JSON.stringify([...(inv.media_file_ids || [])].sort()) === mediaKey
+      );
+      if (group.length > 1) return group;
+    }
+    return [initialInvoice];
+  }, [initialInvoice, allInvoices, queue]);
+
+  const [currentIdx, setCurrentIdx] = useState(() =>
+    Math.max(0, siblings.findIndex((s) => s.id === initialInvoice.id))
+  );
+  const invoice = siblings[currentIdx] || initialInvoice;
+  const hasBatch = siblings.length > 1;
+
+  // Status changes made this session — the invoice list itself is a snapshot and keeps the old status
+  const [outcomes, setOutcomes] = useState<Partial<Record<string, CaInvoice['status']>>>({});
+  const status = outcomes[invoice.id] || invoice.status;
+  const decisions = Object.values(outcomes).filter(isDecided);
+  const reviewedCount = decisions.length;
+  const approvedCount = decisions.filter((o) => o === 'approved').length;
+  const rejectedCount = decisions.filter((o) => o === 'rejected').length;
+  const queriedCount = reviewedCount - approvedCount - rejectedCount;
+  const queueDone = reviewMode && siblings.length > 0 && reviewedCount >= siblings.length;
+
+  const { workflow, me } = useApprovalWorkflow();
+  // With more than one stage, a sign-off here may not be the final approval
+  const approvedWord = activeStages(workflow).length > 1 ? 'signed off' : 'approved';
+  const stage = nextStage({ status, approval_stage: invoice.approval_stage }, workflow);
+  const signOffBlocked = stage ? signOffBlock(invoice, stage, workflow, me) : null;
+
+  const periodLocked = !!invoice.period_lock;
+  const isEditable = !periodLocked
+    && (status === 'pending_review' || status === 'pending_user_confirmation' || status === 'awaiting_client_reply');
+  const hasMedia = (invoice.media_file_ids?.length ?? 0) > 0;
+
+  // Editable state — re-initialised from extracted data when invoice changes
+  const [invoiceNumber, setInvoiceNumber] = useState(invoice.invoice_number || '');
+  const [invoiceDate, setInvoiceDate] = useState(invoice.invoice_date || '');
+  const [voucherType, setVoucherType] = useState(invoice.voucher_type || 'Purchase');
+  const [supplyType, setSupplyType] = useState(invoice.supply_type || 'Intra-State');
+  const [reverseCharge, setReverseCharge] = useState(invoice.reverse_charge || false);
+  const [sellerName, setSellerName] = useState(invoice.seller_name || '');
+  const [sellerGstin, setSellerGstin] = useState(invoice.seller_gstin || '');
+  const [sellerStateCode, setSellerStateCode] = useState(invoice.seller_state_code || '');
+  const [buyerName, setBuyerName] = useState(invoice.buyer_name || '');
+  const [buyerGstin, setBuyerGstin] = useState(invoice.buyer_gstin || '');
+  const [buyerStateCode, setBuyerStateCode] = useState(invoice.buyer_state_code || '');
+  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>(invoice.line_items || []);
+  const [roundOff, setRoundOff] = useState(invoice.totals?.round_off || 0);
+  const [note, setNote] = useState<NoteFields>(() => noteFields(invoice));
+  const [withholding, setWithholding] = useState(invoice.withholding ?? null);
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState(false);
+  const [asking, setAsking] = useState(false);
+  const [queriesKey, setQueriesKey] = useState(0);
+
+  // Reset editable state when switching between sibling invoices
+  useEffect(() => {
+    setShowHistory(false);
+    setRejecting(false);
+    setAsking(false);
+    setActiveField(null);
+    setInvoiceNumber(invoice.invoice_number || '');
+    setInvoiceDate(invoice.invoice_date || '');
+    setVoucherType(invoice.voucher_type || 'Purchase');
+    setSupplyType(invoice.supply_type || 'Intra-State');
+    setReverseCharge(invoice.reverse_charge || false);
+    setSellerName(invoice.seller_name || '');
+    setSellerGstin(invoice.seller_gstin || '');
+    setSellerStateCode(invoice.seller_state_code || '');
+    setBuyerName(invoice.buyer_name || '');
+    setBuyerGstin(invoice.buyer_gstin || '');
+    setBuyerStateCode(invoice.buyer_state_code || '');
+    setLineItems(invoice.line_items || []);
+    setRoundOff(invoice.totals?.round_off || 0);
+    setNote(noteFields(invoice));
+    setWithholding(invoice.withholding ?? null);
+  }, [invoice.id]);
+
+  const isInterState = sellerStateCode !== buyerStateCode && !!sellerStateCode && !!buyerStateCode;
+  const supplyConflict = supplyTypeConflict(supplyType, sellerStateCode, buyerStateCode);
+
+  /** Keep the state code in sync with a valid GSTIN — the prefix is authoritative. */
+  const handleGstinChange = (
+    value: string,
+    setGstin: (v: string) => void,
+    setStateCode: (v: string) => void,
+  ) => {
+    const gstin = value.toUpperCase();
+    setGstin(gstin);
+    const check = validateGstin(gstin);
+    if (check.valid && check.stateCode) setStateCode(check.stateCode);
+  };
+
+  // Use EXTRACTED totals as source of truth — no recalculation
+  const totals = invoice.totals || {
+    taxable_amount: 0, cgst_total: 0, sgst_total: 0, igst_total: 0,
+    cess_total: 0, round_off: 0, grand_total: 0,
+  };
+
+  const updateLineItem = (index: number, field: keyof InvoiceLineItem, value: string | number) => {
+    setLineItems((prev) => {
+      const updated = [...prev];
+      updated[index] = { ...updated[index], [field]: value };
+      updated[index] = recalcLineItem(updated[index], isInterState);
+      if (field === 'description' && isPurchase) updated[index] = reclassifyLine(updated[index], vendor?.id, ledgerRules);
+      return updated;
+    });
+  };
+
+  /** A ledger typed by the reviewer overrides any rule — and is what rules are learned from. */
+  const setLineLedger = (index: number, ledger: string) => {
+    setLineItems((prev) => prev.map((item, i) => (i === index ? { ...item, ledger: ledger || undefined, ledger_rule: undefined } : item)));
+  };
+
+  /** HSN edit — a recognised code pre-fills its single applicable rate and any cess. */
+  const updateLineItemHsn = (index: number, value: string) => {
+    setLineItems((prev) => {
+      const updated = [...prev];
+      let item = { ...updated[index], hsn_sac_code: value };
+      const entry = value.replace(/\D/g, '').length >= 4 ? findHsn(value) : undefined;
+      if (entry) {
+        const rate = suggestedRate(entry, invoiceDate);
+        if (rate !== undefined) item.gst_rate = rate;
+        const { cess_rate } = ratesOn(entry, invoiceDate);
+        if (cess_rate) item.cess_amount = item.quantity * item.rate * (cess_rate / 100);
+      }
+      item = recalcLineItem(item, isInterState);
+      updated[index] = isPurchase ? reclassifyLine(item, vendor?.id, ledgerRules) : item;
+      return updated;
+    });
+  };
+
+  const withholdingSide = { voucher_type: voucherType, note_side: isNote(voucherType) ? note.side : undefined };
+
+  // The client's vendor master — purchases are matched against it by GSTIN, then name or alias
+  const [vendors, setVendors] = useState<CaVendor[]>([]);
+  const loadVendors = React.useCallback(() => {
+    if (!invoice.client_id) {
+      setVendors([]);
+      return;
+    }
+    caInvoiceService.listVendors(invoice.client_id).then(setVendors).catch(() => setVendors([]));
+  }, [invoice.client_id]);
+  useEffect(() => {
+    loadVendors();
+  }, [loadVendors]);
+  const [ledgerRules, setLedgerRules] = useState<LedgerRule[]>([]);
+  useEffect(() => {
+    if (!invoice.client_id) {
+      setLedgerRules([]);
+      return;
+    }
+    caInvoiceService.listLedgerRules(invoice.client_id).then(setLedgerRules).catch(() => setLedgerRules([]));
+  }, [invoice.client_id]);
+  const ledgerNames = React.useMemo(
+    () => [...new Set([...ledgerRules.map((r) => r.ledger), ...vendors.flatMap((v) => (v.purchase_ledger ? [v.purchase_ledger] : []))])].sort(),
+    [ledgerRules, vendors],
+  );
+  const isPurchase = voucherSide(withholdingSide) === 'purchase';
+  const vendor = isPurchase ? findVendor(vendors, { name: sellerName, gstin: sellerGstin }) : undefined;
+
+  /** Take the vendor's canonical details; the spelling on the bill is kept as an alias. */
+  const applyVendor = (v: CaVendor, billedAs?: string) => {
+    setSellerName(v.name);
+    if (v.gstin) handleGstinChange(v.gstin, setSellerGstin, setSellerStateCode);
+    if (v.gst_treatment === 'reverse_charge') setReverseCharge(true);
+    const aliases = billedAs ? withAlias(v, billedAs) : v.aliases;
+    if (invoice.client_id && aliases !== v.aliases) {
+      caInvoiceService.updateVendor(invoice.client_id, v.id, { aliases }).then(loadVendors).catch(() => {});
+    }
+  };
+
+  const handleSellerNameChange = (value: string) => {
+    setSellerName(value);
+    // Picked from the vendor list
+    const picked = isPurchase && vendors.find((v) => v.name === value);
+    if (picked) applyVendor(picked);
+  };
+
+  const handleAddVendor = async () => {
+    if (!invoice.client_id) return;
+    try {
+      await caInvoiceService.createVendor(invoice.client_id, {
+        name: sellerName.trim(),
+        gstin: sellerGstin || undefined,
+        aliases: [],
+        gst_treatment: reverseCharge ? 'reverse_charge' : sellerGstin ? 'regular' : 'unregistered',
+      });
+      toast({ title: `${sellerName.trim()} added to vendors` });
+      loadVendors();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+  const withholdingSuggestion = React.useMemo(
+    () => suggestWithholding({ ...withholdingSide, seller_gstin: sellerGstin, line_items: lineItems }),
+    [voucherType, note.side, sellerGstin, lineItems],
+  );
+
+  const hsnIssueCount = lineItems.filter((item) => checkLineItemHsn(item, invoiceDate)).length;
+
+  // Line evidence is indexed by position, so it no longer applies once lines are added or removed
+  const linesIntact = lineItems.length === (invoice.line_items?.length || 0);
+  const evidence = React.useMemo(() => {
+    const all = invoice.field_confidence || {};
+    if (linesIntact) return all;
+    return Object.fromEntries(Object.entries(all).filter(([key]) => !key.startsWith('line_items.')));
+  }, [invoice.field_confidence, linesIntact]);
+  const lowConfidenceCount = Object.values(evidence).filter((ev) => ev.confidence < CONFIDENT).length;
+
+  /** Focus target + confidence tooltip for an editable field. */
+  const fieldProps = (key: string) => {
+    const ev = evidence[key];
+    return {
+      'data-field': key,
+      title: ev ? `${Math.round(ev.confidence * 100)}% extraction confidence` : undefined,
+    };
+  };
+  const tint = (key: string) => confidenceInputClass(evidence[key]);
+
+  const contentRef = useRef<HTMLDivElement>(null);
+  const focusField = (field: string) => {
+    const el = contentRef.current?.querySelector<HTMLInputElement>(`[data-field="${field}"]`);
+    el?.focus();
+    el?.select?.();
+  };
+
+  // Focus the description of a line added from the keyboard once it has rendered
+  const [focusNewLine, setFocusNewLine] = useState(false);
+  useEffect(() => {
+    if (!focusNewLine) return;
+    setFocusNewLine(false);
+    focusField(`line_items.${lineItems.length - 1}.description`);
+  }, [focusNewLine, lineItems.length]);
+
+  const addLineItem = () => setLineItems((prev) => [...prev, recalcLineItem(emptyLineItem(), isInterState)]);
+
+  const removeLineItem = (index: number) => {
+    setLineItems((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  /** A note's default side follows its type until someone picks one explicitly. */
+  const handleVoucherTypeChange = (next: string) => {
+    setVoucherType(next);
+    if (!invoice.note_side) setNote((prev) => ({ ...prev, side: voucherSide({ voucher_type: next }) }));
+  };
+
+  const applyEinvoiceValue = (field: EinvoiceField, value: string) => {
+    switch (field) {
+      case 'seller_gstin': handleGstinChange(value, setSellerGstin, setSellerStateCode); break;
+      case 'buyer_gstin': handleGstinChange(value, setBuyerGstin, setBuyerStateCode); break;
+      case 'invoice_number': setInvoiceNumber(value); break;
+      case 'invoice_date': setInvoiceDate(value); break;
+      case 'voucher_type': handleVoucherTypeChange(value); break;
+    }
+  };
+
+  const buildPayload = (): Partial<CaInvoice> => ({
+    invoice_number: invoiceNumber,
+    invoice_date: invoiceDate,
+    voucher_type: voucherType,
+    supply_type: supplyType,
+    reverse_charge: reverseCharge,
+    seller_name: sellerName,
+    seller_gstin: sellerGstin,
+    vendor_id: vendor?.id,
+    seller_state_code: sellerStateCode,
+    buyer_name: buyerName,
+    buyer_gstin: buyerGstin,
+    buyer_state_code: buyerStateCode,
+    line_items: lineItems,
+    totals: { ...totals, round_off: roundOff, direction: totalsDirection(voucherType) },
+    withholding,
+    ...(isNote(voucherType)
+      ? {
+          note_side: note.side,
+          original_invoice: note.original.invoice_number.trim() || note.original.invoice_date ? note.original : undefined,
+          note_reason: note.reason || undefined,
+        }
+      : {}),
+  });
+
+  /** Turn ledgers the reviewer changed by hand into classification rules for the client. */
+  const learnLedgerCorrections = async () => {
+    if (!invoice.client_id || !isPurchase) return;
+    const corrections = ledgerCorrections(invoice.id, invoice.line_items || [], lineItems, vendor?.id);
+    if (corrections.length === 0) return;
+    try {
+      const learned = await caInvoiceService.learnLedgerRules(invoice.client_id, corrections);
+      if (learned.length > 0) {
+        toast({
+          title: `Learned ${learned.length} ledger rule${learned.length !== 1 ? 's' : ''}`,
+          description: learned.map((r) => `${describeRule(r)} → ${r.ledger}`).join('; '),
+        });
+      }
+    } catch {
+      // Learning is best-effort — the invoice itself is saved
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await caInvoiceService.updateInvoice(invoice.id, buildPayload());
+      await learnLedgerCorrections();
+      toast({ title: 'Invoice saved' });
+      onSaved();
+    } catch (err: any) {
+      toast({ title: 'Save failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /** Record a decision and move to the next undecided invoice, wrapping round once. */
+  const advanceAfter = (outcome: CaInvoice['status']) => {
+    const next = { ...outcomes, [invoice.id]: outcome };
+    setOutcomes(next);
+    const after = siblings.findIndex((s, i) => i > currentIdx && !isDecided(next[s.id]));
+    const target = after !== -1 ? after : siblings.findIndex((s) => !isDecided(next[s.id]));
+    if (target !== -1) setCurrentIdx(target);
+  };
+
+  const handleAsked = () => {
+    setAsking(false);
+    onSaved();
+    if (reviewMode) {
+      advanceAfter('awaiting_client_reply');
+    } else {
+      setOutcomes((prev) => ({ ...prev, [invoice.id]: 'awaiting_client_reply' }));
+      setQueriesKey((k) => k + 1);
+    }
+  };
+
+  // Once the last open query is resolved the backend returns the invoice to review
+  const handleQueryClosed = () => {
+    onSaved();
+    if (status === 'awaiting_client_reply') setOutcomes((prev) => ({ ...prev, [invoice.id]: 'pending_review' }));
+  };
+
+  const handleApprove = async () => {
+    if (signOffBlocked) {
+      toast({ title: `Can't ${STAGE_ACTIONS[stage!].toLowerCase()}`, description: signOffBlocked, variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await caInvoiceService.updateInvoice(invoice.id, buildPayload());
+      await learnLedgerCorrections();
+      await caInvoiceService.approveInvoice(invoice.id, workflow?.enabled ? stage : undefined);
+      toast({ title: !stage || stage === 'approved' ? 'Invoice approved' : `Invoice ${STAGE_LABELS[stage].toLowerCase()}` });
+      onSaved();
+      if (reviewMode) advanceAfter('approved');
+      else onClose();
+    } catch (err: any) {
+      toast({ title: 'Approve failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReject = async (payload: RejectInvoicePayload) => {
+    setSaving(true);
+    let rejected = false;
+    try {
+      rejected = await onReject(invoice.id, payload);
+    } finally {
+      setSaving(false);
+    }
+    if (!rejected) return;
+    if (reviewMode) advanceAfter('rejected');
+    else onClose();
+  };
+
+  // Re-registered every render so the handler always sees current field state
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || e.ctrlKey || e.metaKey || saving || queueDone || rejecting || asking) return;
+      let handled = true;
+      if (e.code === 'KeyJ' && currentIdx < siblings.length - 1) setCurrentIdx((i) => i + 1);
+      else if (e.code === 'KeyK' && currentIdx > 0) setCurrentIdx((i) => i - 1);
+      else if (e.code === 'KeyA' && isEditable && !showHistory) handleApprove();
+      else if (e.code === 'KeyR' && isEditable) setRejecting(true);
+      else if (e.code === 'KeyL' && isEditable && !showHistory) { addLineItem(); setFocusNewLine(true); }
+      else if (JUMP_FIELDS[e.code] && isEditable && !showHistory) focusField(JUMP_FIELDS[e.code]);
+      else handled = false;
+      if (handled) e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (queueDone) {
+    return (
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            Review queue complete
+          </DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">
+          {approvedCount} {approvedWord} · {rejectedCount} rejected
+          {queriedCount > 0 && <> · {queriedCount} sent to the client with a question</>}
+          {' '}out of {siblings.length} invoice{siblings.length !== 1 ? 's' : ''}.
+        </p>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    );
+  }
+
+  return (
+    <DialogContent className={`${hasMedia ? 'max-w-7xl' : 'max-w-4xl'} max-h-[90vh] overflow-y-auto`}>
+      <DialogHeader>
+        {(hasBatch || reviewMode) && (
+          <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-2 mb-2">
+            {reviewMode ? (
+              <div className="flex-1 mr-4">
+                <span className="text-sm text-blue-800 font-medium">
+                  Review queue · {reviewedCount} of {siblings.length} reviewed
+                  <span className="font-normal text-blue-700">
+                    {' '}({approvedCount} {approvedWord}, {rejectedCount} rejected{queriedCount > 0 && `, ${queriedCount} queried`})
+                  </span>
+                </span>
+                <div className="h-1.5 mt-1.5 rounded-full bg-blue-100 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${(reviewedCount / siblings.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              <span className="text-sm text-blue-800 font-medium">
+                {siblings.length} invoices extracted from this message
+              </span>
+            )}
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2"
+                disabled={currentIdx === 0}
+                onClick={() => setCurrentIdx((i) => i - 1)}
+                title="Previous (Alt+K)"
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <span className="text-sm font-medium text-blue-700 min-w-[60px] text-center">
+                {currentIdx + 1} of {siblings.length}
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2"
+                disabled={currentIdx >= siblings.length - 1}
+                onClick={() => setCurrentIdx((i) => i + 1)}
+                title="Next (Alt+J)"
+              >
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <DialogTitle className="flex items-center gap-3">
+            Invoice #{invoice.invoice_number || 'N/A'}
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[status] || ''}`}>
+              {status.replace(/_/g, ' ')}
+            </span>
+            {invoice.wa_confirmed && (
+              <Badge className="bg-green-50 text-green-700 text-xs">WA Confirmed</Badge>
+            )}
+            {invoice.auto_approval && (
+              <Badge className="bg-green-50 text-green-700 text-xs font-normal">
+                Auto-approved · {invoice.auto_approval.rule_name}
+              </Badge>
+            )}
+            {invoice.signoffs?.map((s) => (
+              <Badge
+                key={s.stage}
+                className="bg-teal-50 text-teal-700 text-xs font-normal"
+                title={new Date(s.at).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}
+              >
+                {STAGE_LABELS[s.stage]} · {s.by}
+              </Badge>
+            ))}
+          </DialogTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={showHistory ? 'default' : 'outline'}
+              className="h-7 text-xs gap-1.5"
+              onClick={() => setShowHistory((v) => !v)}
+            >
+              <History className="h-3.5 w-3.5" />
+              History
+            </Button>
+            {confidenceBadge(invoice.confidence_score || 0)}
+          </div>
+        </div>
+      </DialogHeader>
+
+      <div
+        ref={contentRef}
+        className={`${hasMedia ? 'grid grid-cols-5 gap-6' : ''}`}
+        onFocus={(e) => { if (e.target.dataset.field) setActiveField(e.target.dataset.field); }}
+      >
+        {/* Left panel: Document preview */}
+        {hasMedia && (
+          <div className="col-span-2">
+            <InvoiceMediaPreview invoiceId={invoice.id} fields={evidence} activeField={activeField} />
+          </div>
+        )}
+
+        {/* Right panel: Extracted data */}
+        <div className={`${hasMedia ? 'col-span-3' : ''} space-y-6 text-sm`}>
+        {showHistory ? (
+          <InvoiceHistory
+            invoiceId={invoice.id}
+            canRestore={isEditable}
+            onRestored={() => { onSaved(); onClose(); }}
+          />
+        ) : (
+        <>
+        {/* Why it was rejected */}
+        {status === 'rejected' && invoice.rejection && (
+          <div className="flex items-start gap-3 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+            <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+            <div className="text-sm text-red-800">
+              <p>
+                Rejected: <span className="font-medium">{invoice.rejection.reason_label}</span>
+                {invoice.rejection.note && <> — {invoice.rejection.note}</>}
+              </p>
+              <p className="text-xs text-red-700/80 mt-0.5">
+                {new Date(invoice.rejection.rejected_at).toLocaleString('en-IN')}
+                {invoice.rejection.rejected_by && <> · {invoice.rejection.rejected_by}</>}
+                {' · '}
+                {invoice.rejection.notified_at ? 'sender notified on WhatsApp' : 'sender not notified'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Filed period */}
+        {invoice.period_lock && (
+          <div className="flex items-start gap-3 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3">
+            <Lock className="h-4 w-4 text-gray-500 mt-0.5 shrink-0" />
+            <p className="text-gray-700 text-sm flex-1">
+              {lockedInvoiceMessage(invoice.period_lock)}
+            </p>
+            {invoice.client_id && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs shrink-0"
+                onClick={() => { onClose(); navigateTab('clients', { clientId: invoice.client_id }); }}
+              >
+                Manage locks
+              </Button>
+            )}
+          </div>
+        )}
+        {invoice.routed_from && invoice.booking_period && (
+          <div className="flex items-start gap-3 bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
+            <CalendarClock className="h-4 w-4 text-blue-600 mt-0.5 shrink-0" />
+            <p className="text-blue-800 text-sm">
+              Late entry — arrived after {periodLabel(invoice.routed_from.period_type, invoice.routed_from.period)} was filed, so it is booked in{' '}
+              <span className="font-medium">{periodLabel('month', invoice.booking_period)}</span>.
+            </p>
+          </div>
+        )}
+
+        {/* Clarification threads with the client */}
+        {((invoice.query_count ?? 0) > 0 || status === 'awaiting_client_reply' || queriesKey > 0) && (
+          <InvoiceQueries invoiceId={invoice.id} refreshKey={queriesKey} onClosed={handleQueryClosed} />
+        )}
+
+        {/* Editable banner */}
+        {isEditable && (
+          <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3">
+            <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+            <p className="text-amber-800 text-sm">
+              Review extracted data. Edit any incorrect fields before approving.
+              {lowConfidenceCount > 0 && (
+                <> {lowConfidenceCount} low-confidence field{lowConfidenceCount !== 1 ? 's are' : ' is'} highlighted — check {lowConfidenceCount !== 1 ? 'those' : 'it'} against the document.</>
+              )}
+            </p>
+          </div>
+        )}
+
+        {/* Supply type vs state codes */}
+        {supplyConflict && (
+          <div className="flex items-start gap-3 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+            <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+            <p className="text-red-800 text-sm flex-1">{supplyConflict}</p>
+            {isEditable && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs shrink-0"
+                onClick={() => setSupplyType(supplyType === 'Intra-State' ? 'Inter-State' : 'Intra-State')}
+              >
+                Switch to {supplyType === 'Intra-State' ? 'Inter-State' : 'Intra-State'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Signed e-invoice QR */}
+        <EinvoiceCheck
+          invoice={invoice}
+          current={{
+            seller_gstin: sellerGstin,
+            buyer_gstin: buyerGstin,
+            invoice_number: invoiceNumber,
+            invoice_date: invoiceDate,
+            voucher_type: voucherType,
+            grand_total: totals.grand_total,
+          }}
+          editable={isEditable}
+          onApply={applyEinvoiceValue}
+        />
+
+        {/* Header fields */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <Label className="text-xs text-gray-500">Invoice Number</Label>
+            {isEditable ? (
+              <Input {...fieldProps('invoice_number')} value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} className={`mt-1 ${tint('invoice_number')}`} />
+            ) : (
+              <p className="font-medium mt-1">{invoiceNumber || '\u2014'}</p>
+            )}
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500">Invoice Date</Label>
+            {isEditable ? (
+              <Input {...fieldProps('invoice_date')} type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} className={`mt-1 ${tint('invoice_date')}`} />
+            ) : (
+              <p className="font-medium mt-1">{invoiceDate || '\u2014'}</p>
+            )}
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500">Voucher Type</Label>
+            {isEditable ? (
+              <Select value={voucherType} onValueChange={handleVoucherTypeChange}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {VOUCHER_TYPES.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="font-medium mt-1">{voucherType}</p>
+            )}
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500">Supply Type</Label>
+            {isEditable ? (
+              <Select value={supplyType} onValueChange={setSupplyType}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUPPLY_TYPES.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="font-medium mt-1">{supplyType}</p>
+            )}
+          </div>
+        </div>
+
+        {isNote(voucherType) && (
+          <NoteDetails invoice={invoice} voucherType={voucherType} value={note} editable={isEditable} onChange={setNote} />
+        )}
+
+        {/* Additional header info */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {invoice.invoice_type && (
+            <div>
+              <Label className="text-xs text-gray-500">Invoice Type</Label>
+              <p className="font-medium mt-1">{invoice.invoice_type}</p>
+            </div>
+          )}
+          <div>
+            <Label className="text-xs text-gray-500">Reverse Charge</Label>
+            {isEditable ? (
+              <Select value={reverseCharge ? 'Yes' : 'No'} onValueChange={(v) => setReverseCharge(v === 'Yes')}>
+                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="No">No</SelectItem>
+                  <SelectItem value="Yes">Yes</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="font-medium mt-1">{reverseCharge ? 'Yes' : 'No'}</p>
+            )}
+          </div>
+          {invoice.client_name && (
+            <div>
+              <Label className="text-xs text-gray-500">Client</Label>
+              <p className="font-medium mt-1">{invoice.client_name}</p>
+            </div>
+          )}
+          {invoice.branch_name && (
+            <div>
+              <Label className="text-xs text-gray-500">Branch</Label>
+              <p className="font-medium mt-1">{invoice.branch_name}</p>
+            </div>
+          )}
+          {invoice.sender_phone && (
+            <div>
+              <Label className="text-xs text-gray-500">Sender Phone</Label>
+              <p className="font-medium mt-1 font-mono text-xs">{invoice.sender_phone}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Seller / Buyer */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          {/* Seller */}
+          <div className="space-y-3 p-4 rounded-lg bg-gray-50">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Seller</p>
+            <div>
+              <Label className="text-xs text-gray-500">Name</Label>
+              {isEditable ? (
+                <Input
+                  {...fieldProps('seller_name')}
+                  value={sellerName}
+                  onChange={(e) => handleSellerNameChange(e.target.value)}
+                  list={isPurchase && vendors.length > 0 ? 'vendor-master' : undefined}
+                  className={`mt-1 ${tint('seller_name')}`}
+                />
+              ) : (
+                <p className="font-medium mt-1">{sellerName}</p>
+              )}
+              {isEditable && isPurchase && vendors.length > 0 && (
+                <datalist id="vendor-master">
+                  {vendors.map((v) => <option key={v.id} value={v.name} label={v.gstin || GST_TREATMENT_LABELS[v.gst_treatment || 'regular']} />)}
+                </datalist>
+              )}
+              {vendor ? (
+                <p className="text-[11px] text-neutral-500 mt-1 flex items-center gap-1 flex-wrap">
+                  <Store className="h-3 w-3 shrink-0" />
+                  {vendor.name !== sellerName ? (
+                    <>
+                      Vendor master: <span className="font-medium text-neutral-700">{vendor.name}</span>
+                      {isEditable && (
+                        <button type="button" className="text-blue-600 hover:underline" onClick={() => applyVendor(vendor, sellerName)}>
+                          Use this name
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      In vendor master
+                      {vendor.purchase_ledger && <> · posts to {vendor.purchase_ledger}</>}
+                      {vendor.gst_treatment && vendor.gst_treatment !== 'regular' && <> · {GST_TREATMENT_LABELS[vendor.gst_treatment]}</>}
+                    </>
+                  )}
+                </p>
+              ) : isEditable && isPurchase && invoice.client_id && sellerName.trim() ? (
+                <button type="button" className="text-[11px] text-blue-600 hover:underline mt-1 flex items-center gap-1" onClick={handleAddVendor}>
+                  <Store className="h-3 w-3" /> Add to vendor master
+                </button>
+              ) : null}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label className="text-xs text-gray-500">GSTIN</Label>
+                {isEditable ? (
+                  <Input
+                    {...fieldProps('seller_gstin')}
+                    value={sellerGstin}
+                    onChange={(e) => handleGstinChange(e.target.value, setSellerGstin, setSellerStateCode)}
+                    maxLength={15}
+                    placeholder="27ABCDE1234F1Z5"
+                    className={`mt-1 font-mono text-xs ${tint('seller_gstin')}`}
+                  />
+                ) : (
+                  <p className="font-mono text-xs mt-1">{sellerGstin || 'N/A'}</p>
+                )}
+              </div>
+              <div>
+                <Label className="text-xs text-gray-500">State Code</Label>
+                {isEditable ? (
+                  <Input
+                    {...fieldProps('seller_state_code')}
+                    value={sellerStateCode}
+                    onChange={(e) => setSellerStateCode(e.target.value)}
+                    maxLength={2}
+                    className={`mt-1 w-20 ${tint('seller_state_code')}`}
+                  />
+                ) : (
+                  <p className="font-medium mt-1">{sellerStateCode || '\u2014'}</p>
+                )}
+              </div>
+              {invoice.seller_state_name && (
+                <div>
+                  <Label className="text-xs text-gray-500">State</Label>
+                  <p className="font-medium mt-1">{invoice.seller_state_name}</p>
+                </div>
+              )}
+            </div>
+            <GstinHint gstin={sellerGstin} stateCode={sellerStateCode} />
+          </div>
+
+          {/* Buyer */}
+          <div className="space-y-3 p-4 rounded-lg bg-gray-50">
+            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Buyer</p>
+            <div>
+              <Label className="text-xs text-gray-500">Name</Label>
+              {isEditable ? (
+                <Input {...fieldProps('buyer_name')} value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className={`mt-1 ${tint('buyer_name')}`} />
+              ) : (
+                <p className="font-medium mt-1">{buyerName}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label className="text-xs text-gray-500">GSTIN</Label>
+                {isEditable ? (
+                  <Input
+                    {...fieldProps('buyer_gstin')}
+                    value={buyerGstin}
+                    onChange={(e) => handleGstinChange(e.target.value, setBuyerGstin, setBuyerStateCode)}
+                    maxLength={15}
+                    placeholder="27ABCDE1234F1Z5"
+                    className={`mt-1 font-mono text-xs ${tint('buyer_gstin')}`}
+                  />
+                ) : (
+                  <p className="font-mono text-xs mt-1">{buyerGstin || 'N/A'}</p>
+                )}
+              </div>
+              <div>
+                <Label className="text-xs text-gray-500">State Code</Label>
+                {isEditable ? (
+                  <Input
+                    {...fieldProps('buyer_state_code')}
+                    value={buyerStateCode}
+                    onChange={(e) => setBuyerStateCode(e.target.value)}
+                    maxLength={2}
+                    className={`mt-1 w-20 ${tint('buyer_state_code')}`}
+                  />
+                ) : (
+                  <p className="font-medium mt-1">{buyerStateCode || '\u2014'}</p>
+                )}
+              </div>
+              {invoice.buyer_state_name && (
+                <div>
+                  <Label className="text-xs text-gray-500">State</Label>
+                  <p className="font-medium mt-1">{invoice.buyer_state_name}</p>
+                </div>
+              )}
+            </div>
+            <GstinHint gstin={buyerGstin} stateCode={buyerStateCode} />
+          </div>
+        </div>
+
+        {/* Line Items */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <p className="font-semibold text-gray-900">Line Items</p>
+            {isEditable && (
+              <Button size="sm" variant="outline" onClick={addLineItem} className="gap-1.5" title="Add item (Alt+L)">
+                <Plus className="h-3.5 w-3.5" /> Add Item
+              </Button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[150px]">Description</TableHead>
+                  <TableHead className="w-[80px]">HSN/SAC</TableHead>
+                  <TableHead className="w-[55px] text-right">Qty</TableHead>
+                  <TableHead className="w-[50px]">Unit</TableHead>
+                  <TableHead className="w-[80px] text-right">Rate</TableHead>
+                  <TableHead className="w-[90px] text-right">Taxable</TableHead>
+                  <TableHead className="w-[55px] text-right">GST%</TableHead>
+                  {!isInterState && <TableHead className="w-[80px] text-right">CGST</TableHead>}
+                  {!isInterState && <TableHead className="w-[80px] text-right">SGST</TableHead>}
+                  {isInterState && <TableHead className="w-[80px] text-right">IGST</TableHead>}
+                  <TableHead className="w-[90px] text-right">Total</TableHead>
+                  {isEditable && <TableHead className="w-[40px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lineItems.map((item, i) => {
+                  const hsnEntry = findHsn(item.hsn_sac_code);
+                  const hsnIssue = checkLineItemHsn(item, invoiceDate);
+                  return (
+                  <TableRow key={i}>
+                    <TableCell>
+                      {isEditable ? (
+                        <Input
+                          {...fieldProps(`line_items.${i}.description`)}
+                          value={item.description}
+                          onChange={(e) => updateLineItem(i, 'description', e.target.value)}
+                          className={`h-8 text-xs ${tint(`line_items.${i}.description`)}`}
+                        />
+                      ) : (
+                        <span className="truncate block max-w-[180px]">{item.description}</span>
+                      )}
+                      {isPurchase && (isEditable ? (
+                        <Input
+                          value={item.ledger || ''}
+                          onChange={(e) => setLineLedger(i, e.target.value)}
+                          list="expense-ledgers"
+                          placeholder={vendor?.purchase_ledger || 'Rate-slab ledger'}
+                          className="h-7 mt-1 text-[11px] text-violet-800 placeholder:text-neutral-400"
+                          title="Ledger this line posts to in Tally"
+                        />
+                      ) : item.ledger ? (
+                        <span className="block text-[11px] text-violet-800 truncate max-w-[180px]">→ {item.ledger}</span>
+                      ) : null)}
+                      {isPurchase && item.ledger_rule && (
+                        <span className="block text-[10px] text-neutral-400 truncate max-w-[180px]" title={item.ledger_rule.source === 'learned' ? 'Rule learned from earlier corrections' : 'Classification rule'}>
+                          via {describeRule(item.ledger_rule)}{item.ledger_rule.source === 'learned' && ' · learned'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isEditable ? (
+                        <Input
+                          data-field={`line_items.${i}.hsn_sac_code`}
+                          value={item.hsn_sac_code}
+                          onChange={(e) => updateLineItemHsn(i, e.target.value)}
+                          list="hsn-sac-master"
+                          className={`h-8 text-xs ${hsnIssue?.code === 'invalid_hsn' ? 'border-red-400' : tint(`line_items.${i}.hsn_sac_code`)}`}
+                          title={hsnIssue?.code === 'invalid_hsn' ? hsnIssue.message : hsnEntry?.description}
+                        />
+                      ) : (
+                        <span title={hsnEntry?.description}>{item.hsn_sac_code || '\u2014'}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isEditable ? (
+                        <Input
+                          {...fieldProps(`line_items.${i}.quantity`)}
+                          type="number"
+                          value={item.quantity}
+                          onChange={(e) => updateLineItem(i, 'quantity', parseFloat(e.target.value) || 0)}
+                          className={`h-8 text-xs text-right w-14 ${tint(`line_items.${i}.quantity`)}`}
+                          min={0}
+                          step="any"
+                        />
+                      ) : (
+                        item.quantity
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isEditable ? (
+                        <Input
+                          {...fieldProps(`line_items.${i}.unit`)}
+                          value={item.unit}
+                          onChange={(e) => updateLineItem(i, 'unit', e.target.value)}
+                          className={`h-8 text-xs w-14 ${tint(`line_items.${i}.unit`)}`}
+                        />
+                      ) : (
+                        item.unit
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {isEditable ? (
+                        <Input
+                          {...fieldProps(`line_items.${i}.rate`)}
+                          type="number"
+                          value={item.rate}
+                          onChange={(e) => updateLineItem(i, 'rate', parseFloat(e.target.value) || 0)}
+                          className={`h-8 text-xs text-right w-20 ${tint(`line_items.${i}.rate`)}`}
+                          min={0}
+                          step="any"
+                        />
+                      ) : (
+                        formatCurrency(item.rate)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatCurrency(item.taxable_amount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isEditable ? (
+                        <Input
+                          data-field={`line_items.${i}.gst_rate`}
+                          type="number"
+                          value={item.gst_rate}
+                          onChange={(e) => updateLineItem(i, 'gst_rate', parseFloat(e.target.value) || 0)}
+                          className={`h-8 text-xs text-right w-14 ${hsnIssue?.code === 'hsn_rate_mismatch' ? 'border-red-400 text-red-700' : tint(`line_items.${i}.gst_rate`)}`}
+                          title={hsnIssue?.code === 'hsn_rate_mismatch' ? hsnIssue.message : fieldProps(`line_items.${i}.gst_rate`).title}
+                          min={0}
+                          max={40}
+                          step="any"
+                        />
+                      ) : (
+                        <span
+                          className={hsnIssue?.code === 'hsn_rate_mismatch' ? 'text-red-600 font-medium' : ''}
+                          title={hsnIssue?.code === 'hsn_rate_mismatch' ? hsnIssue.message : undefined}
+                        >
+                          {item.gst_rate}%
+                        </span>
+                      )}
+                      {isEditable && hsnEntry && hsnIssue?.code === 'hsn_rate_mismatch' && (
+                        <div className="flex justify-end gap-1 mt-0.5">
+                          {ratesOn(hsnEntry, invoiceDate).rates.map((r) => (
+                            <button
+                              key={r}
+                              type="button"
+                              onClick={() => updateLineItem(i, 'gst_rate', r)}
+                              className="text-[10px] text-blue-600 hover:underline"
+                            >
+                              {r}%
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    {!isInterState && (
+                      <TableCell className="text-right font-mono text-xs">
+                        {formatCurrency(item.cgst_amount)}
+                      </TableCell>
+                    )}
+                    {!isInterState && (
+                      <TableCell className="text-right font-mono text-xs">
+                        {formatCurrency(item.sgst_amount)}
+                      </TableCell>
+                    )}
+                    {isInterState && (
+                      <TableCell className="text-right font-mono text-xs">
+                        {formatCurrency(item.igst_amount)}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right font-mono font-medium">
+                      {formatCurrency(item.total_amount)}
+                    </TableCell>
+                    {isEditable && (
+                      <TableCell>
+                        <button
+                          onClick={() => removeLineItem(i)}
+                          className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                          aria-label="Remove line item"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                  );
+                })}
+                {lineItems.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={isEditable ? 10 : 9} className="text-center text-gray-400 py-6">
+                      No line items
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            {isEditable && isPurchase && (
+              <datalist id="expense-ledgers">
+                {ledgerNames.map((name) => <option key={name} value={name} />)}
+              </datalist>
+            )}
+            {isEditable && (
+              <datalist id="hsn-sac-master">
+                {HSN_MASTER.map((e) => (
+                  <option key={e.code} value={e.code} label={`${e.description} · ${ratesOn(e, invoiceDate).rates.join('/')}%`} />
+                ))}
+              </datalist>
+            )}
+          </div>
+          {hsnIssueCount > 0 && (
+            <p className="text-xs text-red-600 flex items-center gap-1 mt-2">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              {hsnIssueCount} line item{hsnIssueCount !== 1 ? 's have' : ' has'} an HSN/SAC code or GST rate that doesn't match the HSN master
+            </p>
+          )}
+        </div>
+
+        {/* Totals — extracted values, not recalculated */}
+        <div className="border-t pt-4">
+          <div className="grid grid-cols-2 gap-2 max-w-xs ml-auto text-sm">
+            <span className="text-gray-500">Taxable Amount:</span>
+            <span className="text-right font-mono">{formatCurrency(totals.taxable_amount)}</span>
+            {(totals.cgst_total > 0 || totals.sgst_total > 0) && (
+              <>
+                <span className="text-gray-500">CGST:</span>
+                <span className="text-right font-mono">{formatCurrency(totals.cgst_total)}</span>
+                <span className="text-gray-500">SGST:</span>
+                <span className="text-right font-mono">{formatCurrency(totals.sgst_total)}</span>
+              </>
+            )}
+            {totals.igst_total > 0 && (
+              <>
+                <span className="text-gray-500">IGST:</span>
+                <span className="text-right font-mono">{formatCurrency(totals.igst_total)}</span>
+              </>
+            )}
+            {totals.cess_total > 0 && (
+              <>
+                <span className="text-gray-500">Cess:</span>
+                <span className="text-right font-mono">{formatCurrency(totals.cess_total)}</span>
+              </>
+            )}
+            <span className="text-gray-500">Round Off:</span>
+            <span className="text-right">
+              {isEditable ? (
+                <Input
+                  {...fieldProps('totals.round_off')}
+                  type="number"
+                  value={roundOff}
+                  onChange={(e) => setRoundOff(parseFloat(e.target.value) || 0)}
+                  className={`h-7 text-xs text-right w-24 ml-auto ${tint('totals.round_off')}`}
+                  step="0.01"
+                />
+              ) : (
+                <span className="font-mono">{formatCurrency(totals.round_off)}</span>
+              )}
+            </span>
+            <span className="font-bold text-gray-900">Grand Total:</span>
+            <span className="text-right font-bold font-mono text-gray-900">{formatCurrency(totals.grand_total)}</span>
+          </div>
+          {totals.amount_in_words && (
+            <p className="text-xs text-gray-500 mt-2 text-right italic">{totals.amount_in_words}</p>
+          )}
+          {isNote(voucherType) && (
+            <p className="text-xs text-violet-700 mt-2 text-right">
+              {totalsDirection(voucherType) < 0 ? 'Reduces' : 'Adds to'} the original invoice's taxable value and GST
+            </p>
+          )}
+        </div>
+
+        {/* Additional Charges */}
+        {invoice.additional_charges && (() => {
+          const ac = invoice.additional_charges!;
+          const hasCharges = (ac.service_charge || 0) > 0 || (ac.delivery_charge || 0) > 0 ||
+            (ac.packaging_charge || 0) > 0 || (ac.tips_gratuity || 0) > 0 ||
+            (ac.convenience_fee || 0) > 0 || (ac.other_charges || 0) > 0;
+          if (!hasCharges) return null;
+          return (
+            <div className="border-t pt-4">
+              <p className="font-semibold text-gray-900 mb-2">Additional Charges</p>
+              <div className="grid grid-cols-2 gap-2 max-w-xs text-sm">
+                {(ac.service_charge || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">
+                      Service Charge{ac.service_charge_rate ? ` (${ac.service_charge_rate}%)` : ''}:
+                    </span>
+                    <span className="text-right font-mono">{formatCurrency(ac.service_charge)}</span>
+                  </>
+                )}
+                {(ac.delivery_charge || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">Delivery:</span>
+                    <span className="text-right font-mono">{formatCurrency(ac.delivery_charge)}</span>
+                  </>
+                )}
+                {(ac.packaging_charge || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">Packaging:</span>
+                    <span className="text-right font-mono">{formatCurrency(ac.packaging_charge)}</span>
+                  </>
+                )}
+                {(ac.tips_gratuity || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">Tips/Gratuity:</span>
+                    <span className="text-right font-mono">{formatCurrency(ac.tips_gratuity)}</span>
+                  </>
+                )}
+                {(ac.convenience_fee || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">Convenience Fee:</span>
+                    <span className="text-right font-mono">{formatCurrency(ac.convenience_fee)}</span>
+                  </>
+                )}
+                {(ac.other_charges || 0) > 0 && (
+                  <>
+                    <span className="text-gray-500">{ac.other_charges_description || 'Other'}:</span>
+                    <span className="text-right font-mono">{formatCurrency(ac.other_charges)}</span>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Discount */}
+        {invoice.discount && (invoice.discount.discount_amount || 0) > 0 && (
+          <div className="border-t pt-4">
+            <p className="font-semibold text-gray-900 mb-2">Discount</p>
+            <div className="grid grid-cols-2 gap-2 max-w-xs text-sm">
+              <span className="text-gray-500">
+                Amount{invoice.discount.discount_percentage ? ` (${invoice.discount.discount_percentage}%)` : ''}:
+              </span>
+              <span className="text-right font-mono text-green-700">
+                -{formatCurrency(invoice.discount.discount_amount)}
+              </span>
+              {invoice.discount.discount_description && (
+                <>
+                  <span className="text-gray-500">Description:</span>
+                  <span className="text-right">{invoice.discount.discount_description}</span>
+                </>
+              )}
+              {invoice.discount.coupon_code && (
+                <>
+                  <span className="text-gray-500">Coupon:</span>
+                  <span className="text-right font-mono">{invoice.discount.coupon_code}</span>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* TDS / TCS */}
+        {(withholding || (isEditable && !isNote(voucherType))) && (
+          <div className="border-t pt-4">
+            <WithholdingDetails
+              kind={withholding?.kind || withholdingKind(withholdingSide)}
+              value={withholding}
+              suggestion={withholdingSuggestion}
+              taxableAmount={totals.taxable_amount}
+              grandTotal={totals.grand_total}
+              editable={isEditable}
+              onChange={setWithholding}
+            />
+          </div>
+        )}
+
+        {/* Extraction notes */}
+        {invoice.extraction_notes && (
+          <p className="text-xs text-gray-400">Notes: {invoice.extraction_notes}</p>
+        )}
+        </>
+        )}
+      </div>{/* end right panel / data column */}
+      </div>{/* end grid */}
+
+      <DialogFooter>
+        {isEditable && asking ? (
+          <div className="w-full border-t pt-4">
+            <AskClientForm invoice={invoice} onCancel={() => setAsking(false)} onSent={handleAsked} />
+          </div>
+        ) : isEditable && rejecting ? (
+          <div className="w-full border-t pt-4">
+            <RejectionForm
+              invoices={[invoice]}
+              busy={saving}
+              onCancel={() => setRejecting(false)}
+              onSubmit={handleReject}
+            />
+          </div>
+        ) : isEditable ? (
+          <div className="flex gap-2 w-full justify-end items-center">
+            {reviewMode && (
+              <p className="mr-auto flex items-center gap-1.5 text-xs text-gray-400">
+                <Keyboard className="h-3.5 w-3.5" />
+                {SHORTCUT_HINTS.map(([keys, action]) => (
+                  <span key={keys} className="mr-2">
+                    <kbd className="px-1 py-0.5 rounded border bg-gray-50 font-mono text-[10px] text-gray-600">{keys}</kbd> {action}
+                  </span>
+                ))}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setAsking(true)}
+              disabled={saving || !invoice.sender_phone}
+              className="gap-1.5"
+            >
+              <MessageCircle className="h-3.5 w-3.5" />
+              Ask client
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRejecting(true)}
+              disabled={saving}
+              title="Reject (Alt+R)"
+            >
+              Reject
+            </Button>
+            <Button variant="outline" onClick={handleSave} disabled={saving} className="gap-1.5">
+              <Save className="h-3.5 w-3.5" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button
+              onClick={handleApprove}
+              disabled={saving || !!signOffBlocked}
+              className="gap-1.5"
+              title={signOffBlocked || `Save & ${STAGE_ACTIONS[stage || 'approved'].toLowerCase()} (Alt+A)`}
+            >
+              <CheckCircle className="h-3.5 w-3.5" />
+              {saving ? 'Saving...' : `Save & ${STAGE_ACTIONS[stage || 'approved']}`}
+            </Button>
+          </div>
+        ) : reviewMode ? (
+          <div className="flex gap-2 w-full justify-end">
+            <Button variant="outline" onClick={onClose}>End review</Button>
+            <Button
+              disabled={currentIdx >= siblings.length - 1}
+              onClick={() => setCurrentIdx((i) => i + 1)}
+              className="gap-1.5"
+            >
+              Next <ChevronRight className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  BadgeCheck,
+  CheckCircle,
+  ChevronDown,
+  HelpCircle,
+  FileCode2,
+  MessageCircle,
+  Pencil,
+  RotateCcw,
+  ScanLine,
+  Undo2,
+  XCircle,
+  Zap,
+} from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type InvoiceEventType,
+  type InvoiceLineItem,
+  type InvoiceTotals,
+  type InvoiceVersion,
+} from '@/services/caInvoiceService';
+
+const EVENT_META: Record<InvoiceEventType, { label: string; icon: typeof Pencil; color: string }> = {
+  extracted: { label: 'Extracted from document', icon: ScanLine, color: 'bg-violet-100 text-violet-700' },
+  edited: { label: 'Edited', icon: Pencil, color: 'bg-amber-100 text-amber-700' },
+  signed_off: { label: 'Signed off', icon: BadgeCheck, color: 'bg-teal-100 text-teal-700' },
+  approved: { label: 'Approved', icon: CheckCircle, color: 'bg-green-100 text-green-700' },
+  auto_approved: { label: 'Auto-approved by rule', icon: Zap, color: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rejected', icon: XCircle, color: 'bg-red-100 text-red-700' },
+  wa_confirmed: { label: 'Confirmed on WhatsApp', icon: MessageCircle, color: 'bg-emerald-100 text-emerald-700' },
+  client_queried: { label: 'Question sent to client', icon: HelpCircle, color: 'bg-orange-100 text-orange-700' },
+  client_replied: { label: 'Client replied', icon: MessageCircle, color: 'bg-blue-100 text-blue-700' },
+  exported: { label: 'Exported', icon: FileCode2, color: 'bg-blue-100 text-blue-700' },
+  export_rolled_back: { label: 'Export rolled back', icon: Undo2, color: 'bg-neutral-100 text-neutral-700' },
+  restored: { label: 'Restored earlier version', icon: RotateCcw, color: 'bg-indigo-100 text-indigo-700' },
+};
+
+/* ─── Field-level diff ─────────────────────────────── */
+
+const HEADER_FIELDS: Array<[keyof CaInvoice, string]> = [
+  ['invoice_number', 'Invoice number'],
+  ['invoice_date', 'Invoice date'],
+  ['voucher_type', 'Voucher type'],
+  ['supply_type', 'Supply type'],
+  ['reverse_charge', 'Reverse charge'],
+  ['seller_name', 'Seller name'],
+  ['seller_gstin', 'Seller GSTIN'],
+  ['seller_state_code', 'Seller state code'],
+  ['buyer_name', 'Buyer name'],
+  ['buyer_gstin', 'Buyer GSTIN'],
+  ['buyer_state_code', 'Buyer state code'],
+  ['note_side', 'Note adjusts'],
+  ['note_reason', 'Note reason'],
+];
+
+const LINE_FIELDS: Array<[keyof InvoiceLineItem, string]> = [
+  ['description', 'description'],
+  ['hsn_sac_code', 'HSN/SAC'],
+  ['quantity', 'qty'],
+  ['unit', 'unit'],
+  ['rate', 'rate'],
+  ['taxable_amount', 'taxable'],
+  ['gst_rate', 'GST %'],
+  ['cgst_amount', 'CGST'],
+  ['sgst_amount', 'SGST'],
+  ['igst_amount', 'IGST'],
+  ['cess_amount', 'cess'],
+  ['total_amount', 'total'],
+];
+
+const TOTAL_FIELDS: Array<[keyof InvoiceTotals, string]> = [
+  ['taxable_amount', 'Taxable'],
+  ['cgst_total', 'CGST'],
+  ['sgst_total', 'SGST'],
+  ['igst_total', 'IGST'],
+  ['cess_total', 'Cess'],
+  ['round_off', 'Round off'],
+  ['grand_total', 'Grand total'],
+];
+
+interface FieldChange {
+  section: 'Header' | 'Line items' | 'Totals';
+  field: string;
+  before: string;
+  after: string;
+}
+
+function show(v: unknown): string {
+  if (v === undefined || v === null || v === '') return '—';
+  if (typeof v === 'boolean') return v ? 'Yes' : 'No';
+  if (typeof v === 'number') return String(Math.round(v * 100) / 100);
+  return String(v);
+}
+
+function diffSnapshots(before: Partial<CaInvoice>, after: Partial<CaInvoice>): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [key, label] of HEADER_FIELDS) {
+    const a = show(before[key]);
+    const b = show(after[key]);
+    if (a !== b) changes.push({ section: 'Header', field: label, before: a, after: b });
+  }
+  const originalRef = (inv: Partial<CaInvoice>) =>
+    show(inv.original_invoice && [inv.original_invoice.invoice_number, inv.original_invoice.invoice_date].filter(Boolean).join(' dated '));
+  if (originalRef(before) !== originalRef(after)) {
+    changes.push({ section: 'Header', field: 'Original invoice', before: originalRef(before), after: originalRef(after) });
+  }
+
+  const linesBefore = before.line_items || [];
+  const linesAfter = after.line_items || [];
+  for (let i = 0; i < Math.max(linesBefore.length, linesAfter.length); i++) {
+    const lb = linesBefore[i];
+    const la = linesAfter[i];
+    if (!lb) {
+      changes.push({ section: 'Line items', field: `Line ${i + 1}`, before: '—', after: `added: ${la.description} (${show(la.total_amount)})` });
+    } else if (!la) {
+      changes.push({ section: 'Line items', field: `Line ${i + 1}`, before: `${lb.description} (${show(lb.total_amount)})`, after: 'removed' });
+    } else {
+      for (const [key, label] of LINE_FIELDS) {
+        const a = show(lb[key]);
+        const b = show(la[key]);
+        if (a !== b) changes.push({ section: 'Line items', field: `Line ${i + 1} ${label}`, before: a, after: b });
+      }
+    }
+  }
+
+  for (const [key, label] of TOTAL_FIELDS) {
+    const a = show(before.totals?.[key]);
+    const b = show(after.totals?.[key]);
+    if (a !== b) changes.push({ section: 'Totals', field: label, before: a, after: b });
+  }
+  const withheld = (inv: Partial<CaInvoice>) => {
+    const w = inv.withholding;
+    return show(w && `${w.kind.toUpperCase()} ${w.section} @ ${w.rate}% = ${show(w.amount)}`);
+  };
+  if (withheld(before) !== withheld(after)) {
+    changes.push({ section: 'Totals', field: 'TDS/TCS', before: withheld(before), after: withheld(after) });
+  }
+
+  return changes;
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="mt-2 rounded-lg border divide-y text-xs">
+      {changes.map((c, i) => (
+        <div key={i} className="grid grid-cols-[140px_1fr] gap-2 px-3 py-1.5">
+          <span className="text-gray-500">{c.field}</span>
+          <span className="break-words">
+            <span className="bg-red-50 text-red-700 line-through px-1 rounded">{c.before}</span>
+            {' → '}
+            <span className="bg-green-50 text-green-800 px-1 rounded">{c.after}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ─── History Timeline ─────────────────────────────── */
+
+export default function InvoiceHistory({
+  invoiceId,
+  canRestore,
+  onRestored,
+}: {
+  invoiceId: string;
+  /** Only invoices still under review can have their data rolled back. */
+  canRestore: boolean;
+  onRestored: () => void;
+}) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<InvoiceVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    caInvoiceService.getInvoiceHistory(invoiceId)
+      .then((v) => { if (!cancelled) setVersions(v); })
+      .catch((err: any) => toast({ title: 'Error', description: err.message, variant: 'destructive' }))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [invoiceId, toast]);
+
+  const handleRestore = async (version: number) => {
+    setRestoring(version);
+    try {
+      await caInvoiceService.restoreInvoiceVersion(invoiceId, version);
+      toast({ title: `Restored version ${version}` });
+      onRestored();
+    } catch (err: any) {
+      toast({ title: 'Restore failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const toggle = (version: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(version)) next.delete(version);
+      else next.add(version);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-14 w-full" />)}
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-10">No history recorded for this invoice</p>;
+  }
+
+  const original = versions[0];
+  const latest = versions[versions.length - 1];
+  const sinceExtraction = diffSnapshots(original.snapshot, latest.snapshot);
+
+  return (
+    <div className="space-y-4">
+      {/* What the client sent vs what we hold now */}
+      <div className="rounded-lg border bg-gray-50 px-4 py-3">
+        <p className="font-semibold text-gray-900">Extracted vs current</p>
+        <p className="text-xs text-gray-500">
+          {sinceExtraction.length === 0
+            ? 'No fields have changed since extraction.'
+            : `${sinceExtraction.length} field${sinceExtraction.length !== 1 ? 's' : ''} differ from what was originally extracted.`}
+        </p>
+        {sinceExtraction.length > 0 && <ChangeList changes={sinceExtraction} />}
+      </div>
+
+      {/* Timeline, newest first */}
+      <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+        {[...versions].reverse().map((v) => {
+          const idx = versions.indexOf(v);
+          const changes = idx > 0 ? diffSnapshots(versions[idx - 1].snapshot, v.snapshot) : [];
+          const meta = EVENT_META[v.event] || EVENT_META.edited;
+          const Icon = meta.icon;
+          const isLatest = v === latest;
+          const isOpen = expanded.has(v.version);
+          return (
+            <li key={v.version} className="ml-5">
+              <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white ${meta.color}`}>
+                <Icon className="h-3 w-3" />
+              </span>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {meta.label}
+                    <span className="ml-2 text-xs font-normal text-gray-400">v{v.version}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(v.at).toLocaleString('en-IN')}
+                    {v.actor && <> · {v.actor}</>}
+                  </p>
+                  {v.note && <p className="text-xs text-gray-600 mt-0.5">{v.note}</p>}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {changes.length > 0 && (
+                    <button
+                      onClick={() => toggle(v.version)}
+                      className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+                    >
+                      {changes.length} change{changes.length !== 1 ? 's' : ''}
+                      <ChevronDown className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                  )}
+                  {!isLatest && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs gap-1"
+                      disabled={!canRestore || restoring !== null}
+                      title={canRestore ? undefined : 'Only invoices still under review can be restored'}
+                      onClick={() => handleRestore(v.version)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      {restoring === v.version ? 'Restoring…' : 'Restore'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isOpen && <ChangeList changes={changes} />}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CheckCircle, HelpCircle, MessageCircle, Send } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type InvoiceQuery,
+} from '@/services/caInvoiceService';
+
+const QUICK_QUESTIONS = [
+  'Is this a capital purchase (fixed asset)?',
+  'Is this expense for business use?',
+  'Which branch or project is this for?',
+  'Has this bill been paid? If so, how?',
+  'Please share the e-way bill for this purchase.',
+];
+
+const QUERY_STATUS_STYLES: Record<InvoiceQuery['status'], string> = {
+  open: 'bg-amber-100 text-amber-800',
+  answered: 'bg-blue-100 text-blue-800',
+  closed: 'bg-gray-100 text-gray-600',
+};
+
+/** The WhatsApp text the backend sends for a new question — mirrored here for the preview. */
+function queryMessage(inv: Pick<CaInvoice, 'invoice_number' | 'seller_name'>, question: string): string {
+  const ref = `invoice ${inv.invoice_number || '(no number)'}${inv.seller_name ? ` from ${inv.seller_name}` : ''}`;
+  return `Question about ${ref}:\n${question.trim()}\n\nPlease reply to this message so we can attach your answer to the invoice.`;
+}
+
+/* ─── Ask Client Form ──────────────────────────────── */
+
+export function AskClientForm({
+  invoice,
+  onCancel,
+  onSent,
+}: {
+  invoice: CaInvoice;
+  onCancel: () => void;
+  onSent: () => void;
+}) {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      await caInvoiceService.askClient(invoice.id, question.trim());
+      toast({ title: 'Question sent', description: `Waiting for ${invoice.client_name || invoice.sender_phone} to reply` });
+      onSent();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <Label className="text-xs text-gray-500">Question for the client</Label>
+        <div className="flex flex-wrap gap-1.5 mt-1 mb-2">
+          {QUICK_QUESTIONS.map((q) => (
+            <button
+              key={q}
+              type="button"
+              onClick={() => setQuestion(q)}
+              className="px-2.5 py-1 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+        <Textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="What do you need to know?"
+          className="min-h-[56px]"
+          autoFocus
+        />
+      </div>
+      {question.trim() && (
+        <div className="rounded-lg bg-green-50 border border-green-100 px-3 py-2">
+          <p className="text-[11px] text-green-700 mb-0.5">WhatsApp to {invoice.sender_phone}</p>
+          <p className="text-sm text-gray-800 whitespace-pre-wrap">{queryMessage(invoice, question)}</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={sending}>Cancel</Button>
+        <Button onClick={handleSend} disabled={sending || !question.trim() || !invoice.sender_phone} className="gap-1.5">
+          <MessageCircle className="h-3.5 w-3.5" />
+          {sending ? 'Sending…' : 'Send & mark awaiting reply'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Query Threads ────────────────────────────────── */
+
+export default function InvoiceQueries({
+  invoiceId,
+  refreshKey,
+  onClosed,
+}: {
+  invoiceId: string;
+  refreshKey?: number;
+  onClosed: () => void;
+}) {
+  const { toast } = useToast();
+  const [queries, setQueries] = useState<InvoiceQuery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = () =>
+    caInvoiceService.listInvoiceQueries(invoiceId)
+      .then(setQueries)
+      .catch((err: any) => toast({ title: 'Error', description: err.message, variant: 'destructive' }))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [invoiceId, refreshKey]);
+
+  const handleFollowUp = async (q: InvoiceQuery) => {
+    const text = drafts[q.id]?.trim();
+    if (!text) return;
+    setBusy(q.id);
+    try {
+      await caInvoiceService.sendQueryMessage(invoiceId, q.id, text);
+      setDrafts((prev) => ({ ...prev, [q.id]: '' }));
+      await load();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleClose = async (q: InvoiceQuery) => {
+    setBusy(q.id);
+    try {
+      await caInvoiceService.closeInvoiceQuery(invoiceId, q.id);
+      toast({ title: 'Query resolved' });
+      await load();
+      onClosed();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) return <Skeleton className="h-24 w-full" />;
+  if (queries.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {queries.map((q) => (
+        <div key={q.id} className="rounded-lg border">
+          <div className="flex items-start justify-between gap-3 px-4 py-2.5 border-b bg-gray-50 rounded-t-lg">
+            <div className="flex items-start gap-2">
+              <HelpCircle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium text-gray-900">{q.question}</p>
+                <p className="text-xs text-gray-500">
+                  Asked {new Date(q.asked_at).toLocaleString('en-IN')}
+                  {q.asked_by && <> by {q.asked_by}</>}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${QUERY_STATUS_STYLES[q.status]}`}>
+                {q.status === 'open' ? 'awaiting reply' : q.status}
+              </span>
+              {q.status !== 'closed' && (
+                <Button size="sm" variant="ghost" className="h-7 text-xs gap-1" disabled={busy === q.id} onClick={() => handleClose(q)}>
+                  <CheckCircle className="h-3 w-3" /> Resolve
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="px-4 py-3 space-y-2">
+            {q.messages.map((m) => (
+              <div key={m.id} className={`flex ${m.direction === 'outgoing' ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[80%] rounded-2xl px-3 py-1.5 text-sm ${
+                    m.direction === 'outgoing' ? 'bg-green-600 text-white' : 'bg-white border border-gray-200 text-gray-900'
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap">{m.text}</p>
+                  <p className={`text-[10px] mt-0.5 ${m.direction === 'outgoing' ? 'text-green-100' : 'text-gray-400'}`}>
+                    {m.author && <>{m.author} · </>}
+                    {new Date(m.at).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                </div>
+              </div>
+            ))}
+            {q.status === 'open' && !q.messages.some((m) => m.direction === 'incoming') && (
+              <p className="text-xs text-gray-400 text-center">No reply yet</p>
+            )}
+          </div>
+
+          {q.status !== 'closed' && (
+            <div className="flex gap-2 px-4 pb-3">
+              <Input
+                value={drafts[q.id] || ''}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [q.id]: e.target.value }))}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleFollowUp(q); }}
+                placeholder="Follow up on WhatsApp…"
+                className="h-8 text-sm"
+              />
+              <Button size="sm" className="h-8 px-3" disabled={busy === q.id || !drafts[q.id]?.trim()} onClick={() => handleFollowUp(q)}>
+                <Send className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
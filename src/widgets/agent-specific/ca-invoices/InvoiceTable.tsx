@@ -1,10 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import {
   Select,
   SelectContent,
@@ -20,910 +18,41 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogFooter,
-} from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertTriangle, Plus, Trash2, Save, CheckCircle, ChevronLeft, ChevronRight, Image as ImageIcon, Search, SlidersHorizontal } from 'lucide-react';
+import { Tooltip } from '@/components/ui/tooltip';
+import { AlertTriangle, CalendarClock, CheckCircle, ChevronLeft, ChevronRight, Copy, Keyboard, Lock, Search, SlidersHorizontal, Zap } from 'lucide-react';
 import {
   caInvoiceService,
+  type ApprovalStage,
+  type CaBranch,
   type CaInvoice,
-  type InvoiceLineItem,
+  type DuplicateGroup,
+  type RejectInvoicePayload,
 } from '@/services/caInvoiceService';
-import { apiClient } from '@/lib/apiClient';
-
-const STATUS_COLORS: Record<string, string> = {
-  pending_user_confirmation: 'bg-purple-100 text-purple-800',
-  pending_review: 'bg-orange-100 text-orange-800',
-  approved: 'bg-green-100 text-green-800',
-  rejected: 'bg-red-100 text-red-800',
-  exported: 'bg-blue-100 text-blue-800',
-};
-
-const VOUCHER_TYPES = ['Sales', 'Purchase', 'Credit Note', 'Debit Note', 'Receipt', 'Payment', 'Journal'];
-const SUPPLY_TYPES = ['Intra-State', 'Inter-State'];
-
-/* ─── Helpers ──────────────────────────────────────── */
-
-const formatCurrency = (n: number) =>
-  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(n);
-
-function confidenceBadge(score: number) {
-  const pct = Math.round(score * 100);
-  if (pct >= 90) return <Badge className="bg-green-100 text-green-800 text-xs">{pct}% confidence</Badge>;
-  if (pct >= 70) return <Badge className="bg-amber-100 text-amber-800 text-xs">{pct}% confidence</Badge>;
-  return <Badge className="bg-red-100 text-red-800 text-xs">{pct}% confidence</Badge>;
-}
-
-function emptyLineItem(): InvoiceLineItem {
-  return {
-    description: '',
-    hsn_sac_code: '',
-    quantity: 1,
-    unit: 'NOS',
-    rate: 0,
-    taxable_amount: 0,
-    gst_rate: 18,
-    cgst_amount: 0,
-    sgst_amount: 0,
-    igst_amount: 0,
-    cess_amount: 0,
-    total_amount: 0,
-  };
-}
-
-/** Recalculate a line item — only called when user explicitly edits a field. */
-function recalcLineItem(item: InvoiceLineItem, isInterState: boolean): InvoiceLineItem {
-  const taxable = item.quantity * item.rate;
-  const gstAmount = taxable * (item.gst_rate / 100);
-  return {
-    ...item,
-    taxable_amount: taxable,
-    cgst_amount: isInterState ? 0 : gstAmount / 2,
-    sgst_amount: isInterState ? 0 : gstAmount / 2,
-    igst_amount: isInterState ? gstAmount : 0,
-    total_amount: taxable + gstAmount + item.cess_amount,
-  };
-}
-
-/* ─── Invoice Media Preview ────────────────────────── */
-
-/**
- * AuthImage — fetches images via apiClient (includes auth headers + correct SaaS baseURL).
- * Raw <img src="/api/..."> fails in SaaS mode (502) and without auth (401).
- */
-function AuthImage({ src, alt, className }: { src: string; alt: string; className?: string }) {
-  const [blobUrl, setBlobUrl] = useState<string | null>(null);
-  const [failed, setFailed] = useState(false);
-
-  useEffect(() => {
-    if (!src) return;
-    let cancelled = false;
-    apiClient
-      .get(src, { responseType: 'blob' })
-      .then((resp) => {
-        if (!cancelled) setBlobUrl(URL.createObjectURL(resp.data));
-      })
-      .catch(() => {
-        if (!cancelled) setFailed(true);
-      });
-    return () => { cancelled = true; };
-  }, [src]);
-
-  useEffect(() => {
-    return () => { if (blobUrl) URL.revokeObjectURL(blobUrl); };
-  }, [blobUrl]);
-
-  if (failed) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2 py-12">
-        <ImageIcon className="h-10 w-10" />
-        <p className="text-sm">Failed to load preview</p>
-      </div>
-    );
-  }
-
-  if (!blobUrl) {
-    return <Skeleton className="h-96 w-full" />;
-  }
-
-  return <img src={blobUrl} alt={alt} className={className} loading="lazy" />;
-}
-
-function InvoiceMediaPreview({ invoiceId }: { invoiceId: string }) {
-  const [pageCount, setPageCount] = useState(0);
-  const [currentPage, setCurrentPage] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-
-  useEffect(() => {
-    let cancelled = false;
-    setLoading(true);
-    setError(false);
-    caInvoiceService.getInvoiceMediaCount(invoiceId).then((count) => {
-      if (!cancelled) {
-        setPageCount(count);
-        setLoading(false);
-      }
-    }).catch(() => {
-      if (!cancelled) {
-        setPageCount(0);
-        setLoading(false);
-        setError(true);
-      }
-    });
-    return () => { cancelled = true; };
-  }, [invoiceId]);
-
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full bg-gray-50 rounded-lg">
-        <Skeleton className="h-96 w-full" />
-      </div>
-    );
-  }
-
-  if (error || pageCount === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full bg-gray-50 rounded-lg text-gray-400 gap-2 py-12">
-        <ImageIcon className="h-10 w-10" />
-        <p className="text-sm">No document preview available</p>
-      </div>
-    );
-  }
-
-  const mediaUrl = caInvoiceService.getInvoiceMediaUrl(invoiceId, currentPage);
-
-  return (
-    <div className="flex flex-col h-full">
-      <div className="flex-1 bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center min-h-[400px]">
-        <AuthImage
-          src={mediaUrl}
-          alt={`Invoice page ${currentPage + 1}`}
-          className="max-w-full max-h-[70vh] object-contain"
-        />
-      </div>
-      {pageCount > 1 && (
-        <div className="flex items-center justify-center gap-3 mt-2">
-          <Button
-            size="sm"
-            variant="outline"
-            disabled={currentPage === 0}
-            onClick={() => setCurrentPage((p) => p - 1)}
-          >
-            <ChevronLeft className="h-4 w-4" />
-          </Button>
-          <span className="text-sm text-gray-500">
-            Page {currentPage + 1} of {pageCount}
-          </span>
-          <Button
-            size="sm"
-            variant="outline"
-            disabled={currentPage >= pageCount - 1}
-            onClick={() => setCurrentPage((p) => p + 1)}
-          >
-            <ChevronRight className="h-4 w-4" />
-          </Button>
-        </div>
-      )}
-    </div>
-  );
-}
-
-/* ─── Editable Invoice Detail Dialog ───────────────── */
-
-function InvoiceDetailDialog({
-  invoice: initialInvoice,
-  allInvoices,
-  onClose,
-  onApprove,
-  onReject,
-  onSaved,
-}: {
-  invoice: CaInvoice;
-  allInvoices: CaInvoice[];
-  onClose: () => void;
-  onApprove: (id: string) => void;
-  onReject: (id: string) => void;
-  onSaved: () => void;
-}) {
-  const { toast } = useToast();
-
-  // Find sibling invoices from the same message (share wa_message_id or media_file_ids)
-  const siblings = React.useMemo(() => {
-    if (!initialInvoice) return [initialInvoice];
-    const waId = initialInvoice.wa_message_id;
-    const mediaIds = initialInvoice.media_file_ids || [];
-    if (waId) {
-      const group = allInvoices.filter((inv) => inv.wa_message_id === waId);
-      if (group.length > 1) return group;
-    }
-    if (mediaIds.length > 0) {
-      const mediaKey = JSON.stringify([...mediaIds].sort());
-      const group = allInvoices.filter(
-        (inv) => JSON.stringify([...(inv.media_file_ids || [])].sort()) === mediaKey
-      );
-      if (group.length > 1) return group;
-    }
-    return [initialInvoice];
-  }, [initialInvoice, allInvoices]);
-
-  const [currentIdx, setCurrentIdx] = useState(() =>
-    Math.max(0, siblings.findIndex((s) => s.id === initialInvoice.id))
-  );
-  const invoice = siblings[currentIdx] || initialInvoice;
-  const hasBatch = siblings.length > 1;
-
-  const isEditable = invoice.status === 'pending_review' || invoice.status === 'pending_user_confirmation';
-  const hasMedia = (invoice.media_file_ids?.length ?? 0) > 0;
-
-  // Editable state — re-initialised from extracted data when invoice changes
-  const [invoiceNumber, setInvoiceNumber] = useState(invoice.invoice_number || '');
-  const [invoiceDate, setInvoiceDate] = useState(invoice.invoice_date || '');
-  const [voucherType, setVoucherType] = useState(invoice.voucher_type || 'Purchase');
-  const [supplyType, setSupplyType] = useState(invoice.supply_type || 'Intra-State');
-  const [reverseCharge, setReverseCharge] = useState(invoice.reverse_charge || false);
-  const [sellerName, setSellerName] = useState(invoice.seller_name || '');
-  const [sellerGstin, setSellerGstin] = useState(invoice.seller_gstin || '');
-  const [sellerStateCode, setSellerStateCode] = useState(invoice.seller_state_code || '');
-  const [buyerName, setBuyerName] = useState(invoice.buyer_name || '');
-  const [buyerGstin, setBuyerGstin] = useState(invoice.buyer_gstin || '');
-  const [buyerStateCode, setBuyerStateCode] = useState(invoice.buyer_state_code || '');
-  const [lineItems, setLineItems] = useState<InvoiceLineItem[]>(invoice.line_items || []);
-  const [roundOff, setRoundOff] = useState(invoice.totals?.round_off || 0);
-  const [saving, setSaving] = useState(false);
-
-  // Reset editable state when switching between sibling invoices
-  useEffect(() => {
-    setInvoiceNumber(invoice.invoice_number || '');
-    setInvoiceDate(invoice.invoice_date || '');
-    setVoucherType(invoice.voucher_type || 'Purchase');
-    setSupplyType(invoice.supply_type || 'Intra-State');
-    setReverseCharge(invoice.reverse_charge || false);
-    setSellerName(invoice.seller_name || '');
-    setSellerGstin(invoice.seller_gstin || '');
-    setSellerStateCode(invoice.seller_state_code || '');
-    setBuyerName(invoice.buyer_name || '');
-    setBuyerGstin(invoice.buyer_gstin || '');
-    setBuyerStateCode(invoice.buyer_state_code || '');
-    setLineItems(invoice.line_items || []);
-    setRoundOff(invoice.totals?.round_off || 0);
-  }, [invoice.id]);
-
-  const isInterState = sellerStateCode !== buyerStateCode && !!sellerStateCode && !!buyerStateCode;
-
-  // Use EXTRACTED totals as source of truth — no recalculation
-  const totals = invoice.totals || {
-    taxable_amount: 0, cgst_total: 0, sgst_total: 0, igst_total: 0,
-    cess_total: 0, round_off: 0, grand_total: 0,
-  };
-
-  const updateLineItem = (index: number, field: keyof InvoiceLineItem, value: string | number) => {
-    setLineItems((prev) => {
-      const updated = [...prev];
-      updated[index] = { ...updated[index], [field]: value };
-      updated[index] = recalcLineItem(updated[index], isInterState);
-      return updated;
-    });
-  };
-
-  const addLineItem = () => setLineItems((prev) => [...prev, recalcLineItem(emptyLineItem(), isInterState)]);
-
-  const removeLineItem = (index: number) => {
-    setLineItems((prev) => prev.filter((_, i) => i !== index));
-  };
-
-  const buildPayload = (): Partial<CaInvoice> => ({
-    invoice_number: invoiceNumber,
-    invoice_date: invoiceDate,
-    voucher_type: voucherType,
-    supply_type: supplyType,
-    reverse_charge: reverseCharge,
-    seller_name: sellerName,
-    seller_gstin: sellerGstin,
-    seller_state_code: sellerStateCode,
-    buyer_name: buyerName,
-    buyer_gstin: buyerGstin,
-    buyer_state_code: buyerStateCode,
-    line_items: lineItems,
-    totals: { ...totals, round_off: roundOff },
-  });
-
-  const handleSave = async () => {
-    setSaving(true);
-    try {
-      await caInvoiceService.updateInvoice(invoice.id, buildPayload());
-      toast({ title: 'Invoice saved' });
-      onSaved();
-    } catch (err: any) {
-      toast({ title: 'Save failed', description: err.message, variant: 'destructive' });
-    } finally {
-      setSaving(false);
-    }
-  };
-
-  const handleApprove = async () => {
-    setSaving(true);
-    try {
-      await caInvoiceService.updateInvoice(invoice.id, buildPayload());
-      await caInvoiceService.approveInvoice(invoice.id);
-      toast({ title: 'Invoice approved' });
-      onSaved();
-      onClose();
-    } catch (err: any) {
-      toast({ title: 'Approve failed', description: err.message, variant: 'destructive' });
-    } finally {
-      setSaving(false);
-    }
-  };
-
-  return (
-    <DialogContent className={`${hasMedia ? 'max-w-7xl' : 'max-w-4xl'} max-h-[90vh] overflow-y-auto`}>
-      <DialogHeader>
-        {hasBatch && (
-          <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-2 mb-2">
-            <span className="text-sm text-blue-800 font-medium">
-              {siblings.length} invoices extracted from this message
-            </span>
-            <div className="flex items-center gap-2">
-              <Button
-                size="sm"
-                variant="outline"
-                className="h-7 px-2"
-                disabled={currentIdx === 0}
-                onClick={() => setCurrentIdx((i) => i - 1)}
-              >
-                <ChevronLeft className="h-3.5 w-3.5" />
-              </Button>
-              <span className="text-sm font-medium text-blue-700 min-w-[60px] text-center">
-                {currentIdx + 1} of {siblings.length}
-              </span>
-              <Button
-                size="sm"
-                variant="outline"
-                className="h-7 px-2"
-                disabled={currentIdx >= siblings.length - 1}
-                onClick={() => setCurrentIdx((i) => i + 1)}
-              >
-                <ChevronRight className="h-3.5 w-3.5" />
-              </Button>
-            </div>
-          </div>
-        )}
-        <div className="flex items-center justify-between">
-          <DialogTitle className="flex items-center gap-3">
-            Invoice #{invoice.invoice_number || 'N/A'}
-            <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[invoice.status] || ''}`}>
-              {invoice.status.replace(/_/g, ' ')}
-            </span>
-            {invoice.wa_confirmed && (
-              <Badge className="bg-green-50 text-green-700 text-xs">WA Confirmed</Badge>
-            )}
-          </DialogTitle>
-          {confidenceBadge(invoice.confidence_score || 0)}
-        </div>
-      </DialogHeader>
-
-      <div className={`${hasMedia ? 'grid grid-cols-5 gap-6' : ''}`}>
-        {/* Left panel: Document preview */}
-        {hasMedia && (
-          <div className="col-span-2">
-            <InvoiceMediaPreview invoiceId={invoice.id} />
-          </div>
-        )}
-
-        {/* Right panel: Extracted data */}
-        <div className={`${hasMedia ? 'col-span-3' : ''} space-y-6 text-sm`}>
-        {/* Editable banner */}
-        {isEditable && (
-          <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 rounded-lg px-4 py-3">
-            <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
-            <p className="text-amber-800 text-sm">
-              Review extracted data. Edit any incorrect fields before approving.
-            </p>
-          </div>
-        )}
-
-        {/* Header fields */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-          <div>
-            <Label className="text-xs text-gray-500">Invoice Number</Label>
-            {isEditable ? (
-              <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} className="mt-1" />
-            ) : (
-              <p className="font-medium mt-1">{invoiceNumber || '\u2014'}</p>
-            )}
-          </div>
-          <div>
-            <Label className="text-xs text-gray-500">Invoice Date</Label>
-            {isEditable ? (
-              <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} className="mt-1" />
-            ) : (
-              <p className="font-medium mt-1">{invoiceDate || '\u2014'}</p>
-            )}
-          </div>
-          <div>
-            <Label className="text-xs text-gray-500">Voucher Type</Label>
-            {isEditable ? (
-              <Select value={voucherType} onValueChange={setVoucherType}>
-                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
-                <SelectContent>
-                  {VOUCHER_TYPES.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
-                </SelectContent>
-              </Select>
-            ) : (
-              <p className="font-medium mt-1">{voucherType}</p>
-            )}
-          </div>
-          <div>
-            <Label className="text-xs text-gray-500">Supply Type</Label>
-            {isEditable ? (
-              <Select value={supplyType} onValueChange={setSupplyType}>
-                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
-                <SelectContent>
-                  {SUPPLY_TYPES.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
-                </SelectContent>
-              </Select>
-            ) : (
-              <p className="font-medium mt-1">{supplyType}</p>
-            )}
-          </div>
-        </div>
-
-        {/* Additional header info */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-          {invoice.invoice_type && (
-            <div>
-              <Label className="text-xs text-gray-500">Invoice Type</Label>
-              <p className="font-medium mt-1">{invoice.invoice_type}</p>
-            </div>
-          )}
-          <div>
-            <Label className="text-xs text-gray-500">Reverse Charge</Label>
-            {isEditable ? (
-              <Select value={reverseCharge ? 'Yes' : 'No'} onValueChange={(v) => setReverseCharge(v === 'Yes')}>
-                <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="No">No</SelectItem>
-                  <SelectItem value="Yes">Yes</SelectItem>
-                </SelectContent>
-              </Select>
-            ) : (
-              <p className="font-medium mt-1">{reverseCharge ? 'Yes' : 'No'}</p>
-            )}
-          </div>
-          {invoice.client_name && (
-            <div>
-              <Label className="text-xs text-gray-500">Client</Label>
-              <p className="font-medium mt-1">{invoice.client_name}</p>
-            </div>
-          )}
-          {invoice.sender_phone && (
-            <div>
-              <Label className="text-xs text-gray-500">Sender Phone</Label>
-              <p className="font-medium mt-1 font-mono text-xs">{invoice.sender_phone}</p>
-            </div>
-          )}
-        </div>
-
-        {/* Seller / Buyer */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-          {/* Seller */}
-          <div className="space-y-3 p-4 rounded-lg bg-gray-50">
-            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Seller</p>
-            <div>
-              <Label className="text-xs text-gray-500">Name</Label>
-              {isEditable ? (
-                <Input value={sellerName} onChange={(e) => setSellerName(e.target.value)} className="mt-1" />
-              ) : (
-                <p className="font-medium mt-1">{sellerName}</p>
-              )}
-            </div>
-            <div className="grid grid-cols-3 gap-3">
-              <div>
-                <Label className="text-xs text-gray-500">GSTIN</Label>
-                {isEditable ? (
-                  <Input
-                    value={sellerGstin}
-                    onChange={(e) => setSellerGstin(e.target.value.toUpperCase())}
-                    maxLength={15}
-                    placeholder="27ABCDE1234F1Z5"
-                    className="mt-1 font-mono text-xs"
-                  />
-                ) : (
-                  <p className="font-mono text-xs mt-1">{sellerGstin || 'N/A'}</p>
-                )}
-              </div>
-              <div>
-                <Label className="text-xs text-gray-500">State Code</Label>
-                {isEditable ? (
-                  <Input
-                    value={sellerStateCode}
-                    onChange={(e) => setSellerStateCode(e.target.value)}
-                    maxLength={2}
-                    className="mt-1 w-20"
-                  />
-                ) : (
-                  <p className="font-medium mt-1">{sellerStateCode || '\u2014'}</p>
-                )}
-              </div>
-              {invoice.seller_state_name && (
-                <div>
-                  <Label className="text-xs text-gray-500">State</Label>
-                  <p className="font-medium mt-1">{invoice.seller_state_name}</p>
-                </div>
-              )}
-            </div>
-          </div>
-
-          {/* Buyer */}
-          <div className="space-y-3 p-4 rounded-lg bg-gray-50">
-            <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Buyer</p>
-            <div>
-              <Label className="text-xs text-gray-500">Name</Label>
-              {isEditable ? (
-                <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="mt-1" />
-              ) : (
-                <p className="font-medium mt-1">{buyerName}</p>
-              )}
-            </div>
-            <div className="grid grid-cols-3 gap-3">
-              <div>
-                <Label className="text-xs text-gray-500">GSTIN</Label>
-                {isEditable ? (
-                  <Input
-                    value={buyerGstin}
-                    onChange={(e) => setBuyerGstin(e.target.value.toUpperCase())}
-                    maxLength={15}
-                    placeholder="27ABCDE1234F1Z5"
-                    className="mt-1 font-mono text-xs"
-                  />
-                ) : (
-                  <p className="font-mono text-xs mt-1">{buyerGstin || 'N/A'}</p>
-                )}
-              </div>
-              <div>
-                <Label className="text-xs text-gray-500">State Code</Label>
-                {isEditable ? (
-                  <Input
-                    value={buyerStateCode}
-                    onChange={(e) => setBuyerStateCode(e.target.value)}
-                    maxLength={2}
-                    className="mt-1 w-20"
-                  />
-                ) : (
-                  <p className="font-medium mt-1">{buyerStateCode || '\u2014'}</p>
-                )}
-              </div>
-              {invoice.buyer_state_name && (
-                <div>
-                  <Label className="text-xs text-gray-500">State</Label>
-                  <p className="font-medium mt-1">{invoice.buyer_state_name}</p>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-
-        {/* Line Items */}
-        <div>
-          <div className="flex items-center justify-between mb-3">
-            <p className="font-semibold text-gray-900">Line Items</p>
-            {isEditable && (
-              <Button size="sm" variant="outline" onClick={addLineItem} className="gap-1.5">
-                <Plus className="h-3.5 w-3.5" /> Add Item
-              </Button>
-            )}
-          </div>
-
-          <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead className="min-w-[150px]">Description</TableHead>
-                  <TableHead className="w-[80px]">HSN/SAC</TableHead>
-                  <TableHead className="w-[55px] text-right">Qty</TableHead>
-                  <TableHead className="w-[50px]">Unit</TableHead>
-                  <TableHead className="w-[80px] text-right">Rate</TableHead>
-                  <TableHead className="w-[90px] text-right">Taxable</TableHead>
-                  <TableHead className="w-[55px] text-right">GST%</TableHead>
-                  {!isInterState && <TableHead className="w-[80px] text-right">CGST</TableHead>}
-                  {!isInterState && <TableHead className="w-[80px] text-right">SGST</TableHead>}
-                  {isInterState && <TableHead className="w-[80px] text-right">IGST</TableHead>}
-                  <TableHead className="w-[90px] text-right">Total</TableHead>
-                  {isEditable && <TableHead className="w-[40px]" />}
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {lineItems.map((item, i) => (
-                  <TableRow key={i}>
-                    <TableCell>
-                      {isEditable ? (
-                        <Input
-                          value={item.description}
-                          onChange={(e) => updateLineItem(i, 'description', e.target.value)}
-                          className="h-8 text-xs"
-                        />
-                      ) : (
-                        <span className="truncate block max-w-[180px]">{item.description}</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      {isEditable ? (
-                        <Input
-                          value={item.hsn_sac_code}
-                          onChange={(e) => updateLineItem(i, 'hsn_sac_code', e.target.value)}
-                          className="h-8 text-xs"
-                        />
-                      ) : (
-                        item.hsn_sac_code || '\u2014'
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {isEditable ? (
-                        <Input
-                          type="number"
-                          value={item.quantity}
-                          onChange={(e) => updateLineItem(i, 'quantity', parseFloat(e.target.value) || 0)}
-                          className="h-8 text-xs text-right w-14"
-                          min={0}
-                          step="any"
-                        />
-                      ) : (
-                        item.quantity
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      {isEditable ? (
-                        <Input
-                          value={item.unit}
-                          onChange={(e) => updateLineItem(i, 'unit', e.target.value)}
-                          className="h-8 text-xs w-14"
-                        />
-                      ) : (
-                        item.unit
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right font-mono">
-                      {isEditable ? (
-                        <Input
-                          type="number"
-                          value={item.rate}
-                          onChange={(e) => updateLineItem(i, 'rate', parseFloat(e.target.value) || 0)}
-                          className="h-8 text-xs text-right w-20"
-                          min={0}
-                          step="any"
-                        />
-                      ) : (
-                        formatCurrency(item.rate)
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right font-mono">
-                      {formatCurrency(item.taxable_amount)}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {isEditable ? (
-                        <Input
-                          type="number"
-                          value={item.gst_rate}
-                          onChange={(e) => updateLineItem(i, 'gst_rate', parseFloat(e.target.value) || 0)}
-                          className="h-8 text-xs text-right w-14"
-                          min={0}
-                          max={28}
-                          step="any"
-                        />
-                      ) : (
-                        `${item.gst_rate}%`
-                      )}
-                    </TableCell>
-                    {!isInterState && (
-                      <TableCell className="text-right font-mono text-xs">
-                        {formatCurrency(item.cgst_amount)}
-                      </TableCell>
-                    )}
-                    {!isInterState && (
-                      <TableCell className="text-right font-mono text-xs">
-                        {formatCurrency(item.sgst_amount)}
-                      </TableCell>
-                    )}
-                    {isInterState && (
-                      <TableCell className="text-right font-mono text-xs">
-                        {formatCurrency(item.igst_amount)}
-                      </TableCell>
-                    )}
-                    <TableCell className="text-right font-mono font-medium">
-                      {formatCurrency(item.total_amount)}
-                    </TableCell>
-                    {isEditable && (
-                      <TableCell>
-                        <button
-                          onClick={() => removeLineItem(i)}
-                          className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
-                          aria-label="Remove line item"
-                        >
-                          <Trash2 className="h-3.5 w-3.5" />
-                        </button>
-                      </TableCell>
-                    )}
-                  </TableRow>
-                ))}
-                {lineItems.length === 0 && (
-                  <TableRow>
-                    <TableCell colSpan={isEditable ? 10 : 9} className="text-center text-gray-400 py-6">
-                      No line items
-                    </TableCell>
-                  </TableRow>
-                )}
-              </TableBody>
-            </Table>
-          </div>
-        </div>
-
-        {/* Totals — extracted values, not recalculated */}
-        <div className="border-t pt-4">
-          <div className="grid grid-cols-2 gap-2 max-w-xs ml-auto text-sm">
-            <span className="text-gray-500">Taxable Amount:</span>
-            <span className="text-right font-mono">{formatCurrency(totals.taxable_amount)}</span>
-            {(totals.cgst_total > 0 || totals.sgst_total > 0) && (
-              <>
-                <span className="text-gray-500">CGST:</span>
-                <span className="text-right font-mono">{formatCurrency(totals.cgst_total)}</span>
-                <span className="text-gray-500">SGST:</span>
-                <span className="text-right font-mono">{formatCurrency(totals.sgst_total)}</span>
-              </>
-            )}
-            {totals.igst_total > 0 && (
-              <>
-                <span className="text-gray-500">IGST:</span>
-                <span className="text-right font-mono">{formatCurrency(totals.igst_total)}</span>
-              </>
-            )}
-            {totals.cess_total > 0 && (
-              <>
-                <span className="text-gray-500">Cess:</span>
-                <span className="text-right font-mono">{formatCurrency(totals.cess_total)}</span>
-              </>
-            )}
-            <span className="text-gray-500">Round Off:</span>
-            <span className="text-right">
-              {isEditable ? (
-                <Input
-                  type="number"
-                  value={roundOff}
-                  onChange={(e) => setRoundOff(parseFloat(e.target.value) || 0)}
-                  className="h-7 text-xs text-right w-24 ml-auto"
-                  step="0.01"
-                />
-              ) : (
-                <span className="font-mono">{formatCurrency(totals.round_off)}</span>
-              )}
-            </span>
-            <span className="font-bold text-gray-900">Grand Total:</span>
-            <span className="text-right font-bold font-mono text-gray-900">{formatCurrency(totals.grand_total)}</span>
-          </div>
-          {totals.amount_in_words && (
-            <p className="text-xs text-gray-500 mt-2 text-right italic">{totals.amount_in_words}</p>
-          )}
-        </div>
-
-        {/* Additional Charges */}
-        {invoice.additional_charges && (() => {
-          const ac = invoice.additional_charges!;
-          const hasCharges = (ac.service_charge || 0) > 0 || (ac.delivery_charge || 0) > 0 ||
-            (ac.packaging_charge || 0) > 0 || (ac.tips_gratuity || 0) > 0 ||
-            (ac.convenience_fee || 0) > 0 || (ac.other_charges || 0) > 0;
-          if (!hasCharges) return null;
-          return (
-            <div className="border-t pt-4">
-              <p className="font-semibold text-gray-900 mb-2">Additional Charges</p>
-              <div className="grid grid-cols-2 gap-2 max-w-xs text-sm">
-                {(ac.service_charge || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">
-                      Service Charge{ac.service_charge_rate ? ` (${ac.service_charge_rate}%)` : ''}:
-                    </span>
-                    <span className="text-right font-mono">{formatCurrency(ac.service_charge)}</span>
-                  </>
-                )}
-                {(ac.delivery_charge || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">Delivery:</span>
-                    <span className="text-right font-mono">{formatCurrency(ac.delivery_charge)}</span>
-                  </>
-                )}
-                {(ac.packaging_charge || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">Packaging:</span>
-                    <span className="text-right font-mono">{formatCurrency(ac.packaging_charge)}</span>
-                  </>
-                )}
-                {(ac.tips_gratuity || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">Tips/Gratuity:</span>
-                    <span className="text-right font-mono">{formatCurrency(ac.tips_gratuity)}</span>
-                  </>
-                )}
-                {(ac.convenience_fee || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">Convenience Fee:</span>
-                    <span className="text-right font-mono">{formatCurrency(ac.convenience_fee)}</span>
-                  </>
-                )}
-                {(ac.other_charges || 0) > 0 && (
-                  <>
-                    <span className="text-gray-500">{ac.other_charges_description || 'Other'}:</span>
-                    <span className="text-right font-mono">{formatCurrency(ac.other_charges)}</span>
-                  </>
-                )}
-              </div>
-            </div>
-          );
-        })()}
-
-        {/* Discount */}
-        {invoice.discount && (invoice.discount.discount_amount || 0) > 0 && (
-          <div className="border-t pt-4">
-            <p className="font-semibold text-gray-900 mb-2">Discount</p>
-            <div className="grid grid-cols-2 gap-2 max-w-xs text-sm">
-              <span className="text-gray-500">
-                Amount{invoice.discount.discount_percentage ? ` (${invoice.discount.discount_percentage}%)` : ''}:
-              </span>
-              <span className="text-right font-mono text-green-700">
-                -{formatCurrency(invoice.discount.discount_amount)}
-              </span>
-              {invoice.discount.discount_description && (
-                <>
-                  <span className="text-gray-500">Description:</span>
-                  <span className="text-right">{invoice.discount.discount_description}</span>
-                </>
-              )}
-              {invoice.discount.coupon_code && (
-                <>
-                  <span className="text-gray-500">Coupon:</span>
-                  <span className="text-right font-mono">{invoice.discount.coupon_code}</span>
-                </>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Extraction notes */}
-        {invoice.extraction_notes && (
-          <p className="text-xs text-gray-400">Notes: {invoice.extraction_notes}</p>
-        )}
-      </div>{/* end right panel / data column */}
-      </div>{/* end grid */}
-
-      <DialogFooter>
-        {isEditable ? (
-          <div className="flex gap-2 w-full justify-end">
-            <Button
-              variant="outline"
-              onClick={() => { onReject(invoice.id); onClose(); }}
-              disabled={saving}
-            >
-              Reject
-            </Button>
-            <Button variant="outline" onClick={handleSave} disabled={saving} className="gap-1.5">
-              <Save className="h-3.5 w-3.5" />
-              {saving ? 'Saving...' : 'Save'}
-            </Button>
-            <Button onClick={handleApprove} disabled={saving} className="gap-1.5">
-              <CheckCircle className="h-3.5 w-3.5" />
-              {saving ? 'Approving...' : 'Save & Approve'}
-            </Button>
-          </div>
-        ) : (
-          <Button variant="outline" onClick={onClose}>Close</Button>
-        )}
-      </DialogFooter>
-    </DialogContent>
-  );
-}
+import InvoiceDetailDialog, { STATUS_COLORS, formatCurrency } from './InvoiceDetailDialog';
+import DuplicateCompareDialog, { DUPLICATE_REASON_LABELS } from './DuplicateCompareDialog';
+import RejectionForm from './RejectionForm';
+import { checkInvoiceGstin } from './gstin';
+import { checkInvoiceHsn } from './hsnMaster';
+import { takeNavigationIntent } from './navigation';
+import { isNote, signedGrandTotal } from './vouchers';
+import { checkInvoiceEinvoice } from './einvoice';
+import { lockedInvoiceMessage, periodLabel } from './periodLocks';
+import FinancialYearSelect from './FinancialYearSelect';
+import { checkInvoiceFinancialYear, fyBounds, fyFilter, useFinancialYear } from './financialYear';
+import {
+  STAGE_ACTIONS,
+  STAGE_LABELS,
+  STAGE_QUEUES,
+  activeStages,
+  invalidateApprovalWorkflow,
+  nextStage,
+  signOffBlock,
+  useApprovalWorkflow,
+} from './approvalWorkflow';
+
+const REVIEW_QUEUE_LIMIT = 500;
 
 /* ─── Main InvoiceTable Component ──────────────────── */
 
@@ -934,15 +63,45 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
+  /** Narrows `pending_review` to invoices waiting at one approval stage. */
+  const [stageFilter, setStageFilter] = useState<ApprovalStage | ''>('');
   const [clientFilter, setClientFilter] = useState<string>('');
+  const [branchFilter, setBranchFilter] = useState<string>('');
+  const [branches, setBranches] = useState<CaBranch[]>([]);
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
+  const [fy] = useFinancialYear();
+  const { workflow, me, error: workflowError } = useApprovalWorkflow();
+  const stages = activeStages(workflow);
   const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [detailInvoice, setDetailInvoice] = useState<CaInvoice | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<CaInvoice[] | null>(null);
+  const [loadingQueue, setLoadingQueue] = useState(false);
+  const [rejectTargets, setRejectTargets] = useState<CaInvoice[] | null>(null);
+  const [rejectingBulk, setRejectingBulk] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [compareGroup, setCompareGroup] = useState<DuplicateGroup | null>(null);
+  const [openDuplicatesOnLoad, setOpenDuplicatesOnLoad] = useState(false);
+  const [lateOnly, setLateOnly] = useState(false);
   const [page, setPage] = useState(0);
   const pageSize = 25;
 
+  // Deep links from other tabs (overview action items, export outlier "Fix")
+  useEffect(() => {
+    const intent = takeNavigationIntent('invoices');
+    if (!intent) return;
+    if (typeof intent.clientId === 'string') setClientFilter(intent.clientId);
+    if (typeof intent.branchId === 'string') setBranchFilter(intent.branchId);
+    if (typeof intent.status === 'string') setStatusFilter(intent.status);
+    if (typeof intent.stage === 'string') setStageFilter(intent.stage as ApprovalStage);
+    if (intent.late === true) setLateOnly(true);
+    if (intent.view === 'duplicates') setOpenDuplicatesOnLoad(true);
+    if (typeof intent.focusInvoiceId === 'string') {
+      caInvoiceService.getInvoice(intent.focusInvoiceId).then(setDetailInvoice).catch(() => {});
+    }
+  }, []);
+
   // Load client list for filter dropdown
   useEffect(() => {
     caInvoiceService.listClients({ limit: 200 }).then((resp) => {
@@ -950,15 +109,26 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
     }).catch(() => {});
   }, []);
 
+  // Branches of the filtered client; the branch filter only exists within one client
+  useEffect(() => {
+    if (!clientFilter) {
+      setBranches([]);
+      return;
+    }
+    caInvoiceService.listBranches(clientFilter).then(setBranches).catch(() => setBranches([]));
+  }, [clientFilter]);
+
   const fetchInvoices = useCallback(async () => {
     setLoading(true);
     try {
       const resp = await caInvoiceService.listInvoices({
         search: search || undefined,
         status: statusFilter || undefined,
+        pending_stage: statusFilter === 'pending_review' && stageFilter ? stageFilter : undefined,
         client_id: clientFilter || undefined,
-        date_from: dateFrom || undefined,
-        date_to: dateTo || undefined,
+        branch_id: branchFilter || undefined,
+        ...fyFilter(fy, dateFrom, dateTo),
+        late_only: lateOnly || undefined,
         limit: pageSize,
         offset: page * pageSize,
       });
@@ -969,37 +139,153 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
     } finally {
       setLoading(false);
     }
-  }, [search, statusFilter, clientFilter, dateFrom, dateTo, page, toast]);
+  }, [search, statusFilter, stageFilter, clientFilter, branchFilter, dateFrom, dateTo, fy, lateOnly, page, toast]);
 
   useEffect(() => {
     fetchInvoices();
   }, [fetchInvoices]);
 
-  const handleApprove = async (invoiceId: string) => {
+  // A new year starts from its first page, with no range left over from the last one
+  useEffect(() => {
+    setPage(0);
+    setDateFrom('');
+    setDateTo('');
+    setSelected(new Set());
+  }, [fy]);
+
+  const fetchDuplicates = useCallback(async () => {
+    try {
+      setDuplicateGroups(await caInvoiceService.listDuplicateGroups({ client_id: clientFilter || undefined, financial_year: fy }));
+    } catch {
+      setDuplicateGroups([]);
+    }
+  }, [clientFilter, fy]);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  useEffect(() => {
+    if (openDuplicatesOnLoad && duplicateGroups.length > 0) {
+      setCompareGroup(duplicateGroups[0]);
+      setOpenDuplicatesOnLoad(false);
+    }
+  }, [openDuplicatesOnLoad, duplicateGroups]);
+
+  const duplicateGroupByInvoice = React.useMemo(() => {
+    const map = new Map<string, DuplicateGroup>();
+    for (const g of duplicateGroups) for (const inv of g.invoices) map.set(inv.id, g);
+    return map;
+  }, [duplicateGroups]);
+
+  const handleDuplicatesResolved = () => {
+    setCompareGroup(null);
+    fetchInvoices();
+    fetchDuplicates();
+  };
+
+  const handleApprove = async (invoiceId: string, stage?: ApprovalStage) => {
     try {
-      await caInvoiceService.approveInvoice(invoiceId);
-      toast({ title: 'Invoice approved' });
+      await caInvoiceService.approveInvoice(invoiceId, stage);
+      toast({ title: !stage || stage === 'approved' ? 'Invoice approved' : `Invoice ${STAGE_LABELS[stage].toLowerCase()}` });
       fetchInvoices();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
     }
   };
 
-  const handleReject = async (invoiceId: string) => {
+  /** False when the rejection failed, so the caller can keep the reason the reviewer typed. */
+  const handleReject = async (invoiceId: string, payload: RejectInvoicePayload): Promise<boolean> => {
     try {
-      await caInvoiceService.rejectInvoice(invoiceId);
-      toast({ title: 'Invoice rejected' });
+      await caInvoiceService.rejectInvoice(invoiceId, payload);
+      toast({ title: 'Invoice rejected', description: payload.notify_sender ? 'Sender notified on WhatsApp' : undefined });
+      fetchInvoices();
+      if (duplicateGroupByInvoice.has(invoiceId)) fetchDuplicates();
+      return true;
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const handleRejectTargets = async (payload: RejectInvoicePayload) => {
+    if (!rejectTargets) return;
+    if (rejectTargets.length === 1) {
+      if (await handleReject(rejectTargets[0].id, payload)) setRejectTargets(null);
+      return;
+    }
+    setRejectingBulk(true);
+    try {
+      const ids = rejectTargets.map((i) => i.id);
+      const result = await caInvoiceService.bulkRejectInvoices(ids, payload);
+      toast({
+        title: `${result.modified_count} invoices rejected`,
+        description: payload.notify_sender ? `${result.notified_count} sender${result.notified_count !== 1 ? 's' : ''} notified on WhatsApp` : undefined,
+      });
+      setSelected(new Set());
+      setRejectTargets(null);
       fetchInvoices();
+      if (ids.some((id) => duplicateGroupByInvoice.has(id))) fetchDuplicates();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setRejectingBulk(false);
     }
   };
 
+  /** Open every pending invoice matching the current filters in keyboard review mode. */
+  const startReviewQueue = async () => {
+    setLoadingQueue(true);
+    try {
+      const resp = await caInvoiceService.listInvoices({
+        search: search || undefined,
+        status: 'pending_review',
+        pending_stage: statusFilter === 'pending_review' && stageFilter ? stageFilter : undefined,
+        client_id: clientFilter || undefined,
+        branch_id: branchFilter || undefined,
+        ...fyFilter(fy, dateFrom, dateTo),
+        limit: REVIEW_QUEUE_LIMIT,
+        sort_by: 'created_at',
+        sort_order: 1,
+      });
+      const queue = resp.data || [];
+      if (queue.length === 0) {
+        toast({ title: 'Nothing to review', description: 'No pending invoices match the current filters' });
+        return;
+      }
+      setReviewQueue(queue);
+      setDetailInvoice(queue[0]);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoadingQueue(false);
+    }
+  };
+
+  const closeDetail = () => {
+    setDetailInvoice(null);
+    setReviewQueue(null);
+  };
+
   const handleBulkApprove = async () => {
     if (selected.size === 0) return;
+    // Invoices in a filed period stay as they are
+    const ids = invoices.filter((i) => selected.has(i.id) && !i.period_lock).map((i) => i.id);
+    const locked = selected.size - ids.length;
+    if (ids.length === 0) {
+      toast({ title: 'Nothing approved', description: 'The selected invoices are in locked periods.', variant: 'destructive' });
+      return;
+    }
     try {
-      const result = await caInvoiceService.bulkApproveInvoices(Array.from(selected));
-      toast({ title: `${result.modified_count} invoices approved` });
+      const result = await caInvoiceService.bulkApproveInvoices(ids);
+      const skipped = result.skipped_count ?? 0;
+      toast({
+        title: `${result.modified_count} invoices ${stages.length > 1 ? 'signed off' : 'approved'}`,
+        description: [
+          locked > 0 && `${locked} in locked periods left unchanged`,
+          skipped > 0 && `${skipped} at a stage your role can't sign`,
+        ].filter(Boolean).join(' · ') || undefined,
+      });
       setSelected(new Set());
       fetchInvoices();
     } catch (err: any) {
@@ -1016,24 +302,33 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
     });
   };
 
+  // Invoices in a filed period can't be approved or rejected, so they aren't selectable
+  const selectable = invoices.filter((i) => !i.period_lock);
+
   const toggleSelectAll = () => {
-    if (selected.size === invoices.length) {
+    if (selected.size === selectable.length) {
       setSelected(new Set());
     } else {
-      setSelected(new Set(invoices.map((i) => i.id)));
+      setSelected(new Set(selectable.map((i) => i.id)));
     }
   };
 
-  const STATUS_CHIPS = [
+  const STATUS_CHIPS: Array<{ value: string; label: string; stage?: ApprovalStage }> = [
     { value: '', label: 'All' },
     { value: 'pending_review', label: 'Pending Review' },
+    // One queue per sign-off stage once there is more than one
+    ...(stages.length > 1
+      ? stages.map((stage) => ({ value: 'pending_review', label: STAGE_QUEUES[stage], stage }))
+      : []),
     { value: 'pending_user_confirmation', label: 'Awaiting Confirmation' },
+    { value: 'awaiting_client_reply', label: 'Awaiting Client Reply' },
     { value: 'approved', label: 'Approved' },
     { value: 'rejected', label: 'Rejected' },
     { value: 'exported', label: 'Exported' },
   ];
 
-  const hasFilters = !!(clientFilter || dateFrom || dateTo);
+  const hasFilters = !!(clientFilter || branchFilter || dateFrom || dateTo);
+  const branchLabel = branches.find((b) => b.id === branchFilter)?.name;
 
   return (
     <div className="rounded-xl border bg-white overflow-hidden">
@@ -1052,7 +347,7 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
           </div>
           {/* Client filter */}
           {clients.length > 0 && (
-            <Select value={clientFilter || 'all'} onValueChange={(v) => { setClientFilter(v === 'all' ? '' : v); setPage(0); }}>
+            <Select value={clientFilter || 'all'} onValueChange={(v) => { setClientFilter(v === 'all' ? '' : v); setBranchFilter(''); setPage(0); }}>
               <SelectTrigger className="h-9 w-[180px] text-sm">
                 <SelectValue placeholder="All clients" />
               </SelectTrigger>
@@ -1064,10 +359,26 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
               </SelectContent>
             </Select>
           )}
-          {/* Date range */}
+          {branches.length > 0 && (
+            <Select value={branchFilter || 'all'} onValueChange={(v) => { setBranchFilter(v === 'all' ? '' : v); setPage(0); }}>
+              <SelectTrigger className="h-9 w-[150px] text-sm">
+                <span className="truncate">{branchLabel || 'All branches'}</span>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All branches</SelectItem>
+                {branches.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <FinancialYearSelect />
+          {/* Date range, within the financial year */}
           <Input
             type="date"
             value={dateFrom}
+            min={fyBounds(fy).start}
+            max={fyBounds(fy).end}
             onChange={(e) => { setDateFrom(e.target.value); setPage(0); }}
             className="h-9 w-[140px] text-sm"
             title="From date"
@@ -1076,6 +387,8 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
           <Input
             type="date"
             value={dateTo}
+            min={fyBounds(fy).start}
+            max={fyBounds(fy).end}
             onChange={(e) => { setDateTo(e.target.value); setPage(0); }}
             className="h-9 w-[140px] text-sm"
             title="To date"
@@ -1083,16 +396,36 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
           {/* Clear filters */}
           {hasFilters && (
             <button
-              onClick={() => { setClientFilter(''); setDateFrom(''); setDateTo(''); setPage(0); }}
+              onClick={() => { setClientFilter(''); setBranchFilter(''); setDateFrom(''); setDateTo(''); setPage(0); }}
               className="text-xs text-neutral-400 hover:text-neutral-700 transition-colors underline shrink-0"
             >
               Clear filters
             </button>
           )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={startReviewQueue}
+            disabled={loadingQueue}
+            className="shrink-0 gap-1.5 ml-auto"
+          >
+            <Keyboard className="h-3.5 w-3.5" />
+            {loadingQueue ? 'Loading…' : 'Review queue'}
+          </Button>
+          {selected.size > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setRejectTargets(invoices.filter((i) => selected.has(i.id)))}
+              className="shrink-0 text-red-600"
+            >
+              Reject {selected.size} selected
+            </Button>
+          )}
           {selected.size > 0 && (
-            <Button size="sm" onClick={handleBulkApprove} className="shrink-0 ml-auto">
+            <Button size="sm" onClick={handleBulkApprove} className="shrink-0">
               <CheckCircle className="h-3.5 w-3.5 mr-1.5" />
-              Approve {selected.size} selected
+              {stages.length > 1 ? 'Sign off' : 'Approve'} {selected.size} selected
             </Button>
           )}
         </div>
@@ -1100,10 +433,10 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
         <div className="flex flex-wrap gap-1.5">
           {STATUS_CHIPS.map((chip) => (
             <button
-              key={chip.value}
-              onClick={() => { setStatusFilter(chip.value); setPage(0); }}
+              key={chip.stage || chip.value}
+              onClick={() => { setStatusFilter(chip.value); setStageFilter(chip.stage || ''); setPage(0); }}
               className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-                statusFilter === chip.value
+                statusFilter === chip.value && stageFilter === (chip.stage || '')
                   ? 'bg-neutral-900 text-white'
                   : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
               }`}
@@ -1111,9 +444,45 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
               {chip.label}
             </button>
           ))}
+          <span className="mx-1 w-px bg-neutral-200" />
+          <button
+            onClick={() => { setLateOnly((v) => !v); setPage(0); }}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              lateOnly ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+            }`}
+            title="Invoices that arrived after their period was locked"
+          >
+            <CalendarClock className="h-3 w-3" /> Late entries
+          </button>
         </div>
       </div>
 
+      {/* Sign-off stages unknown */}
+      {workflowError && (
+        <div className="flex items-center justify-between gap-3 px-5 py-2.5 border-b bg-red-50/70">
+          <span className="flex items-center gap-2 text-sm text-red-800">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Couldn't load the approval workflow — sign-off stages may not be shown correctly ({workflowError})
+          </span>
+          <Button size="sm" variant="outline" className="h-7 text-xs shrink-0" onClick={invalidateApprovalWorkflow}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {/* Probable duplicates */}
+      {duplicateGroups.length > 0 && (
+        <div className="flex items-center justify-between gap-3 px-5 py-2.5 border-b bg-amber-50/70">
+          <span className="flex items-center gap-2 text-sm text-amber-900">
+            <Copy className="h-3.5 w-3.5" />
+            {duplicateGroups.length} probable duplicate group{duplicateGroups.length !== 1 ? 's' : ''} — duplicates exported to Tally double-count ITC
+          </span>
+          <Button size="sm" variant="outline" className="h-7 text-xs shrink-0" onClick={() => setCompareGroup(duplicateGroups[0])}>
+            Review
+          </Button>
+        </div>
+      )}
+
       {/* Table */}
       <div className="overflow-x-auto">
         {loading ? (
@@ -1128,7 +497,8 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
                   <input
                     type="checkbox"
                     className="rounded border-neutral-300 accent-neutral-900"
-                    checked={selected.size === invoices.length && invoices.length > 0}
+                    checked={selected.size === selectable.length && selectable.length > 0}
+                    disabled={selectable.length === 0}
                     onChange={toggleSelectAll}
                   />
                 </TableHead>
@@ -1143,54 +513,147 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
               </TableRow>
             </TableHeader>
             <TableBody>
-              {invoices.map((inv) => (
+              {invoices.map((inv) => {
+                const dataIssues = [...checkInvoiceGstin(inv), ...checkInvoiceHsn(inv), ...checkInvoiceEinvoice(inv), ...checkInvoiceFinancialYear(inv)];
+                const dupGroup = duplicateGroupByInvoice.get(inv.id);
+                const waitingAt = nextStage(inv, workflow);
+                const locked = inv.period_lock ? lockedInvoiceMessage(inv.period_lock) : null;
+                const signOffBlocked = locked || (waitingAt ? signOffBlock(inv, waitingAt, workflow, me) : null);
+                return (
                 <TableRow key={inv.id} className="hover:bg-neutral-50/60 transition-colors">
                   <TableCell className="pl-5">
                     <input
                       type="checkbox"
                       className="rounded border-neutral-300 accent-neutral-900"
                       checked={selected.has(inv.id)}
+                      disabled={!!locked}
+                      title={locked || undefined}
                       onChange={() => toggleSelect(inv.id)}
                     />
                   </TableCell>
                   <TableCell>
-                    <button
-                      className="text-indigo-600 hover:text-indigo-800 hover:underline font-medium text-sm"
-                      onClick={() => setDetailInvoice(inv)}
-                    >
-                      {inv.invoice_number || '—'}
-                    </button>
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        className="text-indigo-600 hover:text-indigo-800 hover:underline font-medium text-sm"
+                        onClick={() => setDetailInvoice(inv)}
+                      >
+                        {inv.invoice_number || '—'}
+                      </button>
+                      {dataIssues.length > 0 && (
+                        <Tooltip
+                          side="right"
+                          content={
+                            <div className="space-y-0.5">
+                              {dataIssues.map((issue, i) => <p key={i}>{issue.message}</p>)}
+                            </div>
+                          }
+                        >
+                          <AlertTriangle className="h-3.5 w-3.5 text-red-500 shrink-0" aria-label="GSTIN / HSN issues" />
+                        </Tooltip>
+                      )}
+                      {inv.einvoice && (
+                        <Tooltip side="right" content={`E-invoice · IRN ${inv.einvoice.irn.slice(0, 16)}…`}>
+                          <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[10px] font-semibold">IRN</span>
+                        </Tooltip>
+                      )}
+                      {dupGroup && (
+                        <Tooltip side="right" content={`Probable duplicate · ${DUPLICATE_REASON_LABELS[dupGroup.reason]}`}>
+                          <button
+                            onClick={() => setCompareGroup(dupGroup)}
+                            className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 text-[10px] font-semibold hover:bg-amber-200"
+                          >
+                            DUP
+                          </button>
+                        </Tooltip>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-600">
+                    <div className="flex items-center gap-1.5 whitespace-nowrap">
+                      {inv.invoice_date || '—'}
+                      {inv.period_lock && (
+                        <Tooltip side="top" content={`${periodLabel(inv.period_lock.period_type, inv.period_lock.period)} is locked`}>
+                          <Lock className="h-3 w-3 text-neutral-400" aria-label="Period locked" />
+                        </Tooltip>
+                      )}
+                      {inv.routed_from && inv.booking_period && (
+                        <Tooltip side="top" content={`Late — booked in ${periodLabel('month', inv.booking_period)}`}>
+                          <span className="px-1 py-0.5 rounded bg-blue-50 text-blue-700 text-[10px] font-semibold">LATE</span>
+                        </Tooltip>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-500 max-w-[140px] truncate">
+                    {inv.client_name || '—'}
+                    {inv.branch_name && <span className="block text-[11px] text-neutral-400 truncate">{inv.branch_name}</span>}
                   </TableCell>
-                  <TableCell className="text-sm text-neutral-600">{inv.invoice_date || '—'}</TableCell>
-                  <TableCell className="text-sm text-neutral-500 max-w-[140px] truncate">{inv.client_name || '—'}</TableCell>
                   <TableCell className="text-sm text-neutral-700 max-w-[180px] truncate">{inv.seller_name}</TableCell>
                   <TableCell>
-                    <Badge variant="outline" className="text-xs">
+                    <Badge variant="outline" className={`text-xs ${isNote(inv.voucher_type) ? 'border-violet-200 text-violet-700' : ''}`}>
                       {inv.voucher_type || inv.invoice_type}
                     </Badge>
+                    {isNote(inv.voucher_type) && inv.original_invoice?.invoice_number && (
+                      <p className="text-[11px] text-neutral-400 mt-0.5 truncate max-w-[120px]">
+                        against #{inv.original_invoice.invoice_number}
+                      </p>
+                    )}
                   </TableCell>
-                  <TableCell className="text-right font-mono text-sm font-medium text-neutral-900">
-                    {formatCurrency(inv.totals?.grand_total || 0)}
+                  <TableCell
+                    className={`text-right font-mono text-sm font-medium ${signedGrandTotal(inv) < 0 ? 'text-red-600' : 'text-neutral-900'}`}
+                  >
+                    {formatCurrency(signedGrandTotal(inv))}
                   </TableCell>
                   <TableCell>
                     <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[inv.status] || ''}`}>
                       {inv.status.replace(/_/g, ' ')}
                     </span>
+                    {stages.length > 1 && waitingAt && (
+                      <span className="block mt-1 text-[11px] text-neutral-500 whitespace-nowrap">
+                        {STAGE_QUEUES[waitingAt].toLowerCase()}
+                        {inv.signoffs?.length ? ` · ${STAGE_LABELS[inv.signoffs[inv.signoffs.length - 1].stage].toLowerCase()} by ${inv.signoffs[inv.signoffs.length - 1].by}` : ''}
+                      </span>
+                    )}
+                    {inv.auto_approval && (
+                      <Tooltip side="top" content={`Auto-approved by “${inv.auto_approval.rule_name}”`}>
+                        <span className="flex items-center gap-0.5 mt-1 text-[11px] text-neutral-500 max-w-[130px] truncate">
+                          <Zap className="h-3 w-3 shrink-0 text-green-600" /> {inv.auto_approval.rule_name}
+                        </span>
+                      </Tooltip>
+                    )}
                   </TableCell>
                   <TableCell>
                     {(inv.status === 'pending_review' || inv.status === 'pending_user_confirmation') && (
                       <div className="flex gap-1">
-                        <Button size="sm" variant="ghost" className="h-7 text-xs text-emerald-700 hover:bg-emerald-50" onClick={() => handleApprove(inv.id)}>
-                          Approve
-                        </Button>
-                        <Button size="sm" variant="ghost" className="h-7 text-xs text-red-600 hover:bg-red-50" onClick={() => handleReject(inv.id)}>
-                          Reject
-                        </Button>
+                        {waitingAt && (
+                          <Tooltip side="top" content={signOffBlocked || `${STAGE_ACTIONS[waitingAt]} this invoice`}>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 text-xs text-emerald-700 hover:bg-emerald-50"
+                              disabled={!!signOffBlocked}
+                              onClick={() => handleApprove(inv.id, workflow?.enabled ? waitingAt : undefined)}
+                            >
+                              {STAGE_ACTIONS[waitingAt]}
+                            </Button>
+                          </Tooltip>
+                        )}
+                        <Tooltip side="top" content={locked || 'Reject this invoice'}>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 text-xs text-red-600 hover:bg-red-50"
+                            disabled={!!locked}
+                            onClick={() => setRejectTargets([inv])}
+                          >
+                            Reject
+                          </Button>
+                        </Tooltip>
                       </div>
                     )}
                   </TableCell>
                 </TableRow>
-              ))}
+                );
+              })}
               {invoices.length === 0 && (
                 <TableRow>
                   <TableCell colSpan={9} className="text-center py-16">
@@ -1229,15 +692,43 @@ export default function InvoiceTable({ config }: { config: Record<string, unknow
         </div>
       )}
 
-      <Dialog open={!!detailInvoice} onOpenChange={() => setDetailInvoice(null)}>
+      <Dialog open={!!detailInvoice} onOpenChange={closeDetail}>
         {detailInvoice && (
           <InvoiceDetailDialog
             invoice={detailInvoice}
             allInvoices={invoices}
-            onClose={() => setDetailInvoice(null)}
-            onApprove={handleApprove}
+            onClose={closeDetail}
             onReject={handleReject}
             onSaved={fetchInvoices}
+            queue={reviewQueue ?? undefined}
+          />
+        )}
+      </Dialog>
+
+      <Dialog open={!!rejectTargets} onOpenChange={() => setRejectTargets(null)}>
+        {rejectTargets && (
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>
+                Reject {rejectTargets.length === 1 ? `invoice ${rejectTargets[0].invoice_number || ''}` : `${rejectTargets.length} invoices`}
+              </DialogTitle>
+            </DialogHeader>
+            <RejectionForm
+              invoices={rejectTargets}
+              busy={rejectingBulk}
+              onCancel={() => setRejectTargets(null)}
+              onSubmit={handleRejectTargets}
+            />
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <Dialog open={!!compareGroup} onOpenChange={() => setCompareGroup(null)}>
+        {compareGroup && (
+          <DuplicateCompareDialog
+            group={compareGroup}
+            onClose={() => setCompareGroup(null)}
+            onResolved={handleDuplicatesResolved}
           />
         )}
       </Dialog>
@@ -0,0 +1,393 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FlaskConical, GraduationCap, ListTree, Plus, Trash2 } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaClient,
+  type CaVendor,
+  type LedgerRule,
+  type LedgerRuleInput,
+  type LedgerRuleMatch,
+} from '@/services/caInvoiceService';
+import { MATCH_LABELS, classifyLine, describeRule, ruleRef } from './ledgerRules';
+
+/** Manual rules default above learned ones, which the backend starts at 10. */
+const MANUAL_PRIORITY = 50;
+
+/* ─── Rule Form ────────────────────────────────────── */
+
+function RuleForm({
+  clientId,
+  vendors,
+  ledgers,
+  onCancel,
+  onSaved,
+}: {
+  clientId: string;
+  vendors: CaVendor[];
+  ledgers: string[];
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const [match, setMatch] = useState<LedgerRuleMatch>('keyword');
+  const [value, setValue] = useState('');
+  const [ledger, setLedger] = useState('');
+  const [priority, setPriority] = useState(MANUAL_PRIORITY);
+  const [saving, setSaving] = useState(false);
+
+  const vendorName = vendors.find((v) => v.id === value)?.name;
+
+  const handleSave = async () => {
+    const data: LedgerRuleInput = {
+      match,
+      value: match === 'hsn_prefix' ? value.replace(/\D/g, '') : value.trim(),
+      ledger: ledger.trim(),
+      priority,
+      enabled: true,
+    };
+    setSaving(true);
+    try {
+      await caInvoiceService.createLedgerRule(clientId, data);
+      toast({ title: 'Rule added' });
+      onSaved();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-neutral-50/80 p-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-[180px_1fr_1fr_80px] gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">When</Label>
+          <Select value={match} onValueChange={(v) => { setMatch(v as LedgerRuleMatch); setValue(''); }}>
+            <SelectTrigger className="mt-1 h-8 text-sm"><span>{MATCH_LABELS[match]}</span></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MATCH_LABELS) as LedgerRuleMatch[]).map((m) => (
+                <SelectItem key={m} value={m}>{MATCH_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">{match === 'vendor' ? 'Vendor' : match === 'hsn_prefix' ? 'Digits' : 'Word or phrase'}</Label>
+          {match === 'vendor' ? (
+            <Select value={value} onValueChange={setValue}>
+              <SelectTrigger className="mt-1 h-8 text-sm">
+                <span className={vendorName ? 'truncate' : 'text-neutral-400'}>{vendorName || (vendors.length ? 'Choose a vendor…' : 'No vendors yet')}</span>
+              </SelectTrigger>
+              <SelectContent>
+                {vendors.map((v) => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={match === 'hsn_prefix' ? '9967' : 'freight'}
+              inputMode={match === 'hsn_prefix' ? 'numeric' : undefined}
+              className="mt-1 h-8 text-sm"
+            />
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Post to ledger</Label>
+          <Input value={ledger} onChange={(e) => setLedger(e.target.value)} list="ledger-rule-ledgers" placeholder="Freight Inward" className="mt-1 h-8 text-sm" />
+          <datalist id="ledger-rule-ledgers">
+            {ledgers.map((l) => <option key={l} value={l} />)}
+          </datalist>
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Priority</Label>
+          <Input type="number" value={priority} onChange={(e) => setPriority(parseInt(e.target.value, 10) || 0)} className="mt-1 h-8 text-sm" />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saving || !value.trim() || !ledger.trim()}>
+          {saving ? 'Saving…' : 'Add rule'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Rule Tester ──────────────────────────────────── */
+
+function RuleTester({ rules }: { rules: LedgerRule[] }) {
+  const [description, setDescription] = useState('');
+  const [hsn, setHsn] = useState('');
+  const rule = description || hsn ? classifyLine({ description, hsn_sac_code: hsn }, undefined, rules) : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <FlaskConical className="h-3.5 w-3.5 text-neutral-400" />
+      <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Try a line description…" className="h-8 w-[220px] text-xs" />
+      <Input value={hsn} onChange={(e) => setHsn(e.target.value)} placeholder="HSN/SAC" className="h-8 w-[90px] text-xs" />
+      {(description || hsn) && (
+        rule ? (
+          <span className="text-neutral-600">
+            → <span className="font-medium text-violet-800">{rule.ledger}</span> via {describeRule(ruleRef(rule))}
+          </span>
+        ) : (
+          <span className="text-neutral-400">No rule — posts to the rate-slab ledger</span>
+        )
+      )}
+    </div>
+  );
+}
+
+/* ─── Ledger Rules ─────────────────────────────────── */
+
+/**
+ * Per-client rules that send purchase lines to expense ledgers — rent,
+ * freight, repairs — instead of the rate-slab purchase ledger. Rules learned
+ * from reviewer corrections appear here alongside hand-written ones and can
+ * be edited, disabled or deleted like them.
+ */
+export default function LedgerRules({ config: _config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const [clients, setClients] = useState<CaClient[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [rules, setRules] = useState<LedgerRule[]>([]);
+  const [vendors, setVendors] = useState<CaVendor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    caInvoiceService.listClients({ limit: 200 }).then((resp) => {
+      const list = resp.data || [];
+      setClients(list);
+      if (list.length > 0) setClientId((prev) => prev || list[0].id);
+    }).catch(() => {});
+  }, []);
+
+  const fetchRules = useCallback(async () => {
+    if (!clientId) return;
+    setLoading(true);
+    try {
+      const [r, v] = await Promise.all([
+        caInvoiceService.listLedgerRules(clientId),
+        caInvoiceService.listVendors(clientId).catch(() => []),
+      ]);
+      setRules(r);
+      setVendors(v);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, toast]);
+
+  useEffect(() => {
+    setAdding(false);
+    fetchRules();
+  }, [fetchRules]);
+
+  const patchRule = async (rule: LedgerRule, data: Partial<LedgerRuleInput>) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, ...data } : r)));
+    try {
+      await caInvoiceService.updateLedgerRule(clientId, rule.id, data);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      fetchRules();
+    }
+  };
+
+  const handleDelete = async (rule: LedgerRule) => {
+    try {
+      await caInvoiceService.deleteLedgerRule(clientId, rule.id);
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setConfirmDeleteId(null);
+    }
+  };
+
+  const sorted = [...rules].sort((a, b) => b.priority - a.priority);
+  const ledgers = [...new Set(rules.map((r) => r.ledger))].sort();
+  const learnedCount = rules.filter((r) => r.source === 'learned').length;
+  const clientName = clients.find((c) => c.id === clientId)?.name;
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="flex items-end justify-between gap-4 px-5 pt-5 pb-4 border-b flex-wrap">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-700 flex items-center gap-1.5">
+            <ListTree className="h-4 w-4 text-neutral-400" /> Expense ledger rules
+          </h3>
+          <p className="text-xs text-neutral-500 mt-0.5">
+            Send purchase lines to the right ledger by vendor, HSN or description. Changing a line's ledger while reviewing teaches a new rule.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={clientId} onValueChange={setClientId}>
+            <SelectTrigger className="h-9 w-[220px] text-sm">
+              <span className={clientName ? 'truncate' : 'text-neutral-400'}>{clientName || 'Choose a client…'}</span>
+            </SelectTrigger>
+            <SelectContent>
+              {clients.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {clientId && !adding && (
+            <Button size="sm" onClick={() => setAdding(true)} className="gap-1 text-xs">
+              <Plus className="h-3 w-3" /> Add rule
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {adding && (
+        <div className="px-5 pt-4">
+          <RuleForm
+            clientId={clientId}
+            vendors={vendors}
+            ledgers={ledgers}
+            onCancel={() => setAdding(false)}
+            onSaved={() => { setAdding(false); fetchRules(); }}
+          />
+        </div>
+      )}
+
+      {!clientId ? (
+        <p className="text-sm text-neutral-400 text-center py-10">Add a client to set up ledger rules</p>
+      ) : loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-10">
+          No rules for {clientName} yet — every purchase posts to its rate-slab ledger
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-neutral-50/70">
+                  <TableHead className="pl-5">When</TableHead>
+                  <TableHead>Post to</TableHead>
+                  <TableHead className="w-[90px] text-right">Priority</TableHead>
+                  <TableHead className="w-[80px] text-right">Used</TableHead>
+                  <TableHead className="w-[80px] text-center">On</TableHead>
+                  <TableHead className="w-[120px] pr-5" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((rule) => (
+                  <TableRow key={rule.id} className={rule.enabled ? 'hover:bg-neutral-50/60' : 'opacity-50'}>
+                    <TableCell className="pl-5">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-neutral-500">{MATCH_LABELS[rule.match]}</span>
+                        <span className="font-medium text-neutral-800">
+                          {rule.match === 'vendor' ? rule.vendor_name || 'Deleted vendor' : rule.value}
+                        </span>
+                        {rule.source === 'learned' && (
+                          <span
+                            className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-violet-50 text-[10px] font-medium text-violet-700"
+                            title={`Learned from ${rule.learned_count || 1} reviewer correction${(rule.learned_count || 1) !== 1 ? 's' : ''}`}
+                          >
+                            <GraduationCap className="h-3 w-3" /> Learned
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        defaultValue={rule.ledger}
+                        onBlur={(e) => {
+                          const ledger = e.target.value.trim();
+                          if (ledger && ledger !== rule.ledger) patchRule(rule, { ledger });
+                        }}
+                        list="ledger-rule-ledgers-table"
+                        className="h-8 text-sm max-w-[260px]"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        defaultValue={rule.priority}
+                        onBlur={(e) => {
+                          const priority = parseInt(e.target.value, 10);
+                          if (Number.isFinite(priority) && priority !== rule.priority) patchRule(rule, { priority });
+                        }}
+                        className="h-8 w-16 text-sm text-right ml-auto"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right text-sm text-neutral-600">{rule.hit_count ?? '—'}</TableCell>
+                    <TableCell className="text-center">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => patchRule(rule, { enabled: e.target.checked })}
+                        className="rounded border-neutral-300"
+                        aria-label="Rule enabled"
+                      />
+                    </TableCell>
+                    <TableCell className="pr-5 text-right">
+                      {confirmDeleteId === rule.id ? (
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 text-xs text-red-600 hover:bg-red-50"
+                            onClick={() => handleDelete(rule)}
+                          >
+                            Delete
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setConfirmDeleteId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmDeleteId(rule.id)}
+                          className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                          aria-label="Delete rule"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <datalist id="ledger-rule-ledgers-table">
+              {ledgers.map((l) => <option key={l} value={l} />)}
+            </datalist>
+          </div>
+          <div className="px-5 py-3 border-t bg-neutral-50/50 flex flex-wrap items-center justify-between gap-3">
+            <RuleTester rules={rules} />
+            {learnedCount > 0 && (
+              <p className="text-[11px] text-neutral-400">{learnedCount} of {rules.length} learned from corrections</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { AlertTriangle, Link2, Search } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type OriginalInvoiceRef,
+} from '@/services/caInvoiceService';
+import { NOTE_REASONS, type LedgerSide } from './vouchers';
+
+const SIDE_LABELS: Record<LedgerSide, string> = {
+  sales: 'Against a sale',
+  purchase: 'Against a purchase',
+};
+
+export interface NoteFields {
+  side: LedgerSide;
+  original: OriginalInvoiceRef;
+  reason: string;
+}
+
+/* ─── Note Details ─────────────────────────────────── */
+
+/**
+ * Side, original bill and reason for a credit or debit note. The original can
+ * be typed in or looked up among the client's invoices, which links it by id.
+ */
+export default function NoteDetails({
+  invoice,
+  voucherType,
+  value,
+  editable,
+  onChange,
+}: {
+  invoice: Pick<CaInvoice, 'id' | 'client_id'>;
+  voucherType: string;
+  value: NoteFields;
+  editable: boolean;
+  onChange: (next: NoteFields) => void;
+}) {
+  const { toast } = useToast();
+  const [looking, setLooking] = useState(false);
+  const [lookupMiss, setLookupMiss] = useState(false);
+  const { side, original, reason } = value;
+
+  const setOriginal = (patch: Partial<OriginalInvoiceRef>) => {
+    setLookupMiss(false);
+    // Editing the number or date by hand breaks any earlier link
+    onChange({ ...value, original: { ...original, invoice_id: undefined, ...patch } });
+  };
+
+  const handleLookup = async () => {
+    const number = original.invoice_number.trim();
+    if (!number) return;
+    setLooking(true);
+    try {
+      const res = await caInvoiceService.listInvoices({ search: number, client_id: invoice.client_id, limit: 20 });
+      const match = res.data.find((inv) => inv.id !== invoice.id && inv.invoice_number?.trim() === number);
+      if (match) {
+        onChange({
+          ...value,
+          original: { invoice_id: match.id, invoice_number: match.invoice_number, invoice_date: match.invoice_date },
+        });
+      }
+      setLookupMiss(!match);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  const missing = !original.invoice_number.trim() || !original.invoice_date;
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg bg-violet-50/60 border border-violet-100">
+      <p className="text-xs font-semibold text-violet-700 uppercase tracking-wider">{voucherType} details</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div>
+          <Label className="text-xs text-gray-500">Adjusts</Label>
+          {editable ? (
+            <Select value={side} onValueChange={(v) => onChange({ ...value, side: v as LedgerSide })}>
+              <SelectTrigger className="mt-1"><span>{SIDE_LABELS[side]}</span></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SIDE_LABELS) as LedgerSide[]).map((s) => (
+                  <SelectItem key={s} value={s}>{SIDE_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="font-medium mt-1">{SIDE_LABELS[side]}</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">Original Invoice No.</Label>
+          {editable ? (
+            <div className="flex gap-1 mt-1">
+              <Input
+                data-field="original_invoice.invoice_number"
+                value={original.invoice_number}
+                onChange={(e) => setOriginal({ invoice_number: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleLookup(); }}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-9 px-2 shrink-0"
+                title="Find among this client's invoices"
+                disabled={looking || !original.invoice_number.trim()}
+                onClick={handleLookup}
+              >
+                <Search className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ) : (
+            <p className="font-medium mt-1">{original.invoice_number || '—'}</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">Original Invoice Date</Label>
+          {editable ? (
+            <Input
+              data-field="original_invoice.invoice_date"
+              type="date"
+              value={original.invoice_date}
+              onChange={(e) => setOriginal({ invoice_date: e.target.value })}
+              className="mt-1"
+            />
+          ) : (
+            <p className="font-medium mt-1">{original.invoice_date || '—'}</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">Reason</Label>
+          {editable ? (
+            <Select value={reason} onValueChange={(v) => onChange({ ...value, reason: v })}>
+              <SelectTrigger className="mt-1">
+                <span className={reason ? '' : 'text-gray-400'}>{reason || 'Select reason'}</span>
+              </SelectTrigger>
+              <SelectContent>
+                {NOTE_REASONS.map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="font-medium mt-1">{reason || '—'}</p>
+          )}
+        </div>
+      </div>
+
+      {original.invoice_id ? (
+        <p className="flex items-center gap-1.5 text-xs text-violet-700">
+          <Link2 className="h-3 w-3" /> Linked to invoice {original.invoice_number} in this workspace
+        </p>
+      ) : lookupMiss ? (
+        <p className="text-xs text-gray-500">
+          No invoice {original.invoice_number.trim()} found for this client — the number and date will still be sent to Tally.
+        </p>
+      ) : null}
+      {missing && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3" />
+          Tally needs the original invoice number and date to adjust the bill; without them the note posts as an on-account balance.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ export interface OutlierInvoice {
   taxable: number;
   grand_total: number;
   gst_total: number;
+  detail?: string;
 }
 
 export interface OutlierCompanyGroup {
@@ -45,6 +46,19 @@ const ISSUE_LABELS: Record<string, string> = {
   missing_gst: 'Missing GST',
   missing_grand_total: 'Missing Total',
   mixed_rates: 'Mixed Rates',
+  invalid_gstin: 'Invalid GSTIN',
+  state_code_mismatch: 'State Code Mismatch',
+  supply_type_mismatch: 'Supply Type Mismatch',
+  invalid_hsn: 'Invalid HSN/SAC',
+  hsn_rate_mismatch: 'GST Rate ≠ HSN',
+  probable_duplicate: 'Probable Duplicate',
+  unmapped_rate: 'No Ledger for Rate',
+  unmapped_cess: 'No Cess Ledger',
+  missing_original_invoice: 'No Original Invoice',
+  unmapped_withholding: 'No TDS/TCS Ledger',
+  einvoice_mismatch: 'Differs from E-invoice QR',
+  einvoice_signature_invalid: 'Bad E-invoice Signature',
+  fy_date_mismatch: 'Date in Later FY',
 };
 
 export default function OutlierReviewModal({
@@ -147,11 +161,15 @@ export default function OutlierReviewModal({
                               {ISSUE_LABELS[inv.issue_type] || inv.issue_type}
                             </span>
                           </div>
-                          <p className="text-xs text-neutral-500 mt-0.5">
-                            Gap: <span className="font-semibold text-red-600">₹{inv.gap.toFixed(2)}</span>
-                            {' · '}Taxable: ₹{inv.taxable.toFixed(2)}
-                            {' · '}GST: ₹{inv.gst_total.toFixed(2)}
-                          </p>
+                          {inv.detail ? (
+                            <p className="text-xs text-neutral-500 mt-0.5">{inv.detail}</p>
+                          ) : (
+                            <p className="text-xs text-neutral-500 mt-0.5">
+                              Gap: <span className="font-semibold text-red-600">₹{inv.gap.toFixed(2)}</span>
+                              {' · '}Taxable: ₹{inv.taxable.toFixed(2)}
+                              {' · '}GST: ₹{inv.gst_total.toFixed(2)}
+                            </p>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
                           <Button
@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { AlertTriangle, Lock, Plus, Unlock } from 'lucide-react';
+import { caInvoiceService, type PeriodLock } from '@/services/caInvoiceService';
+import {
+  isActiveLock,
+  periodBounds,
+  periodLabel,
+  recentPeriods,
+  type PeriodType,
+} from './periodLocks';
+
+const FILING_NOTES = ['GSTR-1 filed', 'GSTR-3B filed', 'Books closed'];
+
+const fmtWhen = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/* ─── Lock Form ────────────────────────────────────── */
+
+function LockForm({
+  clientId,
+  locks,
+  onCancel,
+  onLocked,
+}: {
+  clientId: string;
+  locks: PeriodLock[];
+  onCancel: () => void;
+  onLocked: () => void;
+}) {
+  const { toast } = useToast();
+  const [type, setType] = useState<PeriodType>('month');
+  // Default to the last completed period — the one usually just filed
+  const [period, setPeriod] = useState(() => recentPeriods('month', 2)[1]);
+  const [note, setNote] = useState('GSTR-1 filed');
+  const [pending, setPending] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const options = recentPeriods(type, type === 'month' ? 12 : 6);
+  const alreadyLocked = locks.some((l) => isActiveLock(l) && l.period_type === type && l.period === period);
+
+  const switchType = (next: PeriodType) => {
+    setType(next);
+    setPeriod(recentPeriods(next, 2)[1]);
+  };
+
+  // Invoices still in review for the period get booked in the next open one once it is locked
+  useEffect(() => {
+    let cancelled = false;
+    setPending(null);
+    const { start, end } = periodBounds(type, period);
+    caInvoiceService.listInvoices({ client_id: clientId, status: 'pending_review', date_from: start, date_to: end, limit: 1 })
+      .then((resp) => { if (!cancelled) setPending(resp.total || 0); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [clientId, type, period]);
+
+  const handleLock = async () => {
+    setSaving(true);
+    try {
+      await caInvoiceService.lockPeriod(clientId, { period_type: type, period, note: note.trim() || undefined });
+      toast({ title: `${periodLabel(type, period)} locked` });
+      onLocked();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-neutral-50/80 p-3 space-y-3">
+      <div className="flex gap-1.5">
+        {(['month', 'quarter'] as PeriodType[]).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => switchType(t)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              type === t ? 'bg-neutral-900 text-white' : 'bg-white border text-neutral-600 hover:bg-neutral-100'
+            }`}
+          >
+            {t === 'month' ? 'Month' : 'Quarter'}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">Period</Label>
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="mt-1 h-8 text-sm"><span>{periodLabel(type, period)}</span></SelectTrigger>
+            <SelectContent>
+              {options.map((p) => <SelectItem key={p} value={p}>{periodLabel(type, p)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">Filed</Label>
+          <Input value={note} onChange={(e) => setNote(e.target.value)} className="mt-1 h-8 text-sm" list="period-lock-notes" />
+          <datalist id="period-lock-notes">
+            {FILING_NOTES.map((n) => <option key={n} value={n} />)}
+          </datalist>
+        </div>
+      </div>
+      {alreadyLocked ? (
+        <p className="text-xs text-neutral-500">{periodLabel(type, period)} is already locked.</p>
+      ) : pending ? (
+        <p className="flex items-start gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {pending} invoice{pending !== 1 ? 's are' : ' is'} still pending review for this period — once locked they will be booked in the next open period.
+        </p>
+      ) : null}
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button size="sm" className="h-7 text-xs gap-1" onClick={handleLock} disabled={saving || alreadyLocked}>
+          <Lock className="h-3 w-3" /> {saving ? 'Locking…' : 'Lock period'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Period Locks ─────────────────────────────────── */
+
+/**
+ * Locks on a client's filed periods. Invoices booked in a locked period can't
+ * be edited, approved or exported; unlocking asks for a reason, and lifted
+ * locks stay listed as the audit trail.
+ */
+export default function PeriodLocks({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const [locks, setLocks] = useState<PeriodLock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchLocks = useCallback(async () => {
+    try {
+      setLocks(await caInvoiceService.listPeriodLocks(clientId));
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setAdding(false);
+    setUnlocking(null);
+    fetchLocks();
+  }, [fetchLocks]);
+
+  const handleUnlock = async (lock: PeriodLock) => {
+    setBusy(true);
+    try {
+      await caInvoiceService.unlockPeriod(clientId, lock.id, reason.trim());
+      toast({ title: `${periodLabel(lock.period_type, lock.period)} unlocked` });
+      setUnlocking(null);
+      setReason('');
+      fetchLocks();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const active = locks.filter(isActiveLock);
+  const lifted = locks.filter((l) => !isActiveLock(l));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider">Filed Periods</p>
+        {!adding && (
+          <Button size="sm" variant="outline" onClick={() => setAdding(true)} className="gap-1 text-xs">
+            <Plus className="h-3 w-3" /> Lock Period
+          </Button>
+        )}
+      </div>
+
+      {adding && (
+        <div className="mb-3">
+          <LockForm
+            clientId={clientId}
+            locks={locks}
+            onCancel={() => setAdding(false)}
+            onLocked={() => { setAdding(false); fetchLocks(); }}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <Skeleton className="h-14" />
+      ) : locks.length === 0 ? (
+        <p className="text-xs text-neutral-400 italic py-1">No periods locked — lock a month or quarter once its return is filed.</p>
+      ) : (
+        <div className="space-y-1.5">
+          {active.map((lock) => (
+            <div key={lock.id} className="bg-neutral-50/80 rounded-lg px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2.5 min-w-0">
+                  <Lock className="h-3.5 w-3.5 text-neutral-500 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-neutral-900">
+                      {periodLabel(lock.period_type, lock.period)}
+                      {lock.note && <span className="font-normal text-neutral-500"> · {lock.note}</span>}
+                    </p>
+                    <p className="text-[10px] text-neutral-500">
+                      Locked {fmtWhen(lock.locked_at)}{lock.locked_by && <> by {lock.locked_by}</>}
+                    </p>
+                  </div>
+                </div>
+                {unlocking !== lock.id && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs gap-1 text-neutral-500"
+                    onClick={() => { setUnlocking(lock.id); setReason(''); }}
+                  >
+                    <Unlock className="h-3 w-3" /> Unlock
+                  </Button>
+                )}
+              </div>
+              {unlocking === lock.id && (
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason, e.g. amendment in GSTR-1 for a missed invoice"
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setUnlocking(null)} disabled={busy}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" className="h-7 text-xs" onClick={() => handleUnlock(lock)} disabled={busy || !reason.trim()}>
+                    Unlock
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          {lifted.map((lock) => (
+            <div key={lock.id} className="flex items-center gap-2.5 px-3 py-1.5">
+              <Unlock className="h-3.5 w-3.5 text-neutral-300 shrink-0" />
+              <p className="text-[11px] text-neutral-400 min-w-0">
+                <span className="text-neutral-500">{periodLabel(lock.period_type, lock.period)}</span>
+                {' '}unlocked {fmtWhen(lock.unlocked_at!)}{lock.unlocked_by && <> by {lock.unlocked_by}</>}
+                {lock.unlock_reason && <> — “{lock.unlock_reason}”</>}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
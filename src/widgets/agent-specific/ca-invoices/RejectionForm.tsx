@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageCircle, XCircle } from 'lucide-react';
+import type { CaInvoice, RejectInvoicePayload, RejectionReason } from '@/services/caInvoiceService';
+import { loadRejectionReasons, renderRejectionMessage } from './rejectionReasons';
+
+/* ─── Rejection Form ───────────────────────────────── */
+
+/**
+ * Reason picker + WhatsApp reply preview. Rendered inline (the invoice dialog
+ * footer) or inside its own dialog for bulk rejection from the table.
+ */
+export default function RejectionForm({
+  invoices,
+  busy,
+  onCancel,
+  onSubmit,
+}: {
+  invoices: Array<Pick<CaInvoice, 'id' | 'invoice_number' | 'invoice_date' | 'seller_name' | 'sender_phone'>>;
+  busy?: boolean;
+  onCancel: () => void;
+  onSubmit: (payload: RejectInvoicePayload) => void;
+}) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
+  const [reasonCode, setReasonCode] = useState('');
+  const [note, setNote] = useState('');
+  const [template, setTemplate] = useState('');
+  const [notify, setNotify] = useState(true);
+
+  useEffect(() => {
+    loadRejectionReasons().then(setReasons);
+  }, []);
+
+  const reason = reasons.find((r) => r.code === reasonCode);
+  const pickReason = (r: RejectionReason) => {
+    setReasonCode(r.code);
+    setTemplate(r.message);
+  };
+
+  const first = invoices[0];
+  const senders = new Set(invoices.map((i) => i.sender_phone).filter(Boolean)).size;
+  const needsNote = reasonCode === 'other' && !note.trim();
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <Label className="text-xs text-gray-500">
+          Reason{invoices.length > 1 && <> · {invoices.length} invoices</>}
+        </Label>
+        <div className="flex flex-wrap gap-1.5 mt-1">
+          {reasons.map((r) => (
+            <button
+              key={r.code}
+              type="button"
+              onClick={() => pickReason(r)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                reasonCode === r.code
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-xs text-gray-500">Note {reasonCode === 'other' ? '' : '(optional)'}</Label>
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Anything specific the client should fix"
+          className="mt-1 min-h-[56px]"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="rounded border-gray-300"
+          checked={notify}
+          onChange={(e) => setNotify(e.target.checked)}
+          disabled={senders === 0}
+        />
+        <MessageCircle className="h-3.5 w-3.5 text-green-600" />
+        {senders === 0
+          ? 'No sender phone — nothing to notify'
+          : `Tell the sender on WhatsApp${senders > 1 ? ` (${senders} senders)` : ''}`}
+      </label>
+
+      {notify && senders > 0 && reason && (
+        <div>
+          <Label className="text-xs text-gray-500">Message template</Label>
+          <Textarea
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            className="mt-1 min-h-[64px] font-mono text-xs"
+          />
+          {first && (
+            <div className="mt-2 rounded-lg bg-green-50 border border-green-100 px-3 py-2">
+              <p className="text-[11px] text-green-700 mb-0.5">
+                Preview{invoices.length > 1 && ' for the first invoice — each sender gets their own'}
+              </p>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{renderRejectionMessage(template, first, note)}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <Button variant="outline" onClick={onCancel} disabled={busy}>Cancel</Button>
+        <Button
+          onClick={() => onSubmit({
+            reason_code: reasonCode,
+            note: note.trim() || undefined,
+            notify_sender: notify && senders > 0,
+            message_template: notify && senders > 0 ? template : undefined,
+          })}
+          disabled={busy || !reason || needsNote}
+          className="gap-1.5 bg-red-600 hover:bg-red-700"
+        >
+          <XCircle className="h-3.5 w-3.5" />
+          {busy ? 'Rejecting…' : invoices.length > 1 ? `Reject ${invoices.length} invoices` : 'Reject'}
+        </Button>
+      </div>
+    </div>
+  );
+}
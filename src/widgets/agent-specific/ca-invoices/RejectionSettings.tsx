@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import {
+  caInvoiceService,
+  type RejectionReason,
+  type RejectionReportRow,
+} from '@/services/caInvoiceService';
+import {
+  DEFAULT_REJECTION_REASONS,
+  REJECTION_PLACEHOLDERS,
+  loadRejectionReasons,
+} from './rejectionReasons';
+import { navigateTab } from './navigation';
+
+const slug = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'reason';
+
+/* ─── Rejections by Client ─────────────────────────── */
+
+function RejectionReport({ reasons }: { reasons: RejectionReason[] }) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<RejectionReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRows(await caInvoiceService.getRejectionReport({
+        date_from: dateFrom || undefined,
+        date_to: dateTo || undefined,
+      }));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [dateFrom, dateTo, toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  // Columns: catalogue order, then any retired codes still present in the data
+  const columns = React.useMemo(() => {
+    const codes = reasons.map((r) => r.code);
+    for (const row of rows) for (const code of Object.keys(row.by_reason)) if (!codes.includes(code)) codes.push(code);
+    return codes.filter((code) => rows.some((row) => row.by_reason[code]));
+  }, [reasons, rows]);
+
+  const labelFor = (code: string) => reasons.find((r) => r.code === code)?.label || code.replace(/_/g, ' ');
+  const total = rows.reduce((s, r) => s + r.total, 0);
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="flex items-end justify-between gap-4 px-5 pt-5 pb-4 border-b flex-wrap">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-700">Rejections by client</h3>
+          <p className="text-xs text-neutral-500 mt-0.5">Spot clients who keep sending unusable bills.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="h-9 w-[140px] text-sm" title="From date" />
+          <span className="text-neutral-400 text-xs">to</span>
+          <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="h-9 w-[140px] text-sm" title="To date" />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-10">No rejected invoices in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-neutral-50/70">
+                <TableHead className="pl-5">Client</TableHead>
+                {columns.map((code) => (
+                  <TableHead key={code} className="text-right whitespace-nowrap">{labelFor(code)}</TableHead>
+                ))}
+                <TableHead className="text-right pr-5">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...rows].sort((a, b) => b.total - a.total).map((row) => (
+                <TableRow key={row.client_id} className="hover:bg-neutral-50/60">
+                  <TableCell className="pl-5">
+                    <button
+                      onClick={() => navigateTab('invoices', { clientId: row.client_id, status: 'rejected' })}
+                      className="text-sm font-medium text-neutral-800 hover:underline"
+                    >
+                      {row.client_name}
+                    </button>
+                  </TableCell>
+                  {columns.map((code) => (
+                    <TableCell key={code} className="text-right text-sm text-neutral-600">
+                      {row.by_reason[code] || <span className="text-neutral-300">—</span>}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right pr-5 font-semibold text-neutral-900">{row.total}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="bg-neutral-50/70">
+                <TableCell className="pl-5 text-xs font-semibold text-neutral-500 uppercase">All clients</TableCell>
+                {columns.map((code) => (
+                  <TableCell key={code} className="text-right text-sm font-medium">
+                    {rows.reduce((s, r) => s + (r.by_reason[code] || 0), 0)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right pr-5 font-semibold">{total}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ─── Reason Catalogue ─────────────────────────────── */
+
+export default function RejectionSettings({ config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    loadRejectionReasons()
+      .then(setReasons)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (index: number, patch: Partial<RejectionReason>) => {
+    setReasons((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    setDirty(true);
+  };
+
+  const addReason = () => {
+    setReasons((prev) => [...prev, { code: '', label: '', message: '' }]);
+    setDirty(true);
+  };
+
+  const removeReason = (index: number) => {
+    setReasons((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const resetDefaults = () => {
+    setReasons(DEFAULT_REJECTION_REASONS);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    const cleaned = reasons
+      .filter((r) => r.label.trim())
+      .map((r) => ({ ...r, label: r.label.trim(), code: r.code || slug(r.label) }));
+    const codes = cleaned.map((r) => r.code);
+    if (new Set(codes).size !== codes.length) {
+      toast({ title: 'Duplicate reasons', description: 'Two reasons have the same name', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await caInvoiceService.saveRejectionReasons(cleaned);
+      setReasons(cleaned);
+      setDirty(false);
+      toast({ title: 'Rejection reasons saved' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <RejectionReport reasons={reasons} />
+
+      <div className="rounded-xl border bg-white p-5 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-neutral-700">Rejection reasons</h3>
+            <p className="text-xs text-neutral-500 mt-0.5">
+              Offered when rejecting an invoice. The message is sent to the sender on WhatsApp — placeholders:{' '}
+              {REJECTION_PLACEHOLDERS.map((p) => <code key={p} className="mx-0.5 px-1 rounded bg-neutral-100">{p}</code>)}
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button size="sm" variant="ghost" onClick={resetDefaults} className="gap-1.5 text-xs">
+              <RotateCcw className="h-3.5 w-3.5" /> Defaults
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !dirty} className="gap-1.5">
+              <Save className="h-3.5 w-3.5" /> {saving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-20 w-full" />)}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reasons.map((r, i) => (
+              <div key={i} className="grid grid-cols-[220px_1fr_auto] gap-3 items-start rounded-lg border p-3">
+                <div>
+                  <Label className="text-xs text-neutral-500">Reason</Label>
+                  <Input
+                    value={r.label}
+                    onChange={(e) => update(i, { label: e.target.value })}
+                    placeholder="e.g. Bill not signed"
+                    className="mt-1 h-9"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-neutral-500">WhatsApp message</Label>
+                  <Textarea
+                    value={r.message}
+                    onChange={(e) => update(i, { message: e.target.value })}
+                    className="mt-1 min-h-[56px] text-sm"
+                  />
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => removeReason(i)} className="mt-6 h-8 px-2 text-neutral-400 hover:text-red-600">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <Button size="sm" variant="outline" onClick={addReason} className="gap-1.5">
+              <Plus className="h-3.5 w-3.5" /> Add reason
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,6 +11,13 @@ import {
   CardDescription,
 } from '@/components/ui/card';
 import { Tooltip } from '@/components/ui/tooltip';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Save,
   Wand2,
@@ -24,147 +31,41 @@ import {
   FileCode2,
   X,
   ChevronDown,
+  Users,
+  RotateCcw,
+  Plus,
+  Percent,
+  Receipt,
 } from 'lucide-react';
-import { caInvoiceService, type TallyConfig } from '@/services/caInvoiceService';
-import { getAuthToken } from '@/lib/apiClient';
-
-const GST_RATES = ['0', '5', '12', '18', '28'] as const;
-type GstRate = typeof GST_RATES[number];
-
-const RATE_HALF: Record<GstRate, string> = {
-  '0': '0',
-  '5': '2',
-  '12': '6',
-  '18': '9',
-  '28': '14',
-};
-
-/* ─── Tally XML Parser ──────────────────────────────────────
-   Parses Tally XML exports in two formats:
-   1. Masters export: <LEDGER NAME="..."> elements
-   2. Voucher/All-Masters export: <LEDGERNAME> within <ALLEDGERENTRIES.LIST>
-
-   Also extracts company name from <SVCURRENTCOMPANY>.
-   Handles both UTF-8 and UTF-16 LE encodings from Tally Prime.
-─────────────────────────────────────────────────────────────── */
-
-interface ParsedLedger {
-  name: string;
-  parent: string;
-}
-
-interface ParsedTallyData {
-  ledgers: ParsedLedger[];
-  companyName?: string;
-}
-
-/** Decode ArrayBuffer handling UTF-16 LE BOM (FF FE) that Tally Prime uses.
-    Strips the BOM character (\uFEFF) so DOMParser doesn't reject the string. */
-function decodeTallyBuffer(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let text: string;
-  // Detect UTF-16 LE BOM: 0xFF 0xFE
-  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
-    text = new TextDecoder('utf-16le').decode(buffer);
-  // Detect UTF-16 BE BOM: 0xFE 0xFF
-  } else if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
-    text = new TextDecoder('utf-16be').decode(buffer);
-  } else {
-    text = new TextDecoder('utf-8').decode(buffer);
-  }
-  // Strip BOM character that TextDecoder leaves in the string
-  return text.replace(/^\uFEFF/, '');
-}
-
-/** Strip wide-character spaces: Tally sometimes emits UTF-16 as UTF-8
-    resulting in spaces between every character (e.g. "< E N V E L O P E >").
-    Detect this pattern and compact it. */
-function normalizeSpacedXML(text: string): string {
-  // If every other character is a space for >20 chars, it's wide-spaced
-  const sample = text.slice(0, 40);
-  const everyOtherIsSpace = sample.length > 20 &&
-    Array.from(sample).every((ch, i) => i % 2 === 1 ? ch === ' ' : true);
-  if (everyOtherIsSpace) {
-    return text.replace(/ /g, '');
-  }
-  return text;
-}
-
-function parseTallyXML(xmlText: string): ParsedTallyData {
-  try {
-    let normalized = normalizeSpacedXML(xmlText);
-
-    // Remove XML encoding declaration — DOMParser rejects encoding="UTF-16"
-    // when fed a pre-decoded JS string. The string is already Unicode at this point.
-    normalized = normalized.replace(/(<\?xml\b[^?]*?)(\s+encoding=["'][^"']*["'])([^?]*?\?>)/, '$1$3');
-
-    // Remove &#N; references to control characters illegal in XML 1.0
-    // Tally uses &#4; (EOT) to represent "Not Applicable". Strip them.
-    normalized = normalized.replace(/&#([0-9]+);/g, (match, num) => {
-      const code = parseInt(num, 10);
-      // XML 1.0 legal chars: #x9 | #xA | #xD | [#x20-#xD7FF]
-      if (code === 9 || code === 10 || code === 13 || (code >= 32 && code <= 55295)) {
-        return match; // keep valid ones
-      }
-      return ''; // strip illegal control chars like &#4;
-    });
-
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(normalized, 'application/xml');
-
-    if (doc.querySelector('parsererror')) {
-      throw new Error('Invalid XML file');
-    }
-
-    // Extract company name from static variables (voucher export format)
-    const companyEl = doc.querySelector('SVCURRENTCOMPANY');
-    const companyName = companyEl?.textContent?.trim() || undefined;
-
-    const ledgers: ParsedLedger[] = [];
-
-    // Format 1: Masters export — <LEDGER NAME="..."><PARENT>...</PARENT>
-    const masterElements = doc.querySelectorAll('LEDGER[NAME]');
-    masterElements.forEach((el) => {
-      const name = el.getAttribute('NAME')?.trim() || '';
-      const parentEl = el.querySelector('PARENT');
-      const parent = parentEl?.textContent?.trim() || 'Other';
-      if (name) ledgers.push({ name, parent });
-    });
-
-    // Format 2: Voucher/All-Masters export — extract unique LEDGERNAME values
-    // from ALLEDGERENTRIES.LIST entries. Classify by ledger name keywords.
-    if (ledgers.length === 0) {
-      const ledgerNameEls = doc.querySelectorAll('LEDGERNAME');
-      ledgerNameEls.forEach((el) => {
-        const name = el.textContent?.trim() || '';
-        if (!name) return;
-        const lower = name.toLowerCase();
-        let parent = 'Other';
-        if (lower.includes('cgst')) parent = 'Duties & Taxes (CGST)';
-        else if (lower.includes('sgst')) parent = 'Duties & Taxes (SGST)';
-        else if (lower.includes('igst')) parent = 'Duties & Taxes (IGST)';
-        else if (lower.includes('sale') || lower.includes('income')) parent = 'Sales Accounts';
-        else if (lower.includes('purchase') || lower.includes('expense')) parent = 'Purchase Accounts';
-        else if (lower.includes('debtor') || lower.includes('receivable') || lower.includes('sundry')) parent = 'Sundry Debtors';
-        else if (lower.includes('creditor') || lower.includes('payable')) parent = 'Sundry Creditors';
-        else if (lower.includes('bank') || lower.includes('cash')) parent = 'Bank / Cash';
-        ledgers.push({ name, parent });
-      });
-    }
-
-    // Deduplicate by name
-    const seen = new Set<string>();
-    const unique = ledgers.filter((l) => {
-      if (seen.has(l.name)) return false;
-      seen.add(l.name);
-      return true;
-    });
-
-    return { ledgers: unique, companyName };
-  } catch {
-    throw new Error('Could not parse Tally XML. Please upload a valid Tally data export file.');
-  }
-}
+import {
+  caInvoiceService,
+  type CaClient,
+  type TallyConfig,
+  type TallyProfile,
+} from '@/services/caInvoiceService';
+import { takeNavigationIntent } from './navigation';
+import {
+  DEFAULT_RATE_SLABS,
+  allLedgerKeys,
+  cessLedgerKeys,
+  cessSlabs,
+  ledgerKeys,
+  normalizeRate,
+  rateSlabs,
+  sortRates,
+} from './tallyLedgers';
+import { WITHHOLDING_SECTIONS, withholdingLedgerKey } from './withholding';
+import { decodeTallyBuffer, parseTallyXML, type ParsedLedger } from './tallyXml';
+
+/** CGST/SGST share of a slab, for labels (the ledger key may differ — see halfRateKey). */
+const halfPct = (rate: string) => String(parseFloat(rate) / 2);
+
+const VOUCHER_TYPE_ROWS: Array<{ key: string; label: string; badge: string; tooltip: string }> = [
+  { key: 'voucher_type_sales', label: 'Sales', badge: 'SAL', tooltip: 'Voucher type for sales invoices' },
+  { key: 'voucher_type_purchase', label: 'Purchase', badge: 'PUR', tooltip: 'Voucher type for purchase bills' },
+  { key: 'voucher_type_credit_note', label: 'Credit Note', badge: 'CN', tooltip: 'Voucher type for credit notes, e.g. "Sales Return"' },
+  { key: 'voucher_type_debit_note', label: 'Debit Note', badge: 'DN', tooltip: 'Voucher type for debit notes, e.g. "Purchase Return"' },
+];
 
 /* ─── Field key → label mapping for smart auto-fill ──────── */
 
@@ -187,9 +88,11 @@ function isRelevantLedger(parent: string): boolean {
 
 interface XmlUploadPanelProps {
   onApply: (ledgers: ParsedLedger[], companyName?: string) => void;
+  /** Template is stored on this client's profile; global default when omitted. */
+  clientId?: string;
 }
 
-function XmlUploadPanel({ onApply }: XmlUploadPanelProps) {
+function XmlUploadPanel({ onApply, clientId }: XmlUploadPanelProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [ledgers, setLedgers] = useState<ParsedLedger[]>([]);
@@ -222,15 +125,7 @@ function XmlUploadPanel({ onApply }: XmlUploadPanelProps) {
         toast({ title: `${parsed.length} ledgers found`, description: `${companyMsg} Click "Auto-fill from XML" to apply.` });
 
         // Upload raw file to backend so it can use the real Tally format as export template
-        const formData = new FormData();
-        formData.append('file', file);
-        const authToken = getAuthToken();
-        fetch('/api/settings/tally/template', {
-          method: 'POST',
-          body: formData,
-          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
-        })
-          .then(r => r.json())
+        caInvoiceService.uploadTallyTemplate(file, clientId)
           .then(res => {
             if (res.success) {
               toast({ title: 'Export format saved', description: `Tally export will now match your "${file.name}" format exactly.` });
@@ -438,25 +333,107 @@ function LedgerGroup({
 
 export default function TallySettings({ config: _config }: { config: Record<string, unknown> }) {
   const { toast } = useToast();
+  const [clients, setClients] = useState<CaClient[]>([]);
+  const [profiles, setProfiles] = useState<TallyProfile[]>([]);
+  const [clientId, setClientId] = useState('');   // '' = global default mapping
+  const [profile, setProfile] = useState<TallyProfile | null>(null);
   const [values, setValues] = useState<Record<string, string>>({});
-  const [salesRate, setSalesRate] = useState<GstRate>('18');
-  const [gstRate, setGstRate] = useState<GstRate>('18');
-  const [inputGstRate, setInputGstRate] = useState<GstRate>('18');
+  const [slabs, setSlabs] = useState<string[]>(DEFAULT_RATE_SLABS);
+  const [cessRates, setCessRates] = useState<string[]>([]);
+  const [salesRate, setSalesRate] = useState('18');
+  const [gstRate, setGstRate] = useState('18');
+  const [inputGstRate, setInputGstRate] = useState('18');
   const [loading, setLoading] = useState(false);
+  // Set when the selected profile didn't load; saving then would overwrite it with a blank form
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
 
+  const loadProfiles = useCallback(() => {
+    caInvoiceService.listTallyProfiles().then(setProfiles).catch(() => {});
+  }, []);
+
   useEffect(() => {
+    // "Configure ledger mappings" from the export tab opens the selected client's profile
+    const intent = takeNavigationIntent('settings');
+    if (typeof intent?.clientId === 'string') setClientId(intent.clientId);
+    caInvoiceService.listClients({ limit: 200 }).then((resp) => setClients(resp.data || [])).catch(() => {});
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // A client without a profile starts from the global default, so saving forks it
+  const loadRequest = useRef(0);
+  const loadConfig = useCallback(() => {
+    // Only the latest request may fill the form — switching clients quickly must not mix them
+    const request = ++loadRequest.current;
     setLoading(true);
-    caInvoiceService.getTallyConfig()
-      .then((cfg) => {
+    setLoadError(null);
+    caInvoiceService.resolveTallyConfig(clientId || undefined)
+      .then(({ config: cfg, profile: p }) => {
+        if (request !== loadRequest.current) return;
         const flat: Record<string, string> = {};
-        Object.entries(cfg).forEach(([k, v]) => { if (v) flat[k] = v as string; });
+        Object.entries(cfg).forEach(([k, v]) => { if (typeof v === 'string' && v) flat[k] = v; });
         setValues(flat);
+        setSlabs(rateSlabs(cfg));
+        setCessRates(cessSlabs(cfg));
+        setProfile(p);
       })
-      .catch(() => {})
-      .finally(() => setLoading(false));
-  }, []);
+      .catch((err: any) => {
+        if (request !== loadRequest.current) return;
+        // Don't leave the previous profile's mapping on screen under this one's name
+        setValues({});
+        setSlabs(DEFAULT_RATE_SLABS);
+        setCessRates([]);
+        setProfile(null);
+        setLoadError(err?.message || 'Could not load the ledger mapping');
+      })
+      .finally(() => { if (request === loadRequest.current) setLoading(false); });
+  }, [clientId]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  // Keep each card's selected slab valid when slabs are added or removed
+  useEffect(() => {
+    const fallback = slabs.includes('18') ? '18' : slabs[0];
+    const keep = (r: string) => (slabs.includes(r) ? r : fallback);
+    setSalesRate(keep);
+    setGstRate(keep);
+    setInputGstRate(keep);
+  }, [slabs]);
+
+  const salesKeys = ledgerKeys(salesRate);
+  const outputKeys = ledgerKeys(gstRate);
+  const inputKeys = ledgerKeys(inputGstRate);
+
+  const clientName = clients.find((c) => c.id === clientId)?.name || 'this client';
+  const profileClientIds = new Set(profiles.map((p) => p.client_id));
+
+  const handleCopyFrom = async (source: string) => {
+    if (!clientId) return;
+    try {
+      await caInvoiceService.copyTallyProfile(source === 'default' ? null : source, clientId);
+      const sourceName = source === 'default' ? 'the default mapping' : clients.find((c) => c.id === source)?.name;
+      toast({ title: 'Mapping copied', description: `${clientName} now uses a copy of ${sourceName}.` });
+      loadConfig();
+      loadProfiles();
+    } catch (err: any) {
+      toast({ title: 'Copy failed', description: err?.message, variant: 'destructive' });
+    }
+  };
+
+  const handleUseDefault = async () => {
+    if (!clientId) return;
+    try {
+      await caInvoiceService.deleteTallyProfile(clientId);
+      toast({ title: 'Profile removed', description: `${clientName} will export with the default mapping.` });
+      loadConfig();
+      loadProfiles();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err?.message, variant: 'destructive' });
+    }
+  };
 
   const set = (key: string, val: string) => setValues((prev) => ({ ...prev, [key]: val }));
 
@@ -465,7 +442,7 @@ export default function TallySettings({ config: _config }: { config: Record<stri
       const suggestions = await caInvoiceService.getTallyConfigSuggestions();
       setValues((prev) => {
         const next = { ...prev };
-        Object.entries(suggestions).forEach(([k, v]) => { if (!next[k] && v) next[k] = v as string; });
+        Object.entries(suggestions).forEach(([k, v]) => { if (!next[k] && typeof v === 'string' && v) next[k] = v; });
         return next;
       });
       toast({ title: 'Suggestions loaded', description: 'Empty fields filled with standard Tally ledger names.' });
@@ -482,6 +459,8 @@ export default function TallySettings({ config: _config }: { config: Record<stri
 
     // Build a mapping from keywords to config keys
     const KEYWORD_MAP: Array<{ keys: string[]; fieldPattern: RegExp }> = [
+      { keys: ['output cess', 'cess output'],  fieldPattern: /^output_cess/ },
+      { keys: ['input cess', 'cess input'],    fieldPattern: /^input_cess/ },
       { keys: ['output cgst', 'cgst output'],  fieldPattern: /^output_cgst_/ },
       { keys: ['output sgst', 'sgst output'],  fieldPattern: /^output_sgst_/ },
       { keys: ['output igst', 'igst output'],  fieldPattern: /^output_igst_/ },
@@ -521,16 +500,8 @@ export default function TallySettings({ config: _config }: { config: Record<stri
               if (fieldPattern.test(k) && shouldFill(k)) { next[k] = name; filled++; }
             });
             // Also apply to all rate-keyed fields
-            GST_RATES.forEach((r) => {
-              const half = RATE_HALF[r];
-              const candidates = [
-                `output_cgst_${half}`, `output_sgst_${half}`, `output_igst_${r}`,
-                `input_cgst_${half}`, `input_sgst_${half}`, `input_igst_${r}`,
-                `local_sale_${r}`, `interstate_sale_${r}`,
-              ];
-              candidates.forEach((ck) => {
-                if (fieldPattern.test(ck) && shouldFill(ck)) { next[ck] = name; filled++; }
-              });
+            allLedgerKeys({ rate_slabs: slabs, cess_slabs: cessRates }).forEach((ck) => {
+              if (fieldPattern.test(ck) && shouldFill(ck)) { next[ck] = name; filled++; }
             });
             break;
           }
@@ -564,11 +535,22 @@ export default function TallySettings({ config: _config }: { config: Record<stri
     setSaving(true);
     setSaved(false);
     try {
-      const cfg: TallyConfig = {};
-      Object.entries(values).forEach(([k, v]) => { if (v.trim()) (cfg as Record<string, string>)[k] = v.trim(); });
-      await caInvoiceService.saveTallyConfig(cfg);
+      const cfg: TallyConfig = { rate_slabs: slabs, cess_slabs: cessRates };
+      Object.entries(values).forEach(([k, v]) => { if (v.trim()) cfg[k] = v.trim(); });
+      if (clientId) {
+        await caInvoiceService.saveTallyProfile(clientId, cfg);
+        setProfile(await caInvoiceService.getTallyProfile(clientId));
+        loadProfiles();
+      } else {
+        await caInvoiceService.saveTallyConfig(cfg);
+      }
       setSaved(true);
-      toast({ title: 'Settings saved', description: 'Ledger mappings will be used on next export.' });
+      toast({
+        title: 'Settings saved',
+        description: clientId
+          ? `${clientName}'s ledger mappings will be used on its next export.`
+          : 'Ledger mappings will be used on next export.',
+      });
       setTimeout(() => setSaved(false), 2500);
     } catch (err: any) {
       toast({ title: 'Save failed', description: err?.message, variant: 'destructive' });
@@ -610,7 +592,7 @@ export default function TallySettings({ config: _config }: { config: Record<stri
           <Button
             size="sm"
             onClick={handleSave}
-            disabled={saving}
+            disabled={saving || !!loadError}
             className="gap-1.5 bg-green-700 hover:bg-green-800 text-white text-xs"
           >
             {saving ? (
@@ -625,8 +607,74 @@ export default function TallySettings({ config: _config }: { config: Record<stri
         </div>
       </div>
 
+      {/* ── Client Profile ────────────────────────────────────── */}
+      <div className="rounded-lg border border-stone-200 bg-white px-4 py-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-3">
+          <Users className="h-4 w-4 text-stone-500" />
+          <Label className="text-xs font-medium text-stone-600">Profile</Label>
+          <div className="w-[240px]">
+            <Select value={clientId || 'default'} onValueChange={(v) => setClientId(v === 'default' ? '' : v)}>
+              <SelectTrigger className="h-8 text-sm">
+                <span className="truncate">{clientId ? clientName : 'Default (all clients)'}</span>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default (all clients)</SelectItem>
+                {clients.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}{profileClientIds.has(c.id) ? ' · own profile' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {clientId && (
+            <div className="w-[220px]">
+              <Select value="" onValueChange={handleCopyFrom}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Copy mapping from…" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default mapping</SelectItem>
+                  {clients
+                    .filter((c) => c.id !== clientId && profileClientIds.has(c.id))
+                    .map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {clientId && profile && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleUseDefault}
+              className="gap-1.5 text-xs text-stone-500 hover:text-stone-800 ml-auto"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Use default instead
+            </Button>
+          )}
+        </div>
+        {loadError ? (
+          <p className="text-xs text-red-600">
+            Couldn't load {clientId ? `${clientName}'s` : 'the default'} mapping ({loadError}) — saving is off until it loads.{' '}
+            <button type="button" className="underline" onClick={loadConfig}>Retry</button>
+          </p>
+        ) : clientId && !profile && (
+          <p className="text-xs text-amber-700">
+            {clientName} has no profile yet — showing the default mapping. Saving creates a profile for this client.
+          </p>
+        )}
+        {profile?.template_file_name && (
+          <p className="text-xs text-stone-500">
+            Export template: <span className="font-mono text-stone-700">{profile.template_file_name}</span>
+          </p>
+        )}
+      </div>
+
       {/* ── XML Upload ────────────────────────────────────────── */}
-      <XmlUploadPanel onApply={handleXmlApply} />
+      <XmlUploadPanel key={clientId || 'default'} onApply={handleXmlApply} clientId={clientId || undefined} />
 
       {/* ── Company Settings ──────────────────────────────────── */}
       <Card className="border-stone-200 shadow-sm">
@@ -656,6 +704,26 @@ export default function TallySettings({ config: _config }: { config: Record<stri
         </CardContent>
       </Card>
 
+      {/* ── Rate Slabs ────────────────────────────────────────── */}
+      <Card className="border-stone-200 shadow-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 rounded-md bg-stone-100 text-stone-600">
+              <Percent className="h-4 w-4" />
+            </div>
+            <div>
+              <CardTitle className="text-sm font-semibold text-stone-800">GST Rate Slabs</CardTitle>
+              <CardDescription className="text-xs text-stone-500">
+                Rates you map ledgers for — add 0.25%, 1.5%, 3% etc. if your clients bill them
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <SlabEditor rates={slabs} onChange={setSlabs} minCount={1} placeholder="e.g. 3" />
+        </CardContent>
+      </Card>
+
       {/* ── Sales Ledgers ─────────────────────────────────────── */}
       <Card className="border-stone-200 shadow-sm">
         <CardHeader className="pb-3">
@@ -674,7 +742,7 @@ export default function TallySettings({ config: _config }: { config: Record<stri
         <CardContent className="pt-0 space-y-4">
           <div className="flex items-center gap-1.5">
             <span className="text-xs text-stone-500 mr-1">GST Rate:</span>
-            {GST_RATES.map((r) => (
+            {slabs.map((r) => (
               <button
                 key={r}
                 onClick={() => setSalesRate(r)}
@@ -693,20 +761,20 @@ export default function TallySettings({ config: _config }: { config: Record<stri
               label="Local Sale (Intra-state)"
               badge="INTRA"
               badgeColor="bg-violet-50 text-violet-700"
-              fieldKey={`local_sale_${salesRate}`}
+              fieldKey={salesKeys.local_sale}
               placeholder={`Local Sale @${salesRate}%`}
-              value={values[`local_sale_${salesRate}`] || ''}
-              onChange={(v) => set(`local_sale_${salesRate}`, v)}
+              value={values[salesKeys.local_sale] || ''}
+              onChange={(v) => set(salesKeys.local_sale, v)}
               tooltip="Used for sales within the same state (CGST + SGST applicable)"
             />
             <LedgerRow
               label="Interstate Sale"
               badge="INTER"
               badgeColor="bg-sky-50 text-sky-700"
-              fieldKey={`interstate_sale_${salesRate}`}
+              fieldKey={salesKeys.interstate_sale}
               placeholder={`Interstate Sale@${salesRate}%`}
-              value={values[`interstate_sale_${salesRate}`] || ''}
-              onChange={(v) => set(`interstate_sale_${salesRate}`, v)}
+              value={values[salesKeys.interstate_sale] || ''}
+              onChange={(v) => set(salesKeys.interstate_sale, v)}
               tooltip="Used for sales to other states (IGST applicable)"
             />
           </div>
@@ -731,7 +799,7 @@ export default function TallySettings({ config: _config }: { config: Record<stri
         <CardContent className="pt-0 space-y-4">
           <div className="flex items-center gap-1.5">
             <span className="text-xs text-stone-500 mr-1">GST Rate:</span>
-            {GST_RATES.map((r) => (
+            {slabs.map((r) => (
               <button
                 key={r}
                 onClick={() => setGstRate(r)}
@@ -748,32 +816,32 @@ export default function TallySettings({ config: _config }: { config: Record<stri
           <div className="grid gap-3">
             <LedgerRow
               label="CGST Output"
-              badge={`@${RATE_HALF[gstRate]}%`}
+              badge={`@${halfPct(gstRate)}%`}
               badgeColor="bg-orange-50 text-orange-700"
-              fieldKey={`output_cgst_${RATE_HALF[gstRate]}`}
-              placeholder={`Output Cgst@${RATE_HALF[gstRate]}%`}
-              value={values[`output_cgst_${RATE_HALF[gstRate]}`] || ''}
-              onChange={(v) => set(`output_cgst_${RATE_HALF[gstRate]}`, v)}
+              fieldKey={outputKeys.output_cgst}
+              placeholder={`Output Cgst@${halfPct(gstRate)}%`}
+              value={values[outputKeys.output_cgst] || ''}
+              onChange={(v) => set(outputKeys.output_cgst, v)}
               tooltip="Central GST liability — applies to intra-state sales"
             />
             <LedgerRow
               label="SGST Output"
-              badge={`@${RATE_HALF[gstRate]}%`}
+              badge={`@${halfPct(gstRate)}%`}
               badgeColor="bg-orange-50 text-orange-700"
-              fieldKey={`output_sgst_${RATE_HALF[gstRate]}`}
-              placeholder={`Output Sgst@${RATE_HALF[gstRate]}%`}
-              value={values[`output_sgst_${RATE_HALF[gstRate]}`] || ''}
-              onChange={(v) => set(`output_sgst_${RATE_HALF[gstRate]}`, v)}
+              fieldKey={outputKeys.output_sgst}
+              placeholder={`Output Sgst@${halfPct(gstRate)}%`}
+              value={values[outputKeys.output_sgst] || ''}
+              onChange={(v) => set(outputKeys.output_sgst, v)}
               tooltip="State GST liability — applies to intra-state sales"
             />
             <LedgerRow
               label="IGST Output"
               badge={`@${gstRate}%`}
               badgeColor="bg-red-50 text-red-700"
-              fieldKey={`output_igst_${gstRate}`}
+              fieldKey={outputKeys.output_igst}
               placeholder={`Output Igst@${gstRate}%`}
-              value={values[`output_igst_${gstRate}`] || ''}
-              onChange={(v) => set(`output_igst_${gstRate}`, v)}
+              value={values[outputKeys.output_igst] || ''}
+              onChange={(v) => set(outputKeys.output_igst, v)}
               tooltip="Integrated GST liability — applies to interstate sales"
             />
           </div>
@@ -798,7 +866,7 @@ export default function TallySettings({ config: _config }: { config: Record<stri
         <CardContent className="pt-0 space-y-4">
           <div className="flex items-center gap-1.5">
             <span className="text-xs text-stone-500 mr-1">GST Rate:</span>
-            {GST_RATES.map((r) => (
+            {slabs.map((r) => (
               <button
                 key={r}
                 onClick={() => setInputGstRate(r)}
@@ -815,38 +883,185 @@ export default function TallySettings({ config: _config }: { config: Record<stri
           <div className="grid gap-3">
             <LedgerRow
               label="CGST Input"
-              badge={`@${RATE_HALF[inputGstRate]}%`}
+              badge={`@${halfPct(inputGstRate)}%`}
               badgeColor="bg-blue-50 text-blue-700"
-              fieldKey={`input_cgst_${RATE_HALF[inputGstRate]}`}
-              placeholder={`Input Cgst@${RATE_HALF[inputGstRate]}%`}
-              value={values[`input_cgst_${RATE_HALF[inputGstRate]}`] || ''}
-              onChange={(v) => set(`input_cgst_${RATE_HALF[inputGstRate]}`, v)}
+              fieldKey={inputKeys.input_cgst}
+              placeholder={`Input Cgst@${halfPct(inputGstRate)}%`}
+              value={values[inputKeys.input_cgst] || ''}
+              onChange={(v) => set(inputKeys.input_cgst, v)}
               tooltip="Central GST input tax credit — applies to intra-state purchases"
             />
             <LedgerRow
               label="SGST Input"
-              badge={`@${RATE_HALF[inputGstRate]}%`}
+              badge={`@${halfPct(inputGstRate)}%`}
               badgeColor="bg-blue-50 text-blue-700"
-              fieldKey={`input_sgst_${RATE_HALF[inputGstRate]}`}
-              placeholder={`Input Sgst@${RATE_HALF[inputGstRate]}%`}
-              value={values[`input_sgst_${RATE_HALF[inputGstRate]}`] || ''}
-              onChange={(v) => set(`input_sgst_${RATE_HALF[inputGstRate]}`, v)}
+              fieldKey={inputKeys.input_sgst}
+              placeholder={`Input Sgst@${halfPct(inputGstRate)}%`}
+              value={values[inputKeys.input_sgst] || ''}
+              onChange={(v) => set(inputKeys.input_sgst, v)}
               tooltip="State GST input tax credit — applies to intra-state purchases"
             />
             <LedgerRow
               label="IGST Input"
               badge={`@${inputGstRate}%`}
               badgeColor="bg-indigo-50 text-indigo-700"
-              fieldKey={`input_igst_${inputGstRate}`}
+              fieldKey={inputKeys.input_igst}
               placeholder={`Input Igst@${inputGstRate}%`}
-              value={values[`input_igst_${inputGstRate}`] || ''}
-              onChange={(v) => set(`input_igst_${inputGstRate}`, v)}
+              value={values[inputKeys.input_igst] || ''}
+              onChange={(v) => set(inputKeys.input_igst, v)}
               tooltip="Integrated GST input tax credit — applies to interstate purchases"
             />
           </div>
         </CardContent>
       </Card>
 
+      {/* ── Cess Ledgers ──────────────────────────────────────── */}
+      <Card className="border-stone-200 shadow-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 rounded-md bg-rose-50 text-rose-700">
+              <Percent className="h-4 w-4" />
+            </div>
+            <div>
+              <CardTitle className="text-sm font-semibold text-stone-800">Cess Ledgers</CardTitle>
+              <CardDescription className="text-xs text-stone-500">
+                Compensation cess — one catch-all ledger, plus per-rate ledgers if you book cess rates separately
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-4">
+          <div className="grid gap-3">
+            <LedgerRow
+              label="Cess Output"
+              badge="ALL"
+              badgeColor="bg-rose-50 text-rose-700"
+              fieldKey="output_cess"
+              placeholder="Output Cess"
+              value={values['output_cess'] || ''}
+              onChange={(v) => set('output_cess', v)}
+              tooltip="Cess collected on sales, for any cess rate without its own ledger"
+            />
+            <LedgerRow
+              label="Cess Input"
+              badge="ALL"
+              badgeColor="bg-rose-50 text-rose-700"
+              fieldKey="input_cess"
+              placeholder="Input Cess"
+              value={values['input_cess'] || ''}
+              onChange={(v) => set('input_cess', v)}
+              tooltip="Cess paid on purchases, for any cess rate without its own ledger"
+            />
+          </div>
+          <div className="space-y-2">
+            <span className="text-xs text-stone-500">Per-rate cess ledgers</span>
+            <SlabEditor rates={cessRates} onChange={setCessRates} placeholder="e.g. 12" />
+          </div>
+          {cessRates.length > 0 && (
+            <div className="grid gap-3">
+              {cessRates.flatMap((r) => {
+                const keys = cessLedgerKeys(r);
+                return [
+                  <LedgerRow
+                    key={keys.output_cess}
+                    label="Cess Output"
+                    badge={`@${r}%`}
+                    badgeColor="bg-rose-50 text-rose-700"
+                    fieldKey={keys.output_cess}
+                    placeholder={`Output Cess@${r}%`}
+                    value={values[keys.output_cess] || ''}
+                    onChange={(v) => set(keys.output_cess, v)}
+                    tooltip={`Cess collected on sales at ${r}%`}
+                  />,
+                  <LedgerRow
+                    key={keys.input_cess}
+                    label="Cess Input"
+                    badge={`@${r}%`}
+                    badgeColor="bg-rose-50 text-rose-700"
+                    fieldKey={keys.input_cess}
+                    placeholder={`Input Cess@${r}%`}
+                    value={values[keys.input_cess] || ''}
+                    onChange={(v) => set(keys.input_cess, v)}
+                    tooltip={`Cess paid on purchases at ${r}%`}
+                  />,
+                ];
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ── TDS / TCS Ledgers ─────────────────────────────────── */}
+      <Card className="border-stone-200 shadow-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 rounded-md bg-sky-50 text-sky-700">
+              <Percent className="h-4 w-4" />
+            </div>
+            <div>
+              <CardTitle className="text-sm font-semibold text-stone-800">TDS / TCS Ledgers</CardTitle>
+              <CardDescription className="text-xs text-stone-500">
+                Duties &amp; Taxes ledgers the deducted TDS and collected TCS are booked to, per section
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <div className="grid gap-3">
+            {WITHHOLDING_SECTIONS.map((s) => {
+              const key = withholdingLedgerKey(s.kind, s.section);
+              return (
+                <LedgerRow
+                  key={key}
+                  label={s.label}
+                  badge={s.section}
+                  badgeColor="bg-sky-50 text-sky-700"
+                  fieldKey={key}
+                  placeholder={`${s.kind.toUpperCase()} Payable ${s.section}`}
+                  value={values[key] || ''}
+                  onChange={(v) => set(key, v)}
+                  tooltip={s.kind === 'tds' ? `TDS deducted under ${s.section} from the seller's bill` : `TCS collected under ${s.section} from the buyer`}
+                />
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* ── Voucher Types ─────────────────────────────────────── */}
+      <Card className="border-stone-200 shadow-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 rounded-md bg-violet-50 text-violet-700">
+              <Receipt className="h-4 w-4" />
+            </div>
+            <div>
+              <CardTitle className="text-sm font-semibold text-stone-800">Voucher Types</CardTitle>
+              <CardDescription className="text-xs text-stone-500">
+                Only needed if the company renamed Tally's voucher types — leave blank to use the standard names
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <div className="grid gap-3">
+            {VOUCHER_TYPE_ROWS.map((row) => (
+              <LedgerRow
+                key={row.key}
+                label={row.label}
+                badge={row.badge}
+                badgeColor="bg-violet-50 text-violet-700"
+                fieldKey={row.key}
+                placeholder={row.label}
+                value={values[row.key] || ''}
+                onChange={(v) => set(row.key, v)}
+                tooltip={row.tooltip}
+              />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* ── Import Instructions ────────────────────────────────── */}
       <div className="rounded-lg bg-blue-50 border border-blue-200 p-4 flex gap-3">
         <div className="shrink-0 mt-0.5">
@@ -868,6 +1083,65 @@ export default function TallySettings({ config: _config }: { config: Record<stri
   );
 }
 
+/* ─── Rate slab editor ────────────────────────────────────── */
+
+function SlabEditor({
+  rates,
+  onChange,
+  minCount = 0,
+  placeholder,
+}: {
+  rates: string[];
+  onChange: (rates: string[]) => void;
+  minCount?: number;
+  placeholder: string;
+}) {
+  const [draft, setDraft] = useState('');
+  const draftRate = normalizeRate(draft);
+
+  const add = () => {
+    if (draftRate === null) return;
+    if (!rates.includes(draftRate)) onChange(sortRates([...rates, draftRate]));
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {rates.map((r) => (
+        <span key={r} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-stone-100 text-xs font-medium text-stone-700">
+          {r}%
+          {rates.length > minCount && (
+            <button
+              onClick={() => onChange(rates.filter((x) => x !== r))}
+              className="p-0.5 rounded-full text-stone-400 hover:text-red-600 hover:bg-white transition-colors"
+              aria-label={`Remove ${r}%`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+        placeholder={placeholder}
+        className="h-7 w-20 text-xs"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={add}
+        disabled={draftRate === null}
+        className="h-7 gap-1 text-xs text-stone-600 border-stone-300"
+      >
+        <Plus className="h-3 w-3" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
 /* ─── Shared ledger row ───────────────────────────────────── */
 
 interface LedgerRowProps {
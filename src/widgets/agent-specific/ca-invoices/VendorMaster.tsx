@@ -0,0 +1,382 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { AlertTriangle, Merge, Pencil, Plus, Search, Store, Trash2 } from 'lucide-react';
+import {
+  caInvoiceService,
+  type CaVendor,
+  type VendorGstTreatment,
+  type VendorInput,
+} from '@/services/caInvoiceService';
+import { validateGstin } from './gstin';
+import { GST_TREATMENT_LABELS, likelyDuplicateVendors, normalizeVendorName } from './vendors';
+
+/* ─── Vendor Form ──────────────────────────────────── */
+
+function VendorForm({
+  clientId,
+  vendor,
+  onCancel,
+  onSaved,
+}: {
+  clientId: string;
+  /** Vendor being edited; a new one is created when omitted. */
+  vendor?: CaVendor;
+  onCancel: () => void;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(vendor?.name || '');
+  const [gstin, setGstin] = useState(vendor?.gstin || '');
+  const [aliases, setAliases] = useState((vendor?.aliases || []).join(', '));
+  const [ledger, setLedger] = useState(vendor?.purchase_ledger || '');
+  const [treatment, setTreatment] = useState<VendorGstTreatment>(vendor?.gst_treatment || 'regular');
+  const [saving, setSaving] = useState(false);
+
+  const gstinCheck = gstin ? validateGstin(gstin) : null;
+
+  const handleSave = async () => {
+    const data: VendorInput = {
+      name: name.trim(),
+      gstin: gstin || undefined,
+      aliases: aliases.split(',').map((a) => a.trim()).filter(Boolean),
+      purchase_ledger: ledger.trim() || undefined,
+      gst_treatment: treatment,
+    };
+    setSaving(true);
+    try {
+      if (vendor) {
+        await caInvoiceService.updateVendor(clientId, vendor.id, data);
+        toast({ title: 'Vendor updated' });
+      } else {
+        await caInvoiceService.createVendor(clientId, data);
+        toast({ title: 'Vendor added' });
+      }
+      onSaved();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-neutral-50/80 p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">Canonical name</Label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Reliance Retail Ltd" className="mt-1 h-8 text-sm" />
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">GSTIN</Label>
+          <Input
+            value={gstin}
+            onChange={(e) => {
+              const next = e.target.value.toUpperCase();
+              setGstin(next);
+              if (!next && treatment !== 'unregistered') setTreatment('unregistered');
+              else if (next && treatment === 'unregistered') setTreatment('regular');
+            }}
+            maxLength={15}
+            className="mt-1 h-8 font-mono text-xs"
+          />
+          {gstinCheck && !gstinCheck.valid && <p className="text-[11px] text-red-600 mt-1">{gstinCheck.error}</p>}
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs text-neutral-500">Also appears as</Label>
+        <Input
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          placeholder="RELIANCE RETAIL, Reliance Smart"
+          className="mt-1 h-8 text-sm"
+        />
+        <p className="text-[11px] text-neutral-400 mt-1">Comma-separated. Seller names matching any of these are normalized to the canonical name.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs text-neutral-500">Default purchase ledger</Label>
+          <Input value={ledger} onChange={(e) => setLedger(e.target.value)} placeholder="Rate-slab ledger" className="mt-1 h-8 text-sm" />
+        </div>
+        <div>
+          <Label className="text-xs text-neutral-500">GST treatment</Label>
+          <Select value={treatment} onValueChange={(v) => setTreatment(v as VendorGstTreatment)}>
+            <SelectTrigger className="mt-1 h-8 text-sm"><span>{GST_TREATMENT_LABELS[treatment]}</span></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GST_TREATMENT_LABELS) as VendorGstTreatment[]).map((t) => (
+                <SelectItem key={t} value={t}>{GST_TREATMENT_LABELS[t]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {vendor && normalizeVendorName(name) !== normalizeVendorName(vendor.name) && (
+        <p className="text-[11px] text-amber-700">Invoices from this vendor that haven't been exported will be renamed too.</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleSave}
+          disabled={saving || !name.trim() || (gstinCheck !== null && !gstinCheck.valid)}
+        >
+          {saving ? 'Saving…' : vendor ? 'Save' : 'Add vendor'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Vendor Master ────────────────────────────────── */
+
+/**
+ * A client's suppliers, one per GSTIN, with the canonical name their bills
+ * are booked under. Vendors that turn out to be the same supplier can be
+ * merged; the others' names become aliases of the one kept.
+ */
+export default function VendorMaster({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const [vendors, setVendors] = useState<CaVendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  // Merge mode: the vendors picked, and which of them survives
+  const [merging, setMerging] = useState<Set<string> | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchVendors = useCallback(async () => {
+    try {
+      setVendors(await caInvoiceService.listVendors(clientId));
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setAdding(false);
+    setEditing(null);
+    setMerging(null);
+    fetchVendors();
+  }, [fetchVendors]);
+
+  const startMerge = (ids: string[]) => {
+    setMerging(new Set(ids));
+    // Keep the vendor with the most invoices by default — usually the established spelling
+    const keep = vendors.filter((v) => ids.includes(v.id)).sort((a, b) => (b.invoice_count || 0) - (a.invoice_count || 0))[0];
+    setMergeInto(keep?.id || '');
+    setAdding(false);
+    setEditing(null);
+  };
+
+  const toggleMerge = (id: string) => {
+    if (!merging) return;
+    const next = new Set(merging);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setMerging(next);
+    if (!next.has(mergeInto)) setMergeInto([...next][0] || '');
+  };
+
+  const handleMerge = async () => {
+    if (!merging || !mergeInto) return;
+    const others = [...merging].filter((id) => id !== mergeInto);
+    setBusy(true);
+    try {
+      const res = await caInvoiceService.mergeVendors(clientId, mergeInto, others);
+      toast({
+        title: `${others.length + 1} vendors merged`,
+        description: `${res.invoices_relinked} invoice${res.invoices_relinked !== 1 ? 's' : ''} relinked`,
+      });
+      setMerging(null);
+      fetchVendors();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (vendor: CaVendor) => {
+    setBusy(true);
+    try {
+      await caInvoiceService.deleteVendor(clientId, vendor.id);
+      toast({ title: 'Vendor deleted' });
+      setDeleting(null);
+      fetchVendors();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const query = normalizeVendorName(search);
+  const shown = vendors.filter((v) =>
+    !query
+    || v.gstin?.includes(search.trim().toUpperCase())
+    || [v.name, ...(v.aliases || [])].some((n) => normalizeVendorName(n).includes(query)));
+  const duplicates = likelyDuplicateVendors(vendors);
+  const mergeTarget = vendors.find((v) => v.id === mergeInto);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider">Vendors{vendors.length > 0 && ` (${vendors.length})`}</p>
+        {!adding && !merging && (
+          <div className="flex gap-1.5">
+            {vendors.length > 1 && (
+              <Button size="sm" variant="ghost" onClick={() => startMerge([])} className="gap-1 text-xs text-neutral-500">
+                <Merge className="h-3 w-3" /> Merge
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => { setAdding(true); setEditing(null); }} className="gap-1 text-xs">
+              <Plus className="h-3 w-3" /> Add Vendor
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {adding && (
+        <div className="mb-3">
+          <VendorForm clientId={clientId} onCancel={() => setAdding(false)} onSaved={() => { setAdding(false); fetchVendors(); }} />
+        </div>
+      )}
+
+      {!merging && duplicates.length > 0 && (
+        <div className="mb-3 rounded-lg bg-amber-50 px-3 py-2 space-y-1">
+          {duplicates.map((group) => (
+            <div key={group[0].id} className="flex items-center gap-2 text-xs text-amber-800">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              <span className="truncate">Possibly the same supplier: {group.map((v) => v.name).join(', ')}</span>
+              <button type="button" className="ml-auto shrink-0 font-medium hover:underline" onClick={() => startMerge(group.map((v) => v.id))}>
+                Merge
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {merging && (
+        <div className="mb-3 rounded-lg border bg-neutral-50/80 p-3 space-y-2">
+          <p className="text-xs text-neutral-600">
+            {merging.size < 2
+              ? 'Tick the vendors that are the same supplier.'
+              : `Merge ${merging.size} vendors. Keep as:`}
+          </p>
+          {merging.size >= 2 && (
+            <Select value={mergeInto} onValueChange={setMergeInto}>
+              <SelectTrigger className="h-8 text-sm bg-white"><span>{mergeTarget?.name || 'Choose…'}</span></SelectTrigger>
+              <SelectContent>
+                {vendors.filter((v) => merging.has(v.id)).map((v) => (
+                  <SelectItem key={v.id} value={v.id}>{v.name}{v.gstin ? ` · ${v.gstin}` : ''}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {merging.size >= 2 && new Set(vendors.filter((v) => merging.has(v.id) && v.gstin).map((v) => v.gstin)).size > 1 && (
+            <p className="text-[11px] text-amber-700">These vendors have different GSTINs — only merge them if the GSTINs belong to the same supplier.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setMerging(null)} disabled={busy}>Cancel</Button>
+            <Button size="sm" className="h-7 text-xs gap-1" onClick={handleMerge} disabled={busy || merging.size < 2 || !mergeInto}>
+              <Merge className="h-3 w-3" /> {busy ? 'Merging…' : 'Merge'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {vendors.length > 8 && (
+        <div className="relative mb-2">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-neutral-400" />
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search vendors…" className="pl-8 h-8 text-sm" />
+        </div>
+      )}
+
+      {loading ? (
+        <Skeleton className="h-14" />
+      ) : vendors.length === 0 ? (
+        <p className="text-xs text-neutral-400 italic py-1">No vendors yet — add suppliers to keep their names consistent in Tally.</p>
+      ) : (
+        <div className="space-y-1.5 max-h-96 overflow-y-auto">
+          {shown.map((vendor) => editing === vendor.id ? (
+            <VendorForm
+              key={vendor.id}
+              clientId={clientId}
+              vendor={vendor}
+              onCancel={() => setEditing(null)}
+              onSaved={() => { setEditing(null); fetchVendors(); }}
+            />
+          ) : (
+            <div key={vendor.id} className="bg-neutral-50/80 rounded-lg px-3 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2.5 min-w-0">
+                  {merging ? (
+                    <input
+                      type="checkbox"
+                      checked={merging.has(vendor.id)}
+                      onChange={() => toggleMerge(vendor.id)}
+                      className="rounded border-neutral-300"
+                    />
+                  ) : (
+                    <Store className="h-3.5 w-3.5 text-neutral-400 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-neutral-900 truncate">
+                      {vendor.name}
+                      {vendor.gstin && <span className="font-mono font-normal text-neutral-500"> · {vendor.gstin}</span>}
+                    </p>
+                    <p className="text-[10px] text-neutral-500 truncate">
+                      {[
+                        GST_TREATMENT_LABELS[vendor.gst_treatment || 'regular'],
+                        vendor.purchase_ledger && `→ ${vendor.purchase_ledger}`,
+                        vendor.invoice_count !== undefined && `${vendor.invoice_count} invoice${vendor.invoice_count !== 1 ? 's' : ''}`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    {vendor.aliases?.length > 0 && (
+                      <p className="text-[10px] text-neutral-400 truncate">aka {vendor.aliases.join(', ')}</p>
+                    )}
+                  </div>
+                </div>
+                {!merging && (
+                  <div className="flex gap-0.5 shrink-0">
+                    <Button size="sm" variant="ghost" className="h-6 px-2 text-xs text-neutral-500" onClick={() => { setEditing(vendor.id); setAdding(false); }} aria-label="Edit vendor">
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-6 px-2 text-xs text-neutral-500 hover:text-red-600" onClick={() => setDeleting(deleting === vendor.id ? null : vendor.id)} aria-label="Delete vendor">
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {deleting === vendor.id && (
+                <div className="flex items-center gap-2 mt-2">
+                  <p className="text-[11px] text-red-700">Invoices keep their seller name but are no longer linked to a vendor.</p>
+                  <Button size="sm" variant="destructive" className="h-6 text-xs ml-auto shrink-0" onClick={() => handleDelete(vendor)} disabled={busy}>
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+          {shown.length === 0 && <p className="text-xs text-neutral-400 italic py-1">No vendors match “{search}”.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
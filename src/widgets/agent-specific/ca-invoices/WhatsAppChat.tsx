@@ -31,6 +31,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 import { apiClient } from '@/lib/apiClient';
+import { navigateTab, takeNavigationIntent, useWidgetTab } from './navigation';
 
 interface Message {
   id: string;
@@ -46,6 +47,13 @@ interface Message {
   media_filename?: string;
   media_url?: string;
   wa_message_id?: string;
+  /** Links a message to an invoice: a rejection notice, a clarification question or the client's answer. */
+  context?: {
+    kind: 'invoice_rejected' | 'invoice_query' | 'invoice_query_reply';
+    invoice_id: string;
+    invoice_number?: string;
+    reason_label?: string;
+  };
 }
 
 interface Conversation {
@@ -135,6 +143,16 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
   const [loadingConvs, setLoadingConvs] = useState(true);
   const [loadingMsgs, setLoadingMsgs] = useState(false);
   const [showMobileChat, setShowMobileChat] = useState(false);
+  // Deep link (e.g. from the DLQ panel): open this sender's thread at this message
+  const chatTab = useWidgetTab('ca_whatsapp_chat');
+  const [focusTarget] = useState(() => {
+    const intent = chatTab ? takeNavigationIntent(chatTab) : null;
+    return intent && typeof intent.phone === 'string'
+      ? { phone: intent.phone, waMessageId: typeof intent.waMessageId === 'string' ? intent.waMessageId : undefined }
+      : null;
+  });
+  const [highlightWaId, setHighlightWaId] = useState<string | undefined>(focusTarget?.waMessageId);
+  const pendingScrollRef = useRef(!!focusTarget?.waMessageId);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const pollIntervalRef = useRef<ReturnType<typeof setInterval>>();
@@ -158,6 +176,16 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
     fetchConversations();
   }, [fetchConversations]);
 
+  useEffect(() => {
+    if (!focusTarget || selectedConv) return;
+    const digits = (p: string) => p.replace(/\D/g, '');
+    const conv = conversations.find((c) => digits(c.phone) === digits(focusTarget.phone));
+    if (conv) {
+      setSelectedConv(conv);
+      setShowMobileChat(true);
+    }
+  }, [focusTarget, conversations, selectedConv]);
+
   // Load messages for selected conversation
   const fetchMessages = useCallback(async (phone: string) => {
     setLoadingMsgs(true);
@@ -180,10 +208,20 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
     }
   }, [selectedConv, fetchMessages]);
 
-  // Auto-scroll to bottom when messages change
+  // Auto-scroll to bottom when messages change — or once to a deep-linked message
   useEffect(() => {
+    if (pendingScrollRef.current && highlightWaId) {
+      const target = document.querySelector(`[data-wa-message-id="${highlightWaId}"]`);
+      if (target) {
+        pendingScrollRef.current = false;
+        target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+      }
+      if (messages.length === 0) return;
+      pendingScrollRef.current = false;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, highlightWaId]);
 
   // Poll for new messages every 10s when a conversation is open
   useEffect(() => {
@@ -199,6 +237,7 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
   }, [selectedConv, fetchMessages, fetchConversations]);
 
   const handleSelectConv = (conv: Conversation) => {
+    setHighlightWaId(undefined);
     setSelectedConv(conv);
     setShowMobileChat(true);
   };
@@ -321,7 +360,12 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
     if (msg.direction === 'incoming') {
       return msg.sender_name || 'Client';
     }
-    return msg.source === 'bot' ? 'Bot' : 'You';
+    const who = msg.source === 'bot' ? 'Bot' : 'You';
+    if (msg.context?.kind === 'invoice_rejected') {
+      return `${who} · Rejection notice${msg.context.reason_label ? ` (${msg.context.reason_label})` : ''}`;
+    }
+    if (msg.context?.kind === 'invoice_query') return `${who} · Question`;
+    return who;
   };
 
   const getInitials = (conv: Conversation) => {
@@ -511,6 +555,7 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
                 {messages.map((msg) => (
                   <motion.div
                     key={msg.id}
+                    data-wa-message-id={msg.wa_message_id}
                     initial={{ opacity: 0, y: 6 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ duration: 0.15 }}
@@ -522,6 +567,7 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
                     <div
                       className={cn(
                         "max-w-[75%] rounded-2xl px-3 py-2 shadow-sm",
+                        highlightWaId && msg.wa_message_id === highlightWaId && "ring-2 ring-amber-400 ring-offset-2",
                         msg.direction === 'outgoing'
                           ? msg.source === 'bot'
                             ? "bg-blue-50 text-neutral-900 border border-blue-100"
@@ -544,6 +590,20 @@ export default function WhatsAppChat({ config }: { config: Record<string, unknow
                         <span>{getSourceLabel(msg)}</span>
                       </div>
 
+                      {/* Invoice this message is about */}
+                      {msg.context && (
+                        <button
+                          onClick={() => navigateTab('invoices', { focusInvoiceId: msg.context!.invoice_id })}
+                          className={cn(
+                            "flex items-center gap-1 text-[11px] mb-1 underline underline-offset-2",
+                            msg.direction === 'outgoing' && msg.source !== 'bot' ? "text-green-100" : "text-neutral-500"
+                          )}
+                        >
+                          <FileText className="w-3 h-3" />
+                          {msg.context.kind === 'invoice_query_reply' ? 'Reply about' : 'Re:'} invoice {msg.context.invoice_number || ''}
+                        </button>
+                      )}
+
                       {/* Media preview */}
                       {msg.type === 'image' && msg.media_url && (
                         <div className="mb-1.5 rounded-lg overflow-hidden">
@@ -0,0 +1,207 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { Lightbulb, Plus, X } from 'lucide-react';
+import type { DeducteeType, InvoiceWithholding, WithholdingKind } from '@/services/caInvoiceService';
+import {
+  DEDUCTEE_LABELS,
+  findSection,
+  sectionRate,
+  sectionsFor,
+  withholdingAmount,
+  type WithholdingSuggestion,
+} from './withholding';
+import { formatCurrency } from './InvoiceDetailDialog';
+
+/* ─── TDS / TCS ────────────────────────────────────── */
+
+/**
+ * Withholding on an invoice: a suggestion to apply when there is none yet, or
+ * the section, rate and base to adjust. The amount follows rate × base until
+ * edited by hand.
+ */
+export default function WithholdingDetails({
+  kind,
+  value,
+  suggestion,
+  taxableAmount,
+  grandTotal,
+  editable,
+  onChange,
+}: {
+  kind: WithholdingKind;
+  value: InvoiceWithholding | null;
+  suggestion: WithholdingSuggestion | null;
+  taxableAmount: number;
+  grandTotal: number;
+  editable: boolean;
+  onChange: (next: InvoiceWithholding | null) => void;
+}) {
+  const title = kind === 'tds' ? 'TDS' : 'TCS';
+  const sections = sectionsFor(kind);
+
+  const patch = (next: Partial<InvoiceWithholding>) => {
+    if (!value) return;
+    const merged = { ...value, ...next };
+    const recalc = 'rate' in next || 'base_amount' in next || 'section' in next || 'deductee_type' in next;
+    onChange(recalc ? { ...merged, amount: withholdingAmount(merged.base_amount, merged.rate) } : merged);
+  };
+
+  const pickSection = (code: string) => {
+    const section = findSection(code);
+    patch({ section: code, rate: section ? sectionRate(section, value?.deductee_type) : value?.rate ?? 0 });
+  };
+
+  const pickDeductee = (deductee: DeducteeType) => {
+    const section = value && findSection(value.section);
+    patch({ deductee_type: deductee, ...(section ? { rate: sectionRate(section, deductee) } : {}) });
+  };
+
+  const addManually = () => {
+    const first = sections[0];
+    const base_amount = kind === 'tds' ? taxableAmount : grandTotal;
+    const rate = sectionRate(first);
+    onChange({ kind, section: first.section, rate, base_amount, amount: withholdingAmount(base_amount, rate) });
+  };
+
+  if (!value) {
+    if (!editable) return null;
+    return (
+      <div className="flex items-start justify-between gap-3 p-3 rounded-lg border border-dashed">
+        {suggestion ? (
+          <div className="flex items-start gap-2 text-sm">
+            <Lightbulb className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+            <div>
+              <p className="text-gray-800">
+                Suggested {title} {suggestion.withholding.section} @ {suggestion.withholding.rate}% on{' '}
+                {formatCurrency(suggestion.withholding.base_amount)} = <span className="font-semibold">{formatCurrency(suggestion.withholding.amount)}</span>
+              </p>
+              <p className="text-xs text-gray-500">{suggestion.reason}</p>
+              {suggestion.threshold_note && <p className="text-xs text-amber-700">{suggestion.threshold_note}</p>}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No {title} on this invoice</p>
+        )}
+        <div className="flex gap-2 shrink-0">
+          {suggestion && (
+            <Button size="sm" className="h-7 text-xs" onClick={() => onChange(suggestion.withholding)}>
+              Apply
+            </Button>
+          )}
+          <Button size="sm" variant="outline" className="h-7 text-xs gap-1" onClick={addManually}>
+            <Plus className="h-3 w-3" /> Add {title}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const section = findSection(value.section);
+  const net = kind === 'tds' ? grandTotal - value.amount : grandTotal + value.amount;
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg bg-gray-50">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{title}</p>
+        {editable && (
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs text-gray-500 gap-1" onClick={() => onChange(null)}>
+            <X className="h-3 w-3" /> Remove
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        <div className="sm:col-span-2">
+          <Label className="text-xs text-gray-500">Section</Label>
+          {editable ? (
+            <Select value={value.section} onValueChange={pickSection}>
+              <SelectTrigger className="mt-1">
+                <span className="truncate">{value.section}{section && ` — ${section.label}`}</span>
+              </SelectTrigger>
+              <SelectContent>
+                {sections.map((s) => (
+                  <SelectItem key={s.section} value={s.section}>{s.section} — {s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="font-medium mt-1">{value.section}{section && ` — ${section.label}`}</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">Deductee</Label>
+          {editable ? (
+            <Select value={value.deductee_type || ''} onValueChange={(v) => pickDeductee(v as DeducteeType)}>
+              <SelectTrigger className="mt-1">
+                <span className={value.deductee_type ? '' : 'text-gray-400'}>
+                  {value.deductee_type ? DEDUCTEE_LABELS[value.deductee_type] : 'Select'}
+                </span>
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEDUCTEE_LABELS) as DeducteeType[]).map((d) => (
+                  <SelectItem key={d} value={d}>{DEDUCTEE_LABELS[d]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="font-medium mt-1">{value.deductee_type ? DEDUCTEE_LABELS[value.deductee_type] : '—'}</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">Rate %</Label>
+          {editable ? (
+            <Input
+              type="number"
+              step="0.01"
+              value={value.rate}
+              onChange={(e) => patch({ rate: parseFloat(e.target.value) || 0 })}
+              className="mt-1 text-right"
+            />
+          ) : (
+            <p className="font-medium mt-1">{value.rate}%</p>
+          )}
+        </div>
+        <div>
+          <Label className="text-xs text-gray-500">On amount</Label>
+          {editable ? (
+            <Input
+              type="number"
+              step="0.01"
+              value={value.base_amount}
+              onChange={(e) => patch({ base_amount: parseFloat(e.target.value) || 0 })}
+              className="mt-1 text-right"
+            />
+          ) : (
+            <p className="font-medium mt-1 font-mono">{formatCurrency(value.base_amount)}</p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-6 text-sm">
+        <span className="flex items-center gap-2">
+          <span className="text-gray-500">{title} amount:</span>
+          {editable ? (
+            <Input
+              type="number"
+              step="1"
+              value={value.amount}
+              onChange={(e) => patch({ amount: parseFloat(e.target.value) || 0 })}
+              className="h-7 w-28 text-xs text-right"
+            />
+          ) : (
+            <span className="font-mono font-medium">{formatCurrency(value.amount)}</span>
+          )}
+        </span>
+        <span className="text-gray-500">
+          {kind === 'tds' ? 'Payable to seller' : 'Receivable from buyer'}:{' '}
+          <span className="font-mono font-semibold text-gray-900">{formatCurrency(net)}</span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * TDS / TCS Summary Widget
+ *
+ * Withholding per client, per section, per quarter of the financial year —
+ * the figures the quarterly 26Q / 27EQ returns are prepared from.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download } from 'lucide-react';
+import { caInvoiceService, type WithholdingReportRow } from '@/services/caInvoiceService';
+import { formatCurrency } from './InvoiceDetailDialog';
+import { findSection } from './withholding';
+import { downloadFile } from './download';
+import { navigateTab } from './navigation';
+import FinancialYearSelect from './FinancialYearSelect';
+import { fyBounds, fyLabel, useFinancialYear } from './financialYear';
+
+const QUARTERS: Array<{ key: WithholdingReportRow['quarter']; label: string }> = [
+  { key: 'Q1', label: 'Q1 Apr–Jun' },
+  { key: 'Q2', label: 'Q2 Jul–Sep' },
+  { key: 'Q3', label: 'Q3 Oct–Dec' },
+  { key: 'Q4', label: 'Q4 Jan–Mar' },
+];
+
+interface SummaryRow {
+  client_id: string;
+  client_name: string;
+  kind: WithholdingReportRow['kind'];
+  section: string;
+  byQuarter: Partial<Record<WithholdingReportRow['quarter'], WithholdingReportRow>>;
+  total: number;
+}
+
+function summarise(rows: WithholdingReportRow[]): SummaryRow[] {
+  const map = new Map<string, SummaryRow>();
+  for (const row of rows) {
+    const key = `${row.client_id}|${row.kind}|${row.section}`;
+    const entry = map.get(key) || {
+      client_id: row.client_id,
+      client_name: row.client_name,
+      kind: row.kind,
+      section: row.section,
+      byQuarter: {},
+      total: 0,
+    };
+    entry.byQuarter[row.quarter] = row;
+    entry.total += row.amount;
+    map.set(key, entry);
+  }
+  return [...map.values()].sort(
+    (a, b) => a.client_name.localeCompare(b.client_name) || a.kind.localeCompare(b.kind) || a.section.localeCompare(b.section),
+  );
+}
+
+function toCsv(rows: WithholdingReportRow[]): string {
+  const header = ['Client', 'Type', 'Section', 'Quarter', 'Invoices', 'Amount paid/credited', 'Tax'];
+  const lines = rows.map((r) => [
+    `"${r.client_name.replace(/"/g, '""')}"`,
+    r.kind.toUpperCase(),
+    r.section,
+    r.quarter,
+    r.invoice_count,
+    r.base_amount.toFixed(2),
+    r.amount.toFixed(2),
+  ].join(','));
+  return [header.join(','), ...lines].join('\n');
+}
+
+/* ─── Main Widget ──────────────────────────────────── */
+
+export default function WithholdingReport({ config }: { config: Record<string, unknown> }) {
+  const { toast } = useToast();
+  const [fy] = useFinancialYear();
+  const [rows, setRows] = useState<WithholdingReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { start, end } = fyBounds(fy);
+      setRows(await caInvoiceService.getWithholdingReport({ date_from: start, date_to: end }));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [fy, toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const summary = React.useMemo(() => summarise(rows), [rows]);
+  const quarterTotal = (kind: WithholdingReportRow['kind'], q: WithholdingReportRow['quarter']) =>
+    rows.filter((r) => r.kind === kind && r.quarter === q).reduce((s, r) => s + r.amount, 0);
+  const kinds = (['tds', 'tcs'] as const).filter((k) => rows.some((r) => r.kind === k));
+
+  return (
+    <div className="rounded-xl border bg-white overflow-hidden">
+      <div className="flex items-end justify-between gap-4 px-5 pt-5 pb-4 border-b flex-wrap">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-700">TDS / TCS by quarter</h3>
+          <p className="text-xs text-neutral-500 mt-0.5">Per client and section, from approved and exported invoices.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <FinancialYearSelect />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-9 gap-1.5"
+            disabled={rows.length === 0}
+            onClick={() => downloadFile(toCsv(rows), `tds-tcs-${fy}.csv`, 'text/csv')}
+          >
+            <Download className="h-3.5 w-3.5" /> CSV
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-5 space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+        </div>
+      ) : summary.length === 0 ? (
+        <p className="text-sm text-neutral-400 text-center py-10">No TDS or TCS recorded in {fyLabel(fy)}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-neutral-50/70">
+                <TableHead className="pl-5">Client</TableHead>
+                <TableHead>Section</TableHead>
+                {QUARTERS.map((q) => (
+                  <TableHead key={q.key} className="text-right whitespace-nowrap">{q.label}</TableHead>
+                ))}
+                <TableHead className="text-right pr-5">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.map((row) => (
+                <TableRow key={`${row.client_id}|${row.kind}|${row.section}`} className="hover:bg-neutral-50/60">
+                  <TableCell className="pl-5">
+                    <button
+                      onClick={() => navigateTab('invoices', { clientId: row.client_id })}
+                      className="text-sm font-medium text-neutral-800 hover:underline"
+                    >
+                      {row.client_name}
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-sm text-neutral-600 whitespace-nowrap">
+                    <span className="text-xs font-medium text-neutral-400 mr-1">{row.kind.toUpperCase()}</span>
+                    {row.section}
+                    {findSection(row.section) && (
+                      <span className="text-xs text-neutral-400"> · {findSection(row.section)!.label}</span>
+                    )}
+                  </TableCell>
+                  {QUARTERS.map((q) => {
+                    const cell = row.byQuarter[q.key];
+                    return (
+                      <TableCell
+                        key={q.key}
+                        className="text-right font-mono text-xs text-neutral-700"
+                        title={cell ? `${cell.invoice_count} invoice${cell.invoice_count !== 1 ? 's' : ''} · on ${formatCurrency(cell.base_amount)}` : undefined}
+                      >
+                        {cell ? formatCurrency(cell.amount) : <span className="text-neutral-300">—</span>}
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell className="text-right pr-5 font-mono text-xs font-semibold text-neutral-900">
+                    {formatCurrency(row.total)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {kinds.map((kind) => (
+                <TableRow key={kind} className="bg-neutral-50/70">
+                  <TableCell colSpan={2} className="pl-5 text-xs font-semibold text-neutral-500 uppercase">
+                    Total {kind.toUpperCase()}
+                  </TableCell>
+                  {QUARTERS.map((q) => (
+                    <TableCell key={q.key} className="text-right font-mono text-xs font-medium">
+                      {formatCurrency(quarterTotal(kind, q.key))}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right pr-5 font-mono text-xs font-semibold">
+                    {formatCurrency(rows.filter((r) => r.kind === kind).reduce((s, r) => s + r.amount, 0))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { Archive, ArrowRight, Download } from 'lucide-react';
+import {
+  caInvoiceService,
+  type FyPendingItem,
+  type FyPendingReason,
+  type FyRollover,
+  type FyRolloverPreview,
+} from '@/services/caInvoiceService';
+import { formatCurrency } from './InvoiceDetailDialog';
+import { downloadFile } from './download';
+import { currentFy, fyLabel, getSelectedFy, setSelectedFy, shiftFy } from './financialYear';
+
+const REASON_LABELS: Record<FyPendingReason, string> = {
+  pending_review: 'Pending review',
+  pending_user_confirmation: 'Awaiting confirmation',
+  awaiting_client_reply: 'Awaiting client reply',
+  approved_not_exported: 'Approved, not exported',
+  probable_duplicate: 'Unresolved duplicate',
+};
+
+const PREVIEW_ROWS = 50;
+
+function reportCsv(rollover: Pick<FyRollover, 'pending'>): string {
+  const esc = (v: string) => `"${(v || '').replace(/"/g, '""')}"`;
+  const header = ['Client', 'Invoice #', 'Date', 'Seller', 'Amount', 'Open because'];
+  const lines = rollover.pending.map((p) => [
+    esc(p.client_name || ''),
+    esc(p.invoice_number),
+    p.invoice_date,
+    esc(p.seller_name),
+    p.grand_total.toFixed(2),
+    REASON_LABELS[p.reason] || p.reason,
+  ].join(','));
+  return [header.join(','), ...lines].join('\n');
+}
+
+const downloadReport = (rollover: Pick<FyRollover, 'financial_year' | 'pending'>) =>
+  downloadFile(reportCsv(rollover), `year-end-pending-${rollover.financial_year}.csv`, 'text/csv');
+
+function countByReason(items: FyPendingItem[]): Array<[FyPendingReason, number]> {
+  const counts = new Map<FyPendingReason, number>();
+  for (const item of items) counts.set(item.reason, (counts.get(item.reason) || 0) + 1);
+  return [...counts.entries()];
+}
+
+/* ─── Year-end Rollover ────────────────────────────── */
+
+/**
+ * Closes a financial year: lists what is still open in it, archives those
+ * items into a downloadable report, and moves the year's clients on to the
+ * next. Only years that have ended can be rolled over.
+ */
+export default function YearEndRollover({
+  open,
+  onOpenChange,
+  onRolled,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRolled: () => void;
+}) {
+  const { toast } = useToast();
+  const [fy, setFy] = useState(() => shiftFy(currentFy(), -1));
+  const [preview, setPreview] = useState<FyRolloverPreview | null>(null);
+  const [history, setHistory] = useState<FyRollover[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rolling, setRolling] = useState(false);
+  const [done, setDone] = useState<FyRollover | null>(null);
+
+  const yearOptions = [1, 2, 3].map((n) => shiftFy(currentFy(), -n));
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setPreview(null);
+    try {
+      const [p, h] = await Promise.all([
+        caInvoiceService.getFyRolloverPreview(fy),
+        caInvoiceService.listFyRollovers().catch(() => []),
+      ]);
+      setPreview(p);
+      setHistory(h);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [fy, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setDone(null);
+    load();
+  }, [open, load]);
+
+  const handleRollover = async () => {
+    if (!preview) return;
+    setRolling(true);
+    try {
+      const result = await caInvoiceService.rolloverFinancialYear(fy);
+      setDone(result);
+      // Whoever was still looking at the closed year moves on with the clients
+      if (getSelectedFy() === fy) setSelectedFy(result.next_financial_year);
+      toast({
+        title: `Rolled ${result.clients_rolled} client${result.clients_rolled !== 1 ? 's' : ''} to ${fyLabel(result.next_financial_year)}`,
+        description: result.pending.length ? `${result.pending.length} open items archived to the year-end report` : undefined,
+      });
+      onRolled();
+    } catch (err: any) {
+      toast({ title: 'Rollover failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setRolling(false);
+    }
+  };
+
+  const pastRollover = history.find((h) => h.financial_year === fy);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Year-end rollover</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Select value={fy} onValueChange={setFy}>
+            <SelectTrigger className="h-9 w-[130px] text-sm"><span>{fyLabel(fy)}</span></SelectTrigger>
+            <SelectContent>
+              {yearOptions.map((y) => <SelectItem key={y} value={y}>{fyLabel(y)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-neutral-400" />
+          <span className="font-medium text-neutral-700">{fyLabel(shiftFy(fy, 1))}</span>
+        </div>
+
+        {done ? (
+          <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 space-y-2 text-sm">
+            <p className="font-medium text-emerald-900">
+              {fyLabel(done.financial_year)} closed — {done.clients_rolled} client{done.clients_rolled !== 1 ? 's' : ''} now on {fyLabel(done.next_financial_year)}.
+            </p>
+            {done.pending.length > 0 && (
+              <Button size="sm" variant="outline" className="gap-1.5 bg-white" onClick={() => downloadReport(done)}>
+                <Download className="h-3.5 w-3.5" /> Year-end report ({done.pending.length} open items)
+              </Button>
+            )}
+          </div>
+        ) : loading || !preview ? (
+          <div className="space-y-2"><Skeleton className="h-14" /><Skeleton className="h-32" /></div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {pastRollover && (
+              <p className="text-xs text-amber-700 bg-amber-50 rounded-md px-3 py-2">
+                {fyLabel(fy)} was already rolled over on {new Date(pastRollover.rolled_at).toLocaleDateString('en-IN')}
+                {pastRollover.rolled_by && <> by {pastRollover.rolled_by}</>}. Running it again only picks up clients and items added since.
+              </p>
+            )}
+
+            <div>
+              <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
+                Clients moving on ({preview.clients.length})
+              </p>
+              {preview.clients.length === 0 ? (
+                <p className="text-xs text-neutral-400 italic">Every client is already past {fyLabel(fy)}.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {preview.clients.map((c) => (
+                    <span key={c.client_id} className="px-2 py-0.5 rounded-full bg-neutral-100 text-xs text-neutral-700">
+                      {c.client_name}
+                      {c.pending_count > 0 && <span className="text-amber-600"> · {c.pending_count} open</span>}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
+                Still open in {fyLabel(fy)} ({preview.pending.length})
+              </p>
+              {preview.pending.length === 0 ? (
+                <p className="text-xs text-neutral-400 italic">Nothing pending — the year is clean.</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-1.5 mb-2">
+                    {countByReason(preview.pending).map(([reason, count]) => (
+                      <span key={reason} className="px-2 py-0.5 rounded-full bg-amber-50 text-xs text-amber-800">
+                        {REASON_LABELS[reason] || reason}: {count}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="rounded-lg border divide-y max-h-56 overflow-y-auto">
+                    {preview.pending.slice(0, PREVIEW_ROWS).map((p) => (
+                      <div key={`${p.invoice_id}|${p.reason}`} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                        <span className="w-32 truncate text-neutral-500">{p.client_name || '—'}</span>
+                        <span className="font-medium text-neutral-800 w-24 truncate">{p.invoice_number || '—'}</span>
+                        <span className="text-neutral-500 w-20">{p.invoice_date}</span>
+                        <span className="flex-1 truncate text-neutral-600">{p.seller_name}</span>
+                        <span className="font-mono text-neutral-700">{formatCurrency(p.grand_total)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {preview.pending.length > PREVIEW_ROWS && (
+                    <p className="text-xs text-neutral-400 mt-1">
+                      and {preview.pending.length - PREVIEW_ROWS} more — all are in the report
+                    </p>
+                  )}
+                  <p className="text-xs text-neutral-500 mt-2">
+                    These leave the working queues and go into the year-end report. They stay searchable in the invoice list.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {history.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">Past rollovers</p>
+                <div className="space-y-1">
+                  {history.map((h) => (
+                    <div key={h.id} className="flex items-center justify-between text-xs text-neutral-600">
+                      <span>
+                        {fyLabel(h.financial_year)} → {fyLabel(h.next_financial_year)} · {new Date(h.rolled_at).toLocaleDateString('en-IN')}
+                        {h.rolled_by && <> · {h.rolled_by}</>}
+                      </span>
+                      {h.pending.length > 0 && (
+                        <button type="button" className="flex items-center gap-1 text-blue-600 hover:underline" onClick={() => downloadReport(h)}>
+                          <Download className="h-3 w-3" /> {h.pending.length} items
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{done ? 'Close' : 'Cancel'}</Button>
+          {!done && (
+            <Button
+              onClick={handleRollover}
+              disabled={rolling || loading || !preview || (preview.clients.length === 0 && preview.pending.length === 0)}
+              className="gap-1.5"
+            >
+              <Archive className="h-3.5 w-3.5" />
+              {rolling ? 'Rolling over…' : `Close ${fyLabel(fy)}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+/**
+ * Maker-checker approval: the stages an invoice is signed off at before it
+ * can go to Tally, and who may sign each.
+ *
+ * The backend enforces all of this; the helpers here only decide which
+ * button to show and why it's disabled. The workflow is fetched once and
+ * shared by every widget; saving it is broadcast as a window event. A failed
+ * fetch isn't cached, so the next widget to ask retries it.
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  caInvoiceService,
+  type ApprovalStage,
+  type ApprovalWorkflow,
+  type CaInvoice,
+  type StaffMember,
+  type StaffRole,
+} from '@/services/caInvoiceService';
+
+const CHANGE_EVENT = 'ca:approval-workflow-change';
+
+export const STAGE_ORDER: ApprovalStage[] = ['prepared', 'reviewed', 'approved'];
+
+export const STAGE_LABELS: Record<ApprovalStage, string> = {
+  prepared: 'Prepared',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+};
+
+/** Button text for signing a stage off. */
+export const STAGE_ACTIONS: Record<ApprovalStage, string> = {
+  prepared: 'Prepare',
+  reviewed: 'Review',
+  approved: 'Approve',
+};
+
+/** Queue names for invoices waiting at a stage. */
+export const STAGE_QUEUES: Record<ApprovalStage, string> = {
+  prepared: 'To Prepare',
+  reviewed: 'To Review',
+  approved: 'To Approve',
+};
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  article: 'Article assistant',
+  accountant: 'Accountant',
+  manager: 'Manager',
+  partner: 'Partner',
+};
+
+/** Stages in force, in order. With the workflow off, approval is the only one. */
+export function activeStages(workflow: ApprovalWorkflow | null): ApprovalStage[] {
+  if (!workflow?.enabled) return ['approved'];
+  const enabled = new Set(workflow.stages.filter((s) => s.enabled || s.stage === 'approved').map((s) => s.stage));
+  return STAGE_ORDER.filter((s) => enabled.has(s));
+}
+
+/** The stage the invoice waits at, or undefined once it has been finally approved. */
+export function nextStage(
+  invoice: Pick<CaInvoice, 'status' | 'approval_stage'>,
+  workflow: ApprovalWorkflow | null,
+): ApprovalStage | undefined {
+  if (invoice.status === 'approved' || invoice.status === 'exported') return undefined;
+  const signed = invoice.approval_stage ? STAGE_ORDER.indexOf(invoice.approval_stage) : -1;
+  return activeStages(workflow).find((s) => STAGE_ORDER.indexOf(s) > signed);
+}
+
+/** Why `me` can't sign `stage` off on this invoice, or null if they can. */
+export function signOffBlock(
+  invoice: Pick<CaInvoice, 'signoffs'>,
+  stage: ApprovalStage,
+  workflow: ApprovalWorkflow | null,
+  me: StaffMember | null,
+): string | null {
+  if (!workflow?.enabled) return null;
+  const roles = workflow.stages.find((s) => s.stage === stage)?.roles || [];
+  if (!me) return 'Your account has no staff role';
+  if (roles.length === 0) return `No role may sign off ${STAGE_LABELS[stage]} — check the approval workflow settings`;
+  if (!roles.includes(me.role)) {
+    return `${STAGE_LABELS[stage]} needs ${roles.map((r) => ROLE_LABELS[r]).join(' or ')}`;
+  }
+  if (workflow.require_distinct_signers && invoice.signoffs?.some((s) => s.by === me.email)) {
+    return 'You already signed an earlier stage of this invoice';
+  }
+  return null;
+}
+
+/* ─── Shared workflow ──────────────────────────────── */
+
+type WorkflowState = { workflow: ApprovalWorkflow | null; me: StaffMember | null };
+
+let pending: Promise<WorkflowState> | null = null;
+
+function loadWorkflow(): Promise<WorkflowState> {
+  if (!pending) {
+    const request: Promise<WorkflowState> = caInvoiceService.getApprovalWorkflow().catch((err) => {
+      // Older backends have no workflow endpoint — treat that as the workflow being off
+      if (err.response?.status === 404) return { workflow: null, me: null };
+      if (pending === request) pending = null;
+      throw err;
+    });
+    pending = request;
+  }
+  return pending;
+}
+
+/** Drop the cached workflow and have every widget using it refetch. */
+export function invalidateApprovalWorkflow() {
+  pending = null;
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+}
+
+/**
+ * The firm's approval workflow and the signed-in staff member; null until
+ * loaded. `error` is set when it couldn't be loaded — whether sign-off is
+ * required is then unknown; `invalidateApprovalWorkflow()` retries.
+ */
+export function useApprovalWorkflow(): WorkflowState & { error: string | null } {
+  const [state, setState] = useState<WorkflowState>({ workflow: null, me: null });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => loadWorkflow().then(
+      (s) => { if (!cancelled) { setState(s); setError(null); } },
+      (err) => { if (!cancelled) setError(err.message || 'Could not load the approval workflow'); },
+    );
+    load();
+    window.addEventListener(CHANGE_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CHANGE_EVENT, load);
+    };
+  }, []);
+
+  return { ...state, error };
+}
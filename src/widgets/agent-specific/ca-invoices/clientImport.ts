@@ -0,0 +1,352 @@
+/**
+ * Bulk client import: turning spreadsheet rows or Tally party masters into
+ * clients, checking them, and planning what an import would change.
+ *
+ * Sheets often carry one row per phone or branch, so rows are grouped into
+ * clients by GSTIN (else PAN, else name). Each client is then matched to an
+ * existing one the same way, and the plan lists what would be created,
+ * filled in, or left alone — the dry run the user confirms before anything
+ * is written.
+ */
+
+import type { CaBranch, CaClient, ClientImportEntry } from '@/services/caInvoiceService';
+import { GST_STATE_CODES, normalizeGstin, validateGstin } from './gstin';
+import { isFy } from './financialYear';
+import type { TallyPartyMaster } from './tallyXml';
+
+export type ImportField =
+  | 'name'
+  | 'gstin'
+  | 'pan'
+  | 'address'
+  | 'state_code'
+  | 'financial_year'
+  | 'phone'
+  | 'phone_label'
+  | 'branch'
+  | 'branch_address'
+  | 'branch_state_code';
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; hint: RegExp }> = [
+  { key: 'name', label: 'Client name', hint: /^(client|company|party|legal|trade|business)?\s*name$|^client$|^company$|^party$/i },
+  { key: 'gstin', label: 'GSTIN', hint: /gstin|gst\s*(no|number|reg)/i },
+  { key: 'pan', label: 'PAN', hint: /^pan(\s*(no|number))?$/i },
+  { key: 'address', label: 'Address', hint: /^(client\s*|company\s*)?address/i },
+  { key: 'state_code', label: 'State / state code', hint: /^state(\s*code)?$/i },
+  { key: 'financial_year', label: 'Financial year', hint: /^(fy|financial\s*year)$/i },
+  { key: 'phone', label: 'Phone(s)', hint: /phone|mobile|whatsapp|contact\s*(no|number)/i },
+  { key: 'phone_label', label: 'Phone label', hint: /(phone|contact)\s*(label|name|person)|contact\s*person/i },
+  { key: 'branch', label: 'Branch name', hint: /^branch(\s*name)?$/i },
+  { key: 'branch_address', label: 'Branch address', hint: /branch\s*address/i },
+  { key: 'branch_state_code', label: 'Branch state', hint: /branch\s*state/i },
+];
+
+/** Column index → field it feeds ('' for ignored). */
+export type ColumnMapping = Array<ImportField | ''>;
+
+/** Best guess per header; each field is claimed by the first column that looks like it. */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<ImportField>();
+  // Specific fields first, so "Branch address" isn't taken for "Address"
+  const order = [...IMPORT_FIELDS].sort((a, b) => Number(b.key.includes('_')) - Number(a.key.includes('_')));
+  const mapping: ColumnMapping = headers.map(() => '');
+  for (const field of order) {
+    const i = headers.findIndex((h, idx) => mapping[idx] === '' && field.hint.test(h.trim()));
+    if (i >= 0 && !taken.has(field.key)) {
+      mapping[i] = field.key;
+      taken.add(field.key);
+    }
+  }
+  return mapping;
+}
+
+export const TEMPLATE_CSV = [
+  'Client name,GSTIN,PAN,Address,State code,Phone,Phone label,Branch name,Branch address',
+  'ABC Enterprises,27ABCDE1234F1Z5,ABCDE1234F,"12 MG Road, Pune",27,9876543210,Owner,Head Office,"12 MG Road, Pune"',
+  'ABC Enterprises,27ABCDE1234F1Z5,,,,9876543211,Accountant,Head Office,',
+].join('\n');
+
+/* ─── Rows → clients ───────────────────────────────── */
+
+export interface ImportPhone {
+  number: string;
+  label: string;
+  branch?: string;
+}
+
+export interface ImportBranch {
+  name: string;
+  address?: string;
+  state_code?: string;
+}
+
+export interface ImportClient {
+  /** Source rows (1-based, as the user sees them in the sheet) or Tally master names. */
+  sources: string[];
+  name: string;
+  gstin?: string;
+  pan?: string;
+  address?: string;
+  state_code?: string;
+  financial_year?: string;
+  phones: ImportPhone[];
+  branches: ImportBranch[];
+  errors: string[];
+  warnings: string[];
+}
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+/** Digits of a phone number, or null if it can't be one. Leading zeros and spacing are dropped. */
+export function normalizePhone(raw: string): string | null {
+  // Excel turns long numbers into floats — "9876543210.0"
+  const digits = raw.replace(/\.0+$/, '').replace(/\D/g, '').replace(/^0+/, '');
+  return digits.length >= 10 && digits.length <= 13 ? digits : null;
+}
+
+/** Numbers stored with and without the country code are the same phone. */
+export const samePhone = (a: string, b: string) => a.slice(-10) === b.slice(-10);
+
+/** "27", "Maharashtra" or "27-Maharashtra" → "27". */
+function toStateCode(raw: string): string | undefined {
+  const v = raw.trim();
+  const code = v.match(/^(\d{1,2})\b/)?.[1];
+  if (code) return code.padStart(2, '0');
+  const byName = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === v.toLowerCase());
+  return byName?.[0];
+}
+
+const normName = (name: string) => name.toLowerCase().replace(/\b(m\/s\.?|pvt|private|ltd|limited|llp)\b/g, '').replace(/[^a-z0-9]/g, '');
+
+function clientKey(c: Pick<ImportClient, 'gstin' | 'pan' | 'name'>): string {
+  return c.gstin ? `g:${c.gstin}` : c.pan ? `p:${c.pan}` : `n:${normName(c.name)}`;
+}
+
+interface RawClient {
+  source: string;
+  name: string;
+  gstin?: string;
+  pan?: string;
+  address?: string;
+  state?: string;
+  financial_year?: string;
+  phones: Array<{ raw: string; label?: string; branch?: string }>;
+  branch?: { name: string; address?: string; state?: string };
+}
+
+/** Validate, fill what the GSTIN implies, and merge rows describing the same client. */
+function buildClients(raws: RawClient[]): ImportClient[] {
+  const byKey = new Map<string, ImportClient>();
+  for (const raw of raws) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const gstin = raw.gstin ? normalizeGstin(raw.gstin) : undefined;
+    let pan = raw.pan?.replace(/\s+/g, '').toUpperCase() || undefined;
+    let state_code = raw.state ? toStateCode(raw.state) : undefined;
+
+    if (!raw.name.trim()) errors.push('No client name');
+    if (raw.state && !state_code) warnings.push(`Unknown state "${raw.state}"`);
+    if (gstin) {
+      const check = validateGstin(gstin);
+      if (!check.valid) {
+        errors.push(`GSTIN ${gstin}: ${check.error}`);
+      } else {
+        if (pan && pan !== check.pan) errors.push(`PAN ${pan} doesn't match the GSTIN (${check.pan})`);
+        pan = pan || check.pan;
+        if (state_code && state_code !== check.stateCode) {
+          warnings.push(`State ${state_code} replaced by ${check.stateCode} from the GSTIN`);
+        }
+        state_code = check.stateCode;
+      }
+    }
+    if (pan && !PAN_PATTERN.test(pan)) errors.push(`PAN ${pan} isn't in the AAAAA9999A format`);
+    const financial_year = raw.financial_year?.trim() || undefined;
+    if (financial_year && !isFy(financial_year)) warnings.push(`Financial year "${financial_year}" should look like 2025-26 — ignored`);
+
+    const phones: ImportPhone[] = [];
+    for (const p of raw.phones) {
+      for (const part of p.raw.split(/[,;/]|\s{2,}/).map((s) => s.trim()).filter(Boolean)) {
+        const number = normalizePhone(part);
+        if (number) phones.push({ number, label: p.label?.trim() || 'Primary', branch: p.branch });
+        else warnings.push(`"${part}" isn't a phone number — skipped`);
+      }
+    }
+
+    const piece: ImportClient = {
+      sources: [raw.source],
+      name: raw.name.trim(),
+      gstin,
+      pan,
+      address: raw.address?.trim() || undefined,
+      state_code,
+      financial_year: financial_year && isFy(financial_year) ? financial_year : undefined,
+      phones,
+      branches: raw.branch?.name.trim()
+        ? [{
+            name: raw.branch.name.trim(),
+            address: raw.branch.address?.trim() || undefined,
+            state_code: raw.branch.state ? toStateCode(raw.branch.state) : undefined,
+          }]
+        : [],
+      errors,
+      warnings,
+    };
+
+    const key = clientKey(piece);
+    const into = byKey.get(key);
+    if (!into) {
+      byKey.set(key, piece);
+      continue;
+    }
+    // Later rows only fill gaps; disagreements are surfaced rather than guessed
+    into.sources.push(raw.source);
+    for (const field of ['name', 'pan', 'address', 'state_code', 'financial_year'] as const) {
+      const v = piece[field];
+      if (!v) continue;
+      if (!into[field]) into[field] = v;
+      else if (field !== 'name' && into[field] !== v) into.warnings.push(`${raw.source}: ${field.replace('_', ' ')} "${v}" differs from "${into[field]}" — kept the first`);
+    }
+    for (const p of piece.phones) {
+      if (!into.phones.some((q) => samePhone(q.number, p.number))) into.phones.push(p);
+    }
+    for (const b of piece.branches) {
+      if (!into.branches.some((x) => x.name.toLowerCase() === b.name.toLowerCase())) into.branches.push(b);
+    }
+    into.errors.push(...piece.errors.map((e) => `${raw.source}: ${e}`));
+    into.warnings.push(...piece.warnings.map((w) => `${raw.source}: ${w}`));
+  }
+  return [...byKey.values()];
+}
+
+/** Clients from sheet rows; `rows[0]` is the header row. */
+export function clientsFromSheet(rows: string[][], mapping: ColumnMapping): ImportClient[] {
+  const col = (row: string[], field: ImportField) => {
+    const i = mapping.indexOf(field);
+    return i >= 0 ? (row[i] || '').trim() : '';
+  };
+  const raws: RawClient[] = rows.slice(1).map((row, i) => {
+    const branchName = col(row, 'branch');
+    return {
+      source: `Row ${i + 2}`,
+      name: col(row, 'name'),
+      gstin: col(row, 'gstin') || undefined,
+      pan: col(row, 'pan') || undefined,
+      address: col(row, 'address') || undefined,
+      state: col(row, 'state_code') || undefined,
+      financial_year: col(row, 'financial_year') || undefined,
+      phones: col(row, 'phone') ? [{ raw: col(row, 'phone'), label: col(row, 'phone_label'), branch: branchName || undefined }] : [],
+      branch: branchName
+        ? { name: branchName, address: col(row, 'branch_address') || undefined, state: col(row, 'branch_state_code') || undefined }
+        : undefined,
+    };
+  });
+  return buildClients(raws);
+}
+
+export function clientsFromTally(parties: TallyPartyMaster[]): ImportClient[] {
+  return buildClients(parties.map((p) => ({
+    source: p.name,
+    name: p.name,
+    gstin: p.gstin,
+    pan: p.pan,
+    address: p.address,
+    state: p.state_code,
+    phones: p.phones.map((raw) => ({ raw })),
+  })));
+}
+
+/* ─── Dry run ──────────────────────────────────────── */
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportChange {
+  field: 'name' | 'gstin' | 'pan' | 'address' | 'state_code' | 'financial_year';
+  from?: string;
+  to: string;
+}
+
+export interface ImportPlanItem {
+  client: ImportClient;
+  action: ImportAction;
+  existing?: CaClient;
+  changes: ImportChange[];
+  new_phones: ImportPhone[];
+  new_branches: ImportBranch[];
+  /** Phones already mapped to a different client; they're left where they are. */
+  phone_conflicts: Array<{ number: string; client_name: string }>;
+}
+
+/** Existing client this import row would update, if any. */
+export function matchExisting(client: ImportClient, existing: CaClient[]): CaClient | undefined {
+  if (client.gstin) {
+    const byGstin = existing.find((c) => c.gstin && normalizeGstin(c.gstin) === client.gstin);
+    if (byGstin) return byGstin;
+  }
+  if (client.pan && !client.gstin) {
+    const byPan = existing.filter((c) => c.pan === client.pan);
+    if (byPan.length === 1) return byPan[0];
+  }
+  // A name match only counts when neither side has a conflicting GSTIN
+  return existing.find((c) => normName(c.name) === normName(client.name) && (!c.gstin || !client.gstin));
+}
+
+export function planImport(
+  clients: ImportClient[],
+  existing: CaClient[],
+  branchesByClient: Map<string, CaBranch[]>,
+): ImportPlanItem[] {
+  const phoneOwner = (number: string) =>
+    existing.find((c) => (c.phones || []).some((p) => samePhone(p.number, number)));
+
+  return clients.map((client) => {
+    const match = client.errors.length ? undefined : matchExisting(client, existing);
+    const phone_conflicts: ImportPlanItem['phone_conflicts'] = [];
+    const new_phones = client.phones.filter((p) => {
+      const owner = phoneOwner(p.number);
+      if (owner && owner.id !== match?.id) phone_conflicts.push({ number: p.number, client_name: owner.name });
+      return !owner;
+    });
+
+    if (client.errors.length) {
+      return { client, action: 'invalid', changes: [], new_phones: [], new_branches: [], phone_conflicts };
+    }
+    if (!match) {
+      return { client, action: 'create', changes: [], new_phones, new_branches: client.branches, phone_conflicts };
+    }
+
+    const changes: ImportChange[] = [];
+    for (const field of ['gstin', 'pan', 'address', 'state_code', 'financial_year'] as const) {
+      const to = client[field];
+      if (to && to !== (match[field] || '')) changes.push({ field, from: match[field] || undefined, to });
+    }
+    const known = branchesByClient.get(match.id) || [];
+    const new_branches = client.branches.filter((b) => !known.some((k) => k.name.toLowerCase() === b.name.toLowerCase()));
+    const action = changes.length || new_phones.length || new_branches.length ? 'update' : 'unchanged';
+    return { client, action, existing: match, changes, new_phones, new_branches, phone_conflicts };
+  });
+}
+
+/** What gets sent for one planned client: everything for a new one, only the differences for an update. */
+export function toImportEntry(item: ImportPlanItem): ClientImportEntry {
+  const { client, existing } = item;
+  const phones = item.new_phones.map((p) => ({ phone_number: p.number, label: p.label, branch: p.branch }));
+  if (!existing) {
+    return {
+      name: client.name,
+      gstin: client.gstin,
+      pan: client.pan,
+      address: client.address,
+      state_code: client.state_code,
+      financial_year: client.financial_year,
+      branches: item.new_branches,
+      phones,
+    };
+  }
+  return {
+    client_id: existing.id,
+    name: existing.name,
+    ...Object.fromEntries(item.changes.map((c) => [c.field, c.to])),
+    branches: item.new_branches,
+    phones,
+  };
+}
@@ -0,0 +1,42 @@
+/** Browser download helpers shared by the export panel and export history. */
+
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Tally Prime requires UTF-16 LE encoding (with BOM) for XML import.
+ * This encodes the XML string as UTF-16 LE bytes before downloading.
+ */
+export function downloadTallyXml(content: string, filename: string) {
+  // Replace UTF-8 declaration with UTF-16 declaration
+  const xmlContent = content.replace(
+    /^<\?xml[^?]*\?>/,
+    '<?xml version="1.0" encoding="UTF-16"?>'
+  );
+  // Encode as UTF-16 LE with BOM
+  const bom = '\uFEFF';
+  const full = bom + xmlContent;
+  const buffer = new ArrayBuffer(full.length * 2);
+  const view = new DataView(buffer);
+  for (let i = 0; i < full.length; i++) {
+    view.setUint16(i * 2, full.charCodeAt(i), true); // little-endian
+  }
+  const blob = new Blob([buffer], { type: 'application/xml' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,226 @@
+/**
+ * E-invoice signed QR codes.
+ *
+ * Invoices registered with the IRP carry a QR holding a JWT signed by NIC.
+ * Its `data` claim is a JSON string with the seller and buyer GSTINs, document
+ * number, type and date, invoice value, item count, main HSN and the IRN.
+ * Decoding happens in the browser — with the Shape Detection API where the
+ * browser has it, else with jsQR; PDF pages are rendered with pdf.js first.
+ * The signature is checked by the backend, which holds the IRP's public key.
+ * Extracted fields are compared against the payload — it is the closest
+ * thing to ground truth we get for an invoice.
+ */
+
+import { caInvoiceService, type CaInvoice } from '@/services/caInvoiceService';
+
+/** The fields NIC puts in the signed QR, as documented for IRP version 1.1. */
+export interface EinvoiceQrPayload {
+  SellerGstin: string;
+  BuyerGstin: string;
+  DocNo: string;
+  DocTyp: 'INV' | 'CRN' | 'DBN';
+  /** "DD/MM/YYYY" */
+  DocDt: string;
+  TotInvVal: number;
+  ItemCnt: number;
+  MainHsnCode: string;
+  Irn: string;
+  /** "YYYY-MM-DD HH:mm:ss" */
+  IrnDt: string;
+}
+
+export interface DecodedEinvoiceQr {
+  page: number;
+  signed_qr: string;
+  payload: EinvoiceQrPayload;
+}
+
+// Shape Detection API — not in TypeScript's DOM lib yet
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect(source: ImageBitmapSource): Promise<DetectedBarcode[]> }
+type BarcodeDetectorCtor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const detectorCtor = (): BarcodeDetectorCtor | undefined =>
+  (globalThis as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+
+/** The e-invoice QR sits on the first page; later pages of a long PDF are only annexures. */
+const MAX_PDF_PAGES = 3;
+
+/** Small QRs on an A4 page need more than screen resolution to decode. */
+const PDF_RENDER_SCALE = 2;
+
+/** Decoding works anywhere a canvas can be read back; jsQR needs nothing more. */
+export const qrDecodingSupported = () =>
+  typeof document !== 'undefined' && !!document.createElement('canvas').getContext('2d');
+
+function base64UrlDecode(part: string): string {
+  const b64 = part.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(part.length / 4) * 4, '=');
+  const bytes = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/** The payload of a signed e-invoice QR, or null if the text isn't one. Does not check the signature. */
+export function parseSignedQr(raw: string): EinvoiceQrPayload | null {
+  const parts = raw.trim().split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const claims = JSON.parse(base64UrlDecode(parts[1]));
+    const data = typeof claims.data === 'string' ? JSON.parse(claims.data) : claims.data;
+    if (!data || typeof data.Irn !== 'string' || !data.DocNo) return null;
+    return { ...data, TotInvVal: Number(data.TotInvVal) || 0, ItemCnt: Number(data.ItemCnt) || 0 };
+  } catch {
+    return null;
+  }
+}
+
+/** Raw text of every QR found on a rendered page. */
+async function decodeQrTexts(canvas: HTMLCanvasElement): Promise<string[]> {
+  const Detector = detectorCtor();
+  if (Detector) {
+    try {
+      return (await new Detector({ formats: ['qr_code'] }).detect(canvas)).map((c) => c.rawValue);
+    } catch {
+      // Some builds expose the API without a QR backend — fall back to jsQR
+    }
+  }
+  const { default: jsQR } = await import('jsqr');
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const code = jsQR(image.data, image.width, image.height);
+  return code ? [code.data] : [];
+}
+
+async function imageToCanvas(blob: Blob): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** The first pages of a PDF, each rendered to a canvas. */
+async function pdfToCanvases(blob: Blob): Promise<HTMLCanvasElement[]> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  const doc = await pdfjs.getDocument({ data: await blob.arrayBuffer() }).promise;
+  try {
+    const canvases: HTMLCanvasElement[] = [];
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PDF_PAGES); n++) {
+      const page = await doc.getPage(n);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      canvases.push(canvas);
+    }
+    return canvases;
+  } finally {
+    doc.destroy();
+  }
+}
+
+/** Look for a signed e-invoice QR on each page of an invoice's document, first page first. */
+export async function scanInvoiceQr(invoiceId: string, pageCount: number): Promise<DecodedEinvoiceQr | null> {
+  if (!qrDecodingSupported()) return null;
+  for (let page = 0; page < pageCount; page++) {
+    const blob = await caInvoiceService.getInvoiceMediaBlob(invoiceId, page);
+    let canvases: HTMLCanvasElement[];
+    if (blob.type === 'application/pdf') canvases = await pdfToCanvases(blob);
+    else if (blob.type.startsWith('image/')) canvases = [await imageToCanvas(blob)];
+    else continue;
+    for (const canvas of canvases) {
+      for (const raw of await decodeQrTexts(canvas)) {
+        const payload = parseSignedQr(raw);
+        if (payload) return { page, signed_qr: raw.trim(), payload };
+      }
+    }
+  }
+  return null;
+}
+
+/** "DD/MM/YYYY" → "YYYY-MM-DD". */
+export function qrDateToIso(date: string): string {
+  const m = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : date;
+}
+
+const DOC_TYPES: Record<EinvoiceQrPayload['DocTyp'], string[]> = {
+  INV: ['Sales', 'Purchase'],
+  CRN: ['Credit Note'],
+  DBN: ['Debit Note'],
+};
+
+export type EinvoiceField = 'seller_gstin' | 'buyer_gstin' | 'invoice_number' | 'invoice_date' | 'voucher_type' | 'grand_total';
+
+export interface EinvoiceMismatch {
+  field: EinvoiceField;
+  label: string;
+  qr_value: string;
+  invoice_value: string;
+}
+
+type Comparable = Pick<CaInvoice, 'seller_gstin' | 'buyer_gstin' | 'invoice_number' | 'invoice_date' | 'voucher_type'> & {
+  grand_total: number;
+};
+
+const norm = (v?: string) => (v || '').trim().toUpperCase();
+
+/** Fields where the extracted invoice disagrees with the signed QR. */
+export function compareEinvoice(payload: EinvoiceQrPayload, inv: Comparable): EinvoiceMismatch[] {
+  const out: EinvoiceMismatch[] = [];
+  const check = (field: EinvoiceField, label: string, qr: string, ours: string, same: boolean) => {
+    if (!same) out.push({ field, label, qr_value: qr, invoice_value: ours || '—' });
+  };
+  check('seller_gstin', 'Seller GSTIN', payload.SellerGstin, inv.seller_gstin || '', norm(payload.SellerGstin) === norm(inv.seller_gstin));
+  // B2C invoices carry "URP" (unregistered person) in place of the buyer GSTIN
+  if (norm(payload.BuyerGstin) !== 'URP') {
+    check('buyer_gstin', 'Buyer GSTIN', payload.BuyerGstin, inv.buyer_gstin || '', norm(payload.BuyerGstin) === norm(inv.buyer_gstin));
+  }
+  check('invoice_number', 'Invoice number', payload.DocNo, inv.invoice_number, norm(payload.DocNo) === norm(inv.invoice_number));
+  const qrDate = qrDateToIso(payload.DocDt);
+  check('invoice_date', 'Invoice date', qrDate, inv.invoice_date, qrDate === inv.invoice_date);
+  const types = DOC_TYPES[payload.DocTyp];
+  if (types) check('voucher_type', 'Document type', types.join(' / '), inv.voucher_type, types.includes(inv.voucher_type));
+  check(
+    'grand_total',
+    'Invoice value',
+    payload.TotInvVal.toFixed(2),
+    inv.grand_total.toFixed(2),
+    Math.abs(payload.TotInvVal - inv.grand_total) < 1,
+  );
+  return out;
+}
+
+export interface EinvoiceIssue {
+  code: 'einvoice_mismatch' | 'einvoice_signature_invalid';
+  message: string;
+}
+
+/** Problems with a stored e-invoice QR: a failed signature check, or fields that no longer match it. */
+export function checkInvoiceEinvoice(inv: CaInvoice): EinvoiceIssue[] {
+  const stored = inv.einvoice;
+  if (!stored) return [];
+  if (stored.signature_valid === false) {
+    return [{ code: 'einvoice_signature_invalid', message: 'E-invoice QR signature did not verify' }];
+  }
+  const payload = parseSignedQr(stored.signed_qr);
+  if (!payload) return [];
+  const mismatches = compareEinvoice(payload, { ...inv, grand_total: inv.totals?.grand_total || 0 });
+  if (mismatches.length === 0) return [];
+  return [{
+    code: 'einvoice_mismatch',
+    message: `Differs from e-invoice QR: ${mismatches.map((m) => m.label.toLowerCase()).join(', ')}`,
+  }];
+}
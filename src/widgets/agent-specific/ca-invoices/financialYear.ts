@@ -0,0 +1,121 @@
+/**
+ * Indian financial years (April–March) and the one the dashboard is scoped to.
+ *
+ * Keyed "2025-26", the form `CaClient.financial_year` and duplicate groups
+ * use. The selected year is shared by every widget and kept across reloads;
+ * widgets are separately mounted, so a change is broadcast as a window event.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CaInvoice } from '@/services/caInvoiceService';
+
+const STORAGE_KEY = 'ca-financial-year';
+const CHANGE_EVENT = 'ca:financial-year-change';
+
+const FY_PATTERN = /^(\d{4})-(\d{2})$/;
+
+/** Financial year containing a date (ISO "YYYY-MM-DD" or a Date). */
+export function fyOf(date: string | Date): string {
+  const d = typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+  const start = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+export const currentFy = () => fyOf(new Date());
+
+export const isFy = (value: string) => FY_PATTERN.test(value);
+
+/** Calendar year the financial year starts in. */
+export const fyStartYear = (fy: string) => Number(fy.slice(0, 4));
+
+export function fyBounds(fy: string): { start: string; end: string } {
+  const start = fyStartYear(fy);
+  return { start: `${start}-04-01`, end: `${start + 1}-03-31` };
+}
+
+/** "FY 25–26" */
+export function fyLabel(fy: string): string {
+  const start = fyStartYear(fy);
+  return `FY ${String(start).slice(2)}–${String(start + 1).slice(2)}`;
+}
+
+export function shiftFy(fy: string, years: number): string {
+  const start = fyStartYear(fy) + years;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+/** The current financial year and the `count - 1` before it, newest first. */
+export const recentFys = (count: number) => [...Array(count)].map((_, i) => shiftFy(currentFy(), -i));
+
+/**
+ * List/export filter for the financial year plus any dates the user set.
+ * The year goes as `financial_year` rather than as date bounds, so invoices
+ * with no date yet still show up. Dates outside the year are pulled in to its
+ * edge, so a stale filter can't quietly reach into another year.
+ */
+export function fyFilter(fy: string, from?: string, to?: string): { financial_year: string; date_from?: string; date_to?: string } {
+  const { start, end } = fyBounds(fy);
+  const clamp = (d: string) => (d < start ? start : d > end ? end : d);
+  return {
+    financial_year: fy,
+    date_from: from ? clamp(from) : undefined,
+    date_to: to ? clamp(to) : undefined,
+  };
+}
+
+/* ─── Selected year ────────────────────────────────── */
+
+export function getSelectedFy(): string {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && isFy(stored)) return stored;
+  } catch {
+    // storage unavailable
+  }
+  return currentFy();
+}
+
+export function setSelectedFy(fy: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, fy);
+  } catch {
+    // storage unavailable
+  }
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT, { detail: { fy } }));
+}
+
+/** The dashboard-wide financial year; setting it re-scopes every widget that uses it. */
+export function useFinancialYear() {
+  const [fy, setFy] = useState(getSelectedFy);
+
+  useEffect(() => {
+    const onChange = (e: Event) => setFy((e as CustomEvent<{ fy: string }>).detail.fy);
+    window.addEventListener(CHANGE_EVENT, onChange);
+    return () => window.removeEventListener(CHANGE_EVENT, onChange);
+  }, []);
+
+  const select = useCallback((next: string) => setSelectedFy(next), []);
+
+  return [fy, select] as const;
+}
+
+/* ─── Year-end checks ──────────────────────────────── */
+
+export interface FinancialYearIssue {
+  code: 'fy_date_mismatch';
+  message: string;
+}
+
+/**
+ * An invoice dated after it reached us, in a later financial year — usually a
+ * March bill read as April (day and month swapped, or a typo in the year).
+ */
+export function checkInvoiceFinancialYear(inv: Pick<CaInvoice, 'invoice_date' | 'created_at'>): FinancialYearIssue[] {
+  if (!inv.invoice_date || !inv.created_at) return [];
+  const received = inv.created_at.slice(0, 10);
+  if (inv.invoice_date <= received || fyOf(inv.invoice_date) === fyOf(received)) return [];
+  return [{
+    code: 'fy_date_mismatch',
+    message: `Dated ${inv.invoice_date} (${fyLabel(fyOf(inv.invoice_date))}) but received ${received} (${fyLabel(fyOf(received))}) — check day and month`,
+  }];
+}
@@ -0,0 +1,158 @@
+/**
+ * GSTIN validation helpers.
+ *
+ * A GSTIN is 15 characters: 2-digit state code, the holder's 10-character
+ * PAN, an entity number, a default "Z" and a mod-36 check character.
+ * These helpers validate all of that, derive the state code, and cross-check
+ * an invoice's supply type against the seller/buyer states.
+ */
+
+import type { CaInvoice } from '@/services/caInvoiceService';
+
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu & Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman & Diu',
+  '26': 'Dadra & Nagar Haveli and Daman & Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (Old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman & Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction',
+};
+
+const CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface GstinCheck {
+  valid: boolean;
+  error?: string;
+  stateCode?: string;
+  stateName?: string;
+  pan?: string;
+}
+
+/** Mod-36 check character for the first 14 characters of a GSTIN. */
+export function gstinCheckChar(first14: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return CHARSET[(36 - (sum % 36)) % 36];
+}
+
+export function normalizeGstin(raw: string): string {
+  return (raw || '').replace(/\s+/g, '').toUpperCase();
+}
+
+export function validateGstin(raw: string): GstinCheck {
+  const gstin = normalizeGstin(raw);
+  if (gstin.length !== 15) {
+    return { valid: false, error: `GSTIN must be 15 characters (got ${gstin.length})` };
+  }
+  const stateCode = gstin.slice(0, 2);
+  const stateName = GST_STATE_CODES[stateCode];
+  if (!stateName) {
+    return { valid: false, error: `Unknown state code "${stateCode}"` };
+  }
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return { valid: false, error: 'Format should be 2-digit state + PAN + entity no. + Z + check digit', stateCode, stateName };
+  }
+  const expected = gstinCheckChar(gstin.slice(0, 14));
+  if (gstin[14] !== expected) {
+    return { valid: false, error: `Check digit mismatch — likely a typo or OCR error (expected ${expected})`, stateCode, stateName };
+  }
+  return { valid: true, stateCode, stateName, pan: gstin.slice(2, 12) };
+}
+
+/** State code embedded in a GSTIN, or undefined if the prefix is not a known state. */
+export function stateCodeFromGstin(raw: string): string | undefined {
+  const code = normalizeGstin(raw).slice(0, 2);
+  return GST_STATE_CODES[code] ? code : undefined;
+}
+
+/**
+ * Supply type must agree with the two state codes: Intra-State needs the
+ * same state on both sides, Inter-State needs different ones. Returns a
+ * warning message, or null when consistent or not enough data to tell.
+ */
+export function supplyTypeConflict(
+  supplyType: string | undefined,
+  sellerStateCode: string | undefined,
+  buyerStateCode: string | undefined,
+): string | null {
+  if (!supplyType || !sellerStateCode || !buyerStateCode) return null;
+  const sameState = sellerStateCode === buyerStateCode;
+  if (supplyType === 'Intra-State' && !sameState) {
+    return `Supply type is Intra-State but seller (${sellerStateCode}) and buyer (${buyerStateCode}) are in different states`;
+  }
+  if (supplyType === 'Inter-State' && sameState) {
+    return `Supply type is Inter-State but seller and buyer are both in state ${sellerStateCode}`;
+  }
+  return null;
+}
+
+export type GstinIssueCode = 'invalid_gstin' | 'state_code_mismatch' | 'supply_type_mismatch';
+
+export interface GstinIssue {
+  code: GstinIssueCode;
+  message: string;
+}
+
+/** All GSTIN / state-code problems on an invoice — used by the list, the editor and the pre-export check. */
+export function checkInvoiceGstin(
+  inv: Pick<CaInvoice, 'seller_gstin' | 'buyer_gstin' | 'seller_state_code' | 'buyer_state_code' | 'supply_type'>,
+): GstinIssue[] {
+  const issues: GstinIssue[] = [];
+  const parties: Array<['Seller' | 'Buyer', string | undefined, string | undefined]> = [
+    ['Seller', inv.seller_gstin, inv.seller_state_code],
+    ['Buyer', inv.buyer_gstin, inv.buyer_state_code],
+  ];
+  for (const [label, gstin, stateCode] of parties) {
+    if (!gstin) continue;
+    const check = validateGstin(gstin);
+    if (!check.valid) {
+      issues.push({ code: 'invalid_gstin', message: `${label} GSTIN: ${check.error}` });
+    } else if (stateCode && stateCode !== check.stateCode) {
+      issues.push({
+        code: 'state_code_mismatch',
+        message: `${label} state code ${stateCode} does not match GSTIN (${check.stateCode})`,
+      });
+    }
+  }
+  const conflict = supplyTypeConflict(inv.supply_type, inv.seller_state_code, inv.buyer_state_code);
+  if (conflict) issues.push({ code: 'supply_type_mismatch', message: conflict });
+  return issues;
+}
@@ -0,0 +1,225 @@
+/**
+ * Bundled HSN/SAC master.
+ *
+ * Covers the headings our clients bill most often, at 4- or 6-digit level.
+ * An 8-digit tariff code on an invoice resolves to its longest listed prefix.
+ * Codes that aren't listed are never flagged — only a code we know whose
+ * `gst_rate` falls outside its applicable slabs.
+ *
+ * Rates changed for many headings with the GST rate rationalisation effective
+ * 22-Sep-2025; `previous` holds the slabs for invoices dated before that.
+ * Compensation cess ended then for everything but tobacco and pan masala.
+ */
+
+import type { CaInvoice, InvoiceLineItem } from '@/services/caInvoiceService';
+
+export const GST_RATE_REVISION_DATE = '2025-09-22';
+
+export interface HsnRates {
+  rates: number[];
+  /** Ad valorem compensation cess, % of taxable value. */
+  cess_rate?: number;
+}
+
+export interface HsnEntry extends HsnRates {
+  code: string;
+  description: string;
+  kind: 'HSN' | 'SAC';
+  previous?: HsnRates;
+}
+
+const h = (code: string, description: string, rates: number[], previous?: HsnRates, cess_rate?: number): HsnEntry =>
+  ({ code, description, kind: 'HSN', rates, previous, cess_rate });
+const s = (code: string, description: string, rates: number[], previous?: HsnRates, cess_rate?: number): HsnEntry =>
+  ({ code, description, kind: 'SAC', rates, previous, cess_rate });
+
+export const HSN_MASTER: HsnEntry[] = [
+  // Food & beverages
+  h('0401', 'Milk and cream, fresh', [0]),
+  h('0402', 'Milk powder, condensed milk', [5]),
+  h('0405', 'Butter, ghee and dairy spreads', [5], { rates: [12] }),
+  h('0406', 'Cheese and paneer', [0, 5], { rates: [0, 12] }),
+  h('0702', 'Tomatoes, fresh', [0]),
+  h('0713', 'Dried pulses', [0, 5]),
+  h('0901', 'Coffee', [5]),
+  h('0902', 'Tea', [5]),
+  h('1001', 'Wheat', [0, 5]),
+  h('1006', 'Rice', [0, 5]),
+  h('1101', 'Wheat flour (atta, maida)', [0, 5]),
+  h('1507', 'Soya-bean oil', [5]),
+  h('1511', 'Palm oil', [5]),
+  h('1512', 'Sunflower / cotton-seed oil', [5]),
+  h('1701', 'Cane or beet sugar', [5]),
+  h('1704', 'Sugar confectionery', [5], { rates: [18] }),
+  h('1806', 'Chocolate and cocoa preparations', [5], { rates: [18] }),
+  h('1905', 'Bread, biscuits, cakes and pastries', [0, 5], { rates: [0, 5, 18] }),
+  h('2101', 'Coffee / tea extracts, instant coffee', [5], { rates: [18] }),
+  h('2106', 'Food preparations n.e.s. (namkeen, mixes)', [5, 18], { rates: [5, 12, 18] }),
+  h('21069020', 'Pan masala', [28], undefined, 60),
+  h('2201', 'Packaged drinking / mineral water', [5], { rates: [18] }),
+  h('2202', 'Aerated and sweetened beverages', [40], { rates: [28], cess_rate: 12 }),
+  h('2401', 'Unmanufactured tobacco and tobacco refuse', [28], undefined, 71),
+  h('24039910', 'Chewing tobacco', [28], undefined, 160),
+
+  // Chemicals, pharma, FMCG
+  h('2523', 'Cement', [18], { rates: [28] }),
+  h('2710', 'Lubricating oils and greases', [18]),
+  h('3004', 'Medicaments, packaged for retail', [0, 5], { rates: [5, 12] }),
+  h('3304', 'Beauty and make-up preparations', [18]),
+  h('3305', 'Hair oil, shampoo and hair preparations', [5], { rates: [18] }),
+  h('3306', 'Toothpaste and oral hygiene preparations', [5], { rates: [18] }),
+  h('3401', 'Soap', [5], { rates: [18] }),
+  h('3402', 'Detergents and cleaning preparations', [18]),
+  h('3923', 'Plastic packing articles (boxes, bags, bottles)', [18]),
+  h('4011', 'New pneumatic tyres', [18], { rates: [28] }),
+  h('4202', 'Trunks, suitcases, handbags', [18]),
+  h('4901', 'Printed books', [0]),
+
+  // Textiles & footwear
+  h('5208', 'Woven cotton fabrics', [5]),
+  h('6109', 'T-shirts and vests, knitted', [5, 18], { rates: [5, 12] }),
+  h('6203', "Men's suits, trousers and shorts", [5, 18], { rates: [5, 12] }),
+  h('6204', "Women's suits, dresses and skirts", [5, 18], { rates: [5, 12] }),
+  h('6403', 'Footwear with leather uppers', [5, 18], { rates: [12, 18] }),
+
+  // Building materials & metals
+  h('6907', 'Ceramic tiles', [18]),
+  h('7108', 'Gold, unwrought or semi-manufactured', [3]),
+  h('7113', 'Jewellery of precious metal', [3]),
+  h('7210', 'Flat-rolled iron / steel, coated', [18]),
+  h('7308', 'Iron / steel structures', [18]),
+  h('7318', 'Screws, bolts, nuts and washers', [18]),
+  h('7323', 'Steel kitchen and household utensils', [5], { rates: [12] }),
+
+  // Machinery & electronics
+  h('8414', 'Pumps, compressors and fans', [18]),
+  h('8415', 'Air conditioners', [18], { rates: [28] }),
+  h('8418', 'Refrigerators and freezers', [18]),
+  h('8422', 'Dishwashers and packing machinery', [18], { rates: [18, 28] }),
+  h('8443', 'Printers, copiers and parts', [18]),
+  h('8450', 'Washing machines', [18]),
+  h('8471', 'Computers, laptops and peripherals', [18]),
+  h('8504', 'Transformers, UPS and chargers', [18]),
+  h('8507', 'Batteries (accumulators)', [18], { rates: [18, 28] }),
+  h('8517', 'Mobile phones and network equipment', [18]),
+  h('8528', 'Monitors and television sets', [18], { rates: [18, 28] }),
+  h('8544', 'Insulated wires and cables', [18]),
+  h('8703', 'Motor cars', [18, 40], { rates: [28] }),
+  h('8708', 'Motor vehicle parts and accessories', [18], { rates: [28] }),
+  h('8711', 'Motorcycles and scooters', [18, 40], { rates: [28] }),
+  h('8712', 'Bicycles', [5], { rates: [12] }),
+  h('9401', 'Seats and chairs', [18]),
+  h('9403', 'Furniture', [18]),
+  h('9503', 'Toys', [5], { rates: [12] }),
+
+  // Services
+  s('9954', 'Construction services', [1, 5, 18], { rates: [1, 5, 12, 18] }),
+  s('9961', 'Wholesale trade services', [18]),
+  s('9962', 'Retail trade services', [18]),
+  s('9963', 'Accommodation and food services', [0, 5, 18], { rates: [0, 5, 12, 18] }),
+  s('996311', 'Hotel room accommodation', [0, 5, 18], { rates: [0, 12, 18] }),
+  s('996331', 'Restaurant and food serving services', [5, 18]),
+  s('9964', 'Passenger transport services', [0, 5, 18], { rates: [0, 5, 12, 18] }),
+  s('9965', 'Goods transport services (GTA)', [5, 18], { rates: [5, 12] }),
+  s('9966', 'Rental of transport vehicles with operator', [5, 18], { rates: [5, 12, 18] }),
+  s('9967', 'Supporting transport services (cargo handling, warehousing)', [18]),
+  s('9968', 'Postal and courier services', [18]),
+  s('9971', 'Financial and related services', [18]),
+  s('9972', 'Real estate services (incl. rent)', [0, 18]),
+  s('9973', 'Leasing or rental services without operator', [18]),
+  s('9982', 'Legal and accounting services', [18]),
+  s('9983', 'Professional, technical and business services', [18]),
+  s('998314', 'IT design and development services', [18]),
+  s('9984', 'Telecommunication and internet services', [18]),
+  s('9985', 'Support services (manpower, security, cleaning)', [18]),
+  s('998596', 'Event management services', [18]),
+  s('9987', 'Maintenance, repair and installation services', [18]),
+  s('9988', 'Manufacturing services on inputs owned by others (job work)', [5, 12, 18]),
+  s('9992', 'Education services', [0, 18]),
+  s('9993', 'Health care services', [0, 18]),
+  s('9996', 'Recreational, cultural and sporting services', [18]),
+  s('9997', 'Other services (laundry, beauty, salon)', [5, 18], { rates: [18] }),
+];
+
+const BY_CODE = new Map(HSN_MASTER.map((e) => [e.code, e]));
+
+export function normalizeHsn(raw: string): string {
+  return (raw || '').replace(/[\s.]/g, '');
+}
+
+/** Longest listed prefix of an HSN/SAC code, e.g. 84713010 → 8471. */
+export function findHsn(raw: string): HsnEntry | undefined {
+  const code = normalizeHsn(raw);
+  for (let len = Math.min(code.length, 8); len >= 4; len--) {
+    const entry = BY_CODE.get(code.slice(0, len));
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+/** Accepts YYYY-MM-DD as well as DD-MM-YYYY / DD/MM/YYYY; returns YYYY-MM-DD or null. */
+function isoDate(raw?: string): string | null {
+  if (!raw) return null;
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dmy = raw.match(/^(\d{2})[-/](\d{2})[-/](\d{4})/);
+  return dmy ? `${dmy[3]}-${dmy[2]}-${dmy[1]}` : null;
+}
+
+/**
+ * Slabs that applied to a code on the invoice date. With no usable date,
+ * either era's slabs are accepted.
+ */
+export function ratesOn(entry: HsnEntry, invoiceDate?: string): HsnRates {
+  if (!entry.previous) return entry;
+  const date = isoDate(invoiceDate);
+  if (!date) {
+    return { rates: [...new Set([...entry.rates, ...entry.previous.rates])].sort((a, b) => a - b) };
+  }
+  return date < GST_RATE_REVISION_DATE ? entry.previous : entry;
+}
+
+/** Rate to pre-fill when a code is picked — only when the heading has a single slab. */
+export function suggestedRate(entry: HsnEntry, invoiceDate?: string): number | undefined {
+  const { rates } = ratesOn(entry, invoiceDate);
+  return rates.length === 1 ? rates[0] : undefined;
+}
+
+const HSN_FORMAT = /^(\d{4}|\d{6}|\d{8})$/;
+
+export type HsnIssueCode = 'invalid_hsn' | 'hsn_rate_mismatch';
+
+export interface HsnIssue {
+  code: HsnIssueCode;
+  message: string;
+}
+
+/** Problems with one line item's HSN/SAC code and GST rate, or null if none. */
+export function checkLineItemHsn(
+  item: Pick<InvoiceLineItem, 'hsn_sac_code' | 'gst_rate'>,
+  invoiceDate?: string,
+): HsnIssue | null {
+  const code = normalizeHsn(item.hsn_sac_code);
+  if (!code) return null;
+  if (!HSN_FORMAT.test(code)) {
+    return { code: 'invalid_hsn', message: `HSN/SAC "${item.hsn_sac_code}" should be 4, 6 or 8 digits` };
+  }
+  const entry = findHsn(code);
+  if (!entry) return null;
+  const { rates } = ratesOn(entry, invoiceDate);
+  if (rates.includes(item.gst_rate)) return null;
+  return {
+    code: 'hsn_rate_mismatch',
+    message: `GST ${item.gst_rate}% is not valid for ${entry.kind} ${entry.code} (${entry.description}) — expected ${rates.map((r) => `${r}%`).join(' / ')}`,
+  };
+}
+
+/** HSN issues across all line items, prefixed with the line number. */
+export function checkInvoiceHsn(inv: Pick<CaInvoice, 'line_items' | 'invoice_date'>): HsnIssue[] {
+  const issues: HsnIssue[] = [];
+  (inv.line_items || []).forEach((item, i) => {
+    const issue = checkLineItemHsn(item, inv.invoice_date);
+    if (issue) issues.push({ ...issue, message: `Line ${i + 1}: ${issue.message}` });
+  });
+  return issues;
+}
@@ -0,0 +1,135 @@
+/**
+ * Expense-ledger classification for purchase lines.
+ *
+ * The backend classifies on extraction; the same rules run here so the
+ * invoice editor can reclassify a line as its description or HSN is edited,
+ * and so a reviewer's ledger change can be turned into a rule proposal.
+ */
+
+import type {
+  InvoiceLineItem,
+  LedgerCorrection,
+  LedgerRule,
+  LedgerRuleMatch,
+  LedgerRuleRef,
+} from '@/services/caInvoiceService';
+
+export const MATCH_LABELS: Record<LedgerRuleMatch, string> = {
+  vendor: 'Vendor',
+  hsn_prefix: 'HSN/SAC starts with',
+  keyword: 'Description contains',
+};
+
+/** Ties on priority go to the narrower match. */
+const SPECIFICITY: Record<LedgerRuleMatch, number> = { vendor: 3, hsn_prefix: 2, keyword: 1 };
+
+/** Learned rules key on HSN chapter + heading — narrower codes are often misprinted. */
+const LEARNED_HSN_DIGITS = 4;
+
+export function describeRule(rule: LedgerRuleRef): string {
+  switch (rule.match) {
+    case 'vendor':
+      return `vendor ${rule.vendor_name || 'match'}`;
+    case 'hsn_prefix':
+      return `HSN ${rule.value}…`;
+    case 'keyword':
+      return `“${rule.value}” in description`;
+  }
+}
+
+export const ruleRef = (rule: LedgerRule): LedgerRuleRef => ({
+  id: rule.id,
+  match: rule.match,
+  value: rule.value,
+  source: rule.source,
+  vendor_name: rule.vendor_name,
+});
+
+function matches(rule: LedgerRule, item: Pick<InvoiceLineItem, 'description' | 'hsn_sac_code'>, vendorId?: string): boolean {
+  switch (rule.match) {
+    case 'vendor':
+      return !!vendorId && rule.value === vendorId;
+    case 'hsn_prefix': {
+      const hsn = (item.hsn_sac_code || '').replace(/\D/g, '');
+      return !!rule.value && hsn.startsWith(rule.value);
+    }
+    case 'keyword': {
+      const needle = rule.value.trim().toLowerCase();
+      return !!needle && (item.description || '').toLowerCase().includes(needle);
+    }
+  }
+}
+
+/** The rule that classifies a purchase line, if any. */
+export function classifyLine(
+  item: Pick<InvoiceLineItem, 'description' | 'hsn_sac_code'>,
+  vendorId: string | undefined,
+  rules: LedgerRule[],
+): LedgerRule | undefined {
+  return rules
+    .filter((r) => r.enabled && matches(r, item, vendorId))
+    .sort((a, b) => b.priority - a.priority || SPECIFICITY[b.match] - SPECIFICITY[a.match])[0];
+}
+
+/**
+ * Re-run classification on a line whose ledger came from a rule (or was
+ * never set). A ledger picked by hand is left alone.
+ */
+export function reclassifyLine(item: InvoiceLineItem, vendorId: string | undefined, rules: LedgerRule[]): InvoiceLineItem {
+  if (item.ledger && !item.ledger_rule) return item;
+  const rule = classifyLine(item, vendorId, rules);
+  if (rule) return { ...item, ledger: rule.ledger, ledger_rule: ruleRef(rule) };
+  return item.ledger_rule ? { ...item, ledger: undefined, ledger_rule: undefined } : item;
+}
+
+const STOPWORDS = new Set([
+  'and', 'for', 'the', 'with', 'from', 'charges', 'charge', 'service', 'services', 'amount', 'total',
+  'month', 'bill', 'invoice', 'nos', 'pcs', 'qty', 'per', 'being',
+]);
+
+/** The most telling word of a description: the longest that isn't filler, a unit or a number. */
+export function keywordOf(description: string): string | null {
+  const words = description
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((w) => w.length >= 4 && !STOPWORDS.has(w));
+  return words.sort((a, b) => b.length - a.length)[0] || null;
+}
+
+/**
+ * The rule to propose from a reviewer moving a line to `ledger`. When every
+ * line of a vendor's bill goes to one ledger the vendor is the signal;
+ * otherwise the HSN heading, then a keyword from the description.
+ */
+export function proposeRule(
+  item: Pick<InvoiceLineItem, 'description' | 'hsn_sac_code'>,
+  opts: { vendorId?: string; wholeInvoice: boolean },
+): { match: LedgerRuleMatch; value: string } | null {
+  if (opts.vendorId && opts.wholeInvoice) return { match: 'vendor', value: opts.vendorId };
+  const hsn = (item.hsn_sac_code || '').replace(/\D/g, '');
+  if (hsn.length >= LEARNED_HSN_DIGITS) return { match: 'hsn_prefix', value: hsn.slice(0, LEARNED_HSN_DIGITS) };
+  const keyword = keywordOf(item.description || '');
+  return keyword ? { match: 'keyword', value: keyword } : null;
+}
+
+/** Lines whose ledger a reviewer changed by hand, as rule proposals — one per distinct rule. */
+export function ledgerCorrections(
+  invoiceId: string,
+  before: InvoiceLineItem[],
+  after: InvoiceLineItem[],
+  vendorId?: string,
+): LedgerCorrection[] {
+  const changed = after
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => item.ledger && !item.ledger_rule && item.ledger !== before[index]?.ledger);
+  const wholeInvoice = changed.length > 0 && after.every((l) => l.ledger === changed[0].item.ledger);
+  const seen = new Set<string>();
+  const corrections: LedgerCorrection[] = [];
+  for (const { item, index } of changed) {
+    const rule = proposeRule(item, { vendorId, wholeInvoice });
+    if (!rule || seen.has(`${rule.match}|${rule.value}`)) continue;
+    seen.add(`${rule.match}|${rule.value}`);
+    corrections.push({ invoice_id: invoiceId, line_index: index, ...rule, ledger: item.ledger! });
+  }
+  return corrections;
+}
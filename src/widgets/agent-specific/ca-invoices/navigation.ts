@@ -0,0 +1,33 @@
+/**
+ * Cross-tab navigation with a payload.
+ *
+ * DashboardHome only switches tabs on `dashboard:navigate-tab`; widgets on the
+ * target tab are lazy-loaded and mount after the event has fired, so any extra
+ * detail (an invoice to focus, a view to open) is parked here and picked up by
+ * the target widget on mount.
+ */
+
+import { useConfig } from '@/config/ConfigProvider';
+
+export type NavigationIntent = Record<string, unknown> & { tabId: string };
+
+let pending: NavigationIntent | null = null;
+
+export function navigateTab(tabId: string, extra?: Record<string, unknown>) {
+  pending = extra && Object.keys(extra).length > 0 ? { tabId, ...extra } : null;
+  window.dispatchEvent(new CustomEvent('dashboard:navigate-tab', { detail: { tabId, ...extra } }));
+}
+
+/** Id of the tab showing a widget of this type, or undefined when the dashboard layout has none. */
+export function useWidgetTab(widgetType: string): string | undefined {
+  const { dashboardConfig } = useConfig();
+  return dashboardConfig?.tabs?.find((t) => t.widgets.some((w) => w.type === widgetType))?.id;
+}
+
+/** Returns and clears the pending intent if it targets `tabId`. */
+export function takeNavigationIntent(tabId: string): NavigationIntent | null {
+  if (!pending || pending.tabId !== tabId) return null;
+  const intent = pending;
+  pending = null;
+  return intent;
+}
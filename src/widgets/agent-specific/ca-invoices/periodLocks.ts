@@ -0,0 +1,82 @@
+/**
+ * Filing periods and their locks.
+ *
+ * Months are keyed "2025-04". Quarters follow the financial year, keyed by its
+ * start year: "2025-Q1" is Apr–Jun 2025, "2025-Q4" is Jan–Mar 2026.
+ */
+
+import type { PeriodLock } from '@/services/caInvoiceService';
+
+export type PeriodType = PeriodLock['period_type'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Period containing a date (ISO "YYYY-MM-DD" or a Date). */
+export function periodOf(type: PeriodType, date: string | Date): string {
+  const d = typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+  const y = d.getFullYear();
+  const m = d.getMonth() + 1;
+  if (type === 'month') return `${y}-${pad(m)}`;
+  const fyStart = m >= 4 ? y : y - 1;
+  const q = m >= 4 ? Math.floor((m - 4) / 3) + 1 : 4;
+  return `${fyStart}-Q${q}`;
+}
+
+/** First and last day of a period, ISO. */
+export function periodBounds(type: PeriodType, period: string): { start: string; end: string } {
+  let year: number;
+  let firstMonth: number; // 1-based
+  let months: number;
+  if (type === 'month') {
+    [year, firstMonth] = period.split('-').map(Number);
+    months = 1;
+  } else {
+    const [fy, q] = period.split('-Q').map(Number);
+    firstMonth = 4 + (q - 1) * 3;
+    year = firstMonth > 12 ? fy + 1 : fy;
+    if (firstMonth > 12) firstMonth -= 12;
+    months = 3;
+  }
+  const last = new Date(year, firstMonth - 1 + months, 0);
+  return {
+    start: `${year}-${pad(firstMonth)}-01`,
+    end: `${last.getFullYear()}-${pad(last.getMonth() + 1)}-${pad(last.getDate())}`,
+  };
+}
+
+/** "Apr 2025" / "Q1 FY 25–26 (Apr–Jun)". */
+export function periodLabel(type: PeriodType, period: string): string {
+  if (type === 'month') {
+    const [y, m] = period.split('-').map(Number);
+    return `${MONTHS[m - 1]} ${y}`;
+  }
+  const [fy, q] = period.split('-Q').map(Number);
+  const first = (3 + (q - 1) * 3) % 12;
+  return `Q${q} FY ${String(fy).slice(2)}–${String(fy + 1).slice(2)} (${MONTHS[first]}–${MONTHS[(first + 2) % 12]})`;
+}
+
+/** The current period and the `count - 1` before it, newest first. */
+export function recentPeriods(type: PeriodType, count: number, from: Date = new Date()): string[] {
+  const step = type === 'month' ? 1 : 3;
+  const out: string[] = [];
+  for (let i = 0; out.length < count; i++) {
+    const key = periodOf(type, new Date(from.getFullYear(), from.getMonth() - i * step, 1));
+    if (!out.includes(key)) out.push(key);
+  }
+  return out;
+}
+
+/** Why an invoice in a locked period can't be changed — shown on the invoice and its row actions. */
+export function lockedInvoiceMessage(lock: Pick<PeriodLock, 'period_type' | 'period' | 'note'>): string {
+  return `${periodLabel(lock.period_type, lock.period)} is locked for this client${lock.note ? ` (${lock.note})` : ''}. `
+    + 'The invoice is read-only and won\'t be exported again.';
+}
+
+export const isActiveLock = (lock: PeriodLock) => !lock.unlocked_at;
+
+/** The active lock covering a date, if any. */
+export function lockCovering(locks: PeriodLock[], date: string): PeriodLock | undefined {
+  return locks.find((l) => isActiveLock(l) && l.start_date <= date && date <= l.end_date);
+}
@@ -0,0 +1,74 @@
+/**
+ * Rejection reason catalogue and the WhatsApp reply templates that go with it.
+ *
+ * The practice can edit the catalogue; until it saves one the defaults below
+ * apply. Templates use the placeholders in REJECTION_PLACEHOLDERS, filled per
+ * invoice (the backend does the same substitution when it sends).
+ */
+
+import {
+  caInvoiceService,
+  type CaInvoice,
+  type RejectionReason,
+} from '@/services/caInvoiceService';
+
+export const REJECTION_PLACEHOLDERS = ['{invoice_number}', '{invoice_date}', '{seller_name}', '{note}'];
+
+export const DEFAULT_REJECTION_REASONS: RejectionReason[] = [
+  {
+    code: 'blurry',
+    label: 'Blurry or unreadable photo',
+    message: 'We could not read invoice {invoice_number} from {seller_name} — the photo is blurry or cut off. Please send a clearer photo or the PDF.',
+  },
+  {
+    code: 'wrong_gstin',
+    label: 'Wrong or missing GSTIN',
+    message: 'Invoice {invoice_number} from {seller_name} does not show your correct GSTIN, so input tax credit cannot be claimed. Please ask the seller for a corrected invoice.',
+  },
+  {
+    code: 'not_tax_invoice',
+    label: 'Not a tax invoice',
+    message: 'The document from {seller_name} looks like a quotation, proforma or delivery challan, not a tax invoice. Please send the final tax invoice.',
+  },
+  {
+    code: 'duplicate',
+    label: 'Duplicate',
+    message: 'Invoice {invoice_number} from {seller_name} has already been received, so this copy was not recorded again.',
+  },
+  {
+    code: 'incomplete',
+    label: 'Pages missing',
+    message: 'Invoice {invoice_number} from {seller_name} seems to have pages missing. Please send all pages together.',
+  },
+  {
+    code: 'other',
+    label: 'Other',
+    message: 'Invoice {invoice_number} from {seller_name} could not be recorded: {note}',
+  },
+];
+
+/** The saved catalogue, or the defaults when none has been saved (or it can't be loaded). */
+export async function loadRejectionReasons(): Promise<RejectionReason[]> {
+  try {
+    const reasons = await caInvoiceService.getRejectionReasons();
+    return reasons.length > 0 ? reasons : DEFAULT_REJECTION_REASONS;
+  } catch {
+    return DEFAULT_REJECTION_REASONS;
+  }
+}
+
+/** Fill a template for one invoice. A note with no {note} slot is appended. */
+export function renderRejectionMessage(
+  template: string,
+  inv: Pick<CaInvoice, 'invoice_number' | 'invoice_date' | 'seller_name'>,
+  note?: string,
+): string {
+  const trimmed = note?.trim() || '';
+  let text = template
+    .replace(/\{invoice_number\}/g, inv.invoice_number || 'your invoice')
+    .replace(/\{invoice_date\}/g, inv.invoice_date || '')
+    .replace(/\{seller_name\}/g, inv.seller_name || 'the seller')
+    .replace(/\{note\}/g, trimmed);
+  if (trimmed && !template.includes('{note}')) text += `\n\n${trimmed}`;
+  return text.trim();
+}
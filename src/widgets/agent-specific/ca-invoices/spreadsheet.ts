@@ -0,0 +1,154 @@
+/**
+ * Reading tabular uploads — CSV and Excel (.xlsx) — into rows of strings.
+ *
+ * An .xlsx file is a zip of XML parts. Only the first worksheet is read, and
+ * values come through unformatted: numbers as their raw digits, dates as
+ * Excel serials. Decompression uses the browser's DecompressionStream, so no
+ * spreadsheet library is needed. Legacy binary .xls files aren't supported.
+ */
+
+/** Split CSV text into rows. Quoted fields may contain separators, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  // Excel in some locales saves with semicolons; tab-separated pastes are common too
+  const sep = [',', ';', '\t'].reduce((best, c) =>
+    firstLine.split(c).length > firstLine.split(best).length ? c : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === sep) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.map((r) => r.map((v) => v.trim())).filter((r) => r.some((v) => v !== ''));
+}
+
+/* ─── Zip ──────────────────────────────────────────── */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // End of central directory record — scan back past any archive comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break;
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    entries.set(decoder.decode(bytes.subarray(p + 46, p + 46 + nameLen)), {
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      localOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localOffset + 30
+    + view.getUint16(entry.localOffset + 26, true)
+    + view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported compression in .xlsx file');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/* ─── Xlsx ─────────────────────────────────────────── */
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+/** "AB12" → 27 (zero-based column). */
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/[0-9]/g, '')) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/** Rows of the first worksheet of an .xlsx workbook. */
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipDirectory(bytes);
+  const part = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await readZipEntry(bytes, entry)) : null;
+  };
+
+  // The first sheet in workbook order, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const [workbook, rels] = await Promise.all([part('xl/workbook.xml'), part('xl/_rels/workbook.xml.rels')]);
+  const relId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = relId && Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .find((r) => r.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const shared = Array.from((await part('xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+    // Rich-text strings are split into runs; phonetic hints (rPh) aren't part of the value
+    .map((si) => Array.from(si.getElementsByTagName('t'))
+      .filter((t) => t.parentElement?.tagName !== 'rPh')
+      .map((t) => t.textContent || '')
+      .join(''));
+
+  const sheet = await part(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const c of Array.from(rowEl.getElementsByTagName('c'))) {
+      const type = c.getAttribute('t');
+      const v = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      const value = type === 's'
+        ? shared[Number(v)] ?? ''
+        : type === 'inlineStr'
+          ? Array.from(c.getElementsByTagName('t')).map((t) => t.textContent || '').join('')
+          : v;
+      const ref = c.getAttribute('r');
+      row[ref ? columnIndex(ref) : row.length] = value.trim();
+    }
+    rows.push(Array.from(row, (v) => v ?? ''));
+  }
+  return rows.filter((r) => r.some((v) => v !== ''));
+}
+
+/** Rows of a CSV or .xlsx upload, header row first. */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return readXlsx(await file.arrayBuffer());
+  if (name.endsWith('.xls')) throw new Error('Old .xls workbooks aren’t supported — save it as .xlsx or CSV and upload again.');
+  return parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+}
@@ -0,0 +1,135 @@
+/**
+ * Rate-table-driven Tally ledger keys.
+ *
+ * A TallyConfig maps ledgers per GST rate slab: `local_sale_<rate>`,
+ * `interstate_sale_<rate>`, `output_igst_<rate>` and `output_cgst_<half>` /
+ * `output_sgst_<half>` (same for input). The slab list lives in
+ * `rate_slabs`; configs saved before it existed use the five standard slabs.
+ * Cess goes to `output_cess_<rate>` / `input_cess_<rate>` when that cess rate
+ * has its own ledger, else to the catch-all `output_cess` / `input_cess`.
+ */
+
+import type { CaInvoice, TallyConfig } from '@/services/caInvoiceService';
+import { voucherSide } from './vouchers';
+
+export const DEFAULT_RATE_SLABS = ['0', '5', '12', '18', '28'];
+
+/** Half-rate keys the backend has always used for the standard slabs (2.5% → "2"). */
+const LEGACY_HALF: Record<string, string> = {
+  '0': '0',
+  '5': '2',
+  '12': '6',
+  '18': '9',
+  '28': '14',
+};
+
+export function rateSlabs(cfg: TallyConfig): string[] {
+  return cfg.rate_slabs?.length ? cfg.rate_slabs : DEFAULT_RATE_SLABS;
+}
+
+export function cessSlabs(cfg: TallyConfig): string[] {
+  return cfg.cess_slabs || [];
+}
+
+/** Canonical string form of a rate: "3", "0.25", "1.5". Null if not a valid percentage. */
+export function normalizeRate(raw: string | number): string | null {
+  const n = typeof raw === 'number' ? raw : parseFloat(String(raw).trim());
+  if (!Number.isFinite(n) || n < 0 || n > 100) return null;
+  return String(Math.round(n * 1000) / 1000);
+}
+
+export function sortRates(rates: string[]): string[] {
+  return [...rates].sort((a, b) => parseFloat(a) - parseFloat(b));
+}
+
+export function halfRateKey(rate: string): string {
+  return LEGACY_HALF[rate] ?? String(Math.round((parseFloat(rate) / 2) * 1000) / 1000);
+}
+
+export function ledgerKeys(rate: string) {
+  const half = halfRateKey(rate);
+  return {
+    local_sale: `local_sale_${rate}`,
+    interstate_sale: `interstate_sale_${rate}`,
+    output_cgst: `output_cgst_${half}`,
+    output_sgst: `output_sgst_${half}`,
+    output_igst: `output_igst_${rate}`,
+    input_cgst: `input_cgst_${half}`,
+    input_sgst: `input_sgst_${half}`,
+    input_igst: `input_igst_${rate}`,
+  };
+}
+
+export function cessLedgerKeys(rate: string) {
+  return { output_cess: `output_cess_${rate}`, input_cess: `input_cess_${rate}` };
+}
+
+/** Every ledger key the config can hold — used by the XML auto-fill. */
+export function allLedgerKeys(cfg: TallyConfig): string[] {
+  return [
+    ...rateSlabs(cfg).flatMap((r) => Object.values(ledgerKeys(r))),
+    'output_cess',
+    'input_cess',
+    ...cessSlabs(cfg).flatMap((r) => Object.values(cessLedgerKeys(r))),
+  ];
+}
+
+export interface LedgerIssue {
+  code: 'unmapped_rate' | 'unmapped_cess';
+  message: string;
+}
+
+const mapped = (cfg: TallyConfig, key: string) => {
+  const v = cfg[key];
+  return typeof v === 'string' && v.trim() !== '';
+};
+
+/** Rates and cess on an invoice that the Tally mapping has no ledger for. */
+export function checkInvoiceLedgers(
+  inv: Pick<CaInvoice, 'line_items' | 'voucher_type' | 'note_side' | 'supply_type'>,
+  cfg: TallyConfig,
+): LedgerIssue[] {
+  const issues: LedgerIssue[] = [];
+  const isSales = voucherSide(inv) === 'sales';
+  const isInter = inv.supply_type === 'Inter-State';
+  const side = isSales ? 'output' : 'input';
+  const seenRates = new Set<string>();
+  let cessReported = false;
+
+  for (const item of inv.line_items || []) {
+    const rate = normalizeRate(item.gst_rate);
+    if (rate !== null && !seenRates.has(rate)) {
+      seenRates.add(rate);
+      const keys = ledgerKeys(rate);
+      const needed: Array<[string, string]> = [];
+      if (isSales) needed.push(isInter ? [keys.interstate_sale, 'Interstate Sale'] : [keys.local_sale, 'Local Sale']);
+      if (parseFloat(rate) > 0) {
+        if (isInter) {
+          needed.push([isSales ? keys.output_igst : keys.input_igst, `${isSales ? 'Output' : 'Input'} IGST`]);
+        } else {
+          const half = parseFloat(rate) / 2;
+          needed.push([isSales ? keys.output_cgst : keys.input_cgst, `${isSales ? 'Output' : 'Input'} CGST @${half}%`]);
+          needed.push([isSales ? keys.output_sgst : keys.input_sgst, `${isSales ? 'Output' : 'Input'} SGST @${half}%`]);
+        }
+      }
+      const missing = needed.filter(([key]) => !mapped(cfg, key)).map(([, label]) => label);
+      if (missing.length > 0) {
+        issues.push({ code: 'unmapped_rate', message: `No Tally ledger for GST ${rate}% — ${missing.join(', ')}` });
+      }
+    }
+
+    if (!cessReported && item.cess_amount > 0) {
+      const cessRate = item.taxable_amount > 0 ? normalizeRate(Math.round((item.cess_amount / item.taxable_amount) * 10000) / 100) : null;
+      const slab = cessRate !== null && cessSlabs(cfg).includes(cessRate) ? cessRate : null;
+      const slabMapped = slab !== null && mapped(cfg, cessLedgerKeys(slab)[`${side}_cess`]);
+      if (!slabMapped && !mapped(cfg, `${side}_cess`)) {
+        issues.push({
+          code: 'unmapped_cess',
+          message: `No ${side === 'output' ? 'Output' : 'Input'} Cess ledger${slab ? ` for ${slab}% cess` : ''} mapped`,
+        });
+        cessReported = true;
+      }
+    }
+  }
+  return issues;
+}
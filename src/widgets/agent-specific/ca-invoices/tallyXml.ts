@@ -0,0 +1,222 @@
+/* ─── Tally XML Parser ──────────────────────────────────────
+   Parses Tally XML exports in two formats:
+   1. Masters export: <LEDGER NAME="..."> elements
+   2. Voucher/All-Masters export: <LEDGERNAME> within <ALLEDGERENTRIES.LIST>
+
+   Also extracts company name from <SVCURRENTCOMPANY>, and party details
+   (GSTIN, PAN, address, state, phones) from ledger and company masters.
+   Handles both UTF-8 and UTF-16 LE encodings from Tally Prime.
+─────────────────────────────────────────────────────────────── */
+
+import { GST_STATE_CODES } from './gstin';
+
+export interface ParsedLedger {
+  name: string;
+  parent: string;
+}
+
+export interface ParsedTallyData {
+  ledgers: ParsedLedger[];
+  companyName?: string;
+}
+
+/** Decode ArrayBuffer handling UTF-16 LE BOM (FF FE) that Tally Prime uses.
+    Strips the BOM character (\uFEFF) so DOMParser doesn't reject the string. */
+export function decodeTallyBuffer(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let text: string;
+  // Detect UTF-16 LE BOM: 0xFF 0xFE
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    text = new TextDecoder('utf-16le').decode(buffer);
+  // Detect UTF-16 BE BOM: 0xFE 0xFF
+  } else if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    text = new TextDecoder('utf-16be').decode(buffer);
+  } else {
+    text = new TextDecoder('utf-8').decode(buffer);
+  }
+  // Strip BOM character that TextDecoder leaves in the string
+  return text.replace(/^\uFEFF/, '');
+}
+
+/** Strip wide-character spaces: Tally sometimes emits UTF-16 as UTF-8
+    resulting in spaces between every character (e.g. "< E N V E L O P E >").
+    Detect this pattern and compact it. */
+function normalizeSpacedXML(text: string): string {
+  // If every other character is a space for >20 chars, it's wide-spaced
+  const sample = text.slice(0, 40);
+  const everyOtherIsSpace = sample.length > 20 &&
+    Array.from(sample).every((ch, i) => i % 2 === 1 ? ch === ' ' : true);
+  if (everyOtherIsSpace) {
+    return text.replace(/ /g, '');
+  }
+  return text;
+}
+
+/** Clean up Tally's quirks and parse. Throws on malformed XML. */
+function parseTallyDocument(xmlText: string): Document {
+  let normalized = normalizeSpacedXML(xmlText);
+
+  // Remove XML encoding declaration — DOMParser rejects encoding="UTF-16"
+  // when fed a pre-decoded JS string. The string is already Unicode at this point.
+  normalized = normalized.replace(/(<\?xml\b[^?]*?)(\s+encoding=["'][^"']*["'])([^?]*?\?>)/, '$1$3');
+
+  // Remove &#N; references to control characters illegal in XML 1.0
+  // Tally uses &#4; (EOT) to represent "Not Applicable". Strip them.
+  normalized = normalized.replace(/&#([0-9]+);/g, (match, num) => {
+    const code = parseInt(num, 10);
+    // XML 1.0 legal chars: #x9 | #xA | #xD | [#x20-#xD7FF]
+    if (code === 9 || code === 10 || code === 13 || (code >= 32 && code <= 55295)) {
+      return match; // keep valid ones
+    }
+    return ''; // strip illegal control chars like &#4;
+  });
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(normalized, 'application/xml');
+
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid XML file');
+  }
+  return doc;
+}
+
+export function parseTallyXML(xmlText: string): ParsedTallyData {
+  try {
+    const doc = parseTallyDocument(xmlText);
+
+    // Extract company name from static variables (voucher export format)
+    const companyEl = doc.querySelector('SVCURRENTCOMPANY');
+    const companyName = companyEl?.textContent?.trim() || undefined;
+
+    const ledgers: ParsedLedger[] = [];
+
+    // Format 1: Masters export — <LEDGER NAME="..."><PARENT>...</PARENT>
+    const masterElements = doc.querySelectorAll('LEDGER[NAME]');
+    masterElements.forEach((el) => {
+      const name = el.getAttribute('NAME')?.trim() || '';
+      const parentEl = el.querySelector('PARENT');
+      const parent = parentEl?.textContent?.trim() || 'Other';
+      if (name) ledgers.push({ name, parent });
+    });
+
+    // Format 2: Voucher/All-Masters export — extract unique LEDGERNAME values
+    // from ALLEDGERENTRIES.LIST entries. Classify by ledger name keywords.
+    if (ledgers.length === 0) {
+      const ledgerNameEls = doc.querySelectorAll('LEDGERNAME');
+      ledgerNameEls.forEach((el) => {
+        const name = el.textContent?.trim() || '';
+        if (!name) return;
+        const lower = name.toLowerCase();
+        let parent = 'Other';
+        if (lower.includes('cgst')) parent = 'Duties & Taxes (CGST)';
+        else if (lower.includes('sgst')) parent = 'Duties & Taxes (SGST)';
+        else if (lower.includes('igst')) parent = 'Duties & Taxes (IGST)';
+        else if (lower.includes('sale') || lower.includes('income')) parent = 'Sales Accounts';
+        else if (lower.includes('purchase') || lower.includes('expense')) parent = 'Purchase Accounts';
+        else if (lower.includes('debtor') || lower.includes('receivable') || lower.includes('sundry')) parent = 'Sundry Debtors';
+        else if (lower.includes('creditor') || lower.includes('payable')) parent = 'Sundry Creditors';
+        else if (lower.includes('bank') || lower.includes('cash')) parent = 'Bank / Cash';
+        ledgers.push({ name, parent });
+      });
+    }
+
+    // Deduplicate by name
+    const seen = new Set<string>();
+    const unique = ledgers.filter((l) => {
+      if (seen.has(l.name)) return false;
+      seen.add(l.name);
+      return true;
+    });
+
+    return { ledgers: unique, companyName };
+  } catch {
+    throw new Error('Could not parse Tally XML. Please upload a valid Tally data export file.');
+  }
+}
+
+/* ─── Party masters ─────────────────────────────────────────
+   A firm's clients show up in Tally two ways: as companies in a
+   "List of Companies" masters export, or as party ledgers (usually under
+   Sundry Debtors) in the firm's own books. Tag names moved between Tally
+   ERP 9 and Prime, so each field is read from the first tag present.
+─────────────────────────────────────────────────────────────── */
+
+export interface TallyPartyMaster {
+  source: 'company' | 'ledger';
+  name: string;
+  /** Ledger group; companies have none. */
+  parent?: string;
+  gstin?: string;
+  pan?: string;
+  address?: string;
+  state_code?: string;
+  phones: string[];
+}
+
+/** Text of the first descendant tag among `tags` that has any. Tag names contain dots, so no CSS selectors. */
+function firstText(el: Element, tags: string[]): string | undefined {
+  for (const tag of tags) {
+    for (const found of Array.from(el.getElementsByTagName(tag))) {
+      const text = found.textContent?.trim();
+      if (text) return text;
+    }
+  }
+  return undefined;
+}
+
+function allText(el: Element, tag: string): string[] {
+  return Array.from(el.getElementsByTagName(tag))
+    .map((e) => e.textContent?.trim() || '')
+    .filter(Boolean);
+}
+
+const STATE_BY_NAME = new Map(
+  Object.entries(GST_STATE_CODES).map(([code, name]) => [name.toLowerCase(), code]),
+);
+
+function partyFrom(el: Element, source: TallyPartyMaster['source']): TallyPartyMaster | null {
+  const name = el.getAttribute('NAME')?.trim();
+  if (!name) return null;
+  const stateName = firstText(el, ['LEDSTATENAME', 'STATENAME', 'STATE']);
+  const phones = [
+    ...allText(el, 'LEDGERMOBILE'),
+    ...allText(el, 'LEDGERPHONE'),
+    ...allText(el, 'MOBILENUMBERS'),
+    ...allText(el, 'PHONENUMBER'),
+  ].flatMap((p) => p.split(/[,/;]/)).map((p) => p.trim()).filter(Boolean);
+  return {
+    source,
+    name,
+    parent: source === 'ledger' ? firstText(el, ['PARENT']) : undefined,
+    gstin: firstText(el, ['PARTYGSTIN', 'GSTIN', 'GSTREGISTRATIONNUMBER', 'GSTREGNUMBER'])?.toUpperCase(),
+    pan: firstText(el, ['INCOMETAXNUMBER', 'PANNUMBER'])?.toUpperCase(),
+    address: allText(el, 'ADDRESS').join(', ') || undefined,
+    state_code: stateName ? STATE_BY_NAME.get(stateName.toLowerCase()) : undefined,
+    phones: [...new Set(phones)],
+  };
+}
+
+/** Companies and party ledgers in a Tally masters export, with their contact and tax details. */
+export function parseTallyParties(xmlText: string): TallyPartyMaster[] {
+  let doc: Document;
+  try {
+    doc = parseTallyDocument(xmlText);
+  } catch {
+    throw new Error('Could not parse Tally XML. Please upload a valid Tally masters export.');
+  }
+  const parties: TallyPartyMaster[] = [];
+  for (const el of Array.from(doc.getElementsByTagName('COMPANY'))) {
+    const party = partyFrom(el, 'company');
+    if (party) parties.push(party);
+  }
+  for (const el of Array.from(doc.getElementsByTagName('LEDGER'))) {
+    const party = partyFrom(el, 'ledger');
+    if (party) parties.push(party);
+  }
+  return parties;
+}
+
+/** Ledger groups that hold a firm's clients, including custom sub-groups named for them. */
+export function isClientLedgerGroup(parent?: string): boolean {
+  return /debtor|client|customer/i.test(parent || '');
+}
@@ -0,0 +1,87 @@
+/**
+ * Vendor master matching.
+ *
+ * Suppliers print their names inconsistently — "Reliance Retail Ltd",
+ * "RELIANCE RETAIL", "M/s. Reliance Retail Limited". Names are compared in a
+ * normalized form with case, punctuation and legal-form suffixes dropped; the
+ * GSTIN, when both sides have one, always wins over the name.
+ */
+
+import type { CaVendor, VendorGstTreatment } from '@/services/caInvoiceService';
+
+export const GST_TREATMENT_LABELS: Record<VendorGstTreatment, string> = {
+  regular: 'Regular',
+  composition: 'Composition',
+  unregistered: 'Unregistered',
+  reverse_charge: 'Reverse charge',
+};
+
+const LEGAL_FORMS = new Set([
+  'ltd', 'limited', 'pvt', 'private', 'llp', 'inc', 'co', 'corp', 'company', 'the', 'ms',
+]);
+
+/** "M/s. Reliance Retail Pvt. Ltd." → "reliance retail". */
+export function normalizeVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/m\/s\.?/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((w) => w && !LEGAL_FORMS.has(w))
+    .join(' ');
+}
+
+/** Every normalized name a vendor is known by. */
+function knownNames(vendor: CaVendor): string[] {
+  return [vendor.name, ...(vendor.aliases || [])].map(normalizeVendorName).filter(Boolean);
+}
+
+/** The vendor a seller belongs to: by GSTIN first, else by canonical name or alias. */
+export function findVendor(
+  vendors: CaVendor[],
+  seller: { name?: string; gstin?: string },
+): CaVendor | undefined {
+  const gstin = seller.gstin?.trim().toUpperCase();
+  if (gstin) {
+    const byGstin = vendors.find((v) => v.gstin === gstin);
+    if (byGstin) return byGstin;
+  }
+  const name = normalizeVendorName(seller.name || '');
+  if (!name) return undefined;
+  // A name match with a different GSTIN is a different registration, not the same vendor
+  return vendors.find((v) => knownNames(v).includes(name) && (!gstin || !v.gstin));
+}
+
+/** The vendor's aliases with `alias` added, unless it is already one of its spellings. */
+export function withAlias(vendor: Pick<CaVendor, 'name' | 'aliases'>, alias: string): string[] {
+  const spelling = alias.trim();
+  const aliases = vendor.aliases || [];
+  const taken = [vendor.name, ...aliases].some((n) => n.trim().toLowerCase() === spelling.toLowerCase());
+  return !spelling || taken ? aliases : [...aliases, spelling];
+}
+
+/**
+ * Groups of vendors that look like the same supplier: same normalized name,
+ * or one's name is another's alias. Vendors with different GSTINs are never
+ * grouped — they are separate registrations even under one name.
+ */
+export function likelyDuplicateVendors(vendors: CaVendor[]): CaVendor[][] {
+  const groups: CaVendor[][] = [];
+  const placed = new Set<string>();
+  for (const v of vendors) {
+    if (placed.has(v.id)) continue;
+    const names = new Set(knownNames(v));
+    const group = [v, ...vendors.filter((o) =>
+      o.id !== v.id
+      && !placed.has(o.id)
+      && (!v.gstin || !o.gstin || v.gstin === o.gstin)
+      && knownNames(o).some((n) => names.has(n)),
+    )];
+    if (group.length > 1) {
+      group.forEach((g) => placed.add(g.id));
+      groups.push(group);
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,72 @@
+/**
+ * Credit and debit notes.
+ *
+ * A note adjusts an earlier invoice: a credit note reduces its taxable value
+ * and GST, a debit note adds to it. Amounts on the note stay positive;
+ * `totals.direction` says which way they move the original. Which side of the
+ * books a note belongs to follows Tally's convention unless `note_side` says
+ * otherwise — Credit Note is a sales return, Debit Note a purchase return.
+ */
+
+import type { CaInvoice, InvoiceTotals } from '@/services/caInvoiceService';
+
+export const NOTE_VOUCHERS = ['Credit Note', 'Debit Note'];
+
+/** GSTR-1 / GSTR-2 reasons for issuing a note. */
+export const NOTE_REASONS = [
+  'Sales return',
+  'Post-sale discount',
+  'Deficiency in services',
+  'Correction in invoice',
+  'Change in place of supply',
+  'Finalisation of provisional assessment',
+  'Others',
+];
+
+export type LedgerSide = 'sales' | 'purchase';
+
+export const isNote = (voucherType?: string) => !!voucherType && NOTE_VOUCHERS.includes(voucherType);
+
+export function voucherSide(inv: Pick<CaInvoice, 'voucher_type' | 'note_side'>): LedgerSide {
+  switch (inv.voucher_type) {
+    case 'Sales':
+      return 'sales';
+    case 'Credit Note':
+      return inv.note_side || 'sales';
+    case 'Debit Note':
+      return inv.note_side || 'purchase';
+    default:
+      return 'purchase';
+  }
+}
+
+/** +1 when the voucher adds to taxable value and GST, −1 when it reverses them. */
+export function totalsDirection(voucherType?: string): NonNullable<InvoiceTotals['direction']> {
+  return voucherType === 'Credit Note' ? -1 : 1;
+}
+
+/** Grand total as it affects the books — negative for credit notes. */
+export function signedGrandTotal(inv: Pick<CaInvoice, 'voucher_type' | 'totals'>): number {
+  const direction = inv.totals?.direction ?? totalsDirection(inv.voucher_type);
+  return direction * (inv.totals?.grand_total || 0);
+}
+
+export const noteAbbrev = (voucherType?: string) =>
+  voucherType === 'Credit Note' ? 'CN' : voucherType === 'Debit Note' ? 'DN' : '';
+
+export interface NoteIssue {
+  code: 'missing_original_invoice';
+  message: string;
+}
+
+/** A note Tally can't tie back to a bill gets posted as an unadjusted balance. */
+export function checkInvoiceNote(
+  inv: Pick<CaInvoice, 'voucher_type' | 'original_invoice'>,
+): NoteIssue[] {
+  if (!isNote(inv.voucher_type)) return [];
+  const ref = inv.original_invoice;
+  if (!ref?.invoice_number || !ref.invoice_date) {
+    return [{ code: 'missing_original_invoice', message: `${inv.voucher_type} has no original invoice number and date` }];
+  }
+  return [];
+}
@@ -0,0 +1,218 @@
+/**
+ * TDS / TCS sections and the suggestion logic for invoices.
+ *
+ * Purchases attract TDS, deducted by the client when paying the seller; a few
+ * sales attract TCS, collected by the client from the buyer. The section is
+ * guessed from the SAC codes on the bill and the rate from the seller's PAN
+ * (embedded in its GSTIN). Thresholds are per payee, so a bill under the
+ * single-bill limit may still need TDS once the year's total crosses the
+ * annual one — the suggestion says so rather than guessing.
+ */
+
+import type {
+  CaInvoice,
+  DeducteeType,
+  InvoiceWithholding,
+  TallyConfig,
+  WithholdingKind,
+} from '@/services/caInvoiceService';
+import { voucherSide, isNote } from './vouchers';
+
+export interface WithholdingSection {
+  kind: WithholdingKind;
+  section: string;
+  label: string;
+  /** Percent for individuals/HUFs and for everyone else; equal for most sections. */
+  rate: { individual: number; other: number };
+  /** Per-bill limit; at or above it the whole bill is covered. */
+  single_threshold?: number;
+  /** Per-payee limit for the financial year. */
+  annual_threshold?: number;
+  /** SAC prefixes that point to this section; the longest matching prefix wins. */
+  sac_prefixes?: string[];
+  /** Covers purchases of goods (HSN codes) rather than services. */
+  goods?: boolean;
+}
+
+export const WITHHOLDING_SECTIONS: WithholdingSection[] = [
+  {
+    kind: 'tds', section: '194C', label: 'Contractors',
+    rate: { individual: 1, other: 2 }, single_threshold: 30000, annual_threshold: 100000,
+    sac_prefixes: ['9954', '9965', '9966', '9985', '9987', '9988', '9989'],
+  },
+  {
+    kind: 'tds', section: '194J(a)', label: 'Technical services',
+    rate: { individual: 2, other: 2 }, annual_threshold: 50000,
+    // IT consulting, design & development, hosting, network management; engineering; technical testing
+    sac_prefixes: ['998313', '998314', '998315', '998316', '998319', '99833', '99834'],
+  },
+  {
+    kind: 'tds', section: '194J(b)', label: 'Professional fees',
+    rate: { individual: 10, other: 10 }, annual_threshold: 50000,
+    sac_prefixes: ['9982', '9983'],
+  },
+  {
+    kind: 'tds', section: '194H', label: 'Commission / brokerage',
+    rate: { individual: 2, other: 2 }, annual_threshold: 20000,
+    sac_prefixes: ['99611', '99621'],
+  },
+  {
+    kind: 'tds', section: '194I(a)', label: 'Rent — plant & machinery',
+    rate: { individual: 2, other: 2 }, single_threshold: 50000,
+    sac_prefixes: ['9973'],
+  },
+  {
+    kind: 'tds', section: '194I(b)', label: 'Rent — land & building',
+    rate: { individual: 10, other: 10 }, single_threshold: 50000,
+    sac_prefixes: ['99721'],
+  },
+  {
+    kind: 'tds', section: '194Q', label: 'Purchase of goods (buyer turnover > ₹10 Cr)',
+    rate: { individual: 0.1, other: 0.1 }, annual_threshold: 5000000, goods: true,
+  },
+  {
+    kind: 'tcs', section: '206C(1)', label: 'Scrap',
+    rate: { individual: 1, other: 1 },
+  },
+  {
+    kind: 'tcs', section: '206C(1F)', label: 'Motor vehicle over ₹10 lakh',
+    rate: { individual: 1, other: 1 }, single_threshold: 1000000,
+  },
+];
+
+export const DEDUCTEE_LABELS: Record<DeducteeType, string> = {
+  individual: 'Individual',
+  huf: 'HUF',
+  company: 'Company',
+  firm: 'Firm / LLP',
+  other: 'Other',
+};
+
+export const findSection = (section: string) => WITHHOLDING_SECTIONS.find((s) => s.section === section);
+
+export const sectionsFor = (kind: WithholdingKind) => WITHHOLDING_SECTIONS.filter((s) => s.kind === kind);
+
+/** Purchases deduct TDS; sales collect TCS. */
+export const withholdingKind = (inv: Pick<CaInvoice, 'voucher_type' | 'note_side'>): WithholdingKind =>
+  voucherSide(inv) === 'sales' ? 'tcs' : 'tds';
+
+/** PAN is characters 3–12 of a GSTIN; its 4th character gives the holder's status. */
+export function deducteeTypeFromGstin(gstin?: string): DeducteeType | undefined {
+  const value = gstin?.trim().toUpperCase() || '';
+  if (value.length !== 15) return undefined;
+  switch (value[5]) {
+    case 'P': return 'individual';
+    case 'H': return 'huf';
+    case 'C': return 'company';
+    case 'F': return 'firm';
+    default: return 'other';
+  }
+}
+
+export function sectionRate(section: WithholdingSection, deductee?: DeducteeType): number {
+  return deductee === 'individual' || deductee === 'huf' ? section.rate.individual : section.rate.other;
+}
+
+/** Deducted amounts are rounded to the rupee. */
+export const withholdingAmount = (base: number, rate: number) => Math.round((base * rate) / 100);
+
+const inr = (n: number) => `₹${n.toLocaleString('en-IN')}`;
+
+export interface WithholdingSuggestion {
+  withholding: InvoiceWithholding;
+  reason: string;
+  /** Below the per-bill limit: only deduct if the payee's yearly total crosses the annual one. */
+  threshold_note?: string;
+}
+
+/** Section whose SAC prefix matches the code most specifically. */
+function sectionForSac(code: string): WithholdingSection | undefined {
+  let best: WithholdingSection | undefined;
+  let bestLength = 0;
+  for (const s of WITHHOLDING_SECTIONS) {
+    for (const p of s.sac_prefixes || []) {
+      if (code.startsWith(p) && p.length > bestLength) {
+        best = s;
+        bestLength = p.length;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * TDS the bill most likely attracts, from its SAC codes. The base is the
+ * taxable value of the matching lines — GST shown separately is excluded.
+ * Goods only point to 194Q once the bill alone crosses its annual limit;
+ * whether the client's turnover brings it under 194Q at all is left to the note.
+ */
+export function suggestWithholding(
+  inv: Pick<CaInvoice, 'voucher_type' | 'note_side' | 'seller_gstin' | 'line_items'>,
+): WithholdingSuggestion | null {
+  if (isNote(inv.voucher_type) || withholdingKind(inv) !== 'tds') return null;
+
+  const goodsSection = WITHHOLDING_SECTIONS.find((s) => s.goods)!;
+  const bySection = new Map<WithholdingSection, { base: number; sac: string }>();
+  for (const item of inv.line_items || []) {
+    const code = (item.hsn_sac_code || '').replace(/\D/g, '');
+    if (!code) continue;
+    const section = code.startsWith('99') ? sectionForSac(code) : goodsSection;
+    if (!section) continue;
+    const entry = bySection.get(section) || { base: 0, sac: code };
+    entry.base += item.taxable_amount || 0;
+    bySection.set(section, entry);
+  }
+  const goods = bySection.get(goodsSection);
+  if (goods && goods.base <= goodsSection.annual_threshold!) bySection.delete(goodsSection);
+  if (bySection.size === 0) return null;
+
+  const [section, { base, sac }] = [...bySection.entries()].sort((a, b) => b[1].base - a[1].base)[0];
+  const deductee = deducteeTypeFromGstin(inv.seller_gstin);
+  const rate = sectionRate(section, deductee);
+  const base_amount = Math.round(base * 100) / 100;
+
+  let threshold_note: string | undefined;
+  if (section.goods) {
+    threshold_note = `Only if the client's turnover last year exceeded ₹10 Cr — and then only on this year's purchases from the seller above ${inr(section.annual_threshold!)}`;
+  } else if (section.single_threshold && base_amount < section.single_threshold) {
+    threshold_note = section.annual_threshold
+      ? `Below the ${inr(section.single_threshold)} per-bill limit — deduct only if this year's payments to the seller exceed ${inr(section.annual_threshold)}`
+      : `Below the ${inr(section.single_threshold)} limit`;
+  } else if (!section.single_threshold && section.annual_threshold && base_amount < section.annual_threshold) {
+    threshold_note = `Deduct only if this year's payments to the seller exceed ${inr(section.annual_threshold)}`;
+  }
+
+  return {
+    withholding: {
+      kind: 'tds',
+      section: section.section,
+      deductee_type: deductee,
+      rate,
+      base_amount,
+      amount: withholdingAmount(base_amount, rate),
+    },
+    reason: `${section.goods ? 'HSN' : 'SAC'} ${sac} → ${section.section} (${section.label.toLowerCase()})${deductee && deductee !== 'other' ? `, seller is ${DEDUCTEE_LABELS[deductee].toLowerCase()}` : ''}`,
+    threshold_note,
+  };
+}
+
+/** TallyConfig key of the payable ledger for a section: 194J(b) → tds_194jb. */
+export const withholdingLedgerKey = (kind: WithholdingKind, section: string) =>
+  `${kind}_${section.toLowerCase().replace(/[^a-z0-9]/g, '')}`;
+
+export interface WithholdingIssue {
+  code: 'unmapped_withholding';
+  message: string;
+}
+
+/** TDS/TCS on an invoice with no payable ledger to book it to. */
+export function checkInvoiceWithholding(
+  inv: Pick<CaInvoice, 'withholding'>,
+  cfg: TallyConfig,
+): WithholdingIssue[] {
+  const w = inv.withholding;
+  if (!w || !w.amount) return [];
+  const ledger = cfg[withholdingLedgerKey(w.kind, w.section)];
+  if (typeof ledger === 'string' && ledger.trim()) return [];
+  return [{ code: 'unmapped_withholding', message: `No ${w.kind.toUpperCase()} ${w.section} ledger mapped` }];
+}